@@ -1,7 +1,10 @@
 'use server'
 
 import { supabaseServer } from '@/lib/supabase'
-import type { ExerciseWithLabels } from '@/lib/types'
+import { getCategoryId } from '@/lib/category-registry'
+import { requireUser } from '@/lib/user-auth'
+import { resolveSection, type Section, type TrainingSection } from '@/lib/sections'
+import type { ExerciseWithLabels, Kit, WorkoutSession } from '@/lib/types'
 
 // Update the ExerciseGroup type to remove fir_level references
 export type ExerciseGroup = {
@@ -12,31 +15,19 @@ export type ExerciseGroup = {
   body_sec: number
   body_section_name: string | null
   category_id?: string | null // Allow null value
+  kit_ids?: (number | null)[] // Kit its exercises need, null for none
 }
 
+// Open sessions older than this are treated as abandoned rather than resumed
+const SESSION_MAX_DURATION_MS = 4 * 60 * 60 * 1000 // 4 hours
+
 export async function getWarmupExercises(): Promise<ExerciseWithLabels[]> {
   try {
-    // First, get the warmup category ID - using ilike for case-insensitive matching
-    const { data: categoryData, error: categoryError } = await supabaseServer
-      .from('categories')
-      .select('id, name')
-      .ilike('name', '%warmup%')
-
-    if (categoryError) {
-      console.error('Error fetching warmup category:', categoryError)
+    const warmupCategoryId = await getCategoryId('warm-up')
+    if (!warmupCategoryId) {
       return []
     }
 
-    if (!categoryData || categoryData.length === 0) {
-      // Get all available categories
-      const { data: allCategories } = await supabaseServer.from('categories').select('id, name')
-
-      return []
-    }
-
-    // Use the first category that matches
-    const warmupCategoryId = categoryData[0].id
-
     // Now get all exercises in the warmup category
     const { data: exercises, error: exercisesError } = await supabaseServer
       .from('exercises')
@@ -80,27 +71,11 @@ export async function getWarmupExercises(): Promise<ExerciseWithLabels[]> {
 
 export async function getStretchExercises(): Promise<ExerciseWithLabels[]> {
   try {
-    // First, get the stretch category ID
-    const { data: categoryData, error: categoryError } = await supabaseServer
-      .from('categories')
-      .select('id, name')
-      .ilike('name', '%stretch%')
-
-    if (categoryError) {
-      console.error('Error fetching stretch category:', categoryError)
-      return []
-    }
-
-    if (!categoryData || categoryData.length === 0) {
-      // Get all available categories
-      const { data: allCategories } = await supabaseServer.from('categories').select('id, name')
-
+    const stretchCategoryId = await getCategoryId('mobilise')
+    if (!stretchCategoryId) {
       return []
     }
 
-    // Use the first category that matches
-    const stretchCategoryId = categoryData[0].id
-
     // Now get all exercises in the stretch category
     const { data: exercises, error: exercisesError } = await supabaseServer
       .from('exercises')
@@ -155,27 +130,11 @@ export async function getStretchExercises(): Promise<ExerciseWithLabels[]> {
 
 export async function getWorkoutExercises(): Promise<ExerciseWithLabels[]> {
   try {
-    // First, try to get the Workout category ID
-    const { data: categoryData, error: categoryError } = await supabaseServer
-      .from('categories')
-      .select('id, name')
-      .ilike('name', '%workout%') // Search for "workout" pattern
-
-    if (categoryError) {
-      console.error('Error fetching Workout category:', categoryError)
+    const workoutCategoryId = await getCategoryId('strengthen')
+    if (!workoutCategoryId) {
       return []
     }
 
-    if (!categoryData || categoryData.length === 0) {
-      // Get all available categories
-      const { data: allCategories } = await supabaseServer.from('categories').select('id, name')
-
-      return []
-    }
-
-    // Use the first category that matches
-    const workoutCategoryId = categoryData[0].id
-
     // Now get all exercises in the Workout category
     const { data: exercises, error: exercisesError } = await supabaseServer
       .from('exercises')
@@ -274,35 +233,17 @@ function getDefaultCategories(exerciseName: string): string[] {
 
 // Add a function to get exercises by type (to replace getExercisesByType)
 export async function getExercisesByType(
-  type: 'warmup' | 'stretch' | 'workout'
+  type: Section | 'warmup' | 'stretch' | 'workout'
 ): Promise<ExerciseWithLabels[]> {
   try {
-    // Map the type to the appropriate category name pattern
-    let categoryPattern: string
-    switch (type) {
-      case 'warmup':
-        categoryPattern = '%warmup%'
-        break
-      case 'stretch':
-        categoryPattern = '%stretch%'
-        break
-      case 'workout':
-        categoryPattern = '%workout%'
-        break
-    }
-
-    // Get the category ID
-    const { data: categoryData } = await supabaseServer
-      .from('categories')
-      .select('id')
-      .ilike('name', categoryPattern)
+    // Older callers pass the legacy names, which resolve to the same sections
+    const section = resolveSection(type)
+    const categoryId = section ? await getCategoryId(section) : null
 
-    if (!categoryData || categoryData.length === 0) {
+    if (!categoryId) {
       return []
     }
 
-    const categoryId = categoryData[0].id
-
     // Get exercises in this category
     const { data: exercises, error } = await supabaseServer
       .from('exercises')
@@ -341,7 +282,8 @@ export async function getExerciseGroups(): Promise<ExerciseGroup[]> {
         name,
         image_url,
         body_sec,
-        exercise_body_section!inner(name)
+        exercise_body_section!inner(name),
+        exercises(kit)
       `
       )
       .order('name')
@@ -367,6 +309,9 @@ export async function getExerciseGroups(): Promise<ExerciseGroup[]> {
           group.exercise_body_section.name.slice(1)
         : null,
       category_id: null, // No category_id column in the database
+      kit_ids: [
+        ...new Set<number | null>((group.exercises || []).map((exercise: any) => exercise.kit)),
+      ],
     }))
   } catch (error) {
     console.error('Error in getExerciseGroups:', error)
@@ -375,7 +320,10 @@ export async function getExerciseGroups(): Promise<ExerciseGroup[]> {
 }
 
 // Update the getExercisesByGroup function to use the exercise_group column
-export async function getExercisesByGroup(groupId: number, categoryName?: string): Promise<ExerciseWithLabels[]> {
+export async function getExercisesByGroup(
+  groupId: number,
+  categoryName?: string
+): Promise<ExerciseWithLabels[]> {
   try {
     // First, get the group details with a simpler query
     const { data: group, error: groupError } = await supabaseServer
@@ -390,14 +338,14 @@ export async function getExercisesByGroup(groupId: number, categoryName?: string
     }
 
     // Build the query
-    let query = supabaseServer
-      .from('exercises')
-      .select('*, categories!inner(id, name)')
-      .eq('exercise_group', groupId)
-    
-    // If category is specified, filter by it
+    let query = supabaseServer.from('exercises').select('*').eq('exercise_group', groupId)
+
+    // If a section is specified, only include its exercises
     if (categoryName) {
-      query = query.eq('categories.name', categoryName)
+      const section = resolveSection(categoryName)
+      const categoryId = section ? await getCategoryId(section) : null
+      if (!categoryId) return []
+      query = query.eq('category_id', categoryId)
     }
 
     // Query exercises with exercise_group = groupId (as number)
@@ -438,6 +386,7 @@ export async function getExercisesByGroup(groupId: number, categoryName?: string
         name: exercise.name,
         image: exercise.image_url || '/placeholder.svg?height=200&width=300',
         description: exercise.ex_description,
+        kit: exercise.kit,
         labels: [],
         categories: categories,
       }
@@ -448,6 +397,26 @@ export async function getExercisesByGroup(groupId: number, categoryName?: string
   }
 }
 
+// Every piece of equipment an exercise can need, for kit profiles
+export async function getKit(): Promise<Kit[] | null> {
+  try {
+    const { data, error } = await supabaseServer
+      .from('exercise_kit')
+      .select('id, name')
+      .order('name')
+
+    if (error) {
+      console.error('Error fetching kit:', error)
+      return null
+    }
+
+    return data || []
+  } catch (error) {
+    console.error('Error in getKit:', error)
+    return null
+  }
+}
+
 // Add this new function to fetch body sections from the database
 export async function getBodySections(): Promise<string[]> {
   try {
@@ -472,3 +441,136 @@ export async function getBodySections(): Promise<string[]> {
     return ['Upper', 'Lower', 'Middle'] // Fallback order if error
   }
 }
+
+/**
+ * Fetches the user's open workout session, if one was started recently
+ * @param accessToken - The signed-in user's access token
+ * @returns The active session, or null if there is none
+ */
+export async function getActiveWorkoutSession(accessToken: string): Promise<WorkoutSession | null> {
+  try {
+    const { user, supabase } = await requireUser(accessToken)
+
+    const since = new Date(Date.now() - SESSION_MAX_DURATION_MS).toISOString()
+
+    const { data, error } = await supabase
+      .from('workout_sessions')
+      .select('*')
+      .eq('user_id', user.id)
+      .is('ended_at', null)
+      .gte('started_at', since)
+      .order('started_at', { ascending: false })
+      .limit(1)
+      .maybeSingle()
+
+    if (error) {
+      console.error('Error fetching active workout session:', error)
+      return null
+    }
+
+    return data
+  } catch (error) {
+    console.error('Error in getActiveWorkoutSession:', error)
+    return null
+  }
+}
+
+/**
+ * Starts a workout session, resuming the open one if the user already has it
+ * @param accessToken - The signed-in user's access token
+ * @returns The active session, or null on error
+ */
+export async function startWorkoutSession(accessToken: string): Promise<WorkoutSession | null> {
+  try {
+    const { user, supabase } = await requireUser(accessToken)
+
+    const activeSession = await getActiveWorkoutSession(accessToken)
+    if (activeSession) return activeSession
+
+    const { data, error } = await supabase
+      .from('workout_sessions')
+      .insert({ user_id: user.id, started_at: new Date().toISOString() })
+      .select()
+      .single()
+
+    if (error) {
+      console.error('Error starting workout session:', error)
+      return null
+    }
+
+    return data
+  } catch (error) {
+    console.error('Error in startWorkoutSession:', error)
+    return null
+  }
+}
+
+/**
+ * Records which training day the user followed in a session
+ * @param accessToken - The signed-in user's access token
+ * @param sessionId - The ID of the session
+ * @param category - The section the day belongs to
+ * @param dayId - The training day number from useTrainingDays
+ * @returns The updated session, or null on error
+ */
+export async function setSessionTrainingDay(
+  accessToken: string,
+  sessionId: string,
+  category: TrainingSection,
+  dayId: number
+): Promise<WorkoutSession | null> {
+  try {
+    const { user, supabase } = await requireUser(accessToken)
+
+    const column = category === 'recover' ? 'recover_day_id' : 'strengthen_day_id'
+
+    const { data, error } = await supabase
+      .from('workout_sessions')
+      .update({ [column]: dayId })
+      .eq('id', sessionId)
+      .eq('user_id', user.id)
+      .select()
+      .single()
+
+    if (error) {
+      console.error('Error setting session training day:', error)
+      return null
+    }
+
+    return data
+  } catch (error) {
+    console.error('Error in setSessionTrainingDay:', error)
+    return null
+  }
+}
+
+/**
+ * Closes a workout session
+ * @param accessToken - The signed-in user's access token
+ * @param sessionId - The ID of the session
+ * @returns Success status
+ */
+export async function endWorkoutSession(
+  accessToken: string,
+  sessionId: string
+): Promise<{ success: boolean }> {
+  try {
+    const { user, supabase } = await requireUser(accessToken)
+
+    const { error } = await supabase
+      .from('workout_sessions')
+      .update({ ended_at: new Date().toISOString() })
+      .eq('id', sessionId)
+      .eq('user_id', user.id)
+
+    if (error) {
+      console.error('Error ending workout session:', error)
+      return { success: false }
+    }
+
+    return { success: true }
+  } catch (error) {
+    console.error('Error in endWorkoutSession:', error)
+    return { success: false }
+  }
+}
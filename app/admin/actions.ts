@@ -0,0 +1,801 @@
+'use server'
+
+import type { User } from '@supabase/supabase-js'
+import { supabaseServer } from '@/lib/supabase'
+import { isStaff } from '@/lib/roles'
+import { getStaffUser } from '@/lib/staff-auth'
+import { getCategoryId } from '@/lib/category-registry'
+import { isTrainingSection, type TrainingSection } from '@/lib/sections'
+import { groupRestSchema } from '@/lib/exercise-schema'
+import type {
+  AdminClient,
+  AdminDayExercise,
+  AdminExerciseSwap,
+  AdminExercise,
+  AdminExerciseGroup,
+  AdminExerciseOption,
+  AdminTrainingDay,
+  ExerciseFormData,
+  ExerciseFormOptions,
+} from '@/lib/types'
+
+const DAY_IMAGE_BUCKET = 'day-images'
+// Accounts fetched per request when listing clients
+const USERS_PAGE_SIZE = 1000
+const MAX_DAY_IMAGE_BYTES = 5 * 1024 * 1024
+
+// Portal actions take the caller's access token and do nothing unless it belongs to staff
+async function requireStaff(accessToken: string): Promise<boolean> {
+  return (await getStaffUser(accessToken)) !== null
+}
+
+const toAdminClient = (user: User): AdminClient => ({
+  id: user.id,
+  email: user.email || '',
+  created_at: user.created_at,
+  last_sign_in_at: user.last_sign_in_at || null,
+})
+
+/**
+ * Lists every client account, excluding coaches and admins
+ * @param accessToken - The caller's Supabase access token
+ * @returns Clients ordered by email, empty array on error or if the caller isn't staff
+ */
+export async function listClients(accessToken: string): Promise<AdminClient[]> {
+  if (!(await requireStaff(accessToken))) return []
+
+  try {
+    const users: User[] = []
+    for (let page = 1; ; page++) {
+      const { data, error } = await supabaseServer.auth.admin.listUsers({
+        page,
+        perPage: USERS_PAGE_SIZE,
+      })
+
+      if (error) {
+        console.error('Error listing clients:', error)
+        return []
+      }
+
+      users.push(...data.users)
+      if (data.users.length < USERS_PAGE_SIZE) break
+    }
+
+    return users
+      .filter(user => !isStaff(user))
+      .map(toAdminClient)
+      .sort((a, b) => a.email.localeCompare(b.email))
+  } catch (error) {
+    console.error('Error in listClients:', error)
+    return []
+  }
+}
+
+/**
+ * Fetches a single client account
+ * @param accessToken - The caller's Supabase access token
+ * @param clientId - The ID of the client
+ * @returns The client if found, null otherwise
+ */
+export async function getClient(
+  accessToken: string,
+  clientId: string
+): Promise<AdminClient | null> {
+  if (!(await requireStaff(accessToken))) return null
+
+  try {
+    const { data, error } = await supabaseServer.auth.admin.getUserById(clientId)
+
+    if (error || !data.user) {
+      console.error('Error fetching client:', error)
+      return null
+    }
+
+    return toAdminClient(data.user)
+  } catch (error) {
+    console.error('Error in getClient:', error)
+    return null
+  }
+}
+
+// A day's exercise with the fields the day editor shows, as selected by getClientTrainingDays
+type DayExerciseRow = {
+  id: number
+  day_id: number
+  exercise_id: number
+  sort_order: number
+  exercises: {
+    name: string
+    image_url: string | null
+    category_id: string
+    exercise_groups: { name: string } | null
+  }
+}
+
+/**
+ * Fetches a client's training days for a section with their exercises in order
+ * @param accessToken - The caller's Supabase access token
+ * @param clientId - The ID of the client
+ * @param category - The section the days belong to
+ * @returns Days ordered by day number, empty array on error
+ */
+export async function getClientTrainingDays(
+  accessToken: string,
+  clientId: string,
+  category: TrainingSection
+): Promise<AdminTrainingDay[]> {
+  if (!(await requireStaff(accessToken))) return []
+
+  try {
+    const categoryId = await getCategoryId(category)
+    if (!categoryId) {
+      return []
+    }
+
+    const { data: assignments, error: assignmentsError } = await supabaseServer
+      .from('user_day_assignments')
+      .select('day_id, image_url')
+      .eq('user_id', clientId)
+      .eq('category_id', categoryId)
+      .order('day_id')
+      .overrideTypes<Omit<AdminTrainingDay, 'exercises'>[], { merge: false }>()
+
+    if (assignmentsError) {
+      console.error('Error fetching client training days:', assignmentsError)
+      return []
+    }
+
+    const { data: dayExercises, error: exercisesError } = await supabaseServer
+      .from('user_day_exercise')
+      .select(
+        `
+        id,
+        day_id,
+        exercise_id,
+        sort_order,
+        exercises!inner (
+          name,
+          image_url,
+          category_id,
+          exercise_groups (name)
+        )
+      `
+      )
+      .eq('user_id', clientId)
+      .eq('exercises.category_id', categoryId)
+      .order('sort_order')
+      .overrideTypes<DayExerciseRow[], { merge: false }>()
+
+    if (exercisesError) {
+      console.error('Error fetching client day exercises:', exercisesError)
+      return []
+    }
+
+    return (assignments || []).map(assignment => ({
+      day_id: assignment.day_id,
+      image_url: assignment.image_url,
+      exercises: (dayExercises || [])
+        .filter(entry => entry.day_id === assignment.day_id)
+        .map(
+          (entry): AdminDayExercise => ({
+            id: entry.id,
+            exercise_id: entry.exercise_id,
+            name: entry.exercises.name,
+            image_url: entry.exercises.image_url,
+            group_name: entry.exercises.exercise_groups?.name || null,
+            sort_order: entry.sort_order,
+          })
+        ),
+    }))
+  } catch (error) {
+    console.error('Error in getClientTrainingDays:', error)
+    return []
+  }
+}
+
+/**
+ * Creates Day N for a client in a section
+ * @param accessToken - The caller's Supabase access token
+ * @param clientId - The ID of the client
+ * @param category - The section the day belongs to
+ * @param dayId - The day number
+ * @returns Success status
+ */
+export async function createTrainingDay(
+  accessToken: string,
+  clientId: string,
+  category: TrainingSection,
+  dayId: number
+): Promise<{ success: boolean }> {
+  if (!Number.isInteger(dayId) || dayId < 1) return { success: false }
+  if (!(await requireStaff(accessToken))) return { success: false }
+
+  try {
+    const categoryId = await getCategoryId(category)
+    if (!categoryId) return { success: false }
+
+    const { error } = await supabaseServer.from('user_day_assignments').insert({
+      user_id: clientId,
+      day_id: dayId,
+      category_id: categoryId,
+    })
+
+    if (error) {
+      console.error('Error creating training day:', error)
+      return { success: false }
+    }
+
+    return { success: true }
+  } catch (error) {
+    console.error('Error in createTrainingDay:', error)
+    return { success: false }
+  }
+}
+
+/**
+ * Removes Day N and its exercises from a client's section
+ * @param accessToken - The caller's Supabase access token
+ * @param clientId - The ID of the client
+ * @param category - The section the day belongs to
+ * @param dayId - The day number
+ * @returns Success status
+ */
+export async function deleteTrainingDay(
+  accessToken: string,
+  clientId: string,
+  category: TrainingSection,
+  dayId: number
+): Promise<{ success: boolean }> {
+  if (!(await requireStaff(accessToken))) return { success: false }
+
+  try {
+    const categoryId = await getCategoryId(category)
+    if (!categoryId) return { success: false }
+
+    // Strengthen and recover days share day numbers, so only this section's exercises go
+    const { data: entries, error: entriesError } = await supabaseServer
+      .from('user_day_exercise')
+      .select('id, exercises!inner(category_id)')
+      .eq('user_id', clientId)
+      .eq('day_id', dayId)
+      .eq('exercises.category_id', categoryId)
+
+    if (entriesError) {
+      console.error('Error fetching day exercises to delete:', entriesError)
+      return { success: false }
+    }
+
+    const entryIds = (entries || []).map(entry => entry.id)
+    if (entryIds.length > 0) {
+      const { error: exercisesError } = await supabaseServer
+        .from('user_day_exercise')
+        .delete()
+        .eq('user_id', clientId)
+        .eq('day_id', dayId)
+        .in('id', entryIds)
+
+      if (exercisesError) {
+        console.error('Error deleting day exercises:', exercisesError)
+        return { success: false }
+      }
+    }
+
+    const { error } = await supabaseServer
+      .from('user_day_assignments')
+      .delete()
+      .eq('user_id', clientId)
+      .eq('day_id', dayId)
+      .eq('category_id', categoryId)
+
+    if (error) {
+      console.error('Error deleting training day:', error)
+      return { success: false }
+    }
+
+    return { success: true }
+  } catch (error) {
+    console.error('Error in deleteTrainingDay:', error)
+    return { success: false }
+  }
+}
+
+// A swap with its day and both exercises, as selected by getClientExerciseSwaps
+type ExerciseSwapRow = Omit<AdminExerciseSwap, 'day_id' | 'original_name' | 'replacement_name'> & {
+  user_day_exercise: { day_id: number }
+  original: { name: string; category_id: string }
+  replacement: { name: string }
+}
+
+/**
+ * Lists the exercise swaps a client has made on their training days in a section
+ * @param accessToken - The caller's Supabase access token
+ * @param clientId - The ID of the client
+ * @param category - The section the swapped exercises belong to
+ * @returns Swaps newest first, restored ones included, empty array on error
+ */
+export async function getClientExerciseSwaps(
+  accessToken: string,
+  clientId: string,
+  category: TrainingSection
+): Promise<AdminExerciseSwap[]> {
+  if (!(await requireStaff(accessToken))) return []
+
+  try {
+    const categoryId = await getCategoryId(category)
+    if (!categoryId) return []
+
+    const { data, error } = await supabaseServer
+      .from('exercise_swaps')
+      .select(
+        `
+        id,
+        scope,
+        swap_date,
+        reason,
+        restored_at,
+        created_at,
+        user_day_exercise (day_id),
+        original:exercises!original_exercise_id!inner (name, category_id),
+        replacement:exercises!replacement_exercise_id (name)
+      `
+      )
+      .eq('user_id', clientId)
+      .eq('original.category_id', categoryId)
+      .order('created_at', { ascending: false })
+      .overrideTypes<ExerciseSwapRow[], { merge: false }>()
+
+    if (error) {
+      console.error('Error fetching client exercise swaps:', error)
+      return []
+    }
+
+    return (data || []).map(swap => ({
+      id: swap.id,
+      day_id: swap.user_day_exercise.day_id,
+      original_name: swap.original.name,
+      replacement_name: swap.replacement.name,
+      scope: swap.scope,
+      swap_date: swap.swap_date,
+      reason: swap.reason,
+      restored_at: swap.restored_at,
+      created_at: swap.created_at,
+    }))
+  } catch (error) {
+    console.error('Error in getClientExerciseSwaps:', error)
+    return []
+  }
+}
+
+// An exercise with its group's name, as selected by getAssignableExercises
+type AssignableExerciseRow = {
+  id: number
+  name: string
+  image_url: string | null
+  exercise_group: number | null
+  exercise_groups: { name: string } | null
+}
+
+/**
+ * Lists the exercises a coach can add to a day in a section
+ * @param accessToken - The caller's Supabase access token
+ * @param category - The section to list exercises for
+ * @returns Exercises ordered by group then name, empty array on error
+ */
+export async function getAssignableExercises(
+  accessToken: string,
+  category: TrainingSection
+): Promise<AdminExerciseOption[]> {
+  if (!(await requireStaff(accessToken))) return []
+
+  try {
+    const categoryId = await getCategoryId(category)
+    if (!categoryId) return []
+
+    const { data, error } = await supabaseServer
+      .from('exercises')
+      .select('id, name, image_url, exercise_group, exercise_groups (name)')
+      .eq('category_id', categoryId)
+      .order('name')
+      .overrideTypes<AssignableExerciseRow[], { merge: false }>()
+
+    if (error) {
+      console.error('Error fetching assignable exercises:', error)
+      return []
+    }
+
+    return (data || []).map(exercise => ({
+      id: exercise.id,
+      name: exercise.name,
+      image_url: exercise.image_url,
+      group_id: exercise.exercise_group,
+      group_name: exercise.exercise_groups?.name || null,
+    }))
+  } catch (error) {
+    console.error('Error in getAssignableExercises:', error)
+    return []
+  }
+}
+
+/**
+ * Adds an exercise to the end of a client's training day
+ * @param accessToken - The caller's Supabase access token
+ * @param clientId - The ID of the client
+ * @param category - The section the day belongs to
+ * @param dayId - The day number
+ * @param exerciseId - The ID of the exercise to add
+ * @param sortOrder - Position of the exercise within the day
+ * @returns Success status and the new entry's id
+ */
+export async function addDayExercise(
+  accessToken: string,
+  clientId: string,
+  category: TrainingSection,
+  dayId: number,
+  exerciseId: number,
+  sortOrder: number
+): Promise<{ success: boolean; id?: number }> {
+  if (!(await requireStaff(accessToken))) return { success: false }
+
+  try {
+    const categoryId = await getCategoryId(category)
+    if (!categoryId) return { success: false }
+
+    // The client must have this day in the section, and the exercise must belong to it
+    const [{ data: assignment, error: assignmentError }, { data: exercise, error: exerciseError }] =
+      await Promise.all([
+        supabaseServer
+          .from('user_day_assignments')
+          .select('day_id')
+          .eq('user_id', clientId)
+          .eq('day_id', dayId)
+          .eq('category_id', categoryId)
+          .maybeSingle(),
+        supabaseServer.from('exercises').select('category_id').eq('id', exerciseId).maybeSingle(),
+      ])
+
+    if (assignmentError || exerciseError) {
+      console.error('Error checking day exercise:', assignmentError || exerciseError)
+      return { success: false }
+    }
+    if (!assignment || exercise?.category_id !== categoryId) {
+      console.error(`Exercise ${exerciseId} can't be added to ${category} Day ${dayId}`)
+      return { success: false }
+    }
+
+    const { data, error } = await supabaseServer
+      .from('user_day_exercise')
+      .insert({
+        user_id: clientId,
+        day_id: dayId,
+        exercise_id: exerciseId,
+        sort_order: sortOrder,
+      })
+      .select('id')
+      .single()
+
+    if (error) {
+      console.error('Error adding day exercise:', error)
+      return { success: false }
+    }
+
+    return { success: true, id: data.id }
+  } catch (error) {
+    console.error('Error in addDayExercise:', error)
+    return { success: false }
+  }
+}
+
+/**
+ * Removes an exercise from a client's training day
+ * @param accessToken - The caller's Supabase access token
+ * @param entryId - The user_day_exercise id
+ * @returns Success status
+ */
+export async function removeDayExercise(
+  accessToken: string,
+  entryId: number
+): Promise<{ success: boolean }> {
+  if (!(await requireStaff(accessToken))) return { success: false }
+
+  try {
+    const { error } = await supabaseServer.from('user_day_exercise').delete().eq('id', entryId)
+
+    if (error) {
+      console.error('Error removing day exercise:', error)
+      return { success: false }
+    }
+
+    return { success: true }
+  } catch (error) {
+    console.error('Error in removeDayExercise:', error)
+    return { success: false }
+  }
+}
+
+/**
+ * Saves the order of a training day's exercises
+ * @param accessToken - The caller's Supabase access token
+ * @param entryIds - The day's user_day_exercise ids in their new order
+ * @returns Success status
+ */
+export async function reorderDayExercises(
+  accessToken: string,
+  entryIds: number[]
+): Promise<{ success: boolean }> {
+  if (!(await requireStaff(accessToken))) return { success: false }
+
+  try {
+    const results = await Promise.all(
+      entryIds.map((id, index) =>
+        supabaseServer.from('user_day_exercise').update({ sort_order: index }).eq('id', id)
+      )
+    )
+
+    const failed = results.find(result => result.error)
+    if (failed) {
+      console.error('Error reordering day exercises:', failed.error)
+      return { success: false }
+    }
+
+    return { success: true }
+  } catch (error) {
+    console.error('Error in reorderDayExercises:', error)
+    return { success: false }
+  }
+}
+
+/**
+ * Uploads the image shown for a client's training day
+ * @param accessToken - The caller's Supabase access token
+ * @param formData - clientId, category, dayId and the image file
+ * @returns Success status and the public URL of the uploaded image
+ */
+export async function uploadDayImage(
+  accessToken: string,
+  formData: FormData
+): Promise<{ success: boolean; imageUrl?: string; error?: string }> {
+  if (!(await requireStaff(accessToken))) return { success: false, error: 'Not authorised' }
+
+  const clientId = formData.get('clientId')
+  const category = formData.get('category')
+  const dayId = Number(formData.get('dayId'))
+  const file = formData.get('file')
+
+  if (
+    typeof clientId !== 'string' ||
+    !isTrainingSection(category) ||
+    !Number.isInteger(dayId) ||
+    !(file instanceof File)
+  ) {
+    return { success: false, error: 'Invalid upload' }
+  }
+  if (!file.type.startsWith('image/')) {
+    return { success: false, error: 'Please choose an image file' }
+  }
+  if (file.size > MAX_DAY_IMAGE_BYTES) {
+    return { success: false, error: 'Images must be 5 MB or smaller' }
+  }
+
+  try {
+    const categoryId = await getCategoryId(category)
+    if (!categoryId) return { success: false, error: 'Category not found' }
+
+    const extension = file.name.split('.').pop() || 'jpg'
+    const path = `${clientId}/${category}-day-${dayId}-${Date.now()}.${extension}`
+
+    const { error: uploadError } = await supabaseServer.storage
+      .from(DAY_IMAGE_BUCKET)
+      .upload(path, file, { contentType: file.type })
+
+    if (uploadError) {
+      console.error('Error uploading day image:', uploadError)
+      return { success: false, error: 'Upload failed' }
+    }
+
+    const {
+      data: { publicUrl },
+    } = supabaseServer.storage.from(DAY_IMAGE_BUCKET).getPublicUrl(path)
+
+    const { error } = await supabaseServer
+      .from('user_day_assignments')
+      .update({ image_url: publicUrl })
+      .eq('user_id', clientId)
+      .eq('day_id', dayId)
+      .eq('category_id', categoryId)
+
+    if (error) {
+      console.error('Error saving day image:', error)
+      return { success: false, error: 'Failed to save the image' }
+    }
+
+    return { success: true, imageUrl: publicUrl }
+  } catch (error) {
+    console.error('Error in uploadDayImage:', error)
+    return { success: false, error: 'Upload failed' }
+  }
+}
+
+/**
+ * Fetches the sections, groups, muscles and kit the exercise form can assign
+ * @param accessToken - The caller's Supabase access token
+ * @returns Options ordered by name, empty lists on error
+ */
+export async function getExerciseFormOptions(accessToken: string): Promise<ExerciseFormOptions> {
+  const empty: ExerciseFormOptions = { categories: [], groups: [], muscles: [], kits: [] }
+  if (!(await requireStaff(accessToken))) return empty
+
+  try {
+    const [categories, groups, muscles, kits] = await Promise.all([
+      supabaseServer.from('categories').select('id, name').order('name'),
+      supabaseServer.from('exercise_groups').select('id, name').order('name'),
+      supabaseServer.from('body_muscles').select('id, name').order('id'),
+      supabaseServer.from('exercise_kit').select('id, name').order('name'),
+    ])
+
+    const failed = [categories, groups, muscles, kits].find(result => result.error)
+    if (failed) {
+      console.error('Error fetching exercise form options:', failed.error)
+      return empty
+    }
+
+    return {
+      categories: categories.data || [],
+      groups: groups.data || [],
+      muscles: muscles.data || [],
+      kits: kits.data || [],
+    }
+  } catch (error) {
+    console.error('Error in getExerciseFormOptions:', error)
+    return empty
+  }
+}
+
+// An exercise with its group's name, as selected by getLibraryExercises
+type LibraryExerciseRow = Omit<AdminExercise, 'group_name'> & {
+  exercise_groups: { name: string } | null
+}
+
+/**
+ * Lists the exercises in a section in the order users see them
+ * @param accessToken - The caller's Supabase access token
+ * @param categoryId - The ID of the section's category
+ * @returns Exercises ordered by sort_order, empty array on error
+ */
+export async function getLibraryExercises(
+  accessToken: string,
+  categoryId: string
+): Promise<AdminExercise[]> {
+  if (!(await requireStaff(accessToken))) return []
+
+  try {
+    const { data, error } = await supabaseServer
+      .from('exercises')
+      .select('id, name, image_url, sort_order, exercise_groups (name)')
+      .eq('category_id', categoryId)
+      .order('sort_order')
+      .overrideTypes<LibraryExerciseRow[], { merge: false }>()
+
+    if (error) {
+      console.error('Error fetching library exercises:', error)
+      return []
+    }
+
+    return (data || []).map(exercise => ({
+      id: exercise.id,
+      name: exercise.name,
+      image_url: exercise.image_url,
+      sort_order: exercise.sort_order,
+      group_name: exercise.exercise_groups?.name || null,
+    }))
+  } catch (error) {
+    console.error('Error in getLibraryExercises:', error)
+    return []
+  }
+}
+
+/**
+ * Lists the exercise groups with the rest their exercises fall back on
+ * @param accessToken - The caller's Supabase access token
+ * @returns Groups ordered by name, empty array on error
+ */
+export async function getExerciseGroups(accessToken: string): Promise<AdminExerciseGroup[]> {
+  if (!(await requireStaff(accessToken))) return []
+
+  try {
+    const { data, error } = await supabaseServer
+      .from('exercise_groups')
+      .select('id, name, rest_seconds')
+      .order('name')
+
+    if (error) {
+      console.error('Error fetching exercise groups:', error)
+      return []
+    }
+
+    return data || []
+  } catch (error) {
+    console.error('Error in getExerciseGroups:', error)
+    return []
+  }
+}
+
+/**
+ * Saves the rest between sets for a group's exercises that don't set their own
+ * @param accessToken - The caller's Supabase access token
+ * @param groupId - The ID of the exercise group
+ * @param restSeconds - The rest in seconds, or null for the app's default
+ * @returns Success status
+ */
+export async function updateGroupRestSeconds(
+  accessToken: string,
+  groupId: number,
+  restSeconds: number | null
+): Promise<{ success: boolean; error?: string }> {
+  if (!(await requireStaff(accessToken))) return { success: false, error: 'Not authorised' }
+
+  const parsed = groupRestSchema.safeParse({ rest_seconds: restSeconds })
+  if (!parsed.success) {
+    console.error('Invalid group rest:', parsed.error.flatten())
+    return { success: false, error: 'Rest must be whole seconds from 0 to 600' }
+  }
+
+  try {
+    const { error } = await supabaseServer
+      .from('exercise_groups')
+      .update(parsed.data)
+      .eq('id', groupId)
+
+    if (error) {
+      console.error('Error saving group rest:', error)
+      return { success: false, error: 'Failed to save' }
+    }
+
+    return { success: true }
+  } catch (error) {
+    console.error('Error in updateGroupRestSeconds:', error)
+    return { success: false, error: 'Failed to save' }
+  }
+}
+
+/**
+ * Fetches an exercise's stored values for the edit form
+ * @param accessToken - The caller's Supabase access token
+ * @param exerciseId - The ID of the exercise
+ * @returns The form values if found, null otherwise
+ */
+export async function getExerciseFormData(
+  accessToken: string,
+  exerciseId: number
+): Promise<ExerciseFormData | null> {
+  if (!(await requireStaff(accessToken))) return null
+
+  try {
+    const { data, error } = await supabaseServer
+      .from('exercises')
+      .select('*')
+      .eq('id', exerciseId)
+      .single()
+
+    if (error || !data) {
+      console.error('Error fetching exercise for editing:', error)
+      return null
+    }
+
+    return {
+      name: data.name,
+      description: data.ex_description,
+      image_url: data.image_url,
+      video_url: data.video_url,
+      video_url_2: data.video_url_2,
+      video_url_3: data.video_url_3,
+      category_id: data.category_id,
+      exercise_group: data.exercise_group,
+      body_muscle: data.body_muscle,
+      kit: data.kit,
+      rest_seconds: data.rest_seconds,
+    }
+  } catch (error) {
+    console.error('Error in getExerciseFormData:', error)
+    return null
+  }
+}
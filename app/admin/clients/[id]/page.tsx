@@ -0,0 +1,241 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { useParams } from 'next/navigation'
+import { AlertCircle, Loader2, Plus } from 'lucide-react'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { Button } from '@/components/ui/button'
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import { BackButton } from '@/components/layout/back-button'
+import { ExerciseSwapHistory, TrainingDayEditor } from '@/components/admin'
+import { useAuth } from '@/components/auth/auth-provider'
+import {
+  createTrainingDay,
+  getAssignableExercises,
+  getClient,
+  getClientExerciseSwaps,
+  getClientTrainingDays,
+} from '@/app/admin/actions'
+import { invalidateQueries } from '@/lib/query-client'
+import { queryKeys } from '@/lib/query-keys'
+import type { TrainingSection } from '@/lib/sections'
+import type {
+  AdminClient,
+  AdminExerciseOption,
+  AdminExerciseSwap,
+  AdminTrainingDay,
+} from '@/lib/types'
+
+const SECTIONS: { value: TrainingSection; label: string }[] = [
+  { value: 'strengthen', label: 'Strengthen' },
+  { value: 'recover', label: 'Recover' },
+]
+
+export default function AdminClientPage() {
+  const params = useParams()
+  const clientId = params.id as string
+  const { session } = useAuth()
+  const [client, setClient] = useState<AdminClient | null>(null)
+  const [loading, setLoading] = useState(true)
+
+  const accessToken = session?.access_token
+
+  useEffect(() => {
+    if (!accessToken) return
+
+    let mounted = true
+
+    async function loadClient() {
+      try {
+        if (!accessToken) return
+        const clientData = await getClient(accessToken, clientId)
+        if (mounted) setClient(clientData)
+      } catch (error) {
+        console.error('Error loading client:', error)
+      } finally {
+        if (mounted) setLoading(false)
+      }
+    }
+
+    loadClient()
+
+    return () => {
+      mounted = false
+    }
+  }, [accessToken, clientId])
+
+  return (
+    <div className="container mx-auto px-4 py-6">
+      <div className="mb-6">
+        <BackButton href="/admin" />
+      </div>
+
+      {loading ? (
+        <div className="flex justify-center items-center py-8" aria-busy="true" aria-live="polite">
+          <Loader2 className="h-6 w-6 animate-spin text-primary mr-2" />
+          <span>Loading client...</span>
+        </div>
+      ) : !client || !accessToken ? (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>Client not found.</AlertDescription>
+        </Alert>
+      ) : (
+        <>
+          <h1 className="text-2xl font-bold break-all">{client.email}</h1>
+          <p className="text-sm text-muted-foreground mb-6">
+            Set up the training days this client follows in Strengthen and Recover, and see the
+            exercises they've swapped.
+          </p>
+
+          <Tabs defaultValue="strengthen">
+            <TabsList className="mb-4">
+              {SECTIONS.map(section => (
+                <TabsTrigger key={section.value} value={section.value}>
+                  {section.label}
+                </TabsTrigger>
+              ))}
+            </TabsList>
+            {SECTIONS.map(section => (
+              <TabsContent key={section.value} value={section.value}>
+                <SectionDays
+                  accessToken={accessToken}
+                  clientId={client.id}
+                  category={section.value}
+                />
+              </TabsContent>
+            ))}
+          </Tabs>
+        </>
+      )}
+    </div>
+  )
+}
+
+interface SectionDaysProps {
+  accessToken: string
+  clientId: string
+  category: TrainingSection
+}
+
+const SectionDays = ({ accessToken, clientId, category }: SectionDaysProps) => {
+  const [days, setDays] = useState<AdminTrainingDay[]>([])
+  const [exerciseOptions, setExerciseOptions] = useState<AdminExerciseOption[]>([])
+  const [swaps, setSwaps] = useState<AdminExerciseSwap[]>([])
+  const [loading, setLoading] = useState(true)
+  const [isCreating, setIsCreating] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    let mounted = true
+
+    async function loadDays() {
+      try {
+        setLoading(true)
+        const [trainingDays, options, clientSwaps] = await Promise.all([
+          getClientTrainingDays(accessToken, clientId, category),
+          getAssignableExercises(accessToken, category),
+          getClientExerciseSwaps(accessToken, clientId, category),
+        ])
+        if (!mounted) return
+        setDays(trainingDays)
+        setExerciseOptions(options)
+        setSwaps(clientSwaps)
+      } catch (err) {
+        console.error('Error loading training days:', err)
+        if (mounted) setError('Failed to load training days')
+      } finally {
+        if (mounted) setLoading(false)
+      }
+    }
+
+    loadDays()
+
+    return () => {
+      mounted = false
+    }
+  }, [accessToken, clientId, category])
+
+  const nextDayId = days.length > 0 ? Math.max(...days.map(day => day.day_id)) + 1 : 1
+
+  const handleCreateDay = async () => {
+    setIsCreating(true)
+    setError(null)
+
+    try {
+      const result = await createTrainingDay(accessToken, clientId, category, nextDayId)
+      if (!result.success) {
+        setError(`Failed to create Day ${nextDayId}. Please try again.`)
+        return
+      }
+
+      invalidateQueries(queryKeys.user(clientId))
+      setDays(prev => [...prev, { day_id: nextDayId, image_url: null, exercises: [] }])
+    } catch (err) {
+      console.error('Error creating training day:', err)
+      setError('An unexpected error occurred. Please try again.')
+    } finally {
+      setIsCreating(false)
+    }
+  }
+
+  const handleDayChange = useCallback((updatedDay: AdminTrainingDay) => {
+    setDays(prev => prev.map(day => (day.day_id === updatedDay.day_id ? updatedDay : day)))
+  }, [])
+
+  const handleDayDelete = useCallback((dayId: number) => {
+    setDays(prev => prev.filter(day => day.day_id !== dayId))
+  }, [])
+
+  if (loading) {
+    return (
+      <div className="flex justify-center items-center py-8" aria-busy="true" aria-live="polite">
+        <Loader2 className="h-6 w-6 animate-spin text-primary mr-2" />
+        <span>Loading training days...</span>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      {error && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {days.length === 0 && (
+        <p className="text-center text-muted-foreground py-4">No training days yet.</p>
+      )}
+
+      {days.map(day => (
+        <TrainingDayEditor
+          key={day.day_id}
+          accessToken={accessToken}
+          clientId={clientId}
+          category={category}
+          day={day}
+          exerciseOptions={exerciseOptions}
+          onChange={handleDayChange}
+          onDelete={handleDayDelete}
+        />
+      ))}
+
+      <Button
+        onClick={handleCreateDay}
+        disabled={isCreating}
+        className="w-full bg-orange-500 hover:bg-orange-600 text-white"
+      >
+        {isCreating ? (
+          <Loader2 className="h-4 w-4 animate-spin mr-2" />
+        ) : (
+          <Plus className="h-4 w-4 mr-2" />
+        )}
+        Add Day {nextDayId}
+      </Button>
+
+      <ExerciseSwapHistory swaps={swaps} />
+    </div>
+  )
+}
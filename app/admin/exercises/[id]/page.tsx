@@ -0,0 +1,85 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { useParams, useRouter } from 'next/navigation'
+import { AlertCircle, Loader2 } from 'lucide-react'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { BackButton } from '@/components/layout/back-button'
+import { ExerciseForm } from '@/components/admin'
+import { useAuth } from '@/components/auth/auth-provider'
+import { getExerciseFormData, getExerciseFormOptions } from '@/app/admin/actions'
+import type { ExerciseFormData, ExerciseFormOptions } from '@/lib/types'
+
+export default function EditExercisePage() {
+  const params = useParams()
+  const router = useRouter()
+  const { session } = useAuth()
+  const [options, setOptions] = useState<ExerciseFormOptions | null>(null)
+  const [exercise, setExercise] = useState<ExerciseFormData | null>(null)
+  const [loading, setLoading] = useState(true)
+
+  const exerciseId = Number.parseInt(params.id as string)
+  const accessToken = session?.access_token
+
+  useEffect(() => {
+    if (!accessToken || isNaN(exerciseId)) {
+      setLoading(false)
+      return
+    }
+
+    let mounted = true
+
+    async function loadExercise() {
+      try {
+        if (!accessToken) return
+        const [formOptions, formData] = await Promise.all([
+          getExerciseFormOptions(accessToken),
+          getExerciseFormData(accessToken, exerciseId),
+        ])
+        if (!mounted) return
+        setOptions(formOptions)
+        setExercise(formData)
+      } catch (error) {
+        console.error('Error loading exercise:', error)
+      } finally {
+        if (mounted) setLoading(false)
+      }
+    }
+
+    loadExercise()
+
+    return () => {
+      mounted = false
+    }
+  }, [accessToken, exerciseId])
+
+  return (
+    <div className="container mx-auto px-4 py-6">
+      <div className="mb-6">
+        <BackButton href="/admin/exercises" />
+      </div>
+
+      <h1 className="text-2xl font-bold mb-6">Edit exercise</h1>
+
+      {loading ? (
+        <div className="flex justify-center items-center py-8" aria-busy="true" aria-live="polite">
+          <Loader2 className="h-6 w-6 animate-spin text-primary mr-2" />
+          <span>Loading exercise...</span>
+        </div>
+      ) : !exercise || !options || !accessToken ? (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>Exercise not found.</AlertDescription>
+        </Alert>
+      ) : (
+        <ExerciseForm
+          accessToken={accessToken}
+          options={options}
+          exerciseId={exerciseId}
+          initialData={exercise}
+          onSaved={() => router.push('/admin/exercises')}
+        />
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,169 @@
+'use client'
+
+import type React from 'react'
+import { useState, useEffect } from 'react'
+import { AlertCircle, Loader2 } from 'lucide-react'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { BackButton } from '@/components/layout/back-button'
+import { useAuth } from '@/components/auth/auth-provider'
+import { useToast } from '@/hooks/use-toast'
+import { getExerciseGroups, updateGroupRestSeconds } from '@/app/admin/actions'
+import { capitalizeFirstLetter } from '@/lib/text-utils'
+import type { AdminExerciseGroup } from '@/lib/types'
+
+interface GroupRestRowProps {
+  accessToken: string
+  group: AdminExerciseGroup
+  onSaved: (group: AdminExerciseGroup) => void
+}
+
+// One group's rest, saved on its own so a typo in one row doesn't hold up the others
+function GroupRestRow({ accessToken, group, onSaved }: GroupRestRowProps) {
+  const { toast } = useToast()
+  const [value, setValue] = useState(group.rest_seconds?.toString() ?? '')
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const inputId = `group-rest-${group.id}`
+  const restSeconds = value.trim() === '' ? null : Number(value)
+  const changed = restSeconds !== group.rest_seconds
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsSaving(true)
+    setError(null)
+
+    try {
+      const result = await updateGroupRestSeconds(accessToken, group.id, restSeconds)
+      if (!result.success) {
+        setError(result.error || 'Failed to save. Please try again.')
+        return
+      }
+
+      onSaved({ ...group, rest_seconds: restSeconds })
+      toast({ title: `Saved the rest for ${group.name}` })
+    } catch (err) {
+      console.error('Error saving group rest:', err)
+      setError('An unexpected error occurred. Please try again.')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-1">
+      <div className="flex items-end gap-2">
+        <div className="flex-1 space-y-1">
+          <Label htmlFor={inputId}>{capitalizeFirstLetter(group.name)}</Label>
+          <Input
+            id={inputId}
+            type="number"
+            inputMode="numeric"
+            min={0}
+            max={600}
+            step={15}
+            placeholder="Use the client's default"
+            value={value}
+            onChange={e => setValue(e.target.value)}
+            disabled={isSaving}
+          />
+        </div>
+        <Button type="submit" variant="outline" disabled={isSaving || !changed}>
+          {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+          Save
+        </Button>
+      </div>
+      {error && (
+        <p className="text-sm text-destructive" role="alert">
+          {error}
+        </p>
+      )}
+    </form>
+  )
+}
+
+export default function GroupRestPage() {
+  const { session } = useAuth()
+  const [groups, setGroups] = useState<AdminExerciseGroup[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const accessToken = session?.access_token
+
+  useEffect(() => {
+    if (!accessToken) return
+
+    let mounted = true
+
+    async function loadGroups() {
+      try {
+        setLoading(true)
+        if (!accessToken) return
+        const exerciseGroups = await getExerciseGroups(accessToken)
+        if (mounted) setGroups(exerciseGroups)
+      } catch (err) {
+        console.error('Error loading exercise groups:', err)
+        if (mounted) setError('Failed to load the exercise groups')
+      } finally {
+        if (mounted) setLoading(false)
+      }
+    }
+
+    loadGroups()
+
+    return () => {
+      mounted = false
+    }
+  }, [accessToken])
+
+  const handleSaved = (saved: AdminExerciseGroup) => {
+    setGroups(prev => prev.map(group => (group.id === saved.id ? saved : group)))
+  }
+
+  return (
+    <div className="container mx-auto px-4 py-6">
+      <div className="mb-6">
+        <BackButton href="/admin/exercises" />
+      </div>
+
+      <h1 className="text-2xl font-bold">Group rest</h1>
+      <p className="text-sm text-muted-foreground mb-6">
+        Seconds of rest between sets for exercises in each group. An exercise's own rest wins over
+        its group's. With neither, clients get their own default rest.
+      </p>
+
+      {error && (
+        <Alert variant="destructive" className="mb-4">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {loading ? (
+        <div className="flex justify-center items-center py-8" aria-busy="true" aria-live="polite">
+          <Loader2 className="h-6 w-6 animate-spin text-primary mr-2" />
+          <span>Loading groups...</span>
+        </div>
+      ) : groups.length === 0 || !accessToken ? (
+        <p className="text-center text-muted-foreground py-4">No exercise groups yet.</p>
+      ) : (
+        <Card className="border-0 shadow-sm">
+          <CardContent className="p-4 space-y-4">
+            {groups.map(group => (
+              <GroupRestRow
+                key={group.id}
+                accessToken={accessToken}
+                group={group}
+                onSaved={handleSaved}
+              />
+            ))}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  )
+}
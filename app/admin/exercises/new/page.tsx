@@ -0,0 +1,65 @@
+'use client'
+
+import { Suspense, useState, useEffect } from 'react'
+import { useRouter, useSearchParams } from 'next/navigation'
+import { Loader2 } from 'lucide-react'
+import { BackButton } from '@/components/layout/back-button'
+import { ExerciseForm } from '@/components/admin'
+import { useAuth } from '@/components/auth/auth-provider'
+import { getExerciseFormOptions } from '@/app/admin/actions'
+import type { ExerciseFormOptions } from '@/lib/types'
+
+export default function NewExercisePage() {
+  // useSearchParams needs a Suspense boundary to be prerendered
+  return (
+    <Suspense>
+      <NewExercise />
+    </Suspense>
+  )
+}
+
+function NewExercise() {
+  const router = useRouter()
+  const searchParams = useSearchParams()
+  const { session } = useAuth()
+  const [options, setOptions] = useState<ExerciseFormOptions | null>(null)
+
+  const accessToken = session?.access_token
+
+  useEffect(() => {
+    if (!accessToken) return
+
+    let mounted = true
+    getExerciseFormOptions(accessToken).then(formOptions => {
+      if (mounted) setOptions(formOptions)
+    })
+
+    return () => {
+      mounted = false
+    }
+  }, [accessToken])
+
+  return (
+    <div className="container mx-auto px-4 py-6">
+      <div className="mb-6">
+        <BackButton href="/admin/exercises" />
+      </div>
+
+      <h1 className="text-2xl font-bold mb-6">New exercise</h1>
+
+      {!options || !accessToken ? (
+        <div className="flex justify-center items-center py-8" aria-busy="true" aria-live="polite">
+          <Loader2 className="h-6 w-6 animate-spin text-primary mr-2" />
+          <span>Loading...</span>
+        </div>
+      ) : (
+        <ExerciseForm
+          accessToken={accessToken}
+          options={options}
+          defaultCategoryId={searchParams.get('category') || undefined}
+          onSaved={() => router.push('/admin/exercises')}
+        />
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,212 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import Link from 'next/link'
+import { AlertCircle, Loader2, Plus, Timer } from 'lucide-react'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { Button } from '@/components/ui/button'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { BackButton } from '@/components/layout/back-button'
+import { SortableExerciseList } from '@/components/admin'
+import { useAuth } from '@/components/auth/auth-provider'
+import { getExerciseFormOptions, getLibraryExercises } from '@/app/admin/actions'
+import { capitalizeFirstLetter } from '@/lib/text-utils'
+import type { AdminExercise, ExerciseFormOptions } from '@/lib/types'
+import { invalidateQueries } from '@/lib/query-client'
+import { queryKeys } from '@/lib/query-keys'
+
+export default function ExerciseLibraryPage() {
+  const { session } = useAuth()
+  const [categories, setCategories] = useState<ExerciseFormOptions['categories']>([])
+  const [categoryId, setCategoryId] = useState('')
+  const [exercises, setExercises] = useState<AdminExercise[]>([])
+  const [loading, setLoading] = useState(true)
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const accessToken = session?.access_token
+
+  // Load the sections once, then the chosen section's exercises
+  useEffect(() => {
+    if (!accessToken) return
+
+    let mounted = true
+
+    async function loadCategories() {
+      if (!accessToken) return
+      const options = await getExerciseFormOptions(accessToken)
+      if (!mounted) return
+      setCategories(options.categories)
+      setCategoryId(current => current || options.categories[0]?.id || '')
+      if (options.categories.length === 0) setLoading(false)
+    }
+
+    loadCategories()
+
+    return () => {
+      mounted = false
+    }
+  }, [accessToken])
+
+  useEffect(() => {
+    if (!accessToken || !categoryId) return
+
+    let mounted = true
+
+    async function loadExercises() {
+      try {
+        setLoading(true)
+        if (!accessToken) return
+        const sectionExercises = await getLibraryExercises(accessToken, categoryId)
+        if (mounted) setExercises(sectionExercises)
+      } catch (err) {
+        console.error('Error loading exercises:', err)
+        if (mounted) setError('Failed to load exercises')
+      } finally {
+        if (mounted) setLoading(false)
+      }
+    }
+
+    loadExercises()
+
+    return () => {
+      mounted = false
+    }
+  }, [accessToken, categoryId])
+
+  const handleReorder = async (reordered: AdminExercise[]) => {
+    if (!accessToken) return
+
+    // Update straight away and roll back if saving fails
+    const previous = exercises
+    setExercises(reordered)
+    setIsSaving(true)
+    setError(null)
+
+    try {
+      const response = await fetch('/api/exercises', {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${accessToken}`,
+        },
+        body: JSON.stringify({ order: reordered.map(exercise => exercise.id) }),
+      })
+
+      if (!response.ok) {
+        setExercises(previous)
+        setError('Failed to save the new order. Please try again.')
+        return
+      }
+
+      invalidateQueries(queryKeys.exercises())
+    } catch (err) {
+      console.error('Error reordering exercises:', err)
+      setExercises(previous)
+      setError('An unexpected error occurred. Please try again.')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleDelete = async (exercise: AdminExercise) => {
+    if (!accessToken || !window.confirm(`Delete "${exercise.name}"? This can't be undone.`)) {
+      return
+    }
+
+    setIsSaving(true)
+    setError(null)
+
+    try {
+      const response = await fetch(`/api/exercises?id=${exercise.id}`, {
+        method: 'DELETE',
+        headers: { Authorization: `Bearer ${accessToken}` },
+      })
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}))
+        setError(errorData.error || 'Failed to delete the exercise. Please try again.')
+        return
+      }
+
+      setExercises(prev => prev.filter(item => item.id !== exercise.id))
+      invalidateQueries(queryKeys.exercises())
+    } catch (err) {
+      console.error('Error deleting exercise:', err)
+      setError('An unexpected error occurred. Please try again.')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <div className="container mx-auto px-4 py-6">
+      <div className="mb-6">
+        <BackButton href="/admin" />
+      </div>
+
+      <h1 className="text-2xl font-bold">Exercise library</h1>
+      <p className="text-sm text-muted-foreground mb-6">
+        Drag exercises to change the order they appear in each section.
+      </p>
+
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+        <Select value={categoryId} onValueChange={setCategoryId}>
+          <SelectTrigger className="w-[180px]" aria-label="Section">
+            <SelectValue placeholder="Choose a section" />
+          </SelectTrigger>
+          <SelectContent>
+            {categories.map(category => (
+              <SelectItem key={category.id} value={category.id}>
+                {capitalizeFirstLetter(category.name)}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <div className="flex gap-2">
+          <Button asChild variant="outline">
+            <Link href="/admin/exercises/groups">
+              <Timer className="h-4 w-4 mr-2" />
+              Group rest
+            </Link>
+          </Button>
+          <Button asChild className="bg-orange-500 hover:bg-orange-600 text-white">
+            <Link href={`/admin/exercises/new${categoryId ? `?category=${categoryId}` : ''}`}>
+              <Plus className="h-4 w-4 mr-2" />
+              New exercise
+            </Link>
+          </Button>
+        </div>
+      </div>
+
+      {error && (
+        <Alert variant="destructive" className="mb-4">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {loading ? (
+        <div className="flex justify-center items-center py-8" aria-busy="true" aria-live="polite">
+          <Loader2 className="h-6 w-6 animate-spin text-primary mr-2" />
+          <span>Loading exercises...</span>
+        </div>
+      ) : exercises.length === 0 ? (
+        <p className="text-center text-muted-foreground py-4">No exercises in this section yet.</p>
+      ) : (
+        <SortableExerciseList
+          exercises={exercises}
+          onReorder={handleReorder}
+          onDelete={handleDelete}
+          disabled={isSaving}
+        />
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,6 @@
+import type { ReactNode } from 'react'
+import { AdminGuard } from '@/components/admin'
+
+export default function AdminLayout({ children }: { children: ReactNode }) {
+  return <AdminGuard>{children}</AdminGuard>
+}
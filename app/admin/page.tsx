@@ -0,0 +1,122 @@
+'use client'
+
+import { useState, useEffect, useMemo } from 'react'
+import Link from 'next/link'
+import { format } from 'date-fns'
+import { AlertCircle, ChevronRight, Dumbbell, Loader2 } from 'lucide-react'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { BackButton } from '@/components/layout/back-button'
+import { useAuth } from '@/components/auth/auth-provider'
+import { listClients } from './actions'
+import type { AdminClient } from '@/lib/types'
+
+export default function AdminPage() {
+  const { session } = useAuth()
+  const [clients, setClients] = useState<AdminClient[]>([])
+  const [search, setSearch] = useState('')
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const accessToken = session?.access_token
+
+  useEffect(() => {
+    if (!accessToken) return
+
+    let mounted = true
+
+    async function loadClients() {
+      try {
+        setLoading(true)
+        if (!accessToken) return
+        const clientList = await listClients(accessToken)
+        if (mounted) setClients(clientList)
+      } catch (err) {
+        console.error('Error loading clients:', err)
+        if (mounted) setError('Failed to load your clients')
+      } finally {
+        if (mounted) setLoading(false)
+      }
+    }
+
+    loadClients()
+
+    return () => {
+      mounted = false
+    }
+  }, [accessToken])
+
+  const filteredClients = useMemo(() => {
+    const query = search.trim().toLowerCase()
+    return query ? clients.filter(client => client.email.toLowerCase().includes(query)) : clients
+  }, [clients, search])
+
+  return (
+    <div className="container mx-auto px-4 py-6">
+      <div className="mb-6">
+        <BackButton href="/record" />
+      </div>
+
+      <Button asChild variant="outline" className="w-full mb-6">
+        <Link href="/admin/exercises">
+          <Dumbbell className="h-4 w-4 mr-2" aria-hidden="true" />
+          Exercise library
+        </Link>
+      </Button>
+
+      <h1 className="text-2xl font-bold">Clients</h1>
+      <p className="text-sm text-muted-foreground mb-6">
+        Choose a client to set up their Strengthen and Recover training days.
+      </p>
+
+      <Input
+        type="search"
+        placeholder="Search by email"
+        value={search}
+        onChange={e => setSearch(e.target.value)}
+        className="mb-4"
+        aria-label="Search clients"
+      />
+
+      {error && (
+        <Alert variant="destructive" className="mb-4">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {loading ? (
+        <div className="flex justify-center items-center py-8" aria-busy="true" aria-live="polite">
+          <Loader2 className="h-6 w-6 animate-spin text-primary mr-2" />
+          <span>Loading clients...</span>
+        </div>
+      ) : filteredClients.length === 0 ? (
+        <p className="text-center text-muted-foreground py-4">No clients found.</p>
+      ) : (
+        <ul className="space-y-2">
+          {filteredClients.map(client => (
+            <li key={client.id}>
+              <Link href={`/admin/clients/${client.id}`}>
+                <Card className="border-0 shadow-sm hover:bg-muted/50 transition-colors">
+                  <CardContent className="flex items-center justify-between p-4">
+                    <div>
+                      <p className="font-medium">{client.email}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {client.last_sign_in_at
+                          ? `Last active ${format(new Date(client.last_sign_in_at), 'd MMM yyyy')}`
+                          : 'Never signed in'}
+                      </p>
+                    </div>
+                    <ChevronRight className="h-4 w-4 text-muted-foreground" aria-hidden="true" />
+                  </CardContent>
+                </Card>
+              </Link>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
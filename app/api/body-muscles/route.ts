@@ -0,0 +1,22 @@
+import { NextResponse } from 'next/server'
+import { supabaseServer } from '@/lib/supabase'
+
+// Every body muscle, numbered as on the Mobilise body chart
+export async function GET() {
+  try {
+    const { data: muscles, error } = await supabaseServer
+      .from('body_muscles')
+      .select('*')
+      .order('id', { ascending: true })
+
+    if (error) {
+      console.error('Error fetching body muscles:', error)
+      return NextResponse.json({ error: 'Failed to fetch body muscles' }, { status: 500 })
+    }
+
+    return NextResponse.json(muscles || [])
+  } catch (error) {
+    console.error('Unexpected error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -1,37 +1,24 @@
 import { NextResponse } from 'next/server'
-import { fetchExercisesByCategory } from '@/lib/api-utils'
+import { fetchExercisesByCategory, fetchExercisesByMuscles } from '@/lib/api-utils'
 import { supabaseServer } from '@/lib/supabase'
-
-// Category IDs for different exercise types
-const CATEGORY_IDS = {
-  // Old names (for backward compatibility)
-  warmup: '268c3c11-5c85-44a5-82f2-88801189ea0b',
-  stretch: '4afc93b4-8465-49fd-ab2d-678a3fccd71e',
-  workout: '976adc34-76e5-44fd-b5b4-b7ff5117a27d',
-  cooldown: '976adc34-76e5-44fd-b5b4-b7ff5117a27d',
-
-  // New names
-  'warm-up': '268c3c11-5c85-44a5-82f2-88801189ea0b',
-  mobilise: '4afc93b4-8465-49fd-ab2d-678a3fccd71e',
-  strengthen: '976adc34-76e5-44fd-b5b4-b7ff5117a27d',
-  recover: '976adc34-76e5-44fd-b5b4-b7ff5117a27d',
-}
+import { getCategoryId } from '@/lib/category-registry'
+import { SECTIONS, SECTION_ALIASES, resolveSection } from '@/lib/sections'
+import { getBearerToken, getStaffUser } from '@/lib/staff-auth'
+import {
+  exerciseFormSchema,
+  exerciseOrderSchema,
+  exerciseUpdateSchema,
+  toExerciseColumns,
+} from '@/lib/exercise-schema'
 
 export async function GET(request: Request) {
   try {
     const url = new URL(request.url)
-    const type = url.searchParams.get('type') as
-      | 'warm-up'
-      | 'mobilise'
-      | 'strengthen'
-      | 'recover'
-      | 'warmup'
-      | 'stretch'
-      | 'workout'
-      | 'cooldown'
-      | null
+    const typeParam = url.searchParams.get('type')
+    const type = resolveSection(typeParam)
     const group = url.searchParams.get('group')
     const id = url.searchParams.get('id')
+    const musclesParam = url.searchParams.get('muscles')
 
     // Handle individual exercise query by ID
     if (id) {
@@ -72,9 +59,10 @@ export async function GET(request: Request) {
     }
 
     // Validate exercise type if provided
-    if (type && !Object.keys(CATEGORY_IDS).includes(type)) {
+    if (typeParam && !type) {
+      const validTypes = [...SECTIONS, ...Object.keys(SECTION_ALIASES)]
       return NextResponse.json(
-        { error: 'Invalid exercise type. Must be one of: ' + Object.keys(CATEGORY_IDS).join(', ') },
+        { error: 'Invalid exercise type. Must be one of: ' + validTypes.join(', ') },
         { status: 400 }
       )
     }
@@ -89,10 +77,10 @@ export async function GET(request: Request) {
       try {
         // Import directly here to avoid circular dependencies
         const { getExercisesByGroup } = await import('@/app/actions')
-        
+
         // Get category parameter if provided
         const category = url.searchParams.get('category')
-        
+
         const exercises = await getExercisesByGroup(groupId, category || undefined)
 
         // Return exercises without categories
@@ -108,7 +96,28 @@ export async function GET(request: Request) {
 
     // Handle type-based query
     if (type) {
-      const categoryId = CATEGORY_IDS[type]
+      const categoryId = await getCategoryId(type)
+      if (!categoryId) {
+        return NextResponse.json({ error: `No category found for ${type}` }, { status: 404 })
+      }
+
+      // Optionally only exercises working any of ?muscles=1,5
+      if (musclesParam) {
+        const muscleIds = musclesParam.split(',').map(muscle => Number(muscle))
+        if (muscleIds.some(muscleId => !Number.isInteger(muscleId) || muscleId <= 0)) {
+          return NextResponse.json(
+            { error: 'Invalid muscles. Must be comma-separated muscle IDs.' },
+            { status: 400 }
+          )
+        }
+
+        const exercises = await fetchExercisesByMuscles(muscleIds, categoryId)
+        if (!exercises) {
+          return NextResponse.json({ error: 'Failed to fetch exercises' }, { status: 500 })
+        }
+
+        return NextResponse.json(exercises)
+      }
 
       let exercises = await fetchExercisesByCategory(categoryId)
 
@@ -130,6 +139,141 @@ export async function GET(request: Request) {
   }
 }
 
+// Writes are limited to coaches and admins
+async function unauthorisedResponse(request: Request): Promise<NextResponse | null> {
+  const staffUser = await getStaffUser(getBearerToken(request))
+  return staffUser ? null : NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+}
+
+const validationError = (error: { flatten: () => unknown }) =>
+  NextResponse.json({ error: 'Invalid exercise', details: error.flatten() }, { status: 400 })
+
+const parseExerciseId = (request: Request): number | null => {
+  const id = parseInt(new URL(request.url).searchParams.get('id') || '', 10)
+  return isNaN(id) ? null : id
+}
+
+// Create an exercise at the end of its section
+export async function POST(request: Request) {
+  try {
+    const unauthorised = await unauthorisedResponse(request)
+    if (unauthorised) return unauthorised
+
+    const parsed = exerciseFormSchema.safeParse(await request.json().catch(() => null))
+    if (!parsed.success) return validationError(parsed.error)
+
+    const { data: last } = await supabaseServer
+      .from('exercises')
+      .select('sort_order')
+      .eq('category_id', parsed.data.category_id)
+      .order('sort_order', { ascending: false })
+      .limit(1)
+      .maybeSingle()
+
+    const { data: exercise, error } = await supabaseServer
+      .from('exercises')
+      .insert({
+        ...toExerciseColumns(parsed.data),
+        name: parsed.data.name,
+        category_id: parsed.data.category_id,
+        sort_order: (last?.sort_order ?? -1) + 1,
+      })
+      .select()
+      .single()
+
+    if (error) {
+      console.error('Error creating exercise:', error)
+      return NextResponse.json({ error: 'Failed to create exercise' }, { status: 500 })
+    }
+
+    return NextResponse.json(exercise, { status: 201 })
+  } catch (error) {
+    console.error('Exercise API error:', error)
+    return NextResponse.json({ error: 'Failed to create exercise' }, { status: 500 })
+  }
+}
+
+// Update one exercise (?id=), or reorder a section with { order: [ids] }
+export async function PATCH(request: Request) {
+  try {
+    const unauthorised = await unauthorisedResponse(request)
+    if (unauthorised) return unauthorised
+
+    const body = await request.json().catch(() => null)
+    const exerciseId = parseExerciseId(request)
+
+    if (exerciseId === null) {
+      const parsed = exerciseOrderSchema.safeParse(body)
+      if (!parsed.success) return validationError(parsed.error)
+
+      const results = await Promise.all(
+        parsed.data.order.map((id, index) =>
+          supabaseServer.from('exercises').update({ sort_order: index }).eq('id', id)
+        )
+      )
+
+      const failed = results.find(result => result.error)
+      if (failed) {
+        console.error('Error reordering exercises:', failed.error)
+        return NextResponse.json({ error: 'Failed to reorder exercises' }, { status: 500 })
+      }
+
+      return NextResponse.json({ success: true })
+    }
+
+    const parsed = exerciseUpdateSchema.safeParse(body)
+    if (!parsed.success) return validationError(parsed.error)
+
+    const { data: exercise, error } = await supabaseServer
+      .from('exercises')
+      .update(toExerciseColumns(parsed.data))
+      .eq('id', exerciseId)
+      .select()
+      .single()
+
+    if (error || !exercise) {
+      console.error('Error updating exercise:', error)
+      return NextResponse.json({ error: 'Exercise not found' }, { status: 404 })
+    }
+
+    return NextResponse.json(exercise)
+  } catch (error) {
+    console.error('Exercise API error:', error)
+    return NextResponse.json({ error: 'Failed to update exercise' }, { status: 500 })
+  }
+}
+
+export async function DELETE(request: Request) {
+  try {
+    const unauthorised = await unauthorisedResponse(request)
+    if (unauthorised) return unauthorised
+
+    const exerciseId = parseExerciseId(request)
+    if (exerciseId === null) {
+      return NextResponse.json({ error: 'Invalid exercise ID. Must be a number.' }, { status: 400 })
+    }
+
+    const { error } = await supabaseServer.from('exercises').delete().eq('id', exerciseId)
+
+    if (error) {
+      console.error('Error deleting exercise:', error)
+      // Foreign key violation - the exercise is still assigned or logged
+      if (error.code === '23503') {
+        return NextResponse.json(
+          { error: 'This exercise is still used by training days or logs' },
+          { status: 409 }
+        )
+      }
+      return NextResponse.json({ error: 'Failed to delete exercise' }, { status: 500 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Exercise API error:', error)
+    return NextResponse.json({ error: 'Failed to delete exercise' }, { status: 500 })
+  }
+}
+
 // Helper function to assign default categories based on exercise name
 function getDefaultCategories(exerciseName: string): string[] {
   // Categories are no longer used - return empty array
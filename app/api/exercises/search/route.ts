@@ -0,0 +1,131 @@
+import { NextResponse } from 'next/server'
+import { supabaseServer } from '@/lib/supabase'
+import { getCategoryRegistry } from '@/lib/category-registry'
+import { SECTIONS, resolveSection, type Section } from '@/lib/sections'
+import {
+  DEFAULT_SEARCH_PAGE_SIZE,
+  exerciseSearchSchema,
+  toPrefixQuery,
+} from '@/lib/exercise-search'
+import type { ExerciseSearchPage } from '@/lib/types'
+
+const formatImage = (url: string | null): string =>
+  url && (url.startsWith('http') || url.startsWith('/'))
+    ? url
+    : '/placeholder.svg?height=200&width=300'
+
+// An exercise as selected below; exercise_muscles is only joined to filter
+type ExerciseSearchRow = {
+  id: number
+  name: string
+  image_url: string | null
+  ex_description: string | null
+  category_id: string
+  kit: number | null
+  exercise_groups: { name: string } | null
+}
+
+// Search exercises by name and description, filtered, sorted and a page at a time
+export async function GET(request: Request) {
+  try {
+    const url = new URL(request.url)
+    const parsed = exerciseSearchSchema.safeParse(Object.fromEntries(url.searchParams))
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid search', details: parsed.error.flatten() },
+        { status: 400 }
+      )
+    }
+
+    const {
+      q,
+      section: sectionParam,
+      bodySection,
+      group,
+      muscles,
+      kit,
+      sort = 'name',
+      page = 1,
+      pageSize = DEFAULT_SEARCH_PAGE_SIZE,
+    } = parsed.data
+
+    const registry = await getCategoryRegistry()
+    const section = resolveSection(sectionParam)
+    if (sectionParam && !section) {
+      return NextResponse.json(
+        { error: 'Invalid section. Must be one of: ' + SECTIONS.join(', ') },
+        { status: 400 }
+      )
+    }
+
+    // Filtering on a joined table needs an inner join, so exercises without a match drop out
+    const columns = [
+      'id, name, image_url, ex_description, category_id, kit',
+      bodySection ? 'exercise_groups!inner(name, body_sec)' : 'exercise_groups(name)',
+      muscles ? 'exercise_muscles!inner(body_muscle_id)' : null,
+    ]
+
+    let query = supabaseServer
+      .from('exercises')
+      .select(columns.filter(Boolean).join(', '), { count: 'exact' })
+
+    if (q) {
+      const tsQuery = toPrefixQuery(q)
+      if (tsQuery) query = query.textSearch('search_vector', tsQuery, { config: 'english' })
+    }
+    if (section) {
+      const categoryId = registry[section]
+      if (!categoryId) {
+        return NextResponse.json({ error: `No category found for ${section}` }, { status: 404 })
+      }
+      query = query.eq('category_id', categoryId)
+    }
+    if (bodySection) query = query.eq('exercise_groups.body_sec', bodySection)
+    if (group) query = query.eq('exercise_group', group)
+    if (muscles) query = query.in('exercise_muscles.body_muscle_id', muscles)
+    if (kit) query = query.eq('kit', kit)
+
+    if (sort === 'newest') {
+      query = query.order('created_at', { ascending: false })
+    } else if (sort === 'section') {
+      query = query.order('category_id').order('sort_order')
+    } else {
+      query = query.order('name')
+    }
+
+    const from = (page - 1) * pageSize
+    const { data, error, count } = await query
+      .order('id')
+      .range(from, from + pageSize - 1)
+      .overrideTypes<ExerciseSearchRow[], { merge: false }>()
+
+    if (error) {
+      console.error('Error searching exercises:', error)
+      return NextResponse.json({ error: 'Failed to search exercises' }, { status: 500 })
+    }
+
+    const sectionsByCategory = new Map(
+      (Object.entries(registry) as [Section, string][]).map(([name, id]) => [id, name])
+    )
+
+    const response: ExerciseSearchPage = {
+      results: (data || []).map(exercise => ({
+        id: exercise.id,
+        name: exercise.name,
+        image: formatImage(exercise.image_url),
+        description: exercise.ex_description || null,
+        section: sectionsByCategory.get(exercise.category_id) ?? null,
+        group_name: exercise.exercise_groups?.name ?? null,
+        kit: exercise.kit ?? null,
+      })),
+      total: count ?? 0,
+      page,
+      pageSize,
+    }
+
+    return NextResponse.json(response)
+  } catch (error) {
+    console.error('Exercise search API error:', error)
+    return NextResponse.json({ error: 'Failed to search exercises' }, { status: 500 })
+  }
+}
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authErrorResponse, requireRequestUser } from '@/lib/user-auth'
+
+// Returns the user's latest FIR level per muscle, or one muscle's assessment history
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const userId = searchParams.get('userId')
+    const muscleIdParam = searchParams.get('muscleId')
+
+    if (!userId) {
+      return NextResponse.json({ error: 'Missing required parameter: userId' }, { status: 400 })
+    }
+
+    const { supabase } = await requireRequestUser(request, userId)
+
+    if (muscleIdParam) {
+      const muscleId = parseInt(muscleIdParam, 10)
+
+      if (isNaN(muscleId)) {
+        return NextResponse.json({ error: 'Invalid muscle ID. Must be a number.' }, { status: 400 })
+      }
+
+      const { data: history, error } = await supabase
+        .from('muscle_fir_assessments')
+        .select('*')
+        .eq('user_id', userId)
+        .eq('body_muscle_id', muscleId)
+        .order('assessed_at', { ascending: false })
+
+      if (error) {
+        console.error('Error fetching FIR history:', error)
+        return NextResponse.json({ error: 'Failed to fetch FIR history' }, { status: 500 })
+      }
+
+      return NextResponse.json({ history: history || [] })
+    }
+
+    const { data: muscles, error } = await supabase
+      .from('current_muscle_fir')
+      .select('*')
+      .eq('user_id', userId)
+
+    if (error) {
+      console.error('Error fetching FIR levels:', error)
+      return NextResponse.json({ error: 'Failed to fetch FIR levels' }, { status: 500 })
+    }
+
+    return NextResponse.json({ muscles: muscles || [] })
+  } catch (error) {
+    const authResponse = authErrorResponse(error)
+    if (authResponse) return authResponse
+
+    console.error('Unexpected error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,183 @@
+import { NextResponse } from 'next/server'
+import { authErrorResponse, requireRequestUser, type UserClient } from '@/lib/user-auth'
+import { GOAL_CATEGORY_IDS } from '@/lib/goals'
+import { outboxEntrySchema, syncRequestSchema } from '@/lib/sync-schema'
+import type { OutboxEntry, SyncResult } from '@/lib/types'
+
+type EntryOf<K extends OutboxEntry['kind']> = Extract<OutboxEntry, { kind: K }>
+
+const emptyResult = (): SyncResult => ({ applied: [], stale: [], rejected: [], failed: [] })
+
+const clientIds = (entries: OutboxEntry[]) => entries.map(entry => entry.client_id)
+
+// Workout logs are keyed by the device's client_id, so a retried batch can't add a row twice
+async function applyWorkoutLogs(
+  supabase: UserClient,
+  userId: string,
+  entries: EntryOf<'workout_log'>[]
+): Promise<SyncResult> {
+  const result = emptyResult()
+  if (entries.length === 0) return result
+
+  const { error } = await supabase.from('workout_logs').upsert(
+    entries.map(entry => ({ ...entry.data, client_id: entry.client_id, user_id: userId })),
+    { onConflict: 'client_id', ignoreDuplicates: true }
+  )
+
+  if (error) {
+    console.error('Error syncing workout logs:', error)
+    result.failed = clientIds(entries)
+  } else {
+    result.applied = clientIds(entries)
+  }
+
+  return result
+}
+
+// A stored row's key and when it was last edited, as read by applyLatestEdits
+type StoredEdit = { updated_at: string } & Record<string, string | number>
+
+/**
+ * Upserts one-row-per-key notes, keeping whichever of the stored row and the queued change
+ * was edited last
+ */
+async function applyLatestEdits<E extends OutboxEntry>(
+  supabase: UserClient,
+  userId: string,
+  entries: E[],
+  table: string,
+  keyColumn: string,
+  getKey: (entry: E) => string | number,
+  toRow: (entry: E) => Record<string, unknown>
+): Promise<SyncResult> {
+  const result = emptyResult()
+  if (entries.length === 0) return result
+
+  const { data: existing, error: fetchError } = await supabase
+    .from(table)
+    .select(`${keyColumn}, updated_at`)
+    .eq('user_id', userId)
+    .in(keyColumn, entries.map(getKey))
+    .overrideTypes<StoredEdit[], { merge: false }>()
+
+  if (fetchError) {
+    console.error(`Error reading ${table} for sync:`, fetchError)
+    result.failed = clientIds(entries)
+    return result
+  }
+
+  const storedAt = new Map<string | number, string | null>(
+    (existing || []).map(row => [row[keyColumn], row.updated_at])
+  )
+  const newer = entries.filter(entry => {
+    const stored = storedAt.get(getKey(entry))
+    return !stored || new Date(entry.updated_at) > new Date(stored)
+  })
+  result.stale = clientIds(entries.filter(entry => !newer.includes(entry)))
+
+  if (newer.length === 0) return result
+
+  const { error } = await supabase.from(table).upsert(
+    newer.map(entry => ({ ...toRow(entry), user_id: userId, updated_at: entry.updated_at })),
+    { onConflict: keyColumn === 'user_id' ? 'user_id' : `user_id,${keyColumn}` }
+  )
+
+  if (error) {
+    console.error(`Error syncing ${table}:`, error)
+    result.failed = clientIds(newer)
+  } else {
+    result.applied = clientIds(newer)
+  }
+
+  return result
+}
+
+// Apply a batch of changes queued on the caller's device
+export async function POST(request: Request) {
+  try {
+    const { user, supabase } = await requireRequestUser(request)
+    const userId = user.id
+    const parsed = syncRequestSchema.safeParse(await request.json().catch(() => null))
+    if (!parsed.success) {
+      return NextResponse.json({ error: 'Invalid sync request' }, { status: 400 })
+    }
+
+    const rejected: string[] = []
+    const entries: OutboxEntry[] = []
+
+    parsed.data.entries.forEach(raw => {
+      const entry = outboxEntrySchema.safeParse(raw)
+      if (entry.success && entry.data.user_id === userId) {
+        entries.push(entry.data)
+        return
+      }
+
+      const clientId = (raw as { client_id?: unknown } | null)?.client_id
+      if (typeof clientId === 'string') rejected.push(clientId)
+    })
+
+    const ofKind = <K extends OutboxEntry['kind']>(kind: K) =>
+      entries.filter((entry): entry is EntryOf<K> => entry.kind === kind)
+
+    const results = await Promise.all([
+      applyWorkoutLogs(supabase, userId, ofKind('workout_log')),
+      applyLatestEdits(
+        supabase,
+        userId,
+        ofKind('exercise_note'),
+        'user_exercise_notes',
+        'exercise_id',
+        entry => entry.data.exercise_id,
+        entry => ({ exercise_id: entry.data.exercise_id, notes: entry.data.notes })
+      ),
+      applyLatestEdits(
+        supabase,
+        userId,
+        ofKind('goal_note'),
+        'user_goal_notes',
+        'goal_category_id',
+        entry => GOAL_CATEGORY_IDS[entry.data.category],
+        entry => ({
+          goal_category_id: GOAL_CATEGORY_IDS[entry.data.category],
+          notes: entry.data.notes,
+        })
+      ),
+      applyLatestEdits(
+        supabase,
+        userId,
+        ofKind('tight_muscle'),
+        'tight_muscles',
+        'body_muscle_id',
+        entry => entry.data.body_muscle_id,
+        entry => ({ ...entry.data })
+      ),
+      applyLatestEdits(
+        supabase,
+        userId,
+        ofKind('mobility_plan'),
+        'mobility_plans',
+        'plan_date',
+        entry => entry.data.plan_date,
+        entry => ({ ...entry.data })
+      ),
+    ])
+
+    const response = results.reduce<SyncResult>(
+      (merged, result) => ({
+        applied: [...merged.applied, ...result.applied],
+        stale: [...merged.stale, ...result.stale],
+        rejected: [...merged.rejected, ...result.rejected],
+        failed: [...merged.failed, ...result.failed],
+      }),
+      { ...emptyResult(), rejected }
+    )
+
+    return NextResponse.json(response)
+  } catch (error) {
+    const authResponse = authErrorResponse(error)
+    if (authResponse) return authResponse
+
+    console.error('Error in sync API:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -1,6 +1,32 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { supabaseServer } from '@/lib/supabase'
+import { format, subDays } from 'date-fns'
+import { getCategoryId } from '@/lib/category-registry'
+import { isTrainingSection, resolveSection, TRAINING_SECTIONS } from '@/lib/sections'
+import { authErrorResponse, requireRequestUser } from '@/lib/user-auth'
 
+// Fields of an assigned or swapped-in exercise
+const EXERCISE_COLUMNS = `
+  id,
+  name,
+  image_url,
+  ex_description,
+  exercise_group,
+  kit,
+  body_muscle,
+  category_id,
+  exercise_kit (id, name),
+  exercise_groups (
+    id,
+    name,
+    image_url,
+    body_sec,
+    exercise_body_section (name)
+  ),
+  body_muscles (id, name, body_section, image_url)
+`
+
+// The caller's exercises for one of their training days with any swaps not yet restored;
+// userId must be the signed-in user
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url)
@@ -15,19 +41,25 @@ export async function GET(request: NextRequest) {
       )
     }
 
-    // First get the category ID
-    const { data: categoryData, error: categoryError } = await supabaseServer
-      .from('categories')
-      .select('id')
-      .eq('name', category)
-      .single()
+    const { supabase } = await requireRequestUser(request, userId)
+
+    const section = resolveSection(category)
+    if (!isTrainingSection(section)) {
+      return NextResponse.json(
+        { error: `Invalid category. Expected one of: ${TRAINING_SECTIONS.join(', ')}` },
+        { status: 400 }
+      )
+    }
 
-    if (categoryError || !categoryData) {
-      console.error('Error fetching category:', categoryError)
-      return NextResponse.json({ error: 'Invalid category' }, { status: 400 })
+    const categoryId = await getCategoryId(section)
+    if (!categoryId) {
+      return NextResponse.json({ error: 'Category not found' }, { status: 404 })
     }
 
-    const { data, error } = await supabaseServer
+    // The client picks the swap in force on its own date; older 'today' swaps are left out
+    const earliestSwapDate = format(subDays(new Date(), 1), 'yyyy-MM-dd')
+
+    const { data, error } = await supabase
       .from('user_day_exercise')
       .select(
         `
@@ -35,30 +67,26 @@ export async function GET(request: NextRequest) {
         day_id,
         exercise_id,
         user_id,
-        exercises!inner (
+        exercises!inner (${EXERCISE_COLUMNS}),
+        exercise_swaps (
           id,
-          name,
-          image_url,
-          ex_description,
-          exercise_group,
-          kit,
-          body_muscle,
-          category_id,
-          exercise_kit (id, name),
-          exercise_groups (
-            id,
-            name,
-            image_url,
-            body_sec,
-            exercise_body_section (name)
-          ),
-          body_muscles (id, name, body_section, image_url)
+          scope,
+          swap_date,
+          reason,
+          created_at,
+          replacement:exercises!replacement_exercise_id (${EXERCISE_COLUMNS})
         )
       `
       )
       .eq('user_id', userId)
       .eq('day_id', parseInt(dayId, 10))
-      .eq('exercises.category_id', categoryData.id)
+      .eq('exercises.category_id', categoryId)
+      .is('exercise_swaps.restored_at', null)
+      .or(`scope.eq.permanent,swap_date.gte.${earliestSwapDate}`, {
+        referencedTable: 'exercise_swaps',
+      })
+      .order('sort_order')
+      .order('created_at', { referencedTable: 'exercise_swaps', ascending: false })
 
     if (error) {
       console.error('Error fetching user day exercises:', error)
@@ -67,6 +95,9 @@ export async function GET(request: NextRequest) {
 
     return NextResponse.json(data || [])
   } catch (error) {
+    const authResponse = authErrorResponse(error)
+    if (authResponse) return authResponse
+
     console.error('Unexpected error:', error)
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
   }
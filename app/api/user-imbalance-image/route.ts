@@ -1,34 +1,14 @@
-import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs'
-import { cookies } from 'next/headers'
 import { NextResponse } from 'next/server'
-import type { Database } from '@/lib/types'
+import { AuthError, requireRequestUser } from '@/lib/user-auth'
 
-export async function GET() {
+export async function GET(request: Request) {
   try {
-    const supabase = createRouteHandlerClient<Database>({ cookies })
-
-    const {
-      data: { session },
-      error: sessionError,
-    } = await supabase.auth.getSession()
-
-    if (sessionError || !session?.user) {
-      console.error('Session error:', sessionError)
-      return NextResponse.json(
-        { error: 'Unauthorized', details: sessionError?.message },
-        {
-          status: 401,
-          headers: {
-            'Cache-Control': 'no-store, max-age=0',
-          },
-        }
-      )
-    }
+    const { user, supabase } = await requireRequestUser(request)
 
     const { data: imageData, error: imageError } = await supabase
       .from('user_imbalance_images')
       .select('image_url')
-      .eq('user_id', session.user.id)
+      .eq('user_id', user.id)
       .single()
 
     if (imageError) {
@@ -61,6 +41,18 @@ export async function GET() {
       },
     })
   } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json(
+        { error: error.message },
+        {
+          status: error.status,
+          headers: {
+            'Cache-Control': 'no-store, max-age=0',
+          },
+        }
+      )
+    }
+
     console.error('Unexpected error:', error)
     return NextResponse.json(
       {
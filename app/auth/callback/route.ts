@@ -1,18 +1,46 @@
-import { createRouteHandlerClient } from "@supabase/auth-helpers-nextjs"
-import { cookies } from "next/headers"
-import { NextResponse } from "next/server"
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs'
+import { cookies } from 'next/headers'
+import { NextResponse } from 'next/server'
+import { AUTH_ERROR_PARAM, getSafeReturnTo, LOGIN_PATH, RETURN_TO_PARAM } from '@/lib/routes'
 
+// Sends the user back to the login page with the reason, keeping where they were going
+function loginWithError(requestUrl: URL, message: string, returnTo: string | null) {
+  const loginUrl = new URL(LOGIN_PATH, requestUrl.origin)
+  loginUrl.searchParams.set(AUTH_ERROR_PARAM, message)
+  if (returnTo) loginUrl.searchParams.set(RETURN_TO_PARAM, returnTo)
+  return NextResponse.redirect(loginUrl)
+}
+
+/**
+ * Landing page for links in auth emails: sign-up confirmation, magic link, password reset
+ * and email change. Exchanges the code for a session, then goes on to returnTo.
+ */
 export async function GET(request: Request) {
   const requestUrl = new URL(request.url)
-  const code = requestUrl.searchParams.get("code")
+  const code = requestUrl.searchParams.get('code')
+  const returnTo = getSafeReturnTo(requestUrl.searchParams.get(RETURN_TO_PARAM))
+
+  // Supabase adds these when a link has expired or was already used
+  const linkError = requestUrl.searchParams.get('error_description')
+  if (linkError) {
+    return loginWithError(requestUrl, linkError, returnTo)
+  }
 
   if (code) {
     const cookieStore = cookies()
     const supabase = createRouteHandlerClient({ cookies: () => cookieStore })
 
-    await supabase.auth.exchangeCodeForSession(code)
+    const { error } = await supabase.auth.exchangeCodeForSession(code)
+    if (error) {
+      console.error('Error exchanging auth code:', error)
+      return loginWithError(
+        requestUrl,
+        'This link has expired or was opened in a different browser. Please try again.',
+        returnTo
+      )
+    }
   }
 
   // URL to redirect to after sign in process completes
-  return NextResponse.redirect(requestUrl.origin)
+  return NextResponse.redirect(new URL(returnTo ?? '/', requestUrl.origin))
 }
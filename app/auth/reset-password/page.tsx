@@ -0,0 +1,131 @@
+'use client'
+
+import type React from 'react'
+import { useState } from 'react'
+import Link from 'next/link'
+import { useRouter } from 'next/navigation'
+import { Loader2 } from 'lucide-react'
+import { useAuth } from '@/components/auth/auth-provider'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { useToast } from '@/hooks/use-toast'
+import { LOGIN_PATH } from '@/lib/routes'
+import { getSupabaseBrowser } from '@/lib/supabase'
+
+const MIN_PASSWORD_LENGTH = 8
+
+// Reached from the password reset email, after /auth/callback has signed the user in
+export default function ResetPasswordPage() {
+  const { user, isLoading } = useAuth()
+  const { toast } = useToast()
+  const router = useRouter()
+  const [password, setPassword] = useState('')
+  const [confirmPassword, setConfirmPassword] = useState('')
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError(null)
+
+    if (password.length < MIN_PASSWORD_LENGTH) {
+      setError(`Use at least ${MIN_PASSWORD_LENGTH} characters for your password.`)
+      return
+    }
+    if (password !== confirmPassword) {
+      setError("The passwords don't match.")
+      return
+    }
+
+    setSaving(true)
+    try {
+      const { error } = await getSupabaseBrowser().auth.updateUser({ password })
+      if (error) throw error
+
+      toast({ title: 'Password updated', description: "You're signed in with your new password." })
+      router.push('/')
+    } catch (error: any) {
+      console.error('Error updating password:', error)
+      setError(error?.message || 'Failed to update your password. Please try again.')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="flex flex-col items-center justify-center min-h-screen bg-background p-4">
+      <Card className="w-full max-w-[350px] mb-4">
+        <CardHeader className="text-center">
+          <CardTitle className="text-2xl" id="reset-heading">
+            Choose a new password
+          </CardTitle>
+          <CardDescription>
+            {user ? `For ${user.email}` : 'Open the link from your reset email to continue'}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex justify-center py-4" aria-busy="true">
+              <Loader2 className="h-6 w-6 animate-spin text-primary" />
+            </div>
+          ) : !user ? (
+            <div className="space-y-4">
+              <p className="bg-destructive/10 text-destructive p-3 rounded-md text-sm" role="alert">
+                This reset link has expired or was already used. Request a new one from the sign in
+                page.
+              </p>
+              <Button asChild variant="outline" className="w-full">
+                <Link href={LOGIN_PATH}>Back to sign in</Link>
+              </Button>
+            </div>
+          ) : (
+            <form onSubmit={handleSubmit} className="space-y-4" aria-labelledby="reset-heading">
+              {error && (
+                <div
+                  className="bg-destructive/10 text-destructive p-3 rounded-md text-sm"
+                  role="alert"
+                  aria-live="assertive"
+                >
+                  {error}
+                </div>
+              )}
+              <div className="space-y-2">
+                <Label htmlFor="new-password">New password</Label>
+                <Input
+                  id="new-password"
+                  type="password"
+                  value={password}
+                  onChange={e => setPassword(e.target.value)}
+                  autoComplete="new-password"
+                  required
+                  aria-describedby="new-password-hint"
+                  disabled={saving}
+                />
+                <p id="new-password-hint" className="text-xs text-muted-foreground">
+                  At least {MIN_PASSWORD_LENGTH} characters
+                </p>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="confirm-password">Confirm password</Label>
+                <Input
+                  id="confirm-password"
+                  type="password"
+                  value={confirmPassword}
+                  onChange={e => setConfirmPassword(e.target.value)}
+                  autoComplete="new-password"
+                  required
+                  disabled={saving}
+                />
+              </div>
+              <Button type="submit" className="w-full" disabled={saving} aria-busy={saving}>
+                {saving ? 'Saving...' : 'Update password'}
+              </Button>
+            </form>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -1,11 +1,16 @@
 import type React from 'react'
-import type { Metadata } from 'next'
+import type { Metadata, Viewport } from 'next'
 import { Inconsolata, Montserrat } from 'next/font/google'
 import './globals.css'
 import Navigation from '@/components/layout/navigation'
 import { AuthProvider } from '@/components/auth/auth-provider'
-import { BodyMuscleProvider } from '@/contexts/body-muscle-context'
+import { RestTimerProvider } from '@/contexts/rest-timer-context'
+import { WorkoutSessionProvider } from '@/contexts/workout-session-context'
 import { ThemeInitScript } from '@/components/theme/theme-init-script'
+import { RestTimerBar } from '@/components/session'
+import { SyncStatusIndicator } from '@/components/layout/sync-status-indicator'
+import { Toaster } from '@/components/ui/toaster'
+import { ServiceWorkerRegistration } from '@/components/pwa'
 
 // Define the font with all available weights
 const inconsolata = Inconsolata({
@@ -27,6 +32,20 @@ export const metadata: Metadata = {
   title: 'FIR Fitness App',
   description: 'Your personal fitness companion',
   generator: 'v0.dev',
+  applicationName: 'FIR',
+  appleWebApp: {
+    capable: true,
+    title: 'FIR',
+    statusBarStyle: 'default',
+  },
+  icons: {
+    icon: '/icons/icon.svg',
+    apple: '/icons/icon-maskable.svg',
+  },
+}
+
+export const viewport: Viewport = {
+  themeColor: '#ff6a00',
 }
 
 export default function RootLayout({ children }: { children: React.ReactNode }) {
@@ -47,14 +66,20 @@ export default function RootLayout({ children }: { children: React.ReactNode })
           Skip to main content
         </a>
         <AuthProvider>
-          <BodyMuscleProvider>
-            <div className="min-h-screen bg-background text-foreground">
-              <main id="main-content" className="pb-16">
-                {children}
-              </main>
-              <Navigation />
-            </div>
-          </BodyMuscleProvider>
+          <RestTimerProvider>
+            <WorkoutSessionProvider>
+              <div className="min-h-screen bg-background text-foreground">
+                <main id="main-content" className="pb-16">
+                  {children}
+                </main>
+                <RestTimerBar />
+                <SyncStatusIndicator />
+                <Navigation />
+              </div>
+              <Toaster />
+              <ServiceWorkerRegistration />
+            </WorkoutSessionProvider>
+          </RestTimerProvider>
         </AuthProvider>
       </body>
     </html>
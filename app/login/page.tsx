@@ -7,14 +7,69 @@ import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
+import {
+  AUTH_ERROR_PARAM,
+  getAuthCallbackUrl,
+  getSafeReturnTo,
+  RESET_PASSWORD_PATH,
+  RETURN_TO_PARAM,
+} from "@/lib/routes"
 import { createLoginClient } from "./supabase-client"
 
+type LoginMode = "password" | "magic-link" | "sign-up" | "forgot-password"
+
+interface ModeCopy {
+  title: string
+  description: string
+  submit: string
+  submitting: string
+}
+
+const MODE_COPY: Record<LoginMode, ModeCopy> = {
+  password: {
+    title: "Welcome",
+    description: "Sign in to access your fitness app",
+    submit: "Sign in",
+    submitting: "Signing in...",
+  },
+  "magic-link": {
+    title: "Welcome",
+    description: "We'll email you a link that signs you in",
+    submit: "Email me a sign-in link",
+    submitting: "Sending link...",
+  },
+  "sign-up": {
+    title: "Create an account",
+    description: "We'll email you a link to confirm your address",
+    submit: "Create account",
+    submitting: "Creating account...",
+  },
+  "forgot-password": {
+    title: "Reset your password",
+    description: "We'll email you a link to choose a new password",
+    submit: "Email me a reset link",
+    submitting: "Sending link...",
+  },
+}
+
+// Shown once an email has been sent, in place of the form
+const SENT_MESSAGES: Record<Exclude<LoginMode, "password">, string> = {
+  "magic-link": "Check your email for a sign-in link. You can close this tab.",
+  "sign-up": "Check your email and open the link to confirm your account.",
+  "forgot-password": "If an account uses that address, a link to reset your password is on its way.",
+}
+
+const MIN_PASSWORD_LENGTH = 8
+
 export default function LoginPage() {
+  const [mode, setMode] = useState<LoginMode>("password")
   const [email, setEmail] = useState("")
   const [password, setPassword] = useState("")
   const [isLoading, setIsLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
+  const [sentMessage, setSentMessage] = useState<string | null>(null)
   const [initError, setInitError] = useState<string | null>(null)
+  const [returnTo, setReturnTo] = useState<string | null>(null)
   const [supabase, setSupabase] = useState<any>(null)
   const router = useRouter()
 
@@ -32,7 +87,68 @@ export default function LoginPage() {
     }
   }, [])
 
-  const handleLogin = async (e: React.FormEvent) => {
+  // Where to go once signed in, and why an email link failed, come from /auth/callback
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search)
+    setReturnTo(getSafeReturnTo(params.get(RETURN_TO_PARAM)))
+    setError(params.get(AUTH_ERROR_PARAM))
+  }, [])
+
+  const changeMode = (nextMode: LoginMode) => {
+    setMode(nextMode)
+    setError(null)
+    setSentMessage(null)
+  }
+
+  const emailRedirectTo = (path: string | null) => getAuthCallbackUrl(window.location.origin, path)
+
+  const submit = async () => {
+    switch (mode) {
+      case "password": {
+        const { error, data } = await supabase.auth.signInWithPassword({ email, password })
+        if (error) throw error
+
+        // Make sure we have a session before redirecting
+        if (data.session) {
+          // Use router.push instead of replace to ensure proper navigation
+          router.push(returnTo ?? "/")
+        }
+        return
+      }
+      case "magic-link": {
+        const { error } = await supabase.auth.signInWithOtp({
+          email,
+          // Accounts are created through sign-up, which sets a password
+          options: { emailRedirectTo: emailRedirectTo(returnTo), shouldCreateUser: false },
+        })
+        if (error) throw error
+        break
+      }
+      case "sign-up": {
+        if (password.length < MIN_PASSWORD_LENGTH) {
+          throw new Error(`Use at least ${MIN_PASSWORD_LENGTH} characters for your password.`)
+        }
+        const { error } = await supabase.auth.signUp({
+          email,
+          password,
+          options: { emailRedirectTo: emailRedirectTo(returnTo) },
+        })
+        if (error) throw error
+        break
+      }
+      case "forgot-password": {
+        const { error } = await supabase.auth.resetPasswordForEmail(email, {
+          redirectTo: emailRedirectTo(RESET_PASSWORD_PATH),
+        })
+        if (error) throw error
+        break
+      }
+    }
+
+    setSentMessage(SENT_MESSAGES[mode])
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
 
     if (!supabase) {
@@ -44,36 +160,31 @@ export default function LoginPage() {
     setError(null)
 
     try {
-      const { error, data } = await supabase.auth.signInWithPassword({
-        email,
-        password,
-      })
-
-      if (error) {
-        throw error
-      }
-
-      // Make sure we have a session before redirecting
-      if (data.session) {
-        // Use router.push instead of replace to ensure proper navigation
-        router.push("/")
-      }
+      await submit()
     } catch (error: any) {
-      console.error("Login error:", error)
-      setError(error?.message || "Failed to sign in. Please check your credentials.")
+      console.error(`Login error (${mode}):`, error)
+      setError(
+        error?.message ||
+          (mode === "password"
+            ? "Failed to sign in. Please check your credentials."
+            : "Something went wrong. Please try again.")
+      )
     } finally {
       setIsLoading(false)
     }
   }
 
+  const copy = MODE_COPY[mode]
+  const needsPassword = mode === "password" || mode === "sign-up"
+
   return (
     <div className="flex flex-col items-center justify-center min-h-screen bg-background p-4">
       <Card className="w-full max-w-[350px] mb-4">
         <CardHeader className="text-center">
           <CardTitle className="text-2xl" id="login-heading">
-            Welcome
+            {copy.title}
           </CardTitle>
-          <CardDescription>Sign in to access your fitness app</CardDescription>
+          <CardDescription>{copy.description}</CardDescription>
         </CardHeader>
         <CardContent>
           {(error || initError) && (
@@ -93,38 +204,89 @@ export default function LoginPage() {
               )}
             </div>
           )}
-          <form onSubmit={handleLogin} className="space-y-4" aria-labelledby="login-heading" noValidate>
-            <div className="space-y-2">
-              <Label htmlFor="email">Email</Label>
-              <Input
-                id="email"
-                type="email"
-                value={email}
-                onChange={(e) => setEmail(e.target.value)}
-                placeholder="your.email@example.com"
-                required
-                aria-required="true"
-                autoComplete="email"
-                disabled={isLoading || !!initError}
-              />
+
+          {sentMessage ? (
+            <div className="space-y-4" role="status" aria-live="polite">
+              <p className="bg-primary/10 p-3 rounded-md text-sm">{sentMessage}</p>
+              <Button variant="outline" className="w-full" onClick={() => changeMode("password")}>
+                Back to sign in
+              </Button>
             </div>
-            <div className="space-y-2">
-              <Label htmlFor="password">Password</Label>
-              <Input
-                id="password"
-                type="password"
-                value={password}
-                onChange={(e) => setPassword(e.target.value)}
-                required
-                aria-required="true"
-                autoComplete="current-password"
-                disabled={isLoading || !!initError}
-              />
+          ) : (
+            <form onSubmit={handleSubmit} className="space-y-4" aria-labelledby="login-heading" noValidate>
+              <div className="space-y-2">
+                <Label htmlFor="email">Email</Label>
+                <Input
+                  id="email"
+                  type="email"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  placeholder="your.email@example.com"
+                  required
+                  aria-required="true"
+                  autoComplete="email"
+                  disabled={isLoading || !!initError}
+                />
+              </div>
+              {needsPassword && (
+                <div className="space-y-2">
+                  <div className="flex items-center justify-between">
+                    <Label htmlFor="password">Password</Label>
+                    {mode === "password" && (
+                      <button
+                        type="button"
+                        className="text-xs text-muted-foreground underline-offset-4 hover:underline"
+                        onClick={() => changeMode("forgot-password")}
+                      >
+                        Forgot password?
+                      </button>
+                    )}
+                  </div>
+                  <Input
+                    id="password"
+                    type="password"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    required
+                    aria-required="true"
+                    aria-describedby={mode === "sign-up" ? "password-hint" : undefined}
+                    autoComplete={mode === "sign-up" ? "new-password" : "current-password"}
+                    disabled={isLoading || !!initError}
+                  />
+                  {mode === "sign-up" && (
+                    <p id="password-hint" className="text-xs text-muted-foreground">
+                      At least {MIN_PASSWORD_LENGTH} characters
+                    </p>
+                  )}
+                </div>
+              )}
+              <Button type="submit" className="w-full" disabled={isLoading || !!initError} aria-busy={isLoading}>
+                {isLoading ? copy.submitting : copy.submit}
+              </Button>
+            </form>
+          )}
+
+          {!sentMessage && (
+            <div className="mt-6 space-y-2 text-center text-sm">
+              {mode === "password" ? (
+                <>
+                  <Button variant="link" className="w-full" onClick={() => changeMode("magic-link")}>
+                    Email me a sign-in link instead
+                  </Button>
+                  <p className="text-muted-foreground">
+                    New here?{" "}
+                    <Button variant="link" className="h-auto p-0" onClick={() => changeMode("sign-up")}>
+                      Create an account
+                    </Button>
+                  </p>
+                </>
+              ) : (
+                <Button variant="link" className="w-full" onClick={() => changeMode("password")}>
+                  {mode === "sign-up" ? "Already have an account? Sign in" : "Sign in with your password"}
+                </Button>
+              )}
             </div>
-            <Button type="submit" className="w-full" disabled={isLoading || !!initError} aria-busy={isLoading}>
-              {isLoading ? "Signing in..." : "Sign in"}
-            </Button>
-          </form>
+          )}
         </CardContent>
       </Card>
     </div>
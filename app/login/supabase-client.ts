@@ -1,6 +1,7 @@
-import { createClient } from '@supabase/supabase-js'
+import { createClientComponentClient } from '@supabase/auth-helpers-nextjs'
 
-// Create a standalone Supabase client for the login page
+// Create a standalone Supabase client for the login page, sharing the auth provider's
+// cookie session
 export const createLoginClient = () => {
   // Use environment variables for Supabase configuration
   const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL
@@ -10,12 +11,5 @@ export const createLoginClient = () => {
     throw new Error('Supabase configuration is missing')
   }
 
-  return createClient(supabaseUrl, supabaseAnonKey, {
-    auth: {
-      persistSession: true,
-      storageKey: 'fit-app-auth',
-      autoRefreshToken: true,
-      detectSessionInUrl: true,
-    },
-  })
+  return createClientComponentClient({ supabaseUrl, supabaseKey: supabaseAnonKey })
 }
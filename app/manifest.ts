@@ -0,0 +1,20 @@
+import type { MetadataRoute } from 'next'
+
+// Served at /manifest.webmanifest so the app can be installed to the home screen
+export default function manifest(): MetadataRoute.Manifest {
+  return {
+    name: 'FIR Fitness App',
+    short_name: 'FIR',
+    description: 'Your personal fitness companion',
+    start_url: '/',
+    scope: '/',
+    display: 'standalone',
+    orientation: 'portrait',
+    background_color: '#ffffff',
+    theme_color: '#ff6a00',
+    icons: [
+      { src: '/icons/icon.svg', sizes: 'any', type: 'image/svg+xml', purpose: 'any' },
+      { src: '/icons/icon-maskable.svg', sizes: 'any', type: 'image/svg+xml', purpose: 'maskable' },
+    ],
+  }
+}
@@ -2,6 +2,7 @@ import { notFound } from 'next/navigation'
 import Image from 'next/image'
 import { BackButton } from '@/components/layout/back-button'
 import { ExerciseVideo } from '@/components/exercises/exercise-video'
+import { WorkoutLogger } from '@/components/exercises/workout-logger'
 import type { ExerciseWithLabels } from '@/lib/types'
 import { capitalizeFirstLetter } from '@/lib/text-utils'
 
@@ -76,6 +77,11 @@ export default async function StretchDetailPage({ params }: { params: Promise<{
             videoUrl3={exercise?.video_url_3}
           />
 
+          <WorkoutLogger
+            exerciseId={exercise.id}
+            exerciseName={exercise?.name || 'Stretch Exercise'}
+            exerciseType="mobilise"
+          />
         </div>
       </div>
     )
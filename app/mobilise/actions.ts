@@ -1,93 +1,81 @@
 'use server'
 
-import { createClient } from '@supabase/supabase-js'
+import { requireUser } from '@/lib/user-auth'
+import type { MobilityPlan, TightMuscle } from '@/lib/types'
 
-// Create a server-side Supabase client
-const createServerClient = () => {
-  const supabaseUrl = process.env.SUPABASE_URL || ''
-  const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY || ''
+// A tight muscle with its name, as selected by getTightMuscles
+type TightMuscleRow = Omit<TightMuscle, 'muscle_name'> & { body_muscles: { name: string } | null }
 
-  return createClient(supabaseUrl, supabaseServiceKey, {
-    auth: {
-      persistSession: true,
-    },
-  })
-}
-
-export async function getUserMobilityLimitations(userId: string): Promise<string> {
+/**
+ * Fetches the muscles the user has flagged as tight and not yet cleared
+ * @param accessToken - The signed-in user's access token
+ * @returns Tight muscles, most recently flagged first, or null on error
+ */
+export async function getTightMuscles(accessToken: string): Promise<TightMuscle[] | null> {
   try {
-    const supabase = createServerClient()
+    const { user, supabase } = await requireUser(accessToken)
 
     const { data, error } = await supabase
-      .from('mobility_limitations')
-      .select('limitations')
-      .eq('user_id', userId)
-      .single()
+      .from('tight_muscles')
+      .select('body_muscle_id, section, flagged_at, cleared_at, body_muscles(name)')
+      .eq('user_id', user.id)
+      .is('cleared_at', null)
+      .order('flagged_at', { ascending: false })
+      .overrideTypes<TightMuscleRow[], { merge: false }>()
 
     if (error) {
-      // If the record doesn't exist, that's expected for new users
-      if (error.code === 'PGRST116') {
-        return ''
-      }
-      console.error('Error fetching user mobility limitations:', error)
-      return ''
+      console.error('Error fetching tight muscles:', error)
+      return null
     }
 
-    return data?.limitations || ''
+    return (data || []).map(row => ({
+      body_muscle_id: row.body_muscle_id,
+      muscle_name: row.body_muscles?.name ?? `Muscle ${row.body_muscle_id}`,
+      section: row.section,
+      flagged_at: row.flagged_at,
+      cleared_at: row.cleared_at,
+    }))
   } catch (error) {
-    console.error('Error in getUserMobilityLimitations:', error)
-    return ''
+    console.error('Error in getTightMuscles:', error)
+    return null
   }
 }
 
-export async function saveMobilityLimitations(
-  userId: string,
-  limitations: string
-): Promise<{ success: boolean }> {
+/**
+ * Fetches the user's mobility plan for a day
+ * @param accessToken - The signed-in user's access token
+ * @param planDate - The user's local date, as yyyy-MM-dd
+ * @returns The saved plan, an empty plan if there isn't one yet, or null on error
+ */
+export async function getMobilityPlan(
+  accessToken: string,
+  planDate: string
+): Promise<MobilityPlan | null> {
   try {
-    const supabase = createServerClient()
+    const { user, supabase } = await requireUser(accessToken)
 
-    // Check if the record already exists
-    const { data: existingRecord, error: fetchError } = await supabase
-      .from('mobility_limitations')
-      .select('id')
-      .eq('user_id', userId)
+    const { data, error } = await supabase
+      .from('mobility_plans')
+      .select('plan_date, body_muscle_ids, exercise_ids, completed_exercise_ids')
+      .eq('user_id', user.id)
+      .eq('plan_date', planDate)
       .maybeSingle()
 
-    if (fetchError && fetchError.code !== 'PGRST116') {
-      console.error('Error checking existing mobility record:', fetchError)
-      return { success: false }
+    if (error) {
+      console.error('Error fetching mobility plan:', error)
+      return null
     }
 
-    if (existingRecord) {
-      // Update existing record
-      const { error: updateError } = await supabase
-        .from('mobility_limitations')
-        .update({ limitations, updated_at: new Date().toISOString() })
-        .eq('id', existingRecord.id)
-
-      if (updateError) {
-        console.error('Error updating mobility limitations:', updateError)
-        return { success: false }
-      }
-    } else {
-      // Insert new record
-      const { error: insertError } = await supabase.from('mobility_limitations').insert({
-        user_id: userId,
-        limitations,
-        created_at: new Date().toISOString(),
-        updated_at: new Date().toISOString(),
-      })
-
-      if (insertError) {
-        console.error('Error inserting mobility limitations:', insertError)
-        return { success: false }
+    return (
+      data ?? {
+        plan_date: planDate,
+        body_muscle_ids: [],
+        exercise_ids: [],
+        completed_exercise_ids: [],
       }
-    }
-
-    return { success: true }
+    )
   } catch (error) {
-    console.error('Error in saveMobilityLimitations:', error)
-    return { success: false }
+    console.error('Error in getMobilityPlan:', error)
+    return null
   }
 }
@@ -7,13 +7,7 @@ import { ExerciseCard } from '@/components/exercises/exercise-card'
 import type { ExerciseWithLabels } from '@/lib/types'
 import { capitalizeFirstLetter } from '@/lib/text-utils'
 import { BackButton } from '@/components/layout/back-button'
-
-interface BodyMuscle {
-  id: number
-  name: string
-  body_section: number
-  image_url: string
-}
+import type { BodyMuscle } from '@/hooks/use-body-muscle'
 
 export default async function MuscleGroupPage({ params }: { params: Promise<{ id: string }> }) {
   try {
@@ -35,7 +29,7 @@ export default async function MuscleGroupPage({ params }: { params: Promise<{ id
         }
       ),
       fetch(
-        `${process.env.NEXT_PUBLIC_BASE_URL || 'http://localhost:3000'}/api/exercises?type=mobilise`,
+        `${process.env.NEXT_PUBLIC_BASE_URL || 'http://localhost:3000'}/api/exercises?type=mobilise&muscles=${muscleId}`,
         {
           cache: 'no-store',
           next: { revalidate: 3600 },
@@ -54,6 +48,7 @@ export default async function MuscleGroupPage({ params }: { params: Promise<{ id
         name: `Muscle Group ${muscleId}`,
         body_section: 1,
         image_url: '',
+        map_region: null,
       }
     }
 
@@ -66,30 +61,8 @@ export default async function MuscleGroupPage({ params }: { params: Promise<{ id
       error = errorData.error || `Failed to load exercises: ${exercisesResponse.status}`
       console.error(`Error loading data for muscle ${muscleId}:`, error)
     } else {
-      const allExercises = await exercisesResponse.json()
-
-      // Filter exercises for this specific muscle group
-      exercises = allExercises.filter((exercise: ExerciseWithLabels) => {
-        // Check body_muscle property first
-        const exerciseMuscleId = exercise.body_muscle !== null ? Number(exercise.body_muscle) : null
-        if (exerciseMuscleId === muscleId) {
-          return true
-        }
-
-        // Then check name for muscle group indicators
-        if (exercise.name) {
-          // Look for patterns like "- 5", "(5)", " 5" at the end of the name
-          const namePatterns = [
-            new RegExp(`- ${muscleId}(\\s|$)`),
-            new RegExp(`\\(${muscleId}\\)`),
-            new RegExp(`\\s${muscleId}$`),
-          ]
-
-          return namePatterns.some(pattern => pattern.test(exercise.name))
-        }
-
-        return false
-      })
+      // Stretches working this muscle, as a main or secondary target
+      exercises = await exercisesResponse.json()
     }
 
     return (
@@ -2,85 +2,70 @@
 
 import { CollapsibleBox } from '@/components/common/collapsible-box'
 import { ExerciseCard } from '@/components/exercises/exercise-card'
-import { MuscleGroupSelector, MobilityLimitationsForm } from '@/components/mobilise'
+import { MusclePicker } from '@/components/body-map/muscle-picker'
+import { TightMusclesTracker } from '@/components/mobilise'
+import { GuidedPlayerButton } from '@/components/player'
 import { Alert, AlertDescription } from '@/components/ui/alert'
 import { useMobiliseExercises } from '@/hooks'
+import { useBodyMuscles } from '@/hooks/use-body-muscle'
+import { useMobilityPlan } from '@/hooks/use-mobility-plan'
 import type { ExerciseWithLabels } from '@/lib/types'
-import { AlertCircle } from 'lucide-react'
-import Image from 'next/image'
-import { useEffect, useState } from 'react'
-import { useAuth } from '@/components/auth/auth-provider'
-import { getUserMobilityLimitations } from './actions'
+import { cn } from '@/lib/utils'
+import { AlertCircle, Check } from 'lucide-react'
+import { useMemo } from 'react'
 
-export default function MobilisePage() {
-  const { allExercises, loading, error, maxMuscleGroup, clearCacheAndReload } =
-    useMobiliseExercises()
-  const [stretchExercises, setStretchExercises] = useState<ExerciseWithLabels[]>([])
-  const [selectedNumbers, setSelectedNumbers] = useState<number[]>([])
-  const { user } = useAuth()
-  const [mobilityLimitations, setMobilityLimitations] = useState('')
-  const [isLoadingLimitations, setIsLoadingLimitations] = useState(false)
-
-  // Load user's mobility limitations
-  useEffect(() => {
-    const loadMobilityLimitations = async () => {
-      if (!user?.id) return
-
-      setIsLoadingLimitations(true)
-      try {
-        const limitations = await getUserMobilityLimitations(user.id)
-        setMobilityLimitations(limitations)
-      } catch (error) {
-        console.error('Error loading mobility limitations:', error)
-      } finally {
-        setIsLoadingLimitations(false)
-      }
-    }
-
-    loadMobilityLimitations()
-  }, [user?.id])
-
-  useEffect(() => {
-    if (selectedNumbers.length === 0) {
-      setStretchExercises([])
-      return
-    }
+// Whether a stretch works a muscle, as its main target or a secondary one
+const targetsMuscle = (exercise: ExerciseWithLabels, muscleId: number) =>
+  !!exercise.muscles?.some(muscle => muscle.body_muscle_id === muscleId)
 
-    const filtered = allExercises.filter(exercise => {
-      // Check body_muscle property first
-      const exerciseMuscleId = exercise.body_muscle !== null ? Number(exercise.body_muscle) : null
-      if (exerciseMuscleId !== null && selectedNumbers.includes(exerciseMuscleId)) {
-        return true
-      }
+const findStretches = (exercises: ExerciseWithLabels[], muscleIds: number[]) =>
+  exercises.filter(exercise => muscleIds.some(muscleId => targetsMuscle(exercise, muscleId)))
 
-      // Then check name for muscle group indicators
-      if (exercise.name) {
-        return selectedNumbers.some(selectedNumber => {
-          // Look for patterns like "- 5", "(5)", " 5" at the end of the name
-          const namePatterns = [
-            new RegExp(`- ${selectedNumber}(\\s|$)`),
-            new RegExp(`\\(${selectedNumber}\\)`),
-            new RegExp(`\\s${selectedNumber}$`),
-          ]
-
-          return namePatterns.some(pattern => pattern.test(exercise.name))
-        })
-      }
-
-      return false
-    })
+export default function MobilisePage() {
+  const { allExercises, loading, error, isFetching, refetch } = useMobiliseExercises()
+  const { bodyMuscles, error: musclesError } = useBodyMuscles()
+  const { plan, loading: planLoading, selectMuscles, toggleDone } = useMobilityPlan()
+  const selectedNumbers = plan.body_muscle_ids
+
+  // Stretches in the plan's saved order, with any added since it was saved at the end
+  const stretchExercises = useMemo(() => {
+    const positions = new Map(plan.exercise_ids.map((id, index) => [id, index]))
+    const position = (exercise: ExerciseWithLabels) => positions.get(exercise.id) ?? positions.size
+    return findStretches(allExercises, plan.body_muscle_ids).sort(
+      (a, b) => position(a) - position(b)
+    )
+  }, [allExercises, plan.body_muscle_ids, plan.exercise_ids])
+
+  const doneCount = stretchExercises.filter(exercise =>
+    plan.completed_exercise_ids.includes(exercise.id)
+  ).length
+
+  // How many stretches each muscle has, shown next to its name
+  const stretchCounts = useMemo(
+    () =>
+      new Map(
+        bodyMuscles.map(muscle => [
+          muscle.id,
+          allExercises.filter(exercise => targetsMuscle(exercise, muscle.id)).length,
+        ])
+      ),
+    [allExercises, bodyMuscles]
+  )
 
-    setStretchExercises(filtered)
-  }, [allExercises, selectedNumbers])
+  const handleSelectNumbers = (numbers: number[]) => {
+    const muscleIds = [...new Set(numbers)].sort((a, b) => a - b)
+    selectMuscles(
+      muscleIds,
+      findStretches(allExercises, muscleIds).map(exercise => exercise.id)
+    )
+  }
 
   const handleToggleNumber = (number: number) => {
-    setSelectedNumbers(prev => {
-      if (prev.includes(number)) {
-        return prev.filter(n => n !== number)
-      } else {
-        return [...prev, number].sort((a, b) => a - b)
-      }
-    })
+    handleSelectNumbers(
+      selectedNumbers.includes(number)
+        ? selectedNumbers.filter(n => n !== number)
+        : [...selectedNumbers, number]
+    )
   }
 
   return (
@@ -110,37 +95,26 @@ export default function MobilisePage() {
         </div>
       </CollapsibleBox>
 
-      {/* Mobility Limitations Form */}
+      {/* Recently tight muscles */}
       <div className="mb-6">
-        <MobilityLimitationsForm
-          userId={user?.id}
-          initialLimitations={mobilityLimitations}
-          isLoading={isLoadingLimitations}
-        />
+        <TightMusclesTracker onSelectMuscles={handleSelectNumbers} />
       </div>
 
-      {/* Image section */}
-      <section className="mb-8">
-        <div className="rounded-lg overflow-hidden shadow-md">
-          <div className="flex justify-center">
-            <Image
-              src="https://lmkifqxcrrzjjkkpwsgn.supabase.co/storage/v1/object/public/fit-app/mobilise-body-muscles/body-muscles.jpg"
-              alt="Muscles stretching"
-              width={400}
-              height={600}
-              className="w-auto h-auto max-h-[500px] object-contain"
-              priority
-            />
-          </div>
-        </div>
-      </section>
-
-      {/* Muscle Group Selector Component */}
-      <MuscleGroupSelector
-        maxMuscleGroup={maxMuscleGroup}
-        selectedNumbers={selectedNumbers}
-        onToggleNumber={handleToggleNumber}
-      />
+      {/* Body map */}
+      {musclesError ? (
+        <Alert variant="destructive" className="mb-8">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>Failed to load the body map. Please try again.</AlertDescription>
+        </Alert>
+      ) : (
+        <MusclePicker
+          className="mb-8"
+          muscles={bodyMuscles}
+          selectedIds={selectedNumbers}
+          onToggleMuscle={handleToggleNumber}
+          getMuscleCount={muscleId => stretchCounts.get(muscleId) ?? 0}
+        />
+      )}
 
       <section>
         {error && (
@@ -150,7 +124,7 @@ export default function MobilisePage() {
           </Alert>
         )}
 
-        {loading ? (
+        {loading || planLoading ? (
           <div className="grid grid-cols-1 gap-4">
             {[1, 2, 3, 4].map(i => (
               <div key={i} className="rounded-lg overflow-hidden h-full bg-muted animate-pulse">
@@ -170,40 +144,65 @@ export default function MobilisePage() {
         ) : selectedNumbers.length === 0 ? (
           <div className="text-center py-2">
             <p className="text-muted-foreground">
-              Please select one or more muscle groups from above to view exercises
+              Tap one or more muscles on the body map to view exercises
             </p>
           </div>
         ) : stretchExercises.length > 0 ? (
           <div className="grid grid-cols-1 gap-4">
-            {stretchExercises.map(exercise => (
-              <ExerciseCard
-                key={exercise.id}
-                id={exercise.id}
-                name={exercise.name}
-                image={exercise.image}
-                linkPrefix="/mobilise"
-                description={exercise.description}
-              />
-            ))}
+            <GuidedPlayerButton exercises={stretchExercises} section="mobilise" />
+            <p className="text-sm text-muted-foreground text-center" aria-live="polite">
+              {doneCount} of {stretchExercises.length} stretches done today
+            </p>
+            {stretchExercises.map(exercise => {
+              const isDone = plan.completed_exercise_ids.includes(exercise.id)
+              return (
+                <div key={exercise.id} className="relative">
+                  <div className={cn('transition-opacity', isDone && 'opacity-60')}>
+                    <ExerciseCard
+                      id={exercise.id}
+                      name={exercise.name}
+                      image={exercise.image}
+                      linkPrefix="/mobilise"
+                      description={exercise.description}
+                    />
+                  </div>
+                  <button
+                    type="button"
+                    onClick={() => toggleDone(exercise.id)}
+                    className={cn(
+                      'absolute top-2 right-2 h-9 w-9 flex items-center justify-center rounded-full border-2 shadow-sm transition-colors focus:outline-none focus:ring-2 focus:ring-primary focus:ring-offset-2',
+                      isDone
+                        ? 'bg-success border-success text-success-foreground'
+                        : 'bg-background/90 border-border text-muted-foreground hover:border-primary/50'
+                    )}
+                    aria-pressed={isDone}
+                    aria-label={`Mark ${exercise.name} as done`}
+                  >
+                    <Check className="h-5 w-5" />
+                  </button>
+                </div>
+              )
+            })}
           </div>
         ) : (
           <div className="space-y-6">
             <div className="text-center py-8">
               <p className="text-muted-foreground">
                 {selectedNumbers.length > 0
-                  ? `No stretch exercises found for selected muscle groups: ${selectedNumbers.join(', ')}. Try selecting different groups.`
-                  : 'No stretch exercises found. Please select muscle groups above.'}
+                  ? `No stretch exercises found for selected muscles: ${selectedNumbers.join(', ')}. Try selecting different muscles.`
+                  : 'No stretch exercises found. Please select muscles above.'}
               </p>
             </div>
 
             {/* Helper button */}
             <div className="flex justify-center">
               <button
-                onClick={clearCacheAndReload}
-                className="px-3 py-1 bg-secondary text-secondary-foreground rounded-md text-sm"
-                aria-label="Clear local exercise cache and reload the page"
+                onClick={() => refetch()}
+                disabled={isFetching}
+                className="px-3 py-1 bg-secondary text-secondary-foreground rounded-md text-sm disabled:opacity-50"
+                aria-label="Check for new stretch exercises"
               >
-                Clear Cache & Reload
+                {isFetching ? 'Refreshing...' : 'Refresh exercises'}
               </button>
             </div>
           </div>
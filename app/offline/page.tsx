@@ -0,0 +1,59 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import { format } from 'date-fns'
+import { CloudOff } from 'lucide-react'
+import { useAuth } from '@/components/auth/auth-provider'
+import { Card, CardContent } from '@/components/ui/card'
+import { getOfflineDays, type OfflineDay } from '@/lib/offline-days'
+import { capitalizeFirstLetter } from '@/lib/text-utils'
+
+// Shown by the service worker when a page that hasn't been saved is opened offline
+export default function OfflinePage() {
+  const { user } = useAuth()
+  const [days, setDays] = useState<OfflineDay[]>([])
+
+  useEffect(() => {
+    setDays(user ? getOfflineDays(user.id) : [])
+  }, [user])
+
+  return (
+    <div className="container mx-auto px-4 py-6">
+      <div className="flex items-center gap-2 mb-2">
+        <CloudOff className="h-6 w-6 text-muted-foreground" />
+        <h1>You're offline</h1>
+      </div>
+      <p className="text-muted-foreground mb-6">
+        This page hasn't been saved for offline use. Anything you log is kept on this device and
+        synced when you're back online.
+      </p>
+
+      {days.length > 0 ? (
+        <>
+          <h2 className="text-lg font-medium mb-3">Saved training days</h2>
+          <div className="grid grid-cols-1 gap-3">
+            {days.map(day => (
+              <Link key={`${day.category}-${day.dayId}`} href={`/${day.category}/day/${day.dayId}`}>
+                <Card className="hover:border-primary transition-colors">
+                  <CardContent className="p-4">
+                    <p className="font-heading font-medium">
+                      {capitalizeFirstLetter(day.category)} · Day {day.dayId}
+                    </p>
+                    <p className="text-sm text-muted-foreground">
+                      Saved {format(new Date(day.savedAt), 'd MMM, HH:mm')}
+                    </p>
+                  </CardContent>
+                </Card>
+              </Link>
+            ))}
+          </div>
+        </>
+      ) : (
+        <p className="text-sm text-muted-foreground">
+          Use "Save for offline" on a training day to follow it without a connection.
+        </p>
+      )}
+    </div>
+  )
+}
@@ -1,6 +1,6 @@
 'use client'
 
-import { useState, useEffect } from 'react'
+import { useEffect } from 'react'
 import { ExerciseCard } from '@/components/exercises/exercise-card'
 import type { ExerciseWithLabels } from '@/lib/types'
 import { CollapsibleBox } from '@/components/common/collapsible-box'
@@ -8,82 +8,52 @@ import { useAuth } from '@/components/auth/auth-provider'
 import { ConfigError } from '@/components/common/config-error'
 import { Alert, AlertDescription } from '@/components/ui/alert'
 import { AlertCircle } from 'lucide-react'
+import { useWorkoutSession } from '@/contexts/workout-session-context'
+import { useQuery } from '@/hooks/use-query'
+import { CONTENT_STALE_TIME, queryKeys } from '@/lib/query-keys'
 
-// Cache expiration time (24 hours in milliseconds)
-const CACHE_EXPIRATION = 24 * 60 * 60 * 1000
+async function fetchWarmUpExercises(): Promise<ExerciseWithLabels[]> {
+  const response = await fetch('/api/exercises?type=warm-up')
 
-export default function HomePage() {
-  const [cardioExercises, setCardioExercises] = useState<ExerciseWithLabels[]>([])
-  const [loading, setLoading] = useState(true)
-  const [error, setError] = useState<string | null>(null)
-  const { user, error: authError } = useAuth()
-
-  useEffect(() => {
-    async function loadExercises() {
-      try {
-        // Check localStorage first
-        const cachedData = localStorage.getItem('warm-up-exercises')
-        const cachedTimestamp = localStorage.getItem('warm-up-exercises-timestamp')
-
-        // If we have cached data and it's not expired
-        if (cachedData && cachedTimestamp) {
-          const timestamp = Number.parseInt(cachedTimestamp, 10)
-          const now = Date.now()
-
-          // Use cached data if it's less than 24 hours old
-          if (now - timestamp < CACHE_EXPIRATION) {
-            const exercises = JSON.parse(cachedData)
-            setCardioExercises(exercises)
-            setLoading(false)
-            return
-          }
-        }
-
-        // If no cache or expired, fetch from API
-        const response = await fetch('/api/exercises?type=warm-up')
-
-        if (!response.ok) {
-          const errorData = await response.json().catch(() => ({}))
-          console.error('API error:', errorData)
-          throw new Error(errorData.error || `Failed to fetch warmup exercises: ${response.status}`)
-        }
-
-        const exercises = await response.json()
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}))
+    console.error('API error:', errorData)
+    throw new Error(errorData.error || `Failed to fetch warmup exercises: ${response.status}`)
+  }
 
-        // Check if we got a valid response
-        if (!Array.isArray(exercises)) {
-          console.error('Invalid API response format:', exercises)
-          throw new Error('Invalid response format from API')
-        }
+  const exercises = await response.json()
 
-        setCardioExercises(exercises)
+  // Check if we got a valid response
+  if (!Array.isArray(exercises)) {
+    console.error('Invalid API response format:', exercises)
+    throw new Error('Invalid response format from API')
+  }
 
-        // Save to localStorage with timestamp
-        localStorage.setItem('warm-up-exercises', JSON.stringify(exercises))
-        localStorage.setItem('warm-up-exercises-timestamp', Date.now().toString())
-      } catch (error) {
-        console.error('Error loading exercises:', error)
-        setError(error instanceof Error ? error.message : 'Failed to load exercises')
+  return exercises
+}
 
-        // If API fails, try to use cached data even if expired
-        try {
-          const cachedData = localStorage.getItem('warm-up-exercises')
-          if (cachedData) {
-            setCardioExercises(JSON.parse(cachedData))
-          }
-        } catch (cacheError) {
-          console.error('Error loading from cache:', cacheError)
-        }
-      } finally {
-        setLoading(false)
-      }
-    }
+export default function HomePage() {
+  const { user, error: authError } = useAuth()
+  const { startSession } = useWorkoutSession()
 
-    // Only load exercises if user is authenticated
+  // Opening Warm up starts (or resumes) today's workout session
+  useEffect(() => {
     if (user) {
-      loadExercises()
+      startSession()
     }
-  }, [user])
+  }, [user, startSession])
+
+  // Only load exercises once the user is authenticated
+  const {
+    data: cardioExercises = [],
+    loading,
+    error,
+    isFetching,
+    refetch,
+  } = useQuery(user ? queryKeys.exercisesOfType('warm-up') : null, fetchWarmUpExercises, {
+    staleTime: CONTENT_STALE_TIME,
+    persist: true,
+  })
 
   // If there's an auth error, show the config error component
   if (authError) {
@@ -151,15 +121,11 @@ export default function HomePage() {
             {/* Helper button */}
             <div className="flex justify-center">
               <button
-                onClick={() => {
-                  // Force reload without cache
-                  localStorage.removeItem('warm-up-exercises')
-                  localStorage.removeItem('warm-up-exercises-timestamp')
-                  window.location.reload()
-                }}
-                className="px-3 py-1 bg-secondary text-secondary-foreground rounded-md text-sm"
+                onClick={() => refetch()}
+                disabled={isFetching}
+                className="px-3 py-1 bg-secondary text-secondary-foreground rounded-md text-sm disabled:opacity-50"
               >
-                Clear Cache & Reload
+                {isFetching ? 'Refreshing...' : 'Refresh exercises'}
               </button>
             </div>
           </div>
@@ -1,18 +1,23 @@
 'use server'
 
-import { createClient } from '@supabase/supabase-js'
+import { requireUser, type UserClient } from '@/lib/user-auth'
+import type {
+  KitProfile,
+  Profile,
+  ProfileSettings,
+  WeightUnit,
+  WorkoutHistoryEntry,
+} from '@/lib/types'
+import { MAX_PROGRESS_SETS, type GroupedSet } from '@/lib/strength-progress'
+import {
+  AVATAR_BUCKET,
+  DEFAULT_PROFILE_SETTINGS,
+  MAX_AVATAR_BYTES,
+  profileSettingsSchema,
+} from '@/lib/profile'
+import { kitProfileSchema } from '@/lib/kit'
 
-// Create a server-side Supabase client
-const createServerClient = () => {
-  const supabaseUrl = process.env.SUPABASE_URL || ''
-  const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY || ''
-
-  return createClient(supabaseUrl, supabaseServiceKey, {
-    auth: {
-      persistSession: true,
-    },
-  })
-}
+const HISTORY_PAGE_SIZE = 100
 
 export interface GoalNote {
   goal_category_id: number
@@ -29,14 +34,14 @@ export interface GoalNotes {
 }
 
 // Get user's goal notes for all categories
-export async function getUserGoalNotes(userId: string): Promise<GoalNotes> {
+export async function getUserGoalNotes(accessToken: string): Promise<GoalNotes> {
   try {
-    const supabase = createServerClient()
+    const { user, supabase } = await requireUser(accessToken)
 
     const { data, error } = await supabase
       .from('user_goal_notes')
       .select('goal_category_id, notes')
-      .eq('user_id', userId)
+      .eq('user_id', user.id)
 
     if (error) {
       console.error('Error fetching user goal notes:', error)
@@ -70,40 +75,460 @@ export async function getUserGoalNotes(userId: string): Promise<GoalNotes> {
   }
 }
 
-// Save or update a goal note for a specific category
-export async function saveGoalNote(
-  userId: string,
-  category: 'pain' | 'posture' | 'performance' | 'physique',
-  notes: string
-): Promise<{ success: boolean }> {
+// Get one page of the user's workout history between two dates (newest first)
+export async function getWorkoutHistory(
+  accessToken: string,
+  from: string,
+  to: string,
+  page = 0,
+  pageSize = HISTORY_PAGE_SIZE
+): Promise<{ entries: WorkoutHistoryEntry[]; hasMore: boolean }> {
+  try {
+    const { user, supabase } = await requireUser(accessToken)
+    const start = page * pageSize
+
+    // Ask for one extra row to know whether another page exists
+    const { data, error } = await supabase
+      .from('workout_history')
+      .select('*')
+      .eq('user_id', user.id)
+      .gte('completed_at', from)
+      .lt('completed_at', to)
+      .order('completed_at', { ascending: false })
+      .range(start, start + pageSize)
+
+    if (error) {
+      console.error('Error fetching workout history:', error)
+      return { entries: [], hasMore: false }
+    }
+
+    const entries = (data || []) as WorkoutHistoryEntry[]
+
+    return {
+      entries: entries.slice(0, pageSize),
+      hasMore: entries.length > pageSize,
+    }
+  } catch (error) {
+    console.error('Error in getWorkoutHistory:', error)
+    return { entries: [], hasMore: false }
+  }
+}
+
+// Get the days between two times on which the user logged anything, as yyyy-MM-dd dates in
+// their own time zone
+export async function getTrainedDays(
+  accessToken: string,
+  from: string,
+  to: string,
+  timeZone: string
+): Promise<string[] | null> {
+  try {
+    const { supabase } = await requireUser(accessToken)
+
+    const { data, error } = await supabase.rpc('workout_history_days', {
+      range_start: from,
+      range_end: to,
+      time_zone: timeZone,
+    })
+
+    if (error) {
+      console.error('Error fetching trained days:', error)
+      return null
+    }
+
+    return ((data || []) as { day: string }[]).map(row => row.day)
+  } catch (error) {
+    console.error('Error in getTrainedDays:', error)
+    return null
+  }
+}
+
+// A set with its exercise's group and body section, as selected by getGroupedSets
+type GroupedSetRow = {
+  reps: number
+  load: number | null
+  unit: WeightUnit
+  completed_at: string
+  exercises: {
+    exercise_groups: { name: string; exercise_body_section: { name: string } | null } | null
+  } | null
+}
+
+// Get the user's loaded sets since a date with the exercise group and body section they trained
+export async function getGroupedSets(
+  accessToken: string,
+  from: string | null
+): Promise<GroupedSet[]> {
+  try {
+    const { user, supabase } = await requireUser(accessToken)
+
+    let query = supabase
+      .from('workout_sets')
+      .select(
+        `
+        reps,
+        load,
+        unit,
+        completed_at,
+        exercises (
+          exercise_groups (
+            name,
+            exercise_body_section (name)
+          )
+        )
+      `
+      )
+      .eq('user_id', user.id)
+      .not('load', 'is', null)
+
+    if (from) {
+      query = query.gte('completed_at', from)
+    }
+
+    // Newest first so a long history loses its oldest sets, then back to oldest first
+    const { data, error } = await query
+      .order('completed_at', { ascending: false })
+      .limit(MAX_PROGRESS_SETS)
+      .overrideTypes<GroupedSetRow[], { merge: false }>()
+
+    if (error) {
+      console.error('Error fetching grouped sets:', error)
+      return []
+    }
+
+    return (data || []).reverse().map(set => {
+      const group = set.exercises?.exercise_groups
+      const bodySection: string | null = group?.exercise_body_section?.name || null
+
+      return {
+        reps: set.reps,
+        load: set.load,
+        unit: set.unit,
+        completed_at: set.completed_at,
+        group: group?.name || null,
+        bodySection: bodySection
+          ? bodySection.charAt(0).toUpperCase() + bodySection.slice(1)
+          : null,
+      }
+    })
+  } catch (error) {
+    console.error('Error in getGroupedSets:', error)
+    return []
+  }
+}
+
+type ProfileResult = { success: boolean; profile?: Profile; error?: string }
+
+/**
+ * Fetches the user's profile
+ * @param accessToken - The signed-in user's access token
+ * @returns The profile, with the defaults if the user has no row yet, or null on error
+ */
+export async function getProfile(accessToken: string): Promise<Profile | null> {
   try {
-    const supabase = createServerClient()
-
-    // Map category names to IDs
-    const categoryIds = { pain: 1, posture: 2, performance: 3, physique: 4 }
-    const goalCategoryId = categoryIds[category]
-
-    // Use upsert to insert or update
-    const { error } = await supabase.from('user_goal_notes').upsert(
-      {
-        user_id: userId,
-        goal_category_id: goalCategoryId,
-        notes,
-        updated_at: new Date().toISOString(),
-      },
-      {
-        onConflict: 'user_id,goal_category_id',
+    const { user, supabase } = await requireUser(accessToken)
+
+    const { data, error } = await supabase
+      .from('profiles')
+      .select('*')
+      .eq('id', user.id)
+      .maybeSingle()
+
+    if (error) {
+      console.error('Error fetching profile:', error)
+      return null
+    }
+
+    return (
+      data ?? {
+        id: user.id,
+        ...DEFAULT_PROFILE_SETTINGS,
+        avatar_url: null,
+        active_kit_profile_id: null,
+        created_at: user.created_at,
+        updated_at: user.created_at,
       }
     )
+  } catch (error) {
+    console.error('Error in getProfile:', error)
+    return null
+  }
+}
+
+// Creates the profile row if the user doesn't have one yet
+async function saveProfile(
+  supabase: UserClient,
+  userId: string,
+  changes: Partial<Omit<Profile, 'id' | 'created_at' | 'updated_at'>>
+): Promise<Profile | null> {
+  const { data, error } = await supabase
+    .from('profiles')
+    .upsert({ id: userId, ...changes }, { onConflict: 'id' })
+    .select()
+    .single()
+
+  if (error) {
+    console.error('Error saving profile:', error)
+    return null
+  }
+  return data
+}
+
+/**
+ * Saves the user's display name and training preferences
+ * @param accessToken - The signed-in user's access token
+ * @param settings - The settings from /record/settings
+ * @returns Success status and the saved profile
+ */
+export async function updateProfile(
+  accessToken: string,
+  settings: ProfileSettings
+): Promise<ProfileResult> {
+  const parsed = profileSettingsSchema.safeParse(settings)
+  if (!parsed.success) {
+    console.error('Invalid profile settings:', parsed.error.flatten())
+    return { success: false, error: 'Please check your settings and try again' }
+  }
+
+  try {
+    const { user, supabase } = await requireUser(accessToken)
+
+    const profile = await saveProfile(supabase, user.id, parsed.data)
+    return profile ? { success: true, profile } : { success: false, error: 'Failed to save' }
+  } catch (error) {
+    console.error('Error in updateProfile:', error)
+    return { success: false, error: 'Failed to save' }
+  }
+}
+
+// Removes the user's avatar files other than the one to keep
+async function removeOldAvatars(supabase: UserClient, userId: string, keep?: string) {
+  const { data: files, error } = await supabase.storage.from(AVATAR_BUCKET).list(userId)
+  if (error) {
+    console.error('Error listing avatars:', error)
+    return
+  }
+
+  const paths = (files ?? []).map(file => `${userId}/${file.name}`).filter(path => path !== keep)
+  if (paths.length === 0) return
+
+  const { error: removeError } = await supabase.storage.from(AVATAR_BUCKET).remove(paths)
+  if (removeError) console.error('Error removing old avatars:', removeError)
+}
+
+/**
+ * Uploads a new avatar to Supabase Storage and sets it on the user's profile
+ * @param accessToken - The signed-in user's access token
+ * @param formData - The image file, as "file"
+ * @returns Success status and the updated profile
+ */
+export async function uploadAvatar(
+  accessToken: string,
+  formData: FormData
+): Promise<ProfileResult> {
+  const file = formData.get('file')
+
+  if (!(file instanceof File)) {
+    return { success: false, error: 'Invalid upload' }
+  }
+  if (!file.type.startsWith('image/')) {
+    return { success: false, error: 'Please choose an image file' }
+  }
+  if (file.size > MAX_AVATAR_BYTES) {
+    return { success: false, error: 'Images must be 2 MB or smaller' }
+  }
+
+  try {
+    const { user, supabase } = await requireUser(accessToken)
+
+    const extension = file.name.split('.').pop() || 'jpg'
+    // A new name each time so the old image isn't served from caches
+    const path = `${user.id}/avatar-${Date.now()}.${extension}`
+
+    const { error: uploadError } = await supabase.storage
+      .from(AVATAR_BUCKET)
+      .upload(path, file, { contentType: file.type })
+
+    if (uploadError) {
+      console.error('Error uploading avatar:', uploadError)
+      return { success: false, error: 'Upload failed' }
+    }
+
+    const {
+      data: { publicUrl },
+    } = supabase.storage.from(AVATAR_BUCKET).getPublicUrl(path)
+
+    const profile = await saveProfile(supabase, user.id, { avatar_url: publicUrl })
+    if (!profile) return { success: false, error: 'Failed to save the image' }
+
+    await removeOldAvatars(supabase, user.id, path)
+    return { success: true, profile }
+  } catch (error) {
+    console.error('Error in uploadAvatar:', error)
+    return { success: false, error: 'Upload failed' }
+  }
+}
+
+/**
+ * Removes the user's avatar, going back to their initial
+ * @param accessToken - The signed-in user's access token
+ * @returns Success status and the updated profile
+ */
+export async function removeAvatar(accessToken: string): Promise<ProfileResult> {
+  try {
+    const { user, supabase } = await requireUser(accessToken)
+
+    const profile = await saveProfile(supabase, user.id, { avatar_url: null })
+    if (!profile) return { success: false, error: 'Failed to remove the image' }
+
+    await removeOldAvatars(supabase, user.id)
+    return { success: true, profile }
+  } catch (error) {
+    console.error('Error in removeAvatar:', error)
+    return { success: false, error: 'Failed to remove the image' }
+  }
+}
+
+type KitProfileResult = { success: boolean; kitProfile?: KitProfile; error?: string }
+
+/**
+ * Fetches the user's equipment profiles
+ * @param accessToken - The signed-in user's access token
+ * @returns Kit profiles ordered by name, or null on error
+ */
+export async function getKitProfiles(accessToken: string): Promise<KitProfile[] | null> {
+  try {
+    const { user, supabase } = await requireUser(accessToken)
+
+    const { data, error } = await supabase
+      .from('kit_profiles')
+      .select('id, name, kit_ids')
+      .eq('user_id', user.id)
+      .order('name')
 
     if (error) {
-      console.error('Error saving goal note:', error)
-      return { success: false }
+      console.error('Error fetching kit profiles:', error)
+      return null
+    }
+
+    return data || []
+  } catch (error) {
+    console.error('Error in getKitProfiles:', error)
+    return null
+  }
+}
+
+/**
+ * Creates an equipment profile, or updates one when an ID is given
+ * @param accessToken - The signed-in user's access token
+ * @param kitProfile - The profile's name and the kit in it
+ * @param id - The ID of the profile to update
+ * @returns Success status and the saved kit profile
+ */
+export async function saveKitProfile(
+  accessToken: string,
+  kitProfile: Omit<KitProfile, 'id'>,
+  id?: number
+): Promise<KitProfileResult> {
+  const parsed = kitProfileSchema.safeParse(kitProfile)
+  if (!parsed.success) {
+    console.error('Invalid kit profile:', parsed.error.flatten())
+    return { success: false, error: 'Please give the profile a name' }
+  }
+
+  try {
+    const { user, supabase } = await requireUser(accessToken)
+
+    const { data, error } = id
+      ? await supabase
+          .from('kit_profiles')
+          .update(parsed.data)
+          .eq('id', id)
+          .eq('user_id', user.id)
+          .select('id, name, kit_ids')
+          .single()
+      : await supabase
+          .from('kit_profiles')
+          .insert({ ...parsed.data, user_id: user.id })
+          .select('id, name, kit_ids')
+          .single()
+
+    if (error) {
+      console.error('Error saving kit profile:', error)
+      return { success: false, error: 'Failed to save' }
+    }
+
+    return { success: true, kitProfile: data }
+  } catch (error) {
+    console.error('Error in saveKitProfile:', error)
+    return { success: false, error: 'Failed to save' }
+  }
+}
+
+/**
+ * Deletes an equipment profile. If it was active, no profile is active afterwards.
+ * @param accessToken - The signed-in user's access token
+ * @param id - The ID of the kit profile
+ * @returns Success status
+ */
+export async function deleteKitProfile(
+  accessToken: string,
+  id: number
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const { user, supabase } = await requireUser(accessToken)
+
+    const { error } = await supabase
+      .from('kit_profiles')
+      .delete()
+      .eq('id', id)
+      .eq('user_id', user.id)
+
+    if (error) {
+      console.error('Error deleting kit profile:', error)
+      return { success: false, error: 'Failed to delete' }
     }
 
     return { success: true }
   } catch (error) {
-    console.error('Error in saveGoalNote:', error)
-    return { success: false }
+    console.error('Error in deleteKitProfile:', error)
+    return { success: false, error: 'Failed to delete' }
+  }
+}
+
+/**
+ * Chooses the equipment profile exercises are checked against
+ * @param accessToken - The signed-in user's access token
+ * @param id - The ID of the kit profile, or null to show all exercises as available
+ * @returns Success status and the updated profile
+ */
+export async function setActiveKitProfile(
+  accessToken: string,
+  id: number | null
+): Promise<ProfileResult> {
+  try {
+    const { user, supabase } = await requireUser(accessToken)
+
+    if (id !== null) {
+      // The foreign key would accept another user's kit profile
+      const { data: kitProfile, error } = await supabase
+        .from('kit_profiles')
+        .select('id')
+        .eq('id', id)
+        .eq('user_id', user.id)
+        .maybeSingle()
+
+      if (error) {
+        console.error('Error fetching kit profile:', error)
+        return { success: false, error: 'Failed to save' }
+      }
+      if (!kitProfile) return { success: false, error: 'Kit profile not found' }
+    }
+
+    const profile = await saveProfile(supabase, user.id, { active_kit_profile_id: id })
+    return profile ? { success: true, profile } : { success: false, error: 'Failed to save' }
+  } catch (error) {
+    console.error('Error in setActiveKitProfile:', error)
+    return { success: false, error: 'Failed to save' }
   }
 }
@@ -0,0 +1,175 @@
+'use client'
+
+import { useState, useEffect, useCallback, useRef } from 'react'
+import { addDays, addMonths, parseISO, startOfDay, startOfMonth } from 'date-fns'
+import { AlertCircle, Loader2 } from 'lucide-react'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { Button } from '@/components/ui/button'
+import { Calendar } from '@/components/ui/calendar'
+import { BackButton } from '@/components/layout/back-button'
+import { WorkoutHistoryDay } from '@/components/record/workout-history-day'
+import { useAuth } from '@/components/auth/auth-provider'
+import { getTrainedDays, getWorkoutHistory } from '@/app/record/actions'
+import { getAccessToken } from '@/lib/supabase'
+import type { WorkoutHistoryEntry } from '@/lib/types'
+
+export default function WorkoutHistoryPage() {
+  const { user } = useAuth()
+  const [month, setMonth] = useState(() => startOfMonth(new Date()))
+  const [selectedDay, setSelectedDay] = useState<Date | undefined>(() => new Date())
+  const [trainedDays, setTrainedDays] = useState<Date[]>([])
+  const [entries, setEntries] = useState<WorkoutHistoryEntry[]>([])
+  const [page, setPage] = useState(0)
+  const [hasMore, setHasMore] = useState(false)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  // Counts day loads, so a response for a day that's no longer selected is dropped
+  const dayRequestRef = useRef(0)
+
+  // Days with at least one logged exercise, highlighted on the calendar
+  useEffect(() => {
+    if (!user?.id) return
+    let mounted = true
+
+    const loadTrainedDays = async () => {
+      try {
+        const accessToken = await getAccessToken()
+        if (!accessToken) throw new Error('Not signed in')
+
+        const timeZone = Intl.DateTimeFormat().resolvedOptions().timeZone
+        const days = await getTrainedDays(
+          accessToken,
+          month.toISOString(),
+          addMonths(month, 1).toISOString(),
+          timeZone
+        )
+        if (!days) throw new Error('Failed to load trained days')
+
+        if (mounted) setTrainedDays(days.map(day => parseISO(day)))
+      } catch (err) {
+        console.error('Error loading trained days:', err)
+        if (mounted) setError('Failed to load your workout history')
+      }
+    }
+
+    setTrainedDays([])
+    loadTrainedDays()
+    return () => {
+      mounted = false
+    }
+  }, [user?.id, month])
+
+  const loadPage = useCallback(
+    async (day: Date, pageToLoad: number) => {
+      if (!user?.id) return
+
+      const request = ++dayRequestRef.current
+      if (pageToLoad === 0) setEntries([])
+      setLoading(true)
+      setError(null)
+
+      try {
+        const accessToken = await getAccessToken()
+        if (!accessToken) throw new Error('Not signed in')
+
+        const from = startOfDay(day)
+        const result = await getWorkoutHistory(
+          accessToken,
+          from.toISOString(),
+          addDays(from, 1).toISOString(),
+          pageToLoad
+        )
+        if (request !== dayRequestRef.current) return
+
+        setEntries(prev => (pageToLoad === 0 ? result.entries : [...prev, ...result.entries]))
+        setHasMore(result.hasMore)
+        setPage(pageToLoad)
+      } catch (err) {
+        console.error('Error loading workout history:', err)
+        if (request === dayRequestRef.current) setError('Failed to load your workout history')
+      } finally {
+        if (request === dayRequestRef.current) setLoading(false)
+      }
+    },
+    [user?.id]
+  )
+
+  // Load the selected day's exercises from the first page
+  useEffect(() => {
+    if (!user?.id || !selectedDay) {
+      // Drop any load still running for the previous day
+      dayRequestRef.current++
+      setEntries([])
+      setHasMore(false)
+      setLoading(false)
+      return
+    }
+
+    loadPage(selectedDay, 0)
+  }, [user?.id, selectedDay, loadPage])
+
+  const handleMonthChange = (newMonth: Date) => {
+    setMonth(startOfMonth(newMonth))
+    setSelectedDay(undefined)
+  }
+
+  return (
+    <div className="container mx-auto px-4 py-6">
+      <div className="mb-6">
+        <BackButton href="/record" />
+      </div>
+
+      <h1 className="text-2xl font-bold">Workout history</h1>
+      <p className="text-sm text-muted-foreground mb-6">
+        Days you trained are highlighted. Select a day to see what you did.
+      </p>
+
+      {error && (
+        <Alert variant="destructive" className="mb-4">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <div className="flex justify-center mb-4">
+        <Calendar
+          mode="single"
+          month={month}
+          onMonthChange={handleMonthChange}
+          selected={selectedDay}
+          onSelect={setSelectedDay}
+          modifiers={{ trained: trainedDays }}
+          modifiersClassNames={{ trained: 'font-bold text-primary underline underline-offset-4' }}
+          disabled={{ after: new Date() }}
+          className="rounded-md border"
+        />
+      </div>
+
+      {hasMore && (
+        <Button
+          variant="outline"
+          className="w-full mb-6"
+          onClick={() => selectedDay && loadPage(selectedDay, page + 1)}
+          disabled={loading}
+        >
+          Load more of this day
+        </Button>
+      )}
+
+      {loading && entries.length === 0 ? (
+        <div className="flex justify-center items-center py-8" aria-busy="true" aria-live="polite">
+          <Loader2 className="h-6 w-6 animate-spin text-primary mr-2" />
+          <span>Loading your history...</span>
+        </div>
+      ) : selectedDay ? (
+        <WorkoutHistoryDay date={selectedDay} entries={entries} />
+      ) : (
+        <p className="text-center text-muted-foreground py-4">
+          {trainedDays.length > 0
+            ? `You trained on ${trainedDays.length} ${trainedDays.length === 1 ? 'day' : 'days'} this month.`
+            : 'No workouts logged this month.'}
+        </p>
+      )}
+    </div>
+  )
+}
@@ -5,15 +5,21 @@ import { useAuth } from '@/components/auth/auth-provider'
 import { ThemeToggle } from '@/components/layout/theme-toggle'
 import { UserAvatar } from '@/components/record/user-avatar'
 import { GoalNotesForm } from '@/components/record/goal-notes-form'
-import { LogOut } from 'lucide-react'
+import { ChangeEmailForm } from '@/components/record/change-email-form'
+import { WeeklyVolumeChart } from '@/components/record/weekly-volume-chart'
+import { History, LogOut, Settings, Users } from 'lucide-react'
+import Link from 'next/link'
 import { useState, useEffect } from 'react'
-import Image from 'next/image'
-import { ImageError, ImageLoading, ImagePlaceholder } from '@/components/common/image-states'
-import { useImbalanceImage } from '@/hooks/use-imbalance-image'
+import { ImbalanceOverview } from '@/components/fir'
 import { getUserGoalNotes, type GoalNotes } from '@/app/record/actions'
+import { getAccessToken } from '@/lib/supabase'
+import { isStaff } from '@/lib/roles'
+import { useProfile } from '@/hooks/use-profile'
+import { getDisplayName } from '@/lib/profile'
 
 export default function RecordPage() {
   const { user, signOut } = useAuth()
+  const { profile } = useProfile()
   const [goalNotes, setGoalNotes] = useState<GoalNotes>({
     pain: '',
     posture: '',
@@ -21,7 +27,6 @@ export default function RecordPage() {
     physique: '',
   })
   const [goalNotesLoading, setGoalNotesLoading] = useState(true)
-  const { imageUrl, loading: imageLoading, error: imageError } = useImbalanceImage()
 
   // Load user's goal notes
   useEffect(() => {
@@ -32,8 +37,9 @@ export default function RecordPage() {
 
     async function loadGoalNotes() {
       try {
-        if (!user?.id) return
-        const notes = await getUserGoalNotes(user.id)
+        const accessToken = await getAccessToken()
+        if (!user?.id || !accessToken) return
+        const notes = await getUserGoalNotes(accessToken)
         setGoalNotes(notes)
       } catch (error) {
         console.error('Error loading goal notes:', error)
@@ -45,11 +51,10 @@ export default function RecordPage() {
     loadGoalNotes()
   }, [user?.id])
 
-  // Use user data from Supabase auth
   const userData = {
-    name: user?.email?.split('@')[0] || 'Fitness User',
+    name: getDisplayName(profile, user?.email),
     email: user?.email || 'user@example.com',
-    profilePicture: '/placeholder.svg?height=100&width=100',
+    avatarUrl: profile?.avatar_url ?? null,
   }
 
   return (
@@ -62,22 +67,31 @@ export default function RecordPage() {
       </header>
 
       <main aria-labelledby="profile-heading">
-        <div className="mb-8 aspect-[4/3] grid place-items-center bg-muted/30 rounded-lg overflow-hidden">
-          {imageLoading ? (
-            <ImageLoading />
-          ) : imageError ? (
-            <ImageError message={imageError} />
-          ) : !imageUrl ? (
-            <ImagePlaceholder />
-          ) : (
-            <Image
-              src={imageUrl}
-              alt="Personal imbalance image"
-              width={600}
-              height={450}
-              className="w-full h-full object-cover"
-              priority
-            />
+        <ImbalanceOverview />
+
+        <div className="mb-8">
+          <h2 className="text-xl font-semibold">Weekly volume</h2>
+          <p className="text-sm text-muted-foreground mb-4">
+            Total load lifted each week ({profile?.weight_unit ?? 'kg'} × reps) across your strength
+            exercises
+          </p>
+          <WeeklyVolumeChart userId={user?.id} />
+        </div>
+
+        <div className="mb-8">
+          <Button asChild variant="outline" className="w-full">
+            <Link href="/record/history">
+              <History className="h-4 w-4 mr-2" aria-hidden="true" />
+              View workout history
+            </Link>
+          </Button>
+          {isStaff(user) && (
+            <Button asChild variant="outline" className="w-full mt-2">
+              <Link href="/admin">
+                <Users className="h-4 w-4 mr-2" aria-hidden="true" />
+                Coach portal
+              </Link>
+            </Button>
           )}
         </div>
 
@@ -102,7 +116,12 @@ export default function RecordPage() {
           <Card className="mb-6 border-0 shadow-sm">
             <CardContent className="p-6">
               <div className="flex items-center space-x-4">
-                <UserAvatar email={userData.email} size="md" />
+                <UserAvatar
+                  email={userData.email}
+                  name={userData.name}
+                  avatarUrl={userData.avatarUrl}
+                  size="md"
+                />
                 <div>
                   <h2 className="text-xl font-semibold">{userData.name}</h2>
                   <p className="text-muted-foreground">{userData.email}</p>
@@ -112,6 +131,13 @@ export default function RecordPage() {
           </Card>
 
           <div className="space-y-4">
+            <Button asChild variant="outline" className="w-full justify-start">
+              <Link href="/record/settings">
+                <Settings className="h-4 w-4 mr-2" aria-hidden="true" />
+                <span>Settings</span>
+              </Link>
+            </Button>
+            <ChangeEmailForm currentEmail={user?.email} />
             <Button
               variant="outline"
               className="w-full justify-start text-destructive hover:bg-destructive/10 focus:ring-destructive"
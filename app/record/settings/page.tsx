@@ -0,0 +1,75 @@
+'use client'
+
+import { AlertCircle, Loader2 } from 'lucide-react'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent } from '@/components/ui/card'
+import { BackButton } from '@/components/layout/back-button'
+import { AvatarUpload } from '@/components/record/avatar-upload'
+import { KitProfilesForm } from '@/components/record/kit-profiles-form'
+import { ProfileSettingsForm } from '@/components/record/profile-settings-form'
+import { useAuth } from '@/components/auth/auth-provider'
+import { useProfile } from '@/hooks/use-profile'
+import { getDisplayName } from '@/lib/profile'
+
+export default function SettingsPage() {
+  const { user } = useAuth()
+  const { profile, loading, error, refetch, setProfile } = useProfile()
+
+  return (
+    <div className="container mx-auto px-4 py-6">
+      <div className="mb-6">
+        <BackButton href="/record" />
+      </div>
+
+      <h1 className="text-2xl font-bold" id="settings-heading">
+        Settings
+      </h1>
+      <p className="text-sm text-muted-foreground mb-6">
+        Your name and photo, how the app logs your training and the kit you have
+      </p>
+
+      {loading ? (
+        <div className="flex justify-center items-center py-12" aria-busy="true">
+          <Loader2 className="h-6 w-6 animate-spin text-primary mr-2" />
+          <span>Loading your settings...</span>
+        </div>
+      ) : !profile ? (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription className="flex items-center justify-between gap-4">
+            {error || 'Failed to load your profile'}
+            <Button variant="outline" size="sm" onClick={() => refetch()}>
+              Try again
+            </Button>
+          </AlertDescription>
+        </Alert>
+      ) : (
+        <div className="space-y-6">
+          <Card className="border-0 shadow-sm">
+            <CardContent className="p-6">
+              <AvatarUpload
+                profile={profile}
+                email={user?.email || ''}
+                name={getDisplayName(profile, user?.email)}
+                onSaved={setProfile}
+              />
+            </CardContent>
+          </Card>
+          <ProfileSettingsForm profile={profile} onSaved={setProfile} />
+
+          <section aria-labelledby="kit-heading" className="space-y-2">
+            <h2 id="kit-heading" className="text-lg font-semibold">
+              Kit
+            </h2>
+            <p className="text-sm text-muted-foreground">
+              Save the kit you have where you train, and exercises needing anything else will be
+              flagged, with an alternative you can do instead.
+            </p>
+            <KitProfilesForm />
+          </section>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -5,11 +5,13 @@ import { notFound, useParams } from 'next/navigation'
 import Image from 'next/image'
 import { CategoryLabel } from '@/components/exercises/category-label'
 import { ExerciseVideo } from '@/components/exercises/exercise-video'
+import { WorkoutLogger } from '@/components/exercises/workout-logger'
 import { ExerciseNotesForm } from '@/components/exercises/exercise-notes-form'
 import { useAuth } from '@/components/auth/auth-provider'
 import { getUserExerciseNote } from '@/app/strengthen/actions'
 import type { ExerciseWithLabels } from '@/lib/types'
 import { capitalizeFirstLetter } from '@/lib/text-utils'
+import { getAccessToken } from '@/lib/supabase'
 import { BackButton } from '@/components/layout/back-button'
 
 export default function RecoverExercisePage() {
@@ -80,8 +82,9 @@ export default function RecoverExercisePage() {
     async function fetchExerciseNote() {
       try {
         setNoteLoading(true)
-        if (user?.id) {
-          const note = await getUserExerciseNote(user.id, exerciseId)
+        const accessToken = await getAccessToken()
+        if (user?.id && accessToken) {
+          const note = await getUserExerciseNote(accessToken, exerciseId)
           setExerciseNote(note)
         }
       } catch (error) {
@@ -159,6 +162,11 @@ export default function RecoverExercisePage() {
           videoUrl3={exercise?.video_url_3}
         />
 
+        <WorkoutLogger
+          exerciseId={exercise.id}
+          exerciseName={exercise?.name || 'Recovery Exercise'}
+          exerciseType="recover"
+        />
       </div>
     </div>
   )
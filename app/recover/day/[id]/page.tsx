@@ -15,6 +15,14 @@ import { useState, useEffect, useMemo } from 'react'
 import { CollapsibleBox } from '@/components/common/collapsible-box'
 import { Card, CardContent } from '@/components/ui/card'
 import { capitalizeFirstLetter } from '@/lib/text-utils'
+import { FinishWorkoutButton, SessionDayMatch } from '@/components/session'
+import { GuidedPlayerButton } from '@/components/player'
+import type { GuidedExercise } from '@/lib/guided-player'
+import { useWorkoutSession } from '@/contexts/workout-session-context'
+import { OfflineDayButton } from '@/components/pwa'
+import { ExerciseSwap } from '@/components/exercises/exercise-swap'
+import { KitAlternative } from '@/components/exercises/kit-alternative'
+import { KitProfileSwitcher } from '@/components/exercises/kit-profile-switcher'
 
 export default function RecoverDayPage() {
   const params = useParams()
@@ -27,7 +35,9 @@ export default function RecoverDayPage() {
     exercises,
     loading: exercisesLoading,
     error: exercisesError,
+    refetch: refetchExercises,
   } = useUserDayExercises(user?.id, dayId, 'recover')
+  const { setTrainingDay } = useWorkoutSession()
 
   // Verify user has access to this day
   useEffect(() => {
@@ -39,6 +49,13 @@ export default function RecoverDayPage() {
   // Verify this day is assigned to the user
   const isAssigned = !daysLoading && days.includes(dayId)
 
+  // Record the day followed in today's session
+  useEffect(() => {
+    if (isAssigned) {
+      setTrainingDay('recover', dayId)
+    }
+  }, [isAssigned, dayId, setTrainingDay])
+
   // Get unique exercise groups from the exercises
   const exerciseGroups = useMemo(() => {
     const groupsMap = new Map()
@@ -61,6 +78,24 @@ export default function RecoverDayPage() {
     return Array.from(groupsMap.values())
   }, [exercises])
 
+  // The day's stretches in order, for the guided player
+  const guidedExercises = useMemo<GuidedExercise[]>(
+    () =>
+      exercises.flatMap(userExercise =>
+        userExercise.exercise
+          ? [
+              {
+                id: userExercise.exercise.id,
+                name: userExercise.exercise.name,
+                image: userExercise.exercise.image_url,
+                description: userExercise.exercise.description,
+              },
+            ]
+          : []
+      ),
+    [exercises]
+  )
+
   if (!dayId || isNaN(dayId)) {
     return (
       <div className="container mx-auto px-4 py-6">
@@ -108,17 +143,33 @@ export default function RecoverDayPage() {
 
       <div className="px-4">
         <h1 className="text-2xl font-bold">Day {dayId} Recovery</h1>
+        {isAssigned && (
+          <div className="mb-4">
+            <OfflineDayButton
+              userId={user?.id}
+              dayId={dayId}
+              category="recover"
+              exercises={exercises}
+              imageUrl={imageUrl}
+            />
+          </div>
+        )}
         <CollapsibleBox title="Recovery Instructions" defaultOpen={false}>
           <div className="space-y-2">
             <p className="text-muted-foreground">
-              Below are stretches designed to help your muscles recover from Day {dayId} of your strengthen workout.
-              Focus on the muscles you worked, holding each stretch for the recommended duration.
-              Click on the 'Exercise picture' to see full technique. Click on the 'Muscle picture' to view alternative stretches.
+              Below are stretches designed to help your muscles recover from Day {dayId} of your
+              strengthen workout. Focus on the muscles you worked, holding each stretch for the
+              recommended duration. Click on the 'Exercise picture' to see full technique. Click on
+              the 'Muscle picture' to view alternative stretches, and on 'Swap exercise' to do one
+              of them instead, today or from now on.
             </p>
           </div>
         </CollapsibleBox>
+        <KitProfileSwitcher className="mt-4" />
 
         <div className="mt-6">
+          <SessionDayMatch recoverDayId={dayId} />
+
           {exercisesError && (
             <Alert variant="destructive" className="mb-4">
               <AlertCircle className="h-4 w-4" />
@@ -140,6 +191,7 @@ export default function RecoverDayPage() {
             </div>
           ) : exercises.length > 0 ? (
             <div className="grid grid-cols-1 gap-6">
+              <GuidedPlayerButton exercises={guidedExercises} section="recover" />
               {exercises.map((userExercise, index) => {
                 if (!userExercise.exercise) return null
 
@@ -211,6 +263,18 @@ export default function RecoverDayPage() {
                           </h2>
                         </Link>
 
+                        <KitAlternative
+                          exerciseId={userExercise.exercise.id}
+                          kitId={userExercise.exercise.kit}
+                          groupId={userExercise.exercise.group?.id}
+                          section="recover"
+                        />
+                        <ExerciseSwap
+                          entry={userExercise}
+                          section="recover"
+                          onChange={refetchExercises}
+                        />
+
                         {/* Exercise description */}
                         {userExercise.exercise.description && (
                           <p className="text-sm text-muted-foreground line-clamp-2">
@@ -231,7 +295,11 @@ export default function RecoverDayPage() {
             </div>
           )}
         </div>
+
+        <div className="mt-8 mb-6">
+          <FinishWorkoutButton />
+        </div>
       </div>
     </div>
   )
-}
\ No newline at end of file
+}
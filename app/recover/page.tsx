@@ -2,15 +2,20 @@
 
 import { Button } from '@/components/ui/button'
 import { CollapsibleBox } from '@/components/common/collapsible-box'
-import { useImbalanceImage } from '@/hooks/use-imbalance-image'
-import { ImageError, ImageLoading, ImagePlaceholder } from '@/components/common/image-states'
+import { ImbalanceOverview } from '@/components/fir'
 import { useTrainingDays } from '@/hooks/use-training-days'
-import Image from 'next/image'
+import { useTrainingRotation } from '@/hooks/use-training-rotation'
+import { useWorkoutSession } from '@/contexts/workout-session-context'
 import Link from 'next/link'
 
 export default function RecoverPage() {
-  const { imageUrl, loading: imageLoading, error: imageError } = useImbalanceImage()
   const { days, loading: daysLoading, error: daysError } = useTrainingDays('recover')
+  const { session } = useWorkoutSession()
+  const { lastDay: lastStrengthenDay } = useTrainingRotation()
+
+  // Recover Day N should follow Strengthen Day N
+  const strengthenDay = session?.strengthen_day_id ?? lastStrengthenDay
+  const suggestedDay = strengthenDay !== null && days.includes(strengthenDay) ? strengthenDay : null
 
   return (
     <div className="container mx-auto px-4 py-6">
@@ -28,24 +33,7 @@ export default function RecoverPage() {
         </div>
       </CollapsibleBox>
 
-      <div className="mb-8 aspect-[4/3] grid place-items-center bg-muted/30 rounded-lg overflow-hidden">
-        {imageLoading ? (
-          <ImageLoading />
-        ) : imageError ? (
-          <ImageError message={imageError} />
-        ) : !imageUrl ? (
-          <ImagePlaceholder />
-        ) : (
-          <Image
-            src={imageUrl}
-            alt="Personal imbalance image"
-            width={600}
-            height={450}
-            className="w-full h-full object-cover"
-            priority
-          />
-        )}
-      </div>
+      <ImbalanceOverview />
 
       <CollapsibleBox title="Training days" defaultOpen={false}>
         <div className="space-y-2">
@@ -72,20 +60,29 @@ export default function RecoverPage() {
         </div>
       ) : days.length > 0 ? (
         <div className="space-y-4 mt-6">
-          {days.includes(1) && (
-            <Button asChild variant="outline" className="w-full">
-              <Link href="/recover/day/1">
-                <p className="text-lg">Day 1</p>
-              </Link>
-            </Button>
+          {suggestedDay !== null && (
+            <p className="text-muted-foreground">
+              {session?.strengthen_day_id
+                ? `You did Strengthen Day ${suggestedDay} today, so follow Recover Day ${suggestedDay}.`
+                : `Your last Strengthen workout was Day ${suggestedDay}.`}
+            </p>
           )}
-          {days.includes(2) && (
-            <Button asChild variant="outline" className="w-full">
-              <Link href="/recover/day/2">
-                <p className="text-lg">Day 2</p>
+          {days.map(day => (
+            <Button
+              key={day}
+              asChild
+              variant={day === suggestedDay ? 'default' : 'outline'}
+              className="w-full"
+            >
+              <Link
+                href={`/recover/day/${day}`}
+                aria-label={day === suggestedDay ? `Day ${day}, suggested` : `Day ${day}`}
+              >
+                <p className="text-lg">Day {day}</p>
+                {day === suggestedDay && <span className="text-sm">(Suggested)</span>}
               </Link>
             </Button>
-          )}
+          ))}
         </div>
       ) : (
         <div className="mt-6 text-center text-muted-foreground">
@@ -6,10 +6,13 @@ import Image from 'next/image'
 import { CategoryLabel } from '@/components/exercises/category-label'
 import { ExerciseVideo } from '@/components/exercises/exercise-video'
 import { ExerciseNotesForm } from '@/components/exercises/exercise-notes-form'
+import { SetLogger } from '@/components/exercises/set-logger'
+import { ExerciseProgressCharts } from '@/components/exercises/exercise-progress-charts'
 import { useAuth } from '@/components/auth/auth-provider'
 import { getUserExerciseNote } from '@/app/strengthen/actions'
 import type { ExerciseWithLabels } from '@/lib/types'
 import { capitalizeFirstLetter } from '@/lib/text-utils'
+import { getAccessToken } from '@/lib/supabase'
 import { BackButton } from '@/components/layout/back-button'
 
 export default function WorkoutExercisePage() {
@@ -80,8 +83,9 @@ export default function WorkoutExercisePage() {
     async function fetchExerciseNote() {
       try {
         setNoteLoading(true)
-        if (user?.id) {
-          const note = await getUserExerciseNote(user.id, exerciseId)
+        const accessToken = await getAccessToken()
+        if (user?.id && accessToken) {
+          const note = await getUserExerciseNote(accessToken, exerciseId)
           setExerciseNote(note)
         }
       } catch (error) {
@@ -141,6 +145,18 @@ export default function WorkoutExercisePage() {
             ))}
         </div>
 
+        {/* Set logger */}
+        <div className="mb-6">
+          <h2 className="text-xl font-semibold mb-2">Log your sets</h2>
+          <SetLogger userId={user?.id} exerciseId={exerciseId} />
+        </div>
+
+        {/* Progress charts */}
+        <div className="mb-6">
+          <h2 className="text-xl font-semibold mb-2">Your progress</h2>
+          <ExerciseProgressCharts userId={user?.id} exerciseId={exerciseId} />
+        </div>
+
         {/* Exercise Notes Form */}
         <div className="mb-6">
           <ExerciseNotesForm
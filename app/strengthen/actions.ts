@@ -1,19 +1,32 @@
 'use server'
 
 import { supabaseServer } from '@/lib/supabase'
-import type { Database } from '@/lib/types'
+import { getCategoryId } from '@/lib/category-registry'
+import { requireUser } from '@/lib/user-auth'
+import { exerciseSwapSchema } from '@/lib/exercise-swaps'
+import { MAX_PROGRESS_SETS } from '@/lib/strength-progress'
+import type { TrainingSection } from '@/lib/sections'
+import type {
+  Database,
+  ExerciseSwapInput,
+  WorkoutSession,
+  WorkoutSet,
+  WorkoutSetInput,
+} from '@/lib/types'
 
 /**
  * Fetches the user's imbalance image from the database
- * @param userId - The ID of the user whose image to fetch
+ * @param accessToken - The signed-in user's access token
  * @returns The image URL if found, null otherwise
  */
-export async function getUserImbalanceImage(userId: string): Promise<string | null> {
+export async function getUserImbalanceImage(accessToken: string): Promise<string | null> {
   try {
-    const { data, error } = await supabaseServer
+    const { user, supabase } = await requireUser(accessToken)
+
+    const { data, error } = await supabase
       .from('user_imbalance_images')
       .select('image_url')
-      .eq('user_id', userId)
+      .eq('user_id', user.id)
       .single()
 
     if (error) {
@@ -37,35 +50,30 @@ export async function getUserImbalanceImage(userId: string): Promise<string | nu
 }
 
 /**
- * Fetches the user's assigned training days from the database
- * @param userId - The ID of the user whose training days to fetch
- * @returns Array of day numbers assigned to the user
- */
-/**
- * Fetches the image URL for a specific training day
+ * Fetches the image URL for one of the user's training days
+ * @param accessToken - The signed-in user's access token
  * @param dayId - The day number (1-7)
  * @returns The image URL if found, null otherwise
  */
-export async function getDayImage(dayId: number, userId: string, category: 'strengthen' | 'recover' = 'strengthen'): Promise<string | null> {
+export async function getDayImage(
+  accessToken: string,
+  dayId: number,
+  category: TrainingSection = 'strengthen'
+): Promise<string | null> {
   try {
-    // First get the category ID
-    const { data: categoryData } = await supabaseServer
-      .from('categories')
-      .select('id')
-      .eq('name', category)
-      .single()
+    const { user, supabase } = await requireUser(accessToken)
 
-    if (!categoryData) {
-      console.error('Category not found:', category)
+    const categoryId = await getCategoryId(category)
+    if (!categoryId) {
       return null
     }
 
-    const { data, error } = await supabaseServer
+    const { data, error } = await supabase
       .from('user_day_assignments')
       .select('image_url')
       .eq('day_id', dayId)
-      .eq('user_id', userId)
-      .eq('category_id', categoryData.id)
+      .eq('user_id', user.id)
+      .eq('category_id', categoryId)
       .single()
 
     if (error) {
@@ -80,25 +88,28 @@ export async function getDayImage(dayId: number, userId: string, category: 'stre
   }
 }
 
-export async function getUserTrainingDays(userId: string, category: 'strengthen' | 'recover' = 'strengthen'): Promise<number[]> {
+/**
+ * Fetches the user's assigned training days from the database
+ * @param accessToken - The signed-in user's access token
+ * @returns Array of day numbers assigned to the user
+ */
+export async function getUserTrainingDays(
+  accessToken: string,
+  category: TrainingSection = 'strengthen'
+): Promise<number[]> {
   try {
-    // First get the category ID
-    const { data: categoryData } = await supabaseServer
-      .from('categories')
-      .select('id')
-      .eq('name', category)
-      .single()
+    const { user, supabase } = await requireUser(accessToken)
 
-    if (!categoryData) {
-      console.error('Category not found:', category)
+    const categoryId = await getCategoryId(category)
+    if (!categoryId) {
       return []
     }
 
-    const { data, error } = await supabaseServer
+    const { data, error } = await supabase
       .from('user_day_assignments')
       .select('day_id')
-      .eq('user_id', userId)
-      .eq('category_id', categoryData.id)
+      .eq('user_id', user.id)
+      .eq('category_id', categoryId)
       .order('day_id')
 
     if (error) {
@@ -113,18 +124,74 @@ export async function getUserTrainingDays(userId: string, category: 'strengthen'
   }
 }
 
+// The workout_sessions column holding the day followed in each training section
+type TrainingDayColumn = 'strengthen_day_id' | 'recover_day_id'
+
+/**
+ * Fetches the training days followed in the user's completed workout sessions
+ * @param accessToken - The signed-in user's access token
+ * @param category - The section the days belong to
+ * @param excludeSessionId - A session to leave out, e.g. the one in progress
+ * @param limit - Maximum number of sessions to look at
+ * @returns Day numbers, newest session first
+ */
+export async function getTrainingDayHistory(
+  accessToken: string,
+  category: TrainingSection = 'strengthen',
+  excludeSessionId?: string,
+  limit = 10
+): Promise<number[]> {
+  try {
+    const { user, supabase } = await requireUser(accessToken)
+
+    const column: TrainingDayColumn =
+      category === 'recover' ? 'recover_day_id' : 'strengthen_day_id'
+
+    let query = supabase
+      .from('workout_sessions')
+      .select(`id, ${column}`)
+      .eq('user_id', user.id)
+      .not(column, 'is', null)
+      .not('ended_at', 'is', null)
+
+    if (excludeSessionId) {
+      query = query.neq('id', excludeSessionId)
+    }
+
+    const { data, error } = await query
+      .order('started_at', { ascending: false })
+      .limit(limit)
+      .overrideTypes<Pick<WorkoutSession, 'id' | TrainingDayColumn>[], { merge: false }>()
+
+    if (error) {
+      console.error('Error fetching training day history:', error)
+      return []
+    }
+
+    return (data || []).map(session => session[column]).filter((day): day is number => day !== null)
+  } catch (error) {
+    console.error('Error in getTrainingDayHistory:', error)
+    return []
+  }
+}
+
 /**
  * Fetches the user's note for a specific exercise
- * @param userId - The ID of the user
+ * @param accessToken - The signed-in user's access token
  * @param exerciseId - The ID of the exercise
  * @returns The note text if found, empty string otherwise
  */
-export async function getUserExerciseNote(userId: string, exerciseId: number): Promise<string> {
+export async function getUserExerciseNote(
+  accessToken: string,
+  exerciseId: number
+): Promise<string> {
   try {
-    const { data, error } = await supabaseServer
+    const { user, supabase } = await requireUser(accessToken)
+
+    const { data, error } = await supabase
       .from('user_exercise_notes')
       .select('notes')
-      .eq('user_id', userId)
+      .eq('user_id', user.id)
       .eq('exercise_id', exerciseId)
       .single()
 
@@ -145,39 +212,320 @@ export async function getUserExerciseNote(userId: string, exerciseId: number): P
 }
 
 /**
- * Saves or updates a user's note for a specific exercise
- * @param userId - The ID of the user
+ * Fetches the user's most recent logged sets for a specific exercise
+ * @param accessToken - The signed-in user's access token
  * @param exerciseId - The ID of the exercise
- * @param notes - The note text to save
- * @returns Success status
+ * @param limit - Maximum number of sets to return
+ * @returns Sets ordered from newest to oldest, empty array on error
  */
-export async function saveExerciseNote(
-  userId: string,
+export async function getExerciseSets(
+  accessToken: string,
   exerciseId: number,
-  notes: string
-): Promise<{ success: boolean }> {
+  limit = 50
+): Promise<WorkoutSet[]> {
+  try {
+    const { user, supabase } = await requireUser(accessToken)
+
+    const { data, error } = await supabase
+      .from('workout_sets')
+      .select('*')
+      .eq('user_id', user.id)
+      .eq('exercise_id', exerciseId)
+      .order('completed_at', { ascending: false })
+      .limit(limit)
+
+    if (error) {
+      console.error('Error fetching exercise sets:', error)
+      return []
+    }
+
+    return data || []
+  } catch (error) {
+    console.error('Error in getExerciseSets:', error)
+    return []
+  }
+}
+
+/**
+ * Fetches the user's most recent sets of an exercise since a date, for progress charts
+ * @param accessToken - The signed-in user's access token
+ * @param exerciseId - The ID of the exercise
+ * @param from - ISO date to start from, or null for all time
+ * @returns Sets ordered from oldest to newest, empty array on error
+ */
+export async function getExerciseSetHistory(
+  accessToken: string,
+  exerciseId: number,
+  from: string | null
+): Promise<WorkoutSet[]> {
+  try {
+    const { user, supabase } = await requireUser(accessToken)
+
+    let query = supabase
+      .from('workout_sets')
+      .select('*')
+      .eq('user_id', user.id)
+      .eq('exercise_id', exerciseId)
+
+    if (from) {
+      query = query.gte('completed_at', from)
+    }
+
+    // Newest first so a long history loses its oldest sets, then back to oldest first
+    const { data, error } = await query
+      .order('completed_at', { ascending: false })
+      .limit(MAX_PROGRESS_SETS)
+
+    if (error) {
+      console.error('Error fetching exercise set history:', error)
+      return []
+    }
+
+    return (data || []).reverse()
+  } catch (error) {
+    console.error('Error in getExerciseSetHistory:', error)
+    return []
+  }
+}
+
+// An exercise's rest with its group's, as selected by getExerciseRestSeconds
+type ExerciseRestRow = {
+  rest_seconds: number | null
+  exercise_groups: { rest_seconds: number | null } | null
+}
+
+/**
+ * Fetches the rest to take between sets of an exercise
+ * @param exerciseId - The ID of the exercise
+ * @returns The exercise's rest in seconds, else its group's, else null to use the app default
+ */
+export async function getExerciseRestSeconds(exerciseId: number): Promise<number | null> {
+  try {
+    const { data, error } = await supabaseServer
+      .from('exercises')
+      .select('rest_seconds, exercise_groups(rest_seconds)')
+      .eq('id', exerciseId)
+      .single()
+      .overrideTypes<ExerciseRestRow, { merge: false }>()
+
+    if (error) {
+      console.error('Error fetching exercise rest time:', error)
+      return null
+    }
+
+    return data?.rest_seconds ?? data?.exercise_groups?.rest_seconds ?? null
+  } catch (error) {
+    console.error('Error in getExerciseRestSeconds:', error)
+    return null
+  }
+}
+
+/**
+ * Logs a completed set for a specific exercise
+ * @param accessToken - The signed-in user's access token
+ * @param exerciseId - The ID of the exercise
+ * @param setNumber - Position of the set within today's sets (1-based)
+ * @param set - Reps, load, unit, RPE and rest time entered by the user
+ * @param sessionId - The workout session the set belongs to, if any
+ * @returns Success status and the saved set
+ */
+export async function saveWorkoutSet(
+  accessToken: string,
+  exerciseId: number,
+  setNumber: number,
+  set: WorkoutSetInput,
+  sessionId: string | null = null
+): Promise<{ success: boolean; set?: WorkoutSet }> {
+  if (!isValidSet(setNumber, set)) {
+    console.error('Invalid workout set:', set)
+    return { success: false }
+  }
+
   try {
-    // Use upsert to insert or update
-    const { error } = await supabaseServer.from('user_exercise_notes').upsert(
-      {
-        user_id: userId,
+    const { user, supabase } = await requireUser(accessToken)
+
+    const { data, error } = await supabase
+      .from('workout_sets')
+      .insert({
+        user_id: user.id,
         exercise_id: exerciseId,
-        notes,
-        updated_at: new Date().toISOString(),
-      },
-      {
-        onConflict: 'user_id,exercise_id',
-      }
-    )
+        set_number: setNumber,
+        reps: set.reps,
+        load: set.load,
+        unit: set.unit,
+        rpe: set.rpe,
+        rest_seconds: set.rest_seconds,
+        session_id: sessionId,
+        completed_at: new Date().toISOString(),
+      })
+      .select()
+      .single()
+
+    if (error) {
+      console.error('Error saving workout set:', error)
+      return { success: false }
+    }
+
+    return { success: true, set: data }
+  } catch (error) {
+    console.error('Error in saveWorkoutSet:', error)
+    return { success: false }
+  }
+}
+
+/**
+ * Deletes one of the user's logged sets
+ * @param accessToken - The signed-in user's access token
+ * @param setId - The ID of the set to delete
+ * @returns Success status
+ */
+export async function deleteWorkoutSet(
+  accessToken: string,
+  setId: number
+): Promise<{ success: boolean }> {
+  try {
+    const { user, supabase } = await requireUser(accessToken)
+
+    const { error } = await supabase
+      .from('workout_sets')
+      .delete()
+      .eq('id', setId)
+      .eq('user_id', user.id)
+
+    if (error) {
+      console.error('Error deleting workout set:', error)
+      return { success: false }
+    }
+
+    return { success: true }
+  } catch (error) {
+    console.error('Error in deleteWorkoutSet:', error)
+    return { success: false }
+  }
+}
+
+// A day entry with the group and section of its exercise, as selected by swapDayExercise
+type SwapEntryRow = {
+  exercise_id: number
+  exercises: { exercise_group: number | null; category_id: string }
+}
+
+/**
+ * Swaps an exercise on one of the user's training days for another from the same group and
+ * section, for one day or until restored. The coach's assignment is left as it is.
+ * @param accessToken - The signed-in user's access token
+ * @param input - The day exercise, its replacement, how long for, the date and why
+ * @returns Success status, with a message to show if the swap was refused
+ */
+export async function swapDayExercise(
+  accessToken: string,
+  input: ExerciseSwapInput
+): Promise<{ success: boolean; error?: string }> {
+  const parsed = exerciseSwapSchema.safeParse(input)
+  if (!parsed.success) {
+    return { success: false, error: parsed.error.issues[0]?.message || 'Invalid swap' }
+  }
+  const swap = parsed.data
+
+  try {
+    const { user, supabase } = await requireUser(accessToken)
+
+    const { data: entry, error: entryError } = await supabase
+      .from('user_day_exercise')
+      .select('exercise_id, exercises!inner(exercise_group, category_id)')
+      .eq('id', swap.user_day_exercise_id)
+      .eq('user_id', user.id)
+      .single()
+      .overrideTypes<SwapEntryRow, { merge: false }>()
+
+    if (entryError || !entry) {
+      console.error('Error fetching day exercise to swap:', entryError)
+      return { success: false, error: 'That exercise is no longer on your training day' }
+    }
+
+    const { data: replacement, error: replacementError } = await supabaseServer
+      .from('exercises')
+      .select('exercise_group, category_id')
+      .eq('id', swap.replacement_exercise_id)
+      .single()
+
+    if (replacementError || !replacement) {
+      console.error('Error fetching replacement exercise:', replacementError)
+      return { success: false, error: 'That exercise could not be found' }
+    }
+
+    const original = entry.exercises
+    if (
+      swap.replacement_exercise_id === entry.exercise_id ||
+      !original.exercise_group ||
+      replacement.exercise_group !== original.exercise_group ||
+      replacement.category_id !== original.category_id
+    ) {
+      return { success: false, error: 'Choose another exercise from the same group' }
+    }
+
+    const { error } = await supabase.from('exercise_swaps').insert({
+      user_id: user.id,
+      user_day_exercise_id: swap.user_day_exercise_id,
+      original_exercise_id: entry.exercise_id,
+      replacement_exercise_id: swap.replacement_exercise_id,
+      scope: swap.scope,
+      swap_date: swap.swap_date,
+      reason: swap.reason,
+    })
+
+    if (error) {
+      console.error('Error saving exercise swap:', error)
+      return { success: false, error: 'Failed to swap the exercise. Please try again.' }
+    }
+
+    return { success: true }
+  } catch (error) {
+    console.error('Error in swapDayExercise:', error)
+    return { success: false, error: 'Failed to swap the exercise. Please try again.' }
+  }
+}
+
+/**
+ * Puts the coach's exercise back on a training day, ending every swap still in force on it
+ * @param accessToken - The signed-in user's access token
+ * @param userDayExerciseId - The user_day_exercise id
+ * @returns Success status
+ */
+export async function restoreDayExercise(
+  accessToken: string,
+  userDayExerciseId: number
+): Promise<{ success: boolean }> {
+  try {
+    const { user, supabase } = await requireUser(accessToken)
+
+    const { error } = await supabase
+      .from('exercise_swaps')
+      .update({ restored_at: new Date().toISOString() })
+      .eq('user_day_exercise_id', userDayExerciseId)
+      .eq('user_id', user.id)
+      .is('restored_at', null)
 
     if (error) {
-      console.error('Error saving exercise note:', error)
+      console.error('Error restoring day exercise:', error)
       return { success: false }
     }
 
     return { success: true }
   } catch (error) {
-    console.error('Error in saveExerciseNote:', error)
+    console.error('Error in restoreDayExercise:', error)
     return { success: false }
   }
 }
+
+// Reject values the database constraints would refuse anyway
+function isValidSet(setNumber: number, set: WorkoutSetInput): boolean {
+  if (!Number.isInteger(setNumber) || setNumber < 1) return false
+  if (!Number.isInteger(set.reps) || set.reps < 0) return false
+  if (set.load !== null && (isNaN(set.load) || set.load < 0)) return false
+  if (set.unit !== 'kg' && set.unit !== 'lb') return false
+  if (set.rpe !== null && (isNaN(set.rpe) || set.rpe < 1 || set.rpe > 10)) return false
+  if (set.rest_seconds !== null && (!Number.isInteger(set.rest_seconds) || set.rest_seconds < 0))
+    return false
+  return true
+}
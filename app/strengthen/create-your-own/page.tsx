@@ -1,85 +1,45 @@
 'use client'
 
-import { useState, useEffect } from 'react'
 import { ArrowLeft } from 'lucide-react'
 
 import { Button } from '@/components/ui/button'
 import { ExerciseCard } from '@/components/exercises/exercise-card'
+import { KitProfileSwitcher } from '@/components/exercises/kit-profile-switcher'
 import { CollapsibleBox } from '@/components/common/collapsible-box'
 import { capitalizeFirstLetter } from '@/lib/text-utils'
 import { getExerciseGroups, type ExerciseGroup } from '../../actions'
 import Link from 'next/link'
-
-// Cache expiration time (24 hours in milliseconds)
-const CACHE_EXPIRATION = 24 * 60 * 60 * 1000
-
-// Constants for localStorage keys to avoid typos
-const LS_KEYS = {
-  GROUPS: 'workout-groups',
-  TIMESTAMP: 'workout-groups-timestamp',
+import { useKitProfiles } from '@/hooks/use-kit-profiles'
+import { useQuery } from '@/hooks/use-query'
+import { CONTENT_STALE_TIME, queryKeys } from '@/lib/query-keys'
+
+async function fetchExerciseGroups(): Promise<ExerciseGroup[]> {
+  const groups = await getExerciseGroups()
+  if (!groups || groups.length === 0) {
+    throw new Error('No exercise groups found. Please check your database configuration.')
+  }
+  return groups
 }
 
 export default function CreateYourOwnWorkoutPage() {
-  const [exerciseGroups, setExerciseGroups] = useState<ExerciseGroup[]>([])
-  const [loading, setIsLoading] = useState(true)
-  const [error, setError] = useState<string | null>(null)
-
-  useEffect(() => {
-    async function loadExerciseGroups() {
-      setIsLoading(true)
-      try {
-        // Check localStorage first
-        const cachedData = localStorage.getItem(LS_KEYS.GROUPS)
-        const cachedTimestamp = localStorage.getItem(LS_KEYS.TIMESTAMP)
-
-        // If we have cached data and it's not expired
-        if (cachedData && cachedTimestamp) {
-          const timestamp = Number.parseInt(cachedTimestamp, 10)
-          const now = Date.now()
-
-          // Use cached data if it's less than 24 hours old
-          if (now - timestamp < CACHE_EXPIRATION) {
-            const groups = JSON.parse(cachedData)
-            setExerciseGroups(groups)
-            setIsLoading(false)
-            return
-          }
-        }
-
-        // If no cache or expired, fetch from API
-        const groups = await getExerciseGroups()
-
-        if (!groups || groups.length === 0) {
-          setError('No exercise groups found. Please check your database configuration.')
-        } else {
-          setExerciseGroups(groups)
-          // Save to localStorage with timestamp
-          localStorage.setItem(LS_KEYS.GROUPS, JSON.stringify(groups))
-          localStorage.setItem(LS_KEYS.TIMESTAMP, Date.now().toString())
-        }
-      } catch (error) {
-        console.error('Error loading exercise groups:', error)
-        setError('Failed to load exercise groups. Please try again later.')
-
-        // If API fails, try to use cached data even if expired
-        try {
-          const cachedData = localStorage.getItem(LS_KEYS.GROUPS)
-          if (cachedData) {
-            setExerciseGroups(JSON.parse(cachedData))
-          }
-        } catch (cacheError) {
-          console.error('Error loading from cache:', cacheError)
-        }
-      } finally {
-        setIsLoading(false)
-      }
-    }
-
-    loadExerciseGroups()
-  }, [])
-
-  // No filtering needed anymore - show all exercise groups
-  const filteredGroups = exerciseGroups
+  const {
+    data: exerciseGroups = [],
+    loading,
+    error,
+  } = useQuery(queryKeys.exerciseGroups(), fetchExerciseGroups, {
+    staleTime: CONTENT_STALE_TIME,
+    persist: true,
+  })
+
+  const { isAvailable } = useKitProfiles()
+
+  // Groups with nothing the user's kit allows go last, flagged
+  const hasExerciseForKit = (group: ExerciseGroup) =>
+    !group.kit_ids?.length || group.kit_ids.some(isAvailable)
+  const filteredGroups = [
+    ...exerciseGroups.filter(hasExerciseForKit),
+    ...exerciseGroups.filter(group => !hasExerciseForKit(group)),
+  ]
 
   return (
     <div className="container mx-auto px-4 py-6">
@@ -118,6 +78,8 @@ export default function CreateYourOwnWorkoutPage() {
         </ul>
       </CollapsibleBox>
 
+      <KitProfileSwitcher className="mb-4" />
+
       <section>
         {loading ? (
           <div className="grid grid-cols-1 gap-4">
@@ -133,15 +95,29 @@ export default function CreateYourOwnWorkoutPage() {
           </div>
         ) : filteredGroups.length > 0 ? (
           <div className="grid grid-cols-1 gap-4">
-            {filteredGroups.map(group => (
-              <ExerciseCard
-                key={group.id}
-                id={group.id}
-                name={group.name}
-                image={group.image_url || '/placeholder.svg?height=200&width=300'}
-                linkPrefix="/strengthen/group"
-              />
-            ))}
+            {filteredGroups.map(group =>
+              hasExerciseForKit(group) ? (
+                <ExerciseCard
+                  key={group.id}
+                  id={group.id}
+                  name={group.name}
+                  image={group.image_url || '/placeholder.svg?height=200&width=300'}
+                  linkPrefix="/strengthen/group"
+                />
+              ) : (
+                <div key={group.id} className="relative opacity-60">
+                  <ExerciseCard
+                    id={group.id}
+                    name={group.name}
+                    image={group.image_url || '/placeholder.svg?height=200&width=300'}
+                    linkPrefix="/strengthen/group"
+                  />
+                  <span className="absolute top-2 right-2 rounded-full bg-background/90 px-3 py-1 text-xs font-medium shadow-sm">
+                    Needs other kit
+                  </span>
+                </div>
+              )
+            )}
           </div>
         ) : (
           <div className="text-center py-8">
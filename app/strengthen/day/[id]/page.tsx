@@ -1,6 +1,7 @@
 'use client'
 
-import { useTrainingDays } from '@/hooks/use-training-days'
+import { useTrainingRotation } from '@/hooks/use-training-rotation'
+import { describeDayChoiceWarning, getDayChoiceWarning } from '@/lib/training-rotation'
 import { useUserDayExercises } from '@/hooks/use-user-day-exercises'
 import { useAuth } from '@/components/auth/auth-provider'
 import { Alert, AlertDescription } from '@/components/ui/alert'
@@ -16,19 +17,27 @@ import { CollapsibleBox } from '@/components/common/collapsible-box'
 import { Card, CardContent } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
 import { capitalizeFirstLetter } from '@/lib/text-utils'
+import { SetLogger } from '@/components/exercises/set-logger'
+import { useWorkoutSession } from '@/contexts/workout-session-context'
+import { OfflineDayButton } from '@/components/pwa'
+import { ExerciseSwap } from '@/components/exercises/exercise-swap'
+import { KitAlternative } from '@/components/exercises/kit-alternative'
+import { KitProfileSwitcher } from '@/components/exercises/kit-profile-switcher'
 
 export default function DayPage() {
   const params = useParams()
   const router = useRouter()
   const dayId = Number(params.id)
   const { user } = useAuth()
-  const { days, loading: daysLoading } = useTrainingDays()
+  const { days, lastDay, nextDay, loading: daysLoading } = useTrainingRotation()
   const { imageUrl, loading, error } = useDayImage(user?.id, dayId)
   const {
     exercises,
     loading: exercisesLoading,
     error: exercisesError,
+    refetch: refetchExercises,
   } = useUserDayExercises(user?.id, dayId)
+  const { setTrainingDay } = useWorkoutSession()
 
   // Verify user has access to this day
   useEffect(() => {
@@ -40,6 +49,19 @@ export default function DayPage() {
   // Verify this day is assigned to the user
   const isAssigned = !daysLoading && days.includes(dayId)
 
+  // Warn when this day breaks the Day 1 -> Day 2 rotation
+  const rotationWarning = useMemo(
+    () => (isAssigned ? getDayChoiceWarning(days, lastDay, dayId) : null),
+    [isAssigned, days, lastDay, dayId]
+  )
+
+  // Record the day followed in today's session
+  useEffect(() => {
+    if (isAssigned) {
+      setTrainingDay('strengthen', dayId)
+    }
+  }, [isAssigned, dayId, setTrainingDay])
+
   // Get unique exercise groups from the exercises
   const exerciseGroups = useMemo(() => {
     const groupsMap = new Map()
@@ -62,12 +84,6 @@ export default function DayPage() {
     return Array.from(groupsMap.values())
   }, [exercises])
 
-  // Helper function to format FIR level names
-  const formatFirLevel = (levelName: string | null): string => {
-    if (!levelName) return 'Unknown'
-    return `FIR: ${capitalizeFirstLetter(levelName)}`
-  }
-
   // Categories are no longer used
   const getGroupCategories = (group: any): string[] => {
     return []
@@ -120,16 +136,38 @@ export default function DayPage() {
 
       <div className="px-4">
         <h1 className="text-2xl font-bold">Day {dayId} workout</h1>
+        {isAssigned && (
+          <div className="mb-4">
+            <OfflineDayButton
+              userId={user?.id}
+              dayId={dayId}
+              category="strengthen"
+              exercises={exercises}
+              imageUrl={imageUrl}
+            />
+          </div>
+        )}
+        {rotationWarning && (
+          <Alert className="mb-4">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>
+              {describeDayChoiceWarning(rotationWarning, nextDay)}
+            </AlertDescription>
+          </Alert>
+        )}
         <CollapsibleBox title="Exercises" defaultOpen={false}>
           <div className="space-y-2">
             <p className="text-muted-foreground">
               Below is a list of exercise which altogether will work the muscles highlighted above
               for Day {dayId}. Click on the 'Exercise picture' to see full technique video. Click on
-              the 'Muscle picture' to view exercise alternatives. Write in 'Notes' any info
-              important to you (e.g. Technique reminders, reps/sets/weight).
+              the 'Muscle picture' to view exercise alternatives, and on 'Swap exercise' to do one
+              of them instead, today or from now on. Write in 'Notes' any info important to you
+              (e.g. Technique reminders). Log the reps, load, RPE and rest of each set under the
+              exercise.
             </p>
           </div>
         </CollapsibleBox>
+        <KitProfileSwitcher className="mt-4" />
 
         <div className="mt-6">
           {exercisesError && (
@@ -225,6 +263,18 @@ export default function DayPage() {
                           </h2>
                         </Link>
 
+                        <KitAlternative
+                          exerciseId={userExercise.exercise.id}
+                          kitId={userExercise.exercise.kit}
+                          groupId={userExercise.exercise.group?.id}
+                          section="strengthen"
+                        />
+                        <ExerciseSwap
+                          entry={userExercise}
+                          section="strengthen"
+                          onChange={refetchExercises}
+                        />
+
                         {/* Categories/badges below the title */}
                         {exerciseCategories.length > 0 && (
                           <div className="flex flex-wrap gap-2 mb-2">
@@ -236,7 +286,8 @@ export default function DayPage() {
                           </div>
                         )}
 
-                        {/* Exercise details - reps removed */}
+                        {/* Per-set logging for this exercise */}
+                        <SetLogger userId={user?.id} exerciseId={userExercise.exercise.id} />
                       </CardContent>
                     </Card>
                   </div>
@@ -3,7 +3,7 @@ import Image from 'next/image'
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert'
 import { AlertCircle } from 'lucide-react'
 import { Button } from '@/components/ui/button'
-import { ExerciseCard } from '@/components/exercises/exercise-card'
+import { KitExerciseList } from '@/components/exercises/kit-exercise-list'
 import type { ExerciseWithLabels } from '@/lib/types'
 import { capitalizeFirstLetter } from '@/lib/text-utils'
 import { BackButton } from '@/components/layout/back-button'
@@ -106,18 +106,7 @@ export default async function ExerciseGroupPage({ params }: { params: Promise<{
           )}
 
           {exercises.length > 0 ? (
-            <div className="grid grid-cols-1 gap-4">
-              {exercises.map(exercise => (
-                <ExerciseCard
-                  key={exercise.id}
-                  id={exercise.id}
-                  name={exercise.name}
-                  image={exercise.image}
-                  linkPrefix="/strengthen"
-                  description={exercise.description}
-                />
-              ))}
-            </div>
+            <KitExerciseList exercises={exercises} linkPrefix="/strengthen" />
           ) : (
             <div className="text-center py-8">
               <Alert className="max-w-md mx-auto">
@@ -4,15 +4,19 @@ import { Button } from '@/components/ui/button'
 import { Alert, AlertDescription } from '@/components/ui/alert'
 import { AlertCircle } from 'lucide-react'
 import Link from 'next/link'
-import Image from 'next/image'
 import { CollapsibleBox } from '@/components/common/collapsible-box'
-import { useImbalanceImage } from '@/hooks/use-imbalance-image'
-import { useTrainingDays } from '@/hooks/use-training-days'
-import { ImageError, ImageLoading, ImagePlaceholder } from '@/components/common/image-states'
+import { useTrainingRotation } from '@/hooks/use-training-rotation'
+import { describeRotationWarning } from '@/lib/training-rotation'
+import { ImbalanceOverview } from '@/components/fir'
 
 export default function StrengthenPage() {
-  const { imageUrl, loading: imageLoading, error: imageError } = useImbalanceImage()
-  const { days, loading: daysLoading, error: daysError } = useTrainingDays()
+  const {
+    days,
+    nextDay,
+    warning: rotationWarning,
+    loading: daysLoading,
+    error: daysError,
+  } = useTrainingRotation()
 
   return (
     <div className="container mx-auto px-4 py-6">
@@ -28,24 +32,7 @@ export default function StrengthenPage() {
         </div>
       </CollapsibleBox>
 
-      <div className="mb-8 aspect-[4/3] grid place-items-center bg-muted/30 rounded-lg overflow-hidden">
-        {imageLoading ? (
-          <ImageLoading />
-        ) : imageError ? (
-          <ImageError message={imageError} />
-        ) : !imageUrl ? (
-          <ImagePlaceholder />
-        ) : (
-          <Image
-            src={imageUrl}
-            alt="Personal imbalance image"
-            width={600}
-            height={450}
-            className="w-full h-full object-cover"
-            priority
-          />
-        )}
-      </div>
+      <ImbalanceOverview />
 
       <CollapsibleBox title="Training days" defaultOpen={false}>
         <div className="space-y-2">
@@ -74,10 +61,27 @@ export default function StrengthenPage() {
         </div>
       ) : days.length > 0 ? (
         <div className="space-y-4 mt-6">
+          {rotationWarning && (
+            <Alert>
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription>
+                {describeRotationWarning(rotationWarning)} Try to follow the training Days in order.
+              </AlertDescription>
+            </Alert>
+          )}
           {days.map(day => (
-            <Button key={day} asChild variant="outline" className="w-full">
-              <Link href={`/strengthen/day/${day}`}>
+            <Button
+              key={day}
+              asChild
+              variant={day === nextDay ? 'default' : 'outline'}
+              className="w-full"
+            >
+              <Link
+                href={`/strengthen/day/${day}`}
+                aria-label={day === nextDay ? `Day ${day}, next due` : `Day ${day}`}
+              >
                 <p className="text-lg">Day {day}</p>
+                {day === nextDay && <span className="text-sm">(Next)</span>}
               </Link>
             </Button>
           ))}
@@ -1,5 +1,6 @@
 import { BackButton } from '@/components/layout/back-button'
 import { ExerciseVideo } from '@/components/exercises/exercise-video'
+import { WorkoutLogger } from '@/components/exercises/workout-logger'
 import type { ExerciseWithLabels } from '@/lib/types'
 import { capitalizeFirstLetter } from '@/lib/text-utils'
 import Image from 'next/image'
@@ -65,6 +66,11 @@ export default async function WarmUpPage({ params }: { params: Promise<{ id: str
             videoUrl3={exercise?.video_url_3}
           />
 
+          <WorkoutLogger
+            exerciseId={exercise.id}
+            exerciseName={exercise?.name || 'Exercise'}
+            exerciseType="warm-up"
+          />
         </div>
       </div>
     )
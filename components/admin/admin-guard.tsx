@@ -0,0 +1,38 @@
+'use client'
+
+import type { ReactNode } from 'react'
+import { AlertCircle, Loader2 } from 'lucide-react'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { BackButton } from '@/components/layout/back-button'
+import { useAuth } from '@/components/auth/auth-provider'
+import { isStaff } from '@/lib/roles'
+
+// Only renders its children for coaches and admins
+export const AdminGuard = ({ children }: { children: ReactNode }) => {
+  const { user, isLoading } = useAuth()
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center items-center py-12" aria-busy="true" aria-live="polite">
+        <Loader2 className="h-6 w-6 animate-spin text-primary mr-2" />
+        <span>Checking your access...</span>
+      </div>
+    )
+  }
+
+  if (!isStaff(user)) {
+    return (
+      <div className="container mx-auto px-4 py-6">
+        <div className="mb-6">
+          <BackButton href="/" />
+        </div>
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>You need a coach account to use this area.</AlertDescription>
+        </Alert>
+      </div>
+    )
+  }
+
+  return <>{children}</>
+}
@@ -0,0 +1,258 @@
+'use client'
+
+import { useState } from 'react'
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { Loader2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Textarea } from '@/components/ui/textarea'
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { exerciseFormSchema } from '@/lib/exercise-schema'
+import { capitalizeFirstLetter } from '@/lib/text-utils'
+import type { ExerciseFormData, ExerciseFormOptions } from '@/lib/types'
+import { invalidateQueries } from '@/lib/query-client'
+import { queryKeys } from '@/lib/query-keys'
+
+interface ExerciseFormProps {
+  accessToken: string
+  options: ExerciseFormOptions
+  exerciseId?: number
+  initialData?: ExerciseFormData | null
+  defaultCategoryId?: string
+  onSaved: (exerciseId: number) => void
+}
+
+// Every field is edited as text; the schema turns blanks into nulls and ids into numbers
+type ExerciseFormValues = Record<keyof ExerciseFormData, string>
+
+// Radix Select items can't have an empty value
+const NONE = 'none'
+
+const TEXT_FIELDS: { name: keyof ExerciseFormData; label: string }[] = [
+  { name: 'image_url', label: 'Image URL' },
+  { name: 'video_url', label: 'Video URL' },
+  { name: 'video_url_2', label: 'Second video URL' },
+  { name: 'video_url_3', label: 'Third video URL' },
+]
+
+const toFormValues = (
+  data: ExerciseFormData | null | undefined,
+  defaultCategoryId = ''
+): ExerciseFormValues => ({
+  name: data?.name || '',
+  description: data?.description || '',
+  image_url: data?.image_url || '',
+  video_url: data?.video_url || '',
+  video_url_2: data?.video_url_2 || '',
+  video_url_3: data?.video_url_3 || '',
+  category_id: data?.category_id || defaultCategoryId,
+  exercise_group: data?.exercise_group?.toString() || '',
+  body_muscle: data?.body_muscle?.toString() || '',
+  kit: data?.kit?.toString() || '',
+  rest_seconds: data?.rest_seconds?.toString() || '',
+})
+
+export const ExerciseForm = ({
+  accessToken,
+  options,
+  exerciseId,
+  initialData,
+  defaultCategoryId,
+  onSaved,
+}: ExerciseFormProps) => {
+  const [saveError, setSaveError] = useState<string | null>(null)
+  const form = useForm<ExerciseFormValues>({
+    resolver: zodResolver(exerciseFormSchema),
+    defaultValues: toFormValues(initialData, defaultCategoryId),
+  })
+
+  const handleSubmit = async (values: ExerciseFormValues) => {
+    setSaveError(null)
+
+    try {
+      const body = exerciseFormSchema.parse(values)
+      const response = await fetch(
+        exerciseId ? `/api/exercises?id=${exerciseId}` : '/api/exercises',
+        {
+          method: exerciseId ? 'PATCH' : 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            Authorization: `Bearer ${accessToken}`,
+          },
+          body: JSON.stringify(body),
+        }
+      )
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}))
+        setSaveError(errorData.error || 'Failed to save the exercise. Please try again.')
+        return
+      }
+
+      const saved: { id: number } = await response.json()
+      invalidateQueries(queryKeys.exercises())
+      onSaved(saved.id)
+    } catch (error) {
+      console.error('Error saving exercise:', error)
+      setSaveError('An unexpected error occurred. Please try again.')
+    }
+  }
+
+  const renderSelect = (
+    name: 'category_id' | 'exercise_group' | 'body_muscle' | 'kit',
+    label: string,
+    items: { id: number | string; name: string }[],
+    optional = true
+  ) => (
+    <FormField
+      control={form.control}
+      name={name}
+      render={({ field }) => (
+        <FormItem>
+          <FormLabel>{label}</FormLabel>
+          <Select
+            value={field.value || (optional ? NONE : undefined)}
+            onValueChange={value => field.onChange(value === NONE ? '' : value)}
+          >
+            <FormControl>
+              <SelectTrigger>
+                <SelectValue placeholder={`Choose ${label.toLowerCase()}`} />
+              </SelectTrigger>
+            </FormControl>
+            <SelectContent>
+              {optional && <SelectItem value={NONE}>None</SelectItem>}
+              {items.map(item => (
+                <SelectItem key={item.id} value={item.id.toString()}>
+                  {capitalizeFirstLetter(item.name)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  )
+
+  const isSaving = form.formState.isSubmitting
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4" aria-busy={isSaving}>
+        <FormField
+          control={form.control}
+          name="name"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Name</FormLabel>
+              <FormControl>
+                <Input {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="description"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Description</FormLabel>
+              <FormControl>
+                <Textarea rows={4} {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        {renderSelect('category_id', 'Section', options.categories, false)}
+        {renderSelect('exercise_group', 'Exercise group', options.groups)}
+        {renderSelect(
+          'body_muscle',
+          'Body muscle',
+          options.muscles.map(muscle => ({ ...muscle, name: `${muscle.id}. ${muscle.name}` }))
+        )}
+        {renderSelect('kit', 'Kit', options.kits)}
+
+        <FormField
+          control={form.control}
+          name="rest_seconds"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Rest between sets (seconds)</FormLabel>
+              <FormControl>
+                <Input
+                  type="number"
+                  inputMode="numeric"
+                  min={0}
+                  max={600}
+                  step={15}
+                  placeholder="Use the group's default"
+                  {...field}
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        {TEXT_FIELDS.map(textField => (
+          <FormField
+            key={textField.name}
+            control={form.control}
+            name={textField.name}
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>{textField.label}</FormLabel>
+                <FormControl>
+                  <Input type="url" placeholder="https://" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        ))}
+
+        <Button
+          type="submit"
+          disabled={isSaving}
+          className="w-full bg-orange-500 hover:bg-orange-600 text-white"
+        >
+          {isSaving ? (
+            <>
+              <Loader2 className="h-4 w-4 animate-spin mr-2" />
+              Saving...
+            </>
+          ) : exerciseId ? (
+            'Save changes'
+          ) : (
+            'Create exercise'
+          )}
+        </Button>
+
+        {saveError && (
+          <div className="text-sm text-destructive" role="alert">
+            {saveError}
+          </div>
+        )}
+      </form>
+    </Form>
+  )
+}
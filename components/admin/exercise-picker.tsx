@@ -0,0 +1,71 @@
+'use client'
+
+import { useMemo } from 'react'
+import {
+  CommandDialog,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from '@/components/ui/command'
+import { capitalizeFirstLetter } from '@/lib/text-utils'
+import type { AdminExerciseOption } from '@/lib/types'
+
+interface ExercisePickerProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  exercises: AdminExerciseOption[]
+  // Exercises already in the day, shown as added
+  excludeIds?: number[]
+  onSelect: (exercise: AdminExerciseOption) => void
+}
+
+// Searchable list of exercises grouped by exercise group
+export const ExercisePicker = ({
+  open,
+  onOpenChange,
+  exercises,
+  excludeIds = [],
+  onSelect,
+}: ExercisePickerProps) => {
+  const groups = useMemo(() => {
+    const map = new Map<string, AdminExerciseOption[]>()
+    exercises.forEach(exercise => {
+      const group = exercise.group_name || 'Other'
+      map.set(group, [...(map.get(group) || []), exercise])
+    })
+    return Array.from(map.entries()).sort(([a], [b]) => a.localeCompare(b))
+  }, [exercises])
+
+  return (
+    <CommandDialog open={open} onOpenChange={onOpenChange}>
+      <CommandInput placeholder="Search exercises or groups..." />
+      <CommandList>
+        <CommandEmpty>No exercises found.</CommandEmpty>
+        {groups.map(([group, groupExercises]) => (
+          <CommandGroup key={group} heading={capitalizeFirstLetter(group)}>
+            {groupExercises.map(exercise => {
+              const added = excludeIds.includes(exercise.id)
+              return (
+                <CommandItem
+                  key={exercise.id}
+                  // Include the group so searching a group name lists its exercises
+                  value={`${exercise.name} ${group} ${exercise.id}`}
+                  disabled={added}
+                  onSelect={() => {
+                    onSelect(exercise)
+                    onOpenChange(false)
+                  }}
+                >
+                  <span className="flex-1">{capitalizeFirstLetter(exercise.name)}</span>
+                  {added && <span className="text-xs text-muted-foreground">Added</span>}
+                </CommandItem>
+              )
+            })}
+          </CommandGroup>
+        ))}
+      </CommandList>
+    </CommandDialog>
+  )
+}
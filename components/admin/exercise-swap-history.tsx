@@ -0,0 +1,53 @@
+import { format, parseISO } from 'date-fns'
+import { ArrowRight } from 'lucide-react'
+import { Badge } from '@/components/ui/badge'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { capitalizeFirstLetter } from '@/lib/text-utils'
+import type { AdminExerciseSwap } from '@/lib/types'
+
+interface ExerciseSwapHistoryProps {
+  swaps: AdminExerciseSwap[]
+}
+
+/**
+ * The exercises a client has swapped on their training days, and why, newest first
+ */
+export const ExerciseSwapHistory = ({ swaps }: ExerciseSwapHistoryProps) => (
+  <Card className="border-0 shadow-sm">
+    <CardHeader className="p-4 pb-2">
+      <CardTitle className="text-lg">Swaps</CardTitle>
+    </CardHeader>
+    <CardContent className="p-4 pt-0">
+      {swaps.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No exercises swapped yet.</p>
+      ) : (
+        <ul className="space-y-3" aria-label="Exercise swaps">
+          {swaps.map(swap => (
+            <li key={swap.id} className="rounded-md border px-3 py-2 text-sm">
+              <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+                <span>Day {swap.day_id}</span>
+                <span>{format(new Date(swap.created_at), 'd MMM yyyy')}</span>
+                <Badge variant="secondary" className="text-xs">
+                  {swap.scope === 'today'
+                    ? `Only ${format(parseISO(swap.swap_date), 'd MMM')}`
+                    : 'From now on'}
+                </Badge>
+                {swap.restored_at && (
+                  <Badge variant="outline" className="text-xs">
+                    Restored {format(new Date(swap.restored_at), 'd MMM')}
+                  </Badge>
+                )}
+              </div>
+              <p className="mt-1 flex flex-wrap items-center gap-1 font-medium">
+                {capitalizeFirstLetter(swap.original_name)}
+                <ArrowRight className="h-3 w-3" aria-label="swapped for" />
+                {capitalizeFirstLetter(swap.replacement_name)}
+              </p>
+              <p className="text-muted-foreground">"{swap.reason}"</p>
+            </li>
+          ))}
+        </ul>
+      )}
+    </CardContent>
+  </Card>
+)
@@ -0,0 +1,6 @@
+export * from './admin-guard'
+export * from './exercise-form'
+export * from './exercise-picker'
+export * from './exercise-swap-history'
+export * from './sortable-exercise-list'
+export * from './training-day-editor'
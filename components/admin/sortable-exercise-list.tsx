@@ -0,0 +1,123 @@
+'use client'
+
+import { useState } from 'react'
+import Link from 'next/link'
+import { ArrowDown, ArrowUp, GripVertical, Pencil, Trash2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { cn } from '@/lib/utils'
+import { capitalizeFirstLetter } from '@/lib/text-utils'
+import type { AdminExercise } from '@/lib/types'
+
+interface SortableExerciseListProps {
+  exercises: AdminExercise[]
+  onReorder: (exercises: AdminExercise[]) => void
+  onDelete: (exercise: AdminExercise) => void
+  disabled?: boolean
+}
+
+const move = <T,>(items: T[], from: number, to: number): T[] => {
+  const result = [...items]
+  const [item] = result.splice(from, 1)
+  result.splice(to, 0, item)
+  return result
+}
+
+// Exercises in section order; drag a row, or use the arrows, to change the order
+export const SortableExerciseList = ({
+  exercises,
+  onReorder,
+  onDelete,
+  disabled = false,
+}: SortableExerciseListProps) => {
+  const [dragIndex, setDragIndex] = useState<number | null>(null)
+  const [overIndex, setOverIndex] = useState<number | null>(null)
+
+  const handleDrop = (index: number) => {
+    if (dragIndex !== null && dragIndex !== index) {
+      onReorder(move(exercises, dragIndex, index))
+    }
+    setDragIndex(null)
+    setOverIndex(null)
+  }
+
+  return (
+    <ol className="space-y-1" aria-label="Exercises in order">
+      {exercises.map((exercise, index) => (
+        <li
+          key={exercise.id}
+          draggable={!disabled}
+          onDragStart={e => {
+            e.dataTransfer.effectAllowed = 'move'
+            setDragIndex(index)
+          }}
+          onDragOver={e => {
+            e.preventDefault()
+            setOverIndex(index)
+          }}
+          onDrop={e => {
+            e.preventDefault()
+            handleDrop(index)
+          }}
+          onDragEnd={() => {
+            setDragIndex(null)
+            setOverIndex(null)
+          }}
+          className={cn(
+            'flex items-center gap-2 rounded-md border bg-background p-2 text-sm',
+            dragIndex === index && 'opacity-50',
+            overIndex === index && dragIndex !== index && 'border-primary'
+          )}
+        >
+          <GripVertical
+            className="h-4 w-4 shrink-0 cursor-grab text-muted-foreground"
+            aria-hidden="true"
+          />
+          <span className="flex-1">
+            {capitalizeFirstLetter(exercise.name)}
+            {exercise.group_name && (
+              <span className="text-muted-foreground">
+                {' '}
+                · {capitalizeFirstLetter(exercise.group_name)}
+              </span>
+            )}
+          </span>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8"
+            onClick={() => onReorder(move(exercises, index, index - 1))}
+            disabled={disabled || index === 0}
+            aria-label={`Move ${exercise.name} up`}
+          >
+            <ArrowUp className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8"
+            onClick={() => onReorder(move(exercises, index, index + 1))}
+            disabled={disabled || index === exercises.length - 1}
+            aria-label={`Move ${exercise.name} down`}
+          >
+            <ArrowDown className="h-4 w-4" />
+          </Button>
+          <Button asChild variant="ghost" size="icon" className="h-8 w-8">
+            <Link href={`/admin/exercises/${exercise.id}`} aria-label={`Edit ${exercise.name}`}>
+              <Pencil className="h-4 w-4" />
+            </Link>
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8 text-muted-foreground hover:text-destructive"
+            onClick={() => onDelete(exercise)}
+            disabled={disabled}
+            aria-label={`Delete ${exercise.name}`}
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </li>
+      ))}
+    </ol>
+  )
+}
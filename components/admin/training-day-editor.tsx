@@ -0,0 +1,334 @@
+'use client'
+
+import { useRef, useState } from 'react'
+import Image from 'next/image'
+import { ArrowDown, ArrowUp, ImagePlus, Loader2, Plus, Trash2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { ImagePlaceholder } from '@/components/common/image-states'
+import { ExercisePicker } from './exercise-picker'
+import {
+  addDayExercise,
+  deleteTrainingDay,
+  removeDayExercise,
+  reorderDayExercises,
+  uploadDayImage,
+} from '@/app/admin/actions'
+import { capitalizeFirstLetter } from '@/lib/text-utils'
+import { invalidateQueries } from '@/lib/query-client'
+import { queryKeys } from '@/lib/query-keys'
+import type { TrainingSection } from '@/lib/sections'
+import type { AdminExerciseOption, AdminTrainingDay } from '@/lib/types'
+
+interface TrainingDayEditorProps {
+  accessToken: string
+  clientId: string
+  category: TrainingSection
+  day: AdminTrainingDay
+  exerciseOptions: AdminExerciseOption[]
+  onChange: (day: AdminTrainingDay) => void
+  onDelete: (dayId: number) => void
+}
+
+export const TrainingDayEditor = ({
+  accessToken,
+  clientId,
+  category,
+  day,
+  exerciseOptions,
+  onChange,
+  onDelete,
+}: TrainingDayEditorProps) => {
+  const [pickerOpen, setPickerOpen] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+  const [isUploading, setIsUploading] = useState(false)
+  const [saveError, setSaveError] = useState<string | null>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  // Drop cached copies of the client's days on this device once a change is saved
+  const invalidateClientDays = () => invalidateQueries(queryKeys.user(clientId))
+
+  const handleAddExercise = async (exercise: AdminExerciseOption) => {
+    setIsSaving(true)
+    setSaveError(null)
+
+    try {
+      const sortOrder = day.exercises.length
+      const result = await addDayExercise(
+        accessToken,
+        clientId,
+        category,
+        day.day_id,
+        exercise.id,
+        sortOrder
+      )
+
+      if (!result.success || result.id === undefined) {
+        setSaveError('Failed to add the exercise. Please try again.')
+        return
+      }
+
+      invalidateClientDays()
+      onChange({
+        ...day,
+        exercises: [
+          ...day.exercises,
+          {
+            id: result.id,
+            exercise_id: exercise.id,
+            name: exercise.name,
+            image_url: exercise.image_url,
+            group_name: exercise.group_name,
+            sort_order: sortOrder,
+          },
+        ],
+      })
+    } catch (error) {
+      console.error('Error adding day exercise:', error)
+      setSaveError('An unexpected error occurred. Please try again.')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleRemoveExercise = async (entryId: number) => {
+    setIsSaving(true)
+    setSaveError(null)
+
+    try {
+      const result = await removeDayExercise(accessToken, entryId)
+      if (!result.success) {
+        setSaveError('Failed to remove the exercise. Please try again.')
+        return
+      }
+
+      invalidateClientDays()
+      onChange({ ...day, exercises: day.exercises.filter(entry => entry.id !== entryId) })
+    } catch (error) {
+      console.error('Error removing day exercise:', error)
+      setSaveError('An unexpected error occurred. Please try again.')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleMoveExercise = async (index: number, direction: -1 | 1) => {
+    const target = index + direction
+    if (target < 0 || target >= day.exercises.length) return
+
+    const reordered = [...day.exercises]
+    ;[reordered[index], reordered[target]] = [reordered[target], reordered[index]]
+
+    // Update straight away and roll back if saving fails
+    const previous = day
+    onChange({
+      ...day,
+      exercises: reordered.map((entry, sortOrder) => ({ ...entry, sort_order: sortOrder })),
+    })
+    setSaveError(null)
+
+    try {
+      const result = await reorderDayExercises(
+        accessToken,
+        reordered.map(entry => entry.id)
+      )
+      if (!result.success) {
+        onChange(previous)
+        setSaveError('Failed to save the new order. Please try again.')
+        return
+      }
+
+      invalidateClientDays()
+    } catch (error) {
+      console.error('Error reordering day exercises:', error)
+      onChange(previous)
+      setSaveError('An unexpected error occurred. Please try again.')
+    }
+  }
+
+  const handleDeleteDay = async () => {
+    if (!window.confirm(`Delete Day ${day.day_id} and its ${day.exercises.length} exercises?`)) {
+      return
+    }
+
+    setIsSaving(true)
+    setSaveError(null)
+
+    try {
+      const result = await deleteTrainingDay(accessToken, clientId, category, day.day_id)
+      if (!result.success) {
+        setSaveError('Failed to delete the day. Please try again.')
+        return
+      }
+
+      invalidateClientDays()
+      onDelete(day.day_id)
+    } catch (error) {
+      console.error('Error deleting training day:', error)
+      setSaveError('An unexpected error occurred. Please try again.')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleImageChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file) return
+
+    setIsUploading(true)
+    setSaveError(null)
+
+    try {
+      const formData = new FormData()
+      formData.append('clientId', clientId)
+      formData.append('category', category)
+      formData.append('dayId', String(day.day_id))
+      formData.append('file', file)
+
+      const result = await uploadDayImage(accessToken, formData)
+      if (!result.success || !result.imageUrl) {
+        setSaveError(result.error || 'Failed to upload the image. Please try again.')
+        return
+      }
+
+      invalidateClientDays()
+      onChange({ ...day, image_url: result.imageUrl })
+    } catch (error) {
+      console.error('Error uploading day image:', error)
+      setSaveError('An unexpected error occurred. Please try again.')
+    } finally {
+      setIsUploading(false)
+    }
+  }
+
+  return (
+    <Card className="border-0 shadow-sm">
+      <CardHeader className="flex flex-row items-center justify-between space-y-0 p-4 pb-2">
+        <CardTitle className="text-lg">Day {day.day_id}</CardTitle>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-8 w-8 text-muted-foreground hover:text-destructive"
+          onClick={handleDeleteDay}
+          disabled={isSaving}
+          aria-label={`Delete Day ${day.day_id}`}
+        >
+          <Trash2 className="h-4 w-4" />
+        </Button>
+      </CardHeader>
+      <CardContent className="p-4 pt-0 space-y-4" aria-busy={isSaving || isUploading}>
+        <div className="flex items-center gap-4">
+          <div className="h-20 w-28 shrink-0 grid place-items-center bg-muted/30 rounded-md overflow-hidden">
+            {day.image_url ? (
+              <Image
+                src={day.image_url}
+                alt={`Day ${day.day_id} image`}
+                width={112}
+                height={80}
+                className="h-full w-full object-cover"
+              />
+            ) : (
+              <ImagePlaceholder />
+            )}
+          </div>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="image/*"
+            className="hidden"
+            onChange={handleImageChange}
+          />
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isUploading}
+          >
+            {isUploading ? (
+              <Loader2 className="h-4 w-4 animate-spin mr-2" />
+            ) : (
+              <ImagePlus className="h-4 w-4 mr-2" />
+            )}
+            {day.image_url ? 'Replace image' : 'Upload image'}
+          </Button>
+        </div>
+
+        {day.exercises.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No exercises assigned yet.</p>
+        ) : (
+          <ol className="space-y-1" aria-label={`Day ${day.day_id} exercises`}>
+            {day.exercises.map((entry, index) => (
+              <li key={entry.id} className="flex items-center gap-2 text-sm">
+                <span className="w-6 text-muted-foreground">{index + 1}.</span>
+                <span className="flex-1">
+                  {capitalizeFirstLetter(entry.name)}
+                  {entry.group_name && (
+                    <span className="text-muted-foreground">
+                      {' '}
+                      · {capitalizeFirstLetter(entry.group_name)}
+                    </span>
+                  )}
+                </span>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8"
+                  onClick={() => handleMoveExercise(index, -1)}
+                  disabled={index === 0}
+                  aria-label={`Move ${entry.name} up`}
+                >
+                  <ArrowUp className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8"
+                  onClick={() => handleMoveExercise(index, 1)}
+                  disabled={index === day.exercises.length - 1}
+                  aria-label={`Move ${entry.name} down`}
+                >
+                  <ArrowDown className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8 text-muted-foreground hover:text-destructive"
+                  onClick={() => handleRemoveExercise(entry.id)}
+                  disabled={isSaving}
+                  aria-label={`Remove ${entry.name}`}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </li>
+            ))}
+          </ol>
+        )}
+
+        <Button
+          variant="outline"
+          className="w-full"
+          onClick={() => setPickerOpen(true)}
+          disabled={isSaving}
+        >
+          <Plus className="h-4 w-4 mr-2" />
+          Add exercise
+        </Button>
+
+        {saveError && (
+          <div className="text-sm text-destructive" role="alert">
+            {saveError}
+          </div>
+        )}
+
+        <ExercisePicker
+          open={pickerOpen}
+          onOpenChange={setPickerOpen}
+          exercises={exerciseOptions}
+          excludeIds={day.exercises.map(entry => entry.exercise_id)}
+          onSelect={handleAddExercise}
+        />
+      </CardContent>
+    </Card>
+  )
+}
@@ -7,6 +7,17 @@ import type { User, Session } from '@supabase/supabase-js'
 import { AuthLoading } from './auth-loading'
 import { createAuthClient, createMockAuthClient } from './supabase-client'
 import type { AuthContextType } from '@/lib/types'
+import { clearOfflineDays } from '@/lib/offline-days'
+import { clearUserCaches } from '@/lib/pwa'
+import { clearQueries } from '@/lib/query-client'
+import { removeLegacyCaches } from '@/lib/storage-utils'
+import {
+  getLoginUrl,
+  getSafeReturnTo,
+  isPublicPath,
+  LOGIN_PATH,
+  RETURN_TO_PARAM,
+} from '@/lib/routes'
 
 const AuthContext = createContext<AuthContextType>({
   session: null,
@@ -67,7 +78,15 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
     try {
       const {
         data: { subscription },
-      } = supabase.auth.onAuthStateChange((_event: any, session: any) => {
+      } = supabase.auth.onAuthStateChange((event: any, session: any) => {
+        // Cached data belongs to the user who was signed in
+        if (event === 'SIGNED_OUT') {
+          clearQueries(['user'])
+          removeLegacyCaches()
+          clearOfflineDays()
+          clearUserCaches().catch(error => console.error('Error clearing offline caches:', error))
+        }
+
         setSession(session)
         setUser(session?.user ?? null)
         setIsLoading(false)
@@ -84,15 +103,17 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
     }
   }, [supabase])
 
-  // Redirect to login if not authenticated and not on login page
+  // middleware.ts redirects before a page renders; this covers sessions that end while a
+  // page is open
   useEffect(() => {
     if (!isLoading) {
-      if (!user && pathname !== '/login' && !error) {
-        // Redirect to login if not authenticated
-        router.push('/login')
-      } else if (user && pathname === '/login') {
-        // Redirect to home if already authenticated and on login page
-        router.push('/')
+      if (!user && !isPublicPath(pathname) && !error) {
+        // Redirect to login if not authenticated, coming back here afterwards
+        router.push(getLoginUrl(pathname))
+      } else if (user && pathname === LOGIN_PATH) {
+        // Redirect to where the user was going if already authenticated and on login page
+        const returnTo = new URLSearchParams(window.location.search).get(RETURN_TO_PARAM)
+        router.push(getSafeReturnTo(returnTo) ?? '/')
       }
     }
   }, [user, isLoading, pathname, router, error])
@@ -102,20 +123,20 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
 
     try {
       await supabase.auth.signOut()
-      router.push('/login')
+      router.push(LOGIN_PATH)
     } catch (error) {
       console.error('Error signing out:', error)
       setError(error instanceof Error ? error.message : 'Failed to sign out')
     }
   }
 
-  // Only show loading state when checking auth on non-login pages
-  if (isLoading && pathname !== '/login') {
+  // Only show loading state when checking auth on pages that need it
+  if (isLoading && !isPublicPath(pathname)) {
     return <AuthLoading />
   }
 
   // Show error state if there's an initialization error
-  if (error && pathname !== '/login') {
+  if (error && !isPublicPath(pathname)) {
     return (
       <div className="flex items-center justify-center min-h-screen bg-background">
         <div className="p-6 max-w-md mx-auto bg-card rounded-lg shadow-lg">
@@ -125,7 +146,7 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
             Please check your environment variables and make sure Supabase is properly configured.
           </p>
           <button
-            onClick={() => router.push('/login')}
+            onClick={() => router.push(LOGIN_PATH)}
             className="w-full bg-primary text-primary-foreground py-2 px-4 rounded hover:bg-primary/90"
           >
             Go to Login
@@ -1,6 +1,7 @@
-import { createClient } from '@supabase/supabase-js'
+import { createClientComponentClient } from '@supabase/auth-helpers-nextjs'
 
-// Create a standalone Supabase client for the auth provider
+// Create a standalone Supabase client for the auth provider. The session is kept in
+// cookies so middleware.ts can check it before a page renders.
 export const createAuthClient = () => {
   // Use environment variables for Supabase configuration
   const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL
@@ -10,14 +11,7 @@ export const createAuthClient = () => {
     throw new Error('Supabase configuration is missing')
   }
 
-  return createClient(supabaseUrl, supabaseAnonKey, {
-    auth: {
-      persistSession: true,
-      storageKey: 'fit-app-auth',
-      autoRefreshToken: true,
-      detectSessionInUrl: true,
-    },
-  })
+  return createClientComponentClient({ supabaseUrl, supabaseKey: supabaseAnonKey })
 }
 
 // Create a mock client for testing or when real client can't be initialized
@@ -0,0 +1,122 @@
+'use client'
+
+import type React from 'react'
+import { useMemo } from 'react'
+import { cn } from '@/lib/utils'
+import {
+  BODY_MAP_REGIONS,
+  BODY_MAP_SILHOUETTE,
+  BODY_MAP_VIEWBOX,
+  getRegionMuscles,
+  type BodyMapEllipse,
+  type BodyMapView,
+} from '@/lib/body-map'
+
+export interface BodyMapMuscle {
+  id: number
+  name: string
+  map_region: string | null
+}
+
+interface BodyMapProps {
+  muscles: BodyMapMuscle[]
+  // Tailwind fill class for a muscle, e.g. based on its FIR level
+  getMuscleClassName?: (muscleId: number) => string | undefined
+  // Makes the regions tappable; selected muscles are filled with the primary colour
+  selectedIds?: number[]
+  onToggleMuscle?: (muscleId: number) => void
+  className?: string
+}
+
+const VIEWS: { view: BodyMapView; label: string }[] = [
+  { view: 'front', label: 'Front' },
+  { view: 'back', label: 'Back' },
+]
+
+const Ellipse = ({ shape, className }: { shape: BodyMapEllipse; className?: string }) => (
+  <ellipse
+    cx={shape.cx}
+    cy={shape.cy}
+    rx={shape.rx}
+    ry={shape.ry}
+    transform={shape.rotate ? `rotate(${shape.rotate} ${shape.cx} ${shape.cy})` : undefined}
+    className={className}
+  />
+)
+
+export const BodyMap = ({
+  muscles,
+  getMuscleClassName,
+  selectedIds,
+  onToggleMuscle,
+  className,
+}: BodyMapProps) => {
+  // Map each region to the muscle drawn in it
+  const musclesByRegion = useMemo(() => getRegionMuscles(muscles), [muscles])
+
+  const handleKeyDown = (e: React.KeyboardEvent, muscleId: number) => {
+    if (e.key === 'Enter' || e.key === ' ') {
+      e.preventDefault()
+      onToggleMuscle?.(muscleId)
+    }
+  }
+
+  return (
+    <div className={cn('grid grid-cols-2 gap-4', className)}>
+      {VIEWS.map(({ view, label }) => (
+        <figure key={view} className="flex flex-col items-center">
+          <svg
+            viewBox={BODY_MAP_VIEWBOX}
+            className="w-full max-w-[180px] h-auto"
+            role={onToggleMuscle ? 'group' : 'img'}
+            aria-label={`${label} body map`}
+          >
+            <g className="fill-muted">
+              {BODY_MAP_SILHOUETTE.map((shape, index) => (
+                <Ellipse key={index} shape={shape} />
+              ))}
+            </g>
+            {BODY_MAP_REGIONS.filter(region => region.view === view).map(region => {
+              const muscle = musclesByRegion.get(region.id)
+              const isSelected = muscle ? !!selectedIds?.includes(muscle.id) : false
+              const fillClass = isSelected
+                ? 'fill-primary'
+                : muscle
+                  ? getMuscleClassName?.(muscle.id)
+                  : undefined
+              const isTappable = !!muscle && !!onToggleMuscle
+
+              return (
+                <g
+                  key={region.id}
+                  className={cn(
+                    'stroke-background transition-colors',
+                    fillClass || 'fill-muted-foreground/20',
+                    isTappable &&
+                      'cursor-pointer outline-none hover:opacity-80 focus-visible:stroke-primary'
+                  )}
+                  strokeWidth={0.5}
+                  {...(muscle &&
+                    onToggleMuscle && {
+                      role: 'button',
+                      tabIndex: 0,
+                      'aria-pressed': isSelected,
+                      'aria-label': `${muscle.id}. ${muscle.name}`,
+                      onClick: () => onToggleMuscle(muscle.id),
+                      onKeyDown: (e: React.KeyboardEvent) => handleKeyDown(e, muscle.id),
+                    })}
+                >
+                  <title>{muscle?.name || region.label}</title>
+                  {region.shapes.map((shape, index) => (
+                    <Ellipse key={index} shape={shape} />
+                  ))}
+                </g>
+              )
+            })}
+          </svg>
+          <figcaption className="text-xs text-muted-foreground mt-1">{label}</figcaption>
+        </figure>
+      ))}
+    </div>
+  )
+}
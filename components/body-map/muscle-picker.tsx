@@ -0,0 +1,97 @@
+'use client'
+
+import { useMemo } from 'react'
+import { X } from 'lucide-react'
+import { BodyMap, type BodyMapMuscle } from './body-map'
+import { getRegionMuscles } from '@/lib/body-map'
+import { cn } from '@/lib/utils'
+
+interface MusclePickerProps {
+  muscles: BodyMapMuscle[]
+  selectedIds: number[]
+  onToggleMuscle: (muscleId: number) => void
+  // Shown next to each muscle, e.g. how many exercises target it
+  getMuscleCount?: (muscleId: number) => number
+  className?: string
+}
+
+const formatMuscle = (muscle: BodyMapMuscle, count?: number) =>
+  count === undefined ? `${muscle.id}. ${muscle.name}` : `${muscle.id}. ${muscle.name} (${count})`
+
+// Pick muscles by tapping them on the body map, with the selection listed underneath
+export const MusclePicker = ({
+  muscles,
+  selectedIds,
+  onToggleMuscle,
+  getMuscleCount,
+  className,
+}: MusclePickerProps) => {
+  // Muscles the map can't show, either without a region or sharing one with another muscle
+  const offMap = useMemo(() => {
+    const drawn = new Set([...getRegionMuscles(muscles).values()].map(muscle => muscle.id))
+    return muscles.filter(muscle => !drawn.has(muscle.id))
+  }, [muscles])
+
+  const selected = muscles.filter(muscle => selectedIds.includes(muscle.id))
+
+  return (
+    <section className={cn('space-y-4', className)}>
+      <BodyMap muscles={muscles} selectedIds={selectedIds} onToggleMuscle={onToggleMuscle} />
+
+      {offMap.length > 0 && (
+        <div>
+          <h3 className="text-sm font-semibold mb-2">Not on the map</h3>
+          <div className="flex flex-wrap gap-2">
+            {offMap.map(muscle => {
+              const isSelected = selectedIds.includes(muscle.id)
+              return (
+                <button
+                  key={muscle.id}
+                  type="button"
+                  onClick={() => onToggleMuscle(muscle.id)}
+                  className={cn(
+                    'px-3 py-1 rounded-full text-xs border transition-colors focus:outline-none focus:ring-2 focus:ring-primary focus:ring-offset-2',
+                    isSelected
+                      ? 'bg-primary border-primary text-primary-foreground hover:bg-primary/90'
+                      : 'border-border hover:border-primary/50'
+                  )}
+                  aria-pressed={isSelected}
+                >
+                  {formatMuscle(muscle, getMuscleCount?.(muscle.id))}
+                </button>
+              )
+            })}
+          </div>
+        </div>
+      )}
+
+      <div aria-live="polite">
+        <h3 className="text-sm font-semibold mb-2">
+          {selected.length === 1 ? '1 muscle selected' : `${selected.length} muscles selected`}
+        </h3>
+        {selected.length > 0 ? (
+          <ul className="flex flex-wrap gap-2" aria-label="Selected muscles">
+            {selected.map(muscle => (
+              <li
+                key={muscle.id}
+                className="flex items-center gap-1 rounded-full bg-primary/10 pl-3 pr-1 py-1 text-xs"
+              >
+                {formatMuscle(muscle, getMuscleCount?.(muscle.id))}
+                <button
+                  type="button"
+                  onClick={() => onToggleMuscle(muscle.id)}
+                  className="rounded-full p-0.5 hover:bg-primary/20 focus:outline-none focus:ring-2 focus:ring-primary"
+                  aria-label={`Remove ${muscle.name}`}
+                >
+                  <X className="h-3 w-3" />
+                </button>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-sm text-muted-foreground">Tap a muscle on the map to select it.</p>
+        )}
+      </div>
+    </section>
+  )
+}
@@ -0,0 +1,33 @@
+'use client'
+
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { PROGRESS_RANGES, type ProgressRange } from '@/lib/strength-progress'
+
+interface RangeSelectProps {
+  value: ProgressRange
+  onChange: (range: ProgressRange) => void
+  label?: string
+}
+
+export const RangeSelect = ({ value, onChange, label = 'Date range' }: RangeSelectProps) => {
+  return (
+    <Select value={value} onValueChange={range => onChange(range as ProgressRange)}>
+      <SelectTrigger className="w-[160px]" aria-label={label}>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {PROGRESS_RANGES.map(range => (
+          <SelectItem key={range.value} value={range.value}>
+            {range.label}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+}
@@ -5,7 +5,7 @@ import { Input } from '@/components/ui/input'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent } from '@/components/ui/card'
 import { Loader2, CheckCircle2 } from 'lucide-react'
-import { saveExerciseNote } from '@/app/strengthen/actions'
+import { queueChange } from '@/lib/offline-sync'
 
 interface ExerciseNotesFormProps {
   userId: string | undefined
@@ -61,15 +61,15 @@ export const ExerciseNotesForm = ({
     setSaveError(null)
 
     try {
-      const result = await saveExerciseNote(userId, exerciseId, noteValue)
-      if (!result.success) {
-        setSaveError('Failed to save your note. Please try again.')
-      } else {
-        // Update saved value and clear input
-        setSavedNote(noteValue)
-        setNote('')
-        setShowSuccessMessage(true)
-      }
+      await queueChange(userId, {
+        kind: 'exercise_note',
+        data: { exercise_id: exerciseId, notes: noteValue },
+      })
+
+      // Update saved value and clear input
+      setSavedNote(noteValue)
+      setNote('')
+      setShowSuccessMessage(true)
     } catch (error) {
       console.error('Error saving exercise note:', error)
       setSaveError('An unexpected error occurred. Please try again.')
@@ -102,7 +102,7 @@ export const ExerciseNotesForm = ({
           <Input
             value={note}
             onChange={e => handleInputChange(e.target.value)}
-            placeholder="Write your exercise notes here (e.g., technique reminders, reps/sets/weight)..."
+            placeholder="Write your exercise notes here (e.g., technique reminders)..."
             className="w-full"
             disabled={isSaving}
             aria-label="Exercise notes input"
@@ -0,0 +1,173 @@
+'use client'
+
+import { useState, useEffect, useMemo } from 'react'
+import { format, parseISO } from 'date-fns'
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from 'recharts'
+import { Loader2 } from 'lucide-react'
+import { Card, CardContent } from '@/components/ui/card'
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import {
+  ChartContainer,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from '@/components/ui/chart'
+import { RangeSelect } from '@/components/common/range-select'
+import { getExerciseSetHistory } from '@/app/strengthen/actions'
+import {
+  getExerciseProgress,
+  getRangeStart,
+  type ExerciseProgressPoint,
+  type ProgressRange,
+} from '@/lib/strength-progress'
+import type { WeightUnit, WorkoutSet } from '@/lib/types'
+import { getAccessToken } from '@/lib/supabase'
+import { useProfile } from '@/hooks/use-profile'
+
+interface ExerciseProgressChartsProps {
+  userId: string | undefined
+  exerciseId: number
+}
+
+type ProgressMetric = 'estimatedOneRepMax' | 'topSet' | 'volume'
+
+// Loads are charted in the unit from the user's profile
+const getChartConfig = (unit: WeightUnit) =>
+  ({
+    estimatedOneRepMax: { label: `Estimated 1RM (${unit})`, color: 'hsl(var(--chart-1))' },
+    topSet: { label: `Top set (${unit})`, color: 'hsl(var(--chart-3))' },
+    volume: { label: `Volume (${unit})`, color: 'hsl(var(--chart-2))' },
+  }) satisfies ChartConfig
+
+const METRICS: { value: ProgressMetric; label: string }[] = [
+  { value: 'estimatedOneRepMax', label: 'Est. 1RM' },
+  { value: 'topSet', label: 'Top set' },
+  { value: 'volume', label: 'Volume' },
+]
+
+const formatDay = (date: string) => format(parseISO(date), 'd MMM')
+
+export const ExerciseProgressCharts = ({ userId, exerciseId }: ExerciseProgressChartsProps) => {
+  const [range, setRange] = useState<ProgressRange>('3m')
+  const [sets, setSets] = useState<WorkoutSet[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const { profile } = useProfile()
+  const unit = profile?.weight_unit ?? 'kg'
+
+  useEffect(() => {
+    if (!userId) {
+      setIsLoading(false)
+      return
+    }
+
+    let mounted = true
+
+    async function loadSets() {
+      try {
+        setIsLoading(true)
+        const accessToken = await getAccessToken()
+        if (!accessToken) return
+        const history = await getExerciseSetHistory(accessToken, exerciseId, getRangeStart(range))
+        if (mounted) setSets(history)
+      } catch (error) {
+        console.error('Error loading exercise progress:', error)
+      } finally {
+        if (mounted) setIsLoading(false)
+      }
+    }
+
+    loadSets()
+
+    return () => {
+      mounted = false
+    }
+  }, [userId, exerciseId, range])
+
+  const points = useMemo(() => getExerciseProgress(sets, unit), [sets, unit])
+
+  return (
+    <Card className="border-0 shadow-sm">
+      <CardContent className="p-4">
+        <Tabs defaultValue="estimatedOneRepMax">
+          <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+            <TabsList>
+              {METRICS.map(metric => (
+                <TabsTrigger key={metric.value} value={metric.value}>
+                  {metric.label}
+                </TabsTrigger>
+              ))}
+            </TabsList>
+            <RangeSelect value={range} onChange={setRange} />
+          </div>
+
+          {isLoading ? (
+            <div
+              className="flex justify-center items-center py-8"
+              aria-busy="true"
+              aria-live="polite"
+            >
+              <Loader2 className="h-5 w-5 animate-spin text-primary mr-2" />
+              <span>Loading your progress...</span>
+            </div>
+          ) : (
+            METRICS.map(metric => (
+              <TabsContent key={metric.value} value={metric.value}>
+                <ProgressChart points={points} metric={metric.value} unit={unit} />
+              </TabsContent>
+            ))
+          )}
+        </Tabs>
+      </CardContent>
+    </Card>
+  )
+}
+
+const ProgressChart = ({
+  points,
+  metric,
+  unit,
+}: {
+  points: ExerciseProgressPoint[]
+  metric: ProgressMetric
+  unit: WeightUnit
+}) => {
+  // Bodyweight days have no load, so leave them out rather than plotting zero
+  const data = points.filter(point => point[metric] !== null && point[metric] !== 0)
+
+  if (data.length === 0) {
+    return (
+      <p className="text-center text-sm text-muted-foreground py-8">
+        No loaded sets in this range yet. Log sets with a load to see your progress.
+      </p>
+    )
+  }
+
+  return (
+    <ChartContainer config={getChartConfig(unit)} className="aspect-auto h-[220px] w-full">
+      <LineChart data={data} margin={{ left: 0, right: 12, top: 8 }}>
+        <CartesianGrid vertical={false} />
+        <XAxis
+          dataKey="date"
+          tickLine={false}
+          axisLine={false}
+          tickMargin={8}
+          minTickGap={24}
+          tickFormatter={formatDay}
+        />
+        <YAxis tickLine={false} axisLine={false} width={40} domain={['auto', 'auto']} />
+        <ChartTooltip
+          content={<ChartTooltipContent labelFormatter={label => formatDay(String(label))} />}
+        />
+        <Line
+          dataKey={metric}
+          type="monotone"
+          stroke={`var(--color-${metric})`}
+          strokeWidth={2}
+          // Show every point so a single session is still visible
+          dot={{ r: 3 }}
+          connectNulls
+        />
+      </LineChart>
+    </ChartContainer>
+  )
+}
@@ -0,0 +1,269 @@
+'use client'
+
+import type React from 'react'
+import { useState } from 'react'
+import { format } from 'date-fns'
+import { ArrowLeftRight, Loader2, Undo2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog'
+import { Label } from '@/components/ui/label'
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group'
+import { Textarea } from '@/components/ui/textarea'
+import { useGroupExercises } from '@/hooks/use-group-exercises'
+import { useKitProfiles } from '@/hooks/use-kit-profiles'
+import { useToast } from '@/hooks/use-toast'
+import type { UserDayExercise } from '@/hooks/use-user-day-exercises'
+import { restoreDayExercise, swapDayExercise } from '@/app/strengthen/actions'
+import { MAX_SWAP_REASON_LENGTH } from '@/lib/exercise-swaps'
+import { getKitName } from '@/lib/kit'
+import type { TrainingSection } from '@/lib/sections'
+import { getAccessToken } from '@/lib/supabase'
+import { capitalizeFirstLetter } from '@/lib/text-utils'
+import type { SwapScope } from '@/lib/types'
+
+interface ExerciseSwapProps {
+  entry: UserDayExercise
+  section: TrainingSection
+  // Called after a swap or restore is saved, to reload the day
+  onChange: () => void
+}
+
+/**
+ * Swaps a training day exercise for another from its group, for today or until restored, and
+ * shows the swap in force with a way back to the coach's exercise
+ */
+export const ExerciseSwap = ({ entry, section, onChange }: ExerciseSwapProps) => {
+  const { toast } = useToast()
+  const { kit, isAvailable } = useKitProfiles()
+  const [open, setOpen] = useState(false)
+  const [replacementId, setReplacementId] = useState<string>('')
+  const [scope, setScope] = useState<SwapScope>('today')
+  const [reason, setReason] = useState('')
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const assigned = entry.assigned_exercise
+  const groupId = assigned?.group?.id ?? assigned?.exercise_group
+  const { exercises, loading } = useGroupExercises(open ? groupId : null, section)
+
+  if (!assigned || !groupId) return null
+
+  const alternatives = exercises.filter(
+    exercise => exercise.id !== assigned.id && exercise.id !== entry.exercise?.id
+  )
+
+  const handleOpenChange = (isOpen: boolean) => {
+    setOpen(isOpen)
+    if (!isOpen) {
+      setReplacementId('')
+      setScope('today')
+      setReason('')
+      setError(null)
+    }
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!replacementId) {
+      setError('Choose an exercise to swap to')
+      return
+    }
+
+    setIsSaving(true)
+    setError(null)
+    try {
+      const accessToken = await getAccessToken()
+      if (!accessToken) {
+        setError('Your session has expired. Please sign in again.')
+        return
+      }
+
+      const result = await swapDayExercise(accessToken, {
+        user_day_exercise_id: entry.id,
+        replacement_exercise_id: Number(replacementId),
+        scope,
+        swap_date: format(new Date(), 'yyyy-MM-dd'),
+        reason,
+      })
+      if (!result.success) {
+        setError(result.error || 'Failed to swap the exercise. Please try again.')
+        return
+      }
+
+      handleOpenChange(false)
+      toast({ title: 'Exercise swapped' })
+      onChange()
+    } catch (error) {
+      console.error('Error swapping exercise:', error)
+      setError('An unexpected error occurred. Please try again.')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleRestore = async () => {
+    setIsSaving(true)
+    try {
+      const accessToken = await getAccessToken()
+      if (!accessToken) {
+        toast({ title: 'Your session has expired. Please sign in again.', variant: 'destructive' })
+        return
+      }
+
+      const result = await restoreDayExercise(accessToken, entry.id)
+      if (!result.success) {
+        toast({ title: 'Failed to restore the exercise', variant: 'destructive' })
+        return
+      }
+
+      toast({ title: `${capitalizeFirstLetter(assigned.name)} is back on your day` })
+      onChange()
+    } catch (error) {
+      console.error('Error restoring exercise:', error)
+      toast({ title: 'Failed to restore the exercise', variant: 'destructive' })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <div className="mb-2 space-y-2">
+      {entry.swap && (
+        <div className="rounded-md bg-muted px-3 py-2 text-sm">
+          <p>
+            Swapped from {capitalizeFirstLetter(assigned.name)}{' '}
+            {entry.swap.scope === 'today' ? 'for today' : 'until you restore it'}: "
+            {entry.swap.reason}"
+          </p>
+          <Button
+            type="button"
+            variant="link"
+            size="sm"
+            className="h-auto p-0"
+            onClick={handleRestore}
+            disabled={isSaving}
+          >
+            {isSaving ? (
+              <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+            ) : (
+              <Undo2 className="h-4 w-4 mr-1" />
+            )}
+            Restore {capitalizeFirstLetter(assigned.name)}
+          </Button>
+        </div>
+      )}
+
+      <Dialog open={open} onOpenChange={handleOpenChange}>
+        <DialogTrigger asChild>
+          <Button type="button" variant="outline" size="sm" className="gap-2">
+            <ArrowLeftRight className="h-4 w-4" />
+            Swap exercise
+          </Button>
+        </DialogTrigger>
+        <DialogContent className="max-h-[90vh] overflow-y-auto">
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <DialogHeader>
+              <DialogTitle>
+                Swap {capitalizeFirstLetter(entry.exercise?.name ?? assigned.name)}
+              </DialogTitle>
+              <DialogDescription>
+                Pick another exercise from {assigned.group?.name ?? 'the same group'}. Your coach
+                will see the swap and why you made it.
+              </DialogDescription>
+            </DialogHeader>
+
+            <fieldset className="space-y-3">
+              <legend className="text-sm font-medium mb-2">Swap to</legend>
+              {loading && alternatives.length === 0 ? (
+                <div className="flex items-center text-sm" aria-busy="true">
+                  <Loader2 className="h-4 w-4 animate-spin text-primary mr-2" />
+                  Loading alternatives...
+                </div>
+              ) : alternatives.length === 0 ? (
+                <p className="text-sm text-muted-foreground">
+                  There are no other exercises in this group.
+                </p>
+              ) : (
+                <RadioGroup value={replacementId} onValueChange={setReplacementId}>
+                  {alternatives.map(exercise => (
+                    <div key={exercise.id} className="flex items-center gap-2">
+                      <RadioGroupItem value={String(exercise.id)} id={`swap-${exercise.id}`} />
+                      <Label htmlFor={`swap-${exercise.id}`} className="font-normal">
+                        {capitalizeFirstLetter(exercise.name)}
+                        {!isAvailable(exercise.kit) && (
+                          <span className="ml-2 text-xs text-muted-foreground">
+                            Needs {getKitName(kit, exercise.kit) ?? 'other kit'}
+                          </span>
+                        )}
+                      </Label>
+                    </div>
+                  ))}
+                </RadioGroup>
+              )}
+            </fieldset>
+
+            <fieldset className="space-y-3">
+              <legend className="text-sm font-medium mb-2">For how long</legend>
+              <RadioGroup value={scope} onValueChange={value => setScope(value as SwapScope)}>
+                <div className="flex items-center gap-2">
+                  <RadioGroupItem value="today" id="swap-today" />
+                  <Label htmlFor="swap-today" className="font-normal">
+                    Just today
+                  </Label>
+                </div>
+                <div className="flex items-center gap-2">
+                  <RadioGroupItem value="permanent" id="swap-permanent" />
+                  <Label htmlFor="swap-permanent" className="font-normal">
+                    From now on, until I restore it
+                  </Label>
+                </div>
+              </RadioGroup>
+            </fieldset>
+
+            <div className="space-y-2">
+              <Label htmlFor={`swap-reason-${entry.id}`}>Why are you swapping?</Label>
+              <Textarea
+                id={`swap-reason-${entry.id}`}
+                value={reason}
+                onChange={e => setReason(e.target.value)}
+                placeholder="e.g. The rack was taken, or it hurt my shoulder"
+                maxLength={MAX_SWAP_REASON_LENGTH}
+                disabled={isSaving}
+                required
+              />
+            </div>
+
+            {error && (
+              <p className="text-sm text-destructive" role="alert">
+                {error}
+              </p>
+            )}
+
+            <DialogFooter>
+              <Button
+                type="submit"
+                disabled={isSaving || alternatives.length === 0}
+                aria-busy={isSaving}
+              >
+                {isSaving ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <ArrowLeftRight className="h-4 w-4 mr-2" />
+                )}
+                Swap
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
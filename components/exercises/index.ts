@@ -1,9 +1,11 @@
 export { CategoryLabel } from './category-label'
+export { ExerciseProgressCharts } from './exercise-progress-charts'
 export { ExerciseCard } from './exercise-card'
 export { default as ExerciseImage } from './exercise-image'
 export { ExerciseNotesForm } from './exercise-notes-form'
 export { ExerciseVideo } from './exercise-video'
 export { MobiliseExerciseCard } from './mobilise-exercise-card'
 export { RecommendedWorkouts } from './recommended-workouts'
+export { SetLogger } from './set-logger'
 export { ShareWorkout } from './share-workout'
 export { WorkoutLogger } from './workout-logger'
@@ -0,0 +1,53 @@
+'use client'
+
+import Link from 'next/link'
+import { Dumbbell } from 'lucide-react'
+import { useGroupExercises } from '@/hooks/use-group-exercises'
+import { useKitProfiles } from '@/hooks/use-kit-profiles'
+import { getKitName } from '@/lib/kit'
+import type { Section } from '@/lib/sections'
+import { capitalizeFirstLetter } from '@/lib/text-utils'
+
+interface KitAlternativeProps {
+  exerciseId: number
+  kitId: number | null | undefined
+  groupId: number | null | undefined
+  section: Section
+}
+
+// When an exercise needs kit the user doesn't have, suggests one from its group they can do
+export const KitAlternative = ({ exerciseId, kitId, groupId, section }: KitAlternativeProps) => {
+  const { kit, activeProfile, isAvailable } = useKitProfiles()
+  const needsOtherKit = !isAvailable(kitId)
+  const { exercises } = useGroupExercises(needsOtherKit ? groupId : null, section)
+
+  if (!needsOtherKit) return null
+
+  const alternative = exercises.find(
+    exercise => exercise.id !== exerciseId && isAvailable(exercise.kit)
+  )
+  const kitName = getKitName(kit, kitId) ?? 'kit'
+
+  return (
+    <div className="flex items-start gap-2 rounded-md bg-muted px-3 py-2 mb-2 text-sm" role="note">
+      <Dumbbell className="h-4 w-4 mt-0.5 shrink-0 text-muted-foreground" aria-hidden="true" />
+      <p>
+        Needs {kitName.toLowerCase()}, which isn't in {activeProfile?.name ?? 'your kit'}.{' '}
+        {alternative ? (
+          <>
+            Try{' '}
+            <Link
+              href={`/${section}/${alternative.id}`}
+              className="font-medium text-primary underline underline-offset-2"
+            >
+              {capitalizeFirstLetter(alternative.name)}
+            </Link>{' '}
+            instead.
+          </>
+        ) : (
+          'There is no alternative in this group for your kit.'
+        )}
+      </p>
+    </div>
+  )
+}
@@ -0,0 +1,67 @@
+'use client'
+
+import { useState } from 'react'
+import { ExerciseCard } from '@/components/exercises/exercise-card'
+import { KitProfileSwitcher } from '@/components/exercises/kit-profile-switcher'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import { useKitProfiles } from '@/hooks/use-kit-profiles'
+import { getKitName } from '@/lib/kit'
+import type { ExerciseWithLabels } from '@/lib/types'
+import { cn } from '@/lib/utils'
+
+interface KitExerciseListProps {
+  exercises: ExerciseWithLabels[]
+  linkPrefix: string
+}
+
+// Exercises the user's kit allows come first; the rest are flagged, or hidden if they prefer
+export const KitExerciseList = ({ exercises, linkPrefix }: KitExerciseListProps) => {
+  const { kit, isAvailable } = useKitProfiles()
+  const [hideUnavailable, setHideUnavailable] = useState(false)
+
+  const available = exercises.filter(exercise => isAvailable(exercise.kit))
+  const unavailable = exercises.filter(exercise => !isAvailable(exercise.kit))
+
+  return (
+    <div className="space-y-4">
+      <KitProfileSwitcher />
+
+      {unavailable.length > 0 && (
+        <div className="flex items-center gap-2">
+          <Switch
+            id="hide-unavailable"
+            checked={hideUnavailable}
+            onCheckedChange={setHideUnavailable}
+          />
+          <Label htmlFor="hide-unavailable" className="font-normal">
+            Hide {unavailable.length} {unavailable.length === 1 ? 'exercise' : 'exercises'} needing
+            other kit
+          </Label>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 gap-4">
+        {[...available, ...(hideUnavailable ? [] : unavailable)].map(exercise => {
+          const needsOtherKit = !isAvailable(exercise.kit)
+          return (
+            <div key={exercise.id} className={cn('relative', needsOtherKit && 'opacity-60')}>
+              <ExerciseCard
+                id={exercise.id}
+                name={exercise.name}
+                image={exercise.image}
+                linkPrefix={linkPrefix}
+                description={exercise.description}
+              />
+              {needsOtherKit && (
+                <span className="absolute top-2 right-2 rounded-full bg-background/90 px-3 py-1 text-xs font-medium shadow-sm">
+                  Needs {getKitName(kit, exercise.kit) ?? 'other kit'}
+                </span>
+              )}
+            </div>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,94 @@
+'use client'
+
+import { useState } from 'react'
+import Link from 'next/link'
+import { Dumbbell } from 'lucide-react'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { useToast } from '@/hooks/use-toast'
+import { useKitProfiles } from '@/hooks/use-kit-profiles'
+import { setActiveKitProfile } from '@/app/record/actions'
+import { getAccessToken } from '@/lib/supabase'
+import { cn } from '@/lib/utils'
+
+// Select value for no active profile
+const ALL_KIT = 'all'
+
+// Chooses which equipment profile exercises are checked against
+export const KitProfileSwitcher = ({ className }: { className?: string }) => {
+  const { toast } = useToast()
+  const { kitProfiles, activeProfile, loading, setProfile } = useKitProfiles()
+  const [isSaving, setIsSaving] = useState(false)
+
+  if (loading) return null
+
+  if (kitProfiles.length === 0) {
+    return (
+      <p className={cn('text-sm text-muted-foreground', className)}>
+        <Link href="/record/settings" className="underline underline-offset-2">
+          Add your kit
+        </Link>{' '}
+        to see which exercises you can do with it.
+      </p>
+    )
+  }
+
+  const handleChange = async (value: string) => {
+    setIsSaving(true)
+    try {
+      const accessToken = await getAccessToken()
+      if (!accessToken) {
+        toast({ title: 'Your session has expired. Please sign in again.', variant: 'destructive' })
+        return
+      }
+
+      const result = await setActiveKitProfile(
+        accessToken,
+        value === ALL_KIT ? null : Number(value)
+      )
+      if (!result.success || !result.profile) {
+        toast({ title: 'Failed to change your kit', variant: 'destructive' })
+        return
+      }
+
+      setProfile(result.profile)
+    } catch (error) {
+      console.error('Error changing kit profile:', error)
+      toast({ title: 'Failed to change your kit', variant: 'destructive' })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <div className={cn('flex items-center gap-2', className)}>
+      <Dumbbell className="h-4 w-4 text-muted-foreground shrink-0" aria-hidden="true" />
+      <Label htmlFor="kit-profile" className="shrink-0">
+        My kit
+      </Label>
+      <Select
+        value={activeProfile ? String(activeProfile.id) : ALL_KIT}
+        onValueChange={handleChange}
+        disabled={isSaving}
+      >
+        <SelectTrigger id="kit-profile" className="h-9">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={ALL_KIT}>Any kit</SelectItem>
+          {kitProfiles.map(kitProfile => (
+            <SelectItem key={kitProfile.id} value={String(kitProfile.id)}>
+              {kitProfile.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  )
+}
@@ -2,11 +2,10 @@
 
 import Image from 'next/image'
 import Link from 'next/link'
-import { useEffect } from 'react'
 import { Card, CardContent } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
 import { capitalizeFirstLetter } from '@/lib/text-utils'
-import { useBodyMuscle } from '@/contexts/body-muscle-context'
+import { useBodyMuscle } from '@/hooks/use-body-muscle'
 
 interface MobiliseExerciseCardProps {
   id: number
@@ -29,18 +28,7 @@ export const MobiliseExerciseCard: React.FC<MobiliseExerciseCardProps> = ({
   bodyMuscleId,
   description,
 }) => {
-  const { getBodyMuscle, triggerFetch, isLoading } = useBodyMuscle()
-
-  // Trigger fetch when bodyMuscleId changes
-  useEffect(() => {
-    if (bodyMuscleId) {
-      triggerFetch(bodyMuscleId)
-    }
-  }, [bodyMuscleId, triggerFetch])
-
-  // Get muscle data from context (cached)
-  const bodyMuscle = bodyMuscleId ? getBodyMuscle(bodyMuscleId) : null
-  const isLoadingMuscle = bodyMuscleId ? isLoading(bodyMuscleId) : false
+  const { bodyMuscle, loading: isLoadingMuscle } = useBodyMuscle(bodyMuscleId)
 
   const formattedName = capitalizeFirstLetter(name)
 
@@ -2,24 +2,30 @@
 
 import { useState, useEffect } from 'react'
 import Link from 'next/link'
-import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Skeleton } from '@/components/ui/skeleton'
 // Update imports for moved components
 import ExerciseImage from '@/components/exercises/exercise-image'
 import { useAuth } from '@/components/auth/auth-provider'
+import { useProfile } from '@/hooks/use-profile'
+import { DEFAULT_PROFILE_SETTINGS, getFitnessLevelLabel } from '@/lib/profile'
 import { getSupabaseBrowser } from '@/lib/supabase'
+import { resolveSection, type Section } from '@/lib/sections'
 
 interface RecommendedWorkout {
   id: number
   name: string
   image: string
-  type: 'warm-up' | 'mobilise' | 'strengthen' | 'recover'
+  type: Section
 }
 
 export function RecommendedWorkouts() {
   const [workouts, setWorkouts] = useState<RecommendedWorkout[]>([])
   const [isLoading, setIsLoading] = useState(true)
   const { user } = useAuth()
+  const { profile } = useProfile()
+  // Set on /record/settings
+  const fitnessLevel = profile?.fitness_level ?? DEFAULT_PROFILE_SETTINGS.fitness_level
   const supabase = getSupabaseBrowser()
 
   useEffect(() => {
@@ -27,9 +33,6 @@ export function RecommendedWorkouts() {
       if (!user) return
 
       try {
-        // Get user's fitness level from metadata
-        const fitnessLevel = user.user_metadata?.fitness_level || 'Beginner'
-
         // Fetch recent workout logs to avoid recommending recently completed exercises
         const { data: recentLogs } = await supabase
           .from('workout_logs')
@@ -67,21 +70,11 @@ export function RecommendedWorkouts() {
   }, [user, supabase])
 
   // Helper function to determine exercise type from category name
-  const getExerciseType = (
-    categoryName?: string
-  ): 'warm-up' | 'mobilise' | 'strengthen' | 'recover' => {
-    if (!categoryName) return 'strengthen'
-
-    const lowerCaseName = categoryName.toLowerCase()
-    if (lowerCaseName.includes('warm-up')) return 'warm-up'
-    if (lowerCaseName.includes('mobilise')) return 'mobilise'
-    if (lowerCaseName.includes('strengthen')) return 'strengthen'
-    if (lowerCaseName.includes('recover')) return 'recover'
-    return 'strengthen'
-  }
+  const getExerciseType = (categoryName?: string): Section =>
+    resolveSection(categoryName?.toLowerCase()) || 'strengthen'
 
   // Get the correct link prefix based on exercise type
-  const getLinkPrefix = (type: 'warm-up' | 'mobilise' | 'strengthen' | 'recover') => {
+  const getLinkPrefix = (type: Section) => {
     switch (type) {
       case 'warm-up':
         return '/warm-up'
@@ -124,6 +117,7 @@ export function RecommendedWorkouts() {
     <Card>
       <CardHeader>
         <CardTitle>Recommended For You</CardTitle>
+        <CardDescription>{getFitnessLevelLabel(fitnessLevel)} level</CardDescription>
       </CardHeader>
       <CardContent>
         <div className="grid grid-cols-3 gap-4">
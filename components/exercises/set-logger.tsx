@@ -0,0 +1,381 @@
+'use client'
+
+import { useState, useEffect, useMemo } from 'react'
+import { format, isSameDay } from 'date-fns'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent } from '@/components/ui/card'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Loader2, Plus, Trash2 } from 'lucide-react'
+import {
+  getExerciseRestSeconds,
+  getExerciseSets,
+  saveWorkoutSet,
+  deleteWorkoutSet,
+} from '@/app/strengthen/actions'
+import { useRestTimer } from '@/contexts/rest-timer-context'
+import { useWorkoutSession } from '@/contexts/workout-session-context'
+import { useProfile } from '@/hooks/use-profile'
+import type { WeightUnit, WorkoutSet } from '@/lib/types'
+import { getAccessToken } from '@/lib/supabase'
+
+interface SetLoggerProps {
+  userId: string | undefined
+  exerciseId: number
+}
+
+// Human readable summary of a set, e.g. "10 × 40 kg · RPE 8 · 90s rest"
+export function formatSet(set: WorkoutSet): string {
+  const parts = [set.load !== null ? `${set.reps} × ${set.load} ${set.unit}` : `${set.reps} reps`]
+  if (set.rpe !== null) parts.push(`RPE ${set.rpe}`)
+  if (set.rest_seconds !== null) parts.push(`${set.rest_seconds}s rest`)
+  return parts.join(' · ')
+}
+
+// Parse an optional numeric input, returning null for empty values
+const parseOptional = (value: string): number | null => {
+  if (value.trim() === '') return null
+  const parsed = Number(value)
+  return isNaN(parsed) ? NaN : parsed
+}
+
+export const SetLogger = ({ userId, exerciseId }: SetLoggerProps) => {
+  const [sets, setSets] = useState<WorkoutSet[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [reps, setReps] = useState('')
+  const [load, setLoad] = useState('')
+  const [unit, setUnit] = useState<WeightUnit>('kg')
+  const [rpe, setRpe] = useState('')
+  const [rest, setRest] = useState('')
+  const [isSaving, setIsSaving] = useState(false)
+  const [saveError, setSaveError] = useState<string | null>(null)
+  const [restSeconds, setRestSeconds] = useState<number | null>(null)
+  const { startSession } = useWorkoutSession()
+  const { startRest } = useRestTimer()
+  const { profile } = useProfile()
+  const preferredUnit = profile?.weight_unit
+
+  // Load the user's recent sets for this exercise
+  useEffect(() => {
+    if (!userId) {
+      setIsLoading(false)
+      return
+    }
+
+    let mounted = true
+
+    async function loadSets() {
+      try {
+        setIsLoading(true)
+        const accessToken = await getAccessToken()
+        if (!accessToken) return
+        const [recentSets, exerciseRest] = await Promise.all([
+          getExerciseSets(accessToken, exerciseId),
+          getExerciseRestSeconds(exerciseId),
+        ])
+        if (!mounted) return
+        setSets(recentSets)
+        setRestSeconds(exerciseRest)
+      } catch (error) {
+        console.error('Error loading exercise sets:', error)
+      } finally {
+        if (mounted) setIsLoading(false)
+      }
+    }
+
+    loadSets()
+
+    return () => {
+      mounted = false
+    }
+  }, [userId, exerciseId])
+
+  // Split recent sets into today's sets and the previous session for reference
+  const { todaySets, previousSets } = useMemo(() => {
+    const today = new Date()
+    const todaySets = sets
+      .filter(set => isSameDay(new Date(set.completed_at), today))
+      .sort((a, b) => a.set_number - b.set_number)
+
+    const earlier = sets.filter(set => !isSameDay(new Date(set.completed_at), today))
+    const lastDate = earlier.length > 0 ? new Date(earlier[0].completed_at) : null
+    const previousSets = lastDate
+      ? earlier
+          .filter(set => isSameDay(new Date(set.completed_at), lastDate))
+          .sort((a, b) => a.set_number - b.set_number)
+      : []
+
+    return { todaySets, previousSets }
+  }, [sets])
+
+  // One past the highest so a deleted set's number isn't reused; today's sets are in order
+  const nextSetNumber = (todaySets[todaySets.length - 1]?.set_number ?? 0) + 1
+
+  // Prefill the form from the most recent set so repeat sets are one tap
+  useEffect(() => {
+    const lastSet = todaySets[todaySets.length - 1] || previousSets[0]
+    if (!lastSet) {
+      // Nothing logged yet, so start from the unit set in the user's profile
+      if (preferredUnit) setUnit(preferredUnit)
+      return
+    }
+
+    setReps(String(lastSet.reps))
+    setLoad(lastSet.load !== null ? String(lastSet.load) : '')
+    setUnit(lastSet.unit)
+    setRpe(lastSet.rpe !== null ? String(lastSet.rpe) : '')
+    setRest(lastSet.rest_seconds !== null ? String(lastSet.rest_seconds) : '')
+  }, [todaySets, previousSets, preferredUnit])
+
+  const handleLogSet = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    if (!userId) {
+      setSaveError('You must be logged in to log your sets')
+      return
+    }
+
+    const repsValue = Number(reps)
+    const loadValue = parseOptional(load)
+    const rpeValue = parseOptional(rpe)
+    const restValue = parseOptional(rest)
+
+    if (!reps.trim() || !Number.isInteger(repsValue) || repsValue < 0) {
+      setSaveError('Please enter the number of reps')
+      return
+    }
+    if (loadValue !== null && (isNaN(loadValue) || loadValue < 0)) {
+      setSaveError('Load must be a positive number')
+      return
+    }
+    if (rpeValue !== null && (isNaN(rpeValue) || rpeValue < 1 || rpeValue > 10)) {
+      setSaveError('RPE must be between 1 and 10')
+      return
+    }
+    if (restValue !== null && (!Number.isInteger(restValue) || restValue < 0)) {
+      setSaveError('Rest must be a whole number of seconds')
+      return
+    }
+
+    setIsSaving(true)
+    setSaveError(null)
+
+    try {
+      const [session, accessToken] = await Promise.all([startSession(), getAccessToken()])
+      if (!accessToken) {
+        setSaveError('Your session has expired. Please sign in again.')
+        return
+      }
+
+      const result = await saveWorkoutSet(
+        accessToken,
+        exerciseId,
+        nextSetNumber,
+        {
+          reps: repsValue,
+          load: loadValue,
+          unit,
+          rpe: rpeValue,
+          rest_seconds: restValue,
+        },
+        session?.id ?? null
+      )
+
+      if (!result.success || !result.set) {
+        setSaveError('Failed to log your set. Please try again.')
+      } else {
+        const savedSet = result.set
+        setSets(prev => [savedSet, ...prev])
+        startRest(exerciseId, restSeconds)
+      }
+    } catch (error) {
+      console.error('Error logging set:', error)
+      setSaveError('An unexpected error occurred. Please try again.')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleDeleteSet = async (setId: number) => {
+    if (!userId) return
+
+    try {
+      const accessToken = await getAccessToken()
+      if (!accessToken) {
+        setSaveError('Your session has expired. Please sign in again.')
+        return
+      }
+
+      const result = await deleteWorkoutSet(accessToken, setId)
+      if (!result.success) {
+        setSaveError('Failed to delete the set. Please try again.')
+      } else {
+        setSets(prev => prev.filter(set => set.id !== setId))
+      }
+    } catch (error) {
+      console.error('Error deleting set:', error)
+      setSaveError('An unexpected error occurred. Please try again.')
+    }
+  }
+
+  if (isLoading) {
+    return (
+      <Card className="border-0 shadow-sm">
+        <CardContent className="p-4">
+          <div
+            className="flex justify-center items-center py-4"
+            aria-busy="true"
+            aria-live="polite"
+          >
+            <Loader2 className="h-5 w-5 animate-spin text-primary mr-2" />
+            <span>Loading your sets...</span>
+          </div>
+        </CardContent>
+      </Card>
+    )
+  }
+
+  const fieldId = (name: string) => `set-${exerciseId}-${name}`
+
+  return (
+    <Card className="border-0 shadow-sm">
+      <CardContent className="p-4">
+        <form onSubmit={handleLogSet} className="space-y-3" aria-busy={isSaving}>
+          <div className="grid grid-cols-2 sm:grid-cols-5 gap-2">
+            <div className="space-y-1">
+              <Label htmlFor={fieldId('reps')}>Reps</Label>
+              <Input
+                id={fieldId('reps')}
+                type="number"
+                inputMode="numeric"
+                min={0}
+                value={reps}
+                onChange={e => setReps(e.target.value)}
+                disabled={isSaving}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor={fieldId('load')}>Load</Label>
+              <Input
+                id={fieldId('load')}
+                type="number"
+                inputMode="decimal"
+                min={0}
+                step="0.5"
+                value={load}
+                onChange={e => setLoad(e.target.value)}
+                disabled={isSaving}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor={fieldId('unit')}>Unit</Label>
+              <Select
+                value={unit}
+                onValueChange={value => setUnit(value as WeightUnit)}
+                disabled={isSaving}
+              >
+                <SelectTrigger id={fieldId('unit')}>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="kg">kg</SelectItem>
+                  <SelectItem value="lb">lb</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor={fieldId('rpe')}>RPE</Label>
+              <Input
+                id={fieldId('rpe')}
+                type="number"
+                inputMode="decimal"
+                min={1}
+                max={10}
+                step="0.5"
+                value={rpe}
+                onChange={e => setRpe(e.target.value)}
+                disabled={isSaving}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor={fieldId('rest')}>Rest (s)</Label>
+              <Input
+                id={fieldId('rest')}
+                type="number"
+                inputMode="numeric"
+                min={0}
+                step="15"
+                value={rest}
+                onChange={e => setRest(e.target.value)}
+                disabled={isSaving}
+              />
+            </div>
+          </div>
+
+          <Button
+            type="submit"
+            disabled={isSaving || !reps.trim()}
+            className="w-full bg-orange-500 hover:bg-orange-600 text-white"
+            aria-label={`Log set ${nextSetNumber}`}
+          >
+            {isSaving ? (
+              <>
+                <Loader2 className="h-4 w-4 animate-spin mr-2" />
+                Logging...
+              </>
+            ) : (
+              <>
+                <Plus className="h-4 w-4 mr-2" />
+                Log set {nextSetNumber}
+              </>
+            )}
+          </Button>
+
+          {saveError && (
+            <div className="text-sm text-destructive" role="alert">
+              {saveError}
+            </div>
+          )}
+        </form>
+
+        {todaySets.length > 0 && (
+          <ol className="mt-4 space-y-1" aria-label="Today's sets">
+            {todaySets.map(set => (
+              <li key={set.id} className="flex items-center justify-between gap-2 text-sm">
+                <span>
+                  <span className="font-bold">Set {set.set_number}:</span> {formatSet(set)}
+                </span>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8 text-muted-foreground hover:text-destructive"
+                  onClick={() => handleDeleteSet(set.id)}
+                  aria-label={`Delete set ${set.set_number}`}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </li>
+            ))}
+          </ol>
+        )}
+
+        {previousSets.length > 0 && (
+          <p className="mt-3 text-sm text-muted-foreground">
+            <span className="font-bold">
+              Last time ({format(new Date(previousSets[0].completed_at), 'd MMM')}):
+            </span>{' '}
+            {previousSets.map(formatSet).join(', ')}
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -3,10 +3,11 @@
 import { useState } from "react"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
-import { useToast } from "@/components/ui/use-toast"
+import { useToast } from "@/hooks/use-toast"
 import { Clock, CheckCircle } from "lucide-react"
 import { useAuth } from "@/components/auth/auth-provider"
-import { getSupabaseBrowser } from "@/lib/supabase"
+import { queueChange } from "@/lib/offline-sync"
+import { useWorkoutSession } from "@/contexts/workout-session-context"
 import type { WorkoutLoggerProps } from "@/lib/types"
 
 export function WorkoutLogger({ exerciseId, exerciseName, exerciseType }: WorkoutLoggerProps) {
@@ -14,7 +15,7 @@ export function WorkoutLogger({ exerciseId, exerciseName, exerciseType }: Workou
   const [isCompleted, setIsCompleted] = useState(false)
   const { toast } = useToast()
   const { user } = useAuth()
-  const supabase = getSupabaseBrowser()
+  const { startSession } = useWorkoutSession()
 
   const logWorkout = async () => {
     if (!user) return
@@ -22,16 +23,19 @@ export function WorkoutLogger({ exerciseId, exerciseName, exerciseType }: Workou
     setIsLogging(true)
 
     try {
-      const { error } = await supabase.from("workout_logs").insert({
-        user_id: user.id,
-        exercise_id: exerciseId,
-        exercise_name: exerciseName,
-        exercise_type: exerciseType,
-        completed_at: new Date().toISOString(),
+      // Queued on the device first, so exercises completed offline are synced later
+      const session = await startSession()
+      await queueChange(user.id, {
+        kind: "workout_log",
+        data: {
+          exercise_id: exerciseId,
+          exercise_name: exerciseName,
+          exercise_type: exerciseType,
+          completed_at: new Date().toISOString(),
+          session_id: session?.id ?? null,
+        },
       })
 
-      if (error) throw error
-
       setIsCompleted(true)
       toast({
         title: "Workout logged!",
@@ -0,0 +1,72 @@
+'use client'
+
+import { BodyMap } from '@/components/body-map/body-map'
+import { FIR_LEVELS, formatFirLevel } from '@/lib/fir'
+import { capitalizeFirstLetter } from '@/lib/text-utils'
+import type { FirLevel, MuscleFir } from '@/lib/types'
+
+interface FirBodyMapProps {
+  muscles: MuscleFir[]
+  // Number of most at risk muscles to list under the map
+  highlightCount?: number
+}
+
+// Matches the FIR colours used by CategoryLabel
+const FIR_LEVEL_CLASSES: Record<FirLevel, { fill: string; badge: string }> = {
+  low: { fill: 'fill-success', badge: 'bg-success text-success-foreground' },
+  moderate: { fill: 'fill-primary', badge: 'bg-primary text-primary-foreground' },
+  high: { fill: 'fill-destructive', badge: 'bg-destructive text-destructive-foreground' },
+}
+
+export const FirBodyMap = ({ muscles, highlightCount = 5 }: FirBodyMapProps) => {
+  const levels = new Map(muscles.map(muscle => [muscle.body_muscle_id, muscle.level]))
+  const mapMuscles = muscles.map(muscle => ({
+    id: muscle.body_muscle_id,
+    name: `${capitalizeFirstLetter(muscle.muscle_name)} (${formatFirLevel(muscle.level)})`,
+    map_region: muscle.map_region,
+  }))
+  // Muscles arrive sorted from most to least at risk
+  const atRisk = muscles.filter(muscle => muscle.level !== 'low').slice(0, highlightCount)
+
+  return (
+    <div className="space-y-4">
+      <BodyMap
+        muscles={mapMuscles}
+        getMuscleClassName={muscleId => {
+          const level = levels.get(muscleId)
+          return level ? FIR_LEVEL_CLASSES[level].fill : undefined
+        }}
+      />
+
+      <ul className="flex flex-wrap justify-center gap-3 text-xs" aria-label="FIR levels">
+        {FIR_LEVELS.map(level => (
+          <li key={level} className="flex items-center gap-1">
+            <span className={`h-3 w-3 rounded-full ${FIR_LEVEL_CLASSES[level].badge}`} />
+            {formatFirLevel(level)}
+          </li>
+        ))}
+      </ul>
+
+      {atRisk.length > 0 && (
+        <div>
+          <h3 className="text-sm font-semibold mb-2">Focus most on</h3>
+          <ul className="space-y-1">
+            {atRisk.map(muscle => (
+              <li
+                key={muscle.body_muscle_id}
+                className="flex items-center justify-between gap-2 text-sm"
+              >
+                <span>{capitalizeFirstLetter(muscle.muscle_name)}</span>
+                <span
+                  className={`text-xs px-3 py-1 rounded-full font-medium ${FIR_LEVEL_CLASSES[muscle.level].badge}`}
+                >
+                  {formatFirLevel(muscle.level)}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  )
+}
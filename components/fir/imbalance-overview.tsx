@@ -0,0 +1,43 @@
+'use client'
+
+import Image from 'next/image'
+import { ImageError, ImageLoading, ImagePlaceholder } from '@/components/common/image-states'
+import { useFir } from '@/hooks/use-fir'
+import { useImbalanceImage } from '@/hooks/use-imbalance-image'
+import { FirBodyMap } from './fir-body-map'
+
+// Shows the user's per-muscle FIR levels, falling back to their imbalance image until
+// they have been assessed
+export const ImbalanceOverview = () => {
+  const { muscles, loading: firLoading } = useFir()
+  const { imageUrl, loading: imageLoading, error: imageError } = useImbalanceImage()
+
+  if (!firLoading && muscles.length > 0) {
+    return (
+      <div className="mb-8 bg-muted/30 rounded-lg p-4">
+        <FirBodyMap muscles={muscles} />
+      </div>
+    )
+  }
+
+  return (
+    <div className="mb-8 aspect-[4/3] grid place-items-center bg-muted/30 rounded-lg overflow-hidden">
+      {firLoading || imageLoading ? (
+        <ImageLoading />
+      ) : imageError ? (
+        <ImageError message={imageError} />
+      ) : !imageUrl ? (
+        <ImagePlaceholder />
+      ) : (
+        <Image
+          src={imageUrl}
+          alt="Personal imbalance image"
+          width={600}
+          height={450}
+          className="w-full h-full object-cover"
+          priority
+        />
+      )}
+    </div>
+  )
+}
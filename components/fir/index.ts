@@ -0,0 +1,2 @@
+export * from './fir-body-map'
+export * from './imbalance-overview'
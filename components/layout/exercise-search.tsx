@@ -0,0 +1,220 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { FaMagnifyingGlass } from 'react-icons/fa6'
+import { Loader2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from '@/components/ui/command'
+import { Dialog, DialogContent, DialogTitle } from '@/components/ui/dialog'
+import { useKitProfiles } from '@/hooks/use-kit-profiles'
+import { useQuery } from '@/hooks/use-query'
+import { DEFAULT_SEARCH_PAGE_SIZE, getExerciseSearchUrl } from '@/lib/exercise-search'
+import { getKitName } from '@/lib/kit'
+import { CONTENT_STALE_TIME, queryKeys } from '@/lib/query-keys'
+import { SECTIONS, type Section } from '@/lib/sections'
+import { capitalizeFirstLetter } from '@/lib/text-utils'
+import type { ExerciseSearchPage } from '@/lib/types'
+import { cn } from '@/lib/utils'
+
+// Wait for a pause in typing before searching
+const SEARCH_DELAY_MS = 250
+
+const SECTION_LABELS: Record<Section, string> = {
+  'warm-up': 'Warm up',
+  mobilise: 'Mobilise',
+  strengthen: 'Strengthen',
+  recover: 'Recover',
+}
+
+async function searchExercises(
+  q: string,
+  section: Section | null,
+  page: number
+): Promise<ExerciseSearchPage> {
+  const response = await fetch(getExerciseSearchUrl({ q, section: section ?? undefined, page }))
+  if (!response.ok) {
+    throw new Error(`Failed to search exercises: ${response.status}`)
+  }
+  return response.json()
+}
+
+// Search every exercise from the navigation bar, or with Ctrl+K / ⌘K
+export const ExerciseSearch = () => {
+  const router = useRouter()
+  const [open, setOpen] = useState(false)
+  const [text, setText] = useState('')
+  const [query, setQuery] = useState('')
+  const [section, setSection] = useState<Section | null>(null)
+  const [page, setPage] = useState(1)
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key.toLowerCase() === 'k' && (e.metaKey || e.ctrlKey)) {
+        e.preventDefault()
+        setOpen(current => !current)
+      }
+    }
+
+    document.addEventListener('keydown', handleKeyDown)
+    return () => document.removeEventListener('keydown', handleKeyDown)
+  }, [])
+
+  useEffect(() => {
+    const timeout = setTimeout(() => {
+      setQuery(text.trim())
+      setPage(1)
+    }, SEARCH_DELAY_MS)
+    return () => clearTimeout(timeout)
+  }, [text])
+
+  const { data, loading, error } = useQuery(
+    open && query ? queryKeys.exerciseSearch(query, section, page) : null,
+    () => searchExercises(query, section, page),
+    { staleTime: CONTENT_STALE_TIME }
+  )
+
+  const { kit, isAvailable } = useKitProfiles()
+
+  const handleSectionChange = (value: Section | null) => {
+    setSection(value)
+    setPage(1)
+  }
+
+  const handleSelect = (exerciseSection: Section, id: number) => {
+    setOpen(false)
+    router.push(`/${exerciseSection}/${id}`)
+  }
+
+  const lastPage = data ? Math.max(1, Math.ceil(data.total / data.pageSize)) : 1
+  const firstShown = (page - 1) * (data?.pageSize ?? DEFAULT_SEARCH_PAGE_SIZE) + 1
+
+  return (
+    <>
+      <button
+        type="button"
+        onClick={() => setOpen(true)}
+        className="flex flex-col items-center p-2 text-muted-foreground"
+        aria-haspopup="dialog"
+      >
+        <FaMagnifyingGlass className="h-6 w-6" aria-hidden="true" />
+        <span className="text-xs mt-1">Search</span>
+      </button>
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="overflow-hidden p-0 shadow-lg">
+          <DialogTitle className="sr-only">Search exercises</DialogTitle>
+          {/* Results are already filtered by the server */}
+          <Command shouldFilter={false}>
+            <CommandInput
+              value={text}
+              onValueChange={setText}
+              placeholder="Search exercises..."
+              aria-label="Search exercises"
+            />
+
+            <div className="flex flex-wrap gap-1 border-b p-2" aria-label="Filter by section">
+              {[null, ...SECTIONS].map(option => (
+                <button
+                  key={option ?? 'all'}
+                  type="button"
+                  onClick={() => handleSectionChange(option)}
+                  className={cn(
+                    'px-3 py-1 rounded-full text-xs border transition-colors focus:outline-none focus:ring-2 focus:ring-primary',
+                    section === option
+                      ? 'bg-primary border-primary text-primary-foreground'
+                      : 'border-border hover:border-primary/50'
+                  )}
+                  aria-pressed={section === option}
+                >
+                  {option ? SECTION_LABELS[option] : 'All'}
+                </button>
+              ))}
+            </div>
+
+            <CommandList>
+              {!query ? (
+                <p className="py-6 text-center text-sm text-muted-foreground">
+                  Search by name or description
+                </p>
+              ) : loading ? (
+                <div className="flex justify-center py-6" aria-busy="true">
+                  <Loader2 className="h-5 w-5 animate-spin text-primary" />
+                </div>
+              ) : error ? (
+                <p className="py-6 text-center text-sm text-destructive" role="alert">
+                  Failed to search exercises. Please try again.
+                </p>
+              ) : (
+                <>
+                  <CommandEmpty>No exercises found.</CommandEmpty>
+                  {data && data.results.length > 0 && (
+                    <CommandGroup
+                      heading={`${firstShown}–${firstShown + data.results.length - 1} of ${data.total}`}
+                    >
+                      {data.results.map(exercise => (
+                        <CommandItem
+                          key={exercise.id}
+                          value={String(exercise.id)}
+                          disabled={!exercise.section}
+                          onSelect={() =>
+                            exercise.section && handleSelect(exercise.section, exercise.id)
+                          }
+                        >
+                          <div className="min-w-0">
+                            <p className="truncate">{capitalizeFirstLetter(exercise.name)}</p>
+                            <p className="truncate text-xs text-muted-foreground">
+                              {[
+                                exercise.section && SECTION_LABELS[exercise.section],
+                                exercise.group_name,
+                                !isAvailable(exercise.kit) &&
+                                  `Needs ${getKitName(kit, exercise.kit) ?? 'other kit'}`,
+                              ]
+                                .filter(Boolean)
+                                .join(' · ')}
+                            </p>
+                          </div>
+                        </CommandItem>
+                      ))}
+                    </CommandGroup>
+                  )}
+                </>
+              )}
+            </CommandList>
+
+            {data && lastPage > 1 && (
+              <div className="flex items-center justify-between border-t p-2">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setPage(current => current - 1)}
+                  disabled={page <= 1}
+                >
+                  Previous
+                </Button>
+                <span className="text-xs text-muted-foreground">
+                  Page {page} of {lastPage}
+                </span>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setPage(current => current + 1)}
+                  disabled={page >= lastPage}
+                >
+                  Next
+                </Button>
+              </div>
+            )}
+          </Command>
+        </DialogContent>
+      </Dialog>
+    </>
+  )
+}
@@ -7,6 +7,7 @@ import { GiWeightLiftingUp } from 'react-icons/gi'
 import { TbStretching } from 'react-icons/tb'
 import { TfiWrite } from 'react-icons/tfi'
 import { FaHeartPulse } from 'react-icons/fa6'
+import { ExerciseSearch } from './exercise-search'
 
 export default function Navigation() {
   const pathname = usePathname()
@@ -99,6 +100,10 @@ export default function Navigation() {
               <span className="text-xs mt-1">Record</span>
             </Link>
           </li>
+
+          <li>
+            <ExerciseSearch />
+          </li>
         </ul>
       </div>
     </nav>
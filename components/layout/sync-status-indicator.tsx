@@ -0,0 +1,64 @@
+'use client'
+
+import { useEffect } from 'react'
+import { AlertCircle, CloudOff, Loader2, RefreshCw } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { useAuth } from '@/components/auth/auth-provider'
+import { useSyncStatus } from '@/hooks/use-sync-status'
+import { flushOutbox, startOfflineSync } from '@/lib/offline-sync'
+import { cn } from '@/lib/utils'
+
+const pendingText = (pending: number) =>
+  `${pending} ${pending === 1 ? 'change' : 'changes'} waiting`
+
+// Runs the offline outbox for the signed-in user and shows when changes haven't synced yet
+export const SyncStatusIndicator = () => {
+  const { user } = useAuth()
+  const { state, pending } = useSyncStatus()
+
+  useEffect(() => {
+    if (!user) return
+    return startOfflineSync()
+  }, [user])
+
+  if (!user || (state === 'idle' && pending === 0)) return null
+
+  const label =
+    state === 'offline'
+      ? pending > 0
+        ? `Offline · ${pendingText(pending)}`
+        : 'Offline'
+      : state === 'syncing'
+        ? 'Syncing...'
+        : state === 'error'
+          ? `Sync failed · ${pendingText(pending)}`
+          : pendingText(pending)
+
+  const Icon =
+    state === 'offline'
+      ? CloudOff
+      : state === 'syncing'
+        ? Loader2
+        : state === 'error'
+          ? AlertCircle
+          : RefreshCw
+
+  return (
+    <div className="fixed top-2 right-2 z-50" role="status" aria-live="polite">
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => flushOutbox()}
+        disabled={state === 'syncing' || state === 'offline'}
+        className={cn(
+          'h-8 rounded-full bg-card/90 backdrop-blur-sm text-xs shadow-sm',
+          state === 'error' && 'border-destructive text-destructive'
+        )}
+        aria-label={state === 'error' || state === 'idle' ? `${label}. Retry sync` : label}
+      >
+        <Icon className={cn('h-3 w-3 mr-1', state === 'syncing' && 'animate-spin')} />
+        {label}
+      </Button>
+    </div>
+  )
+}
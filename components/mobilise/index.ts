@@ -1,2 +1 @@
-export * from './muscle-group-selector'
-export * from './mobility-limitations-form'
+export * from './tight-muscles-tracker'
@@ -0,0 +1,205 @@
+'use client'
+
+import type React from 'react'
+import { useState } from 'react'
+import { format } from 'date-fns'
+import { Loader2, Plus, Target, X } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent } from '@/components/ui/card'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { useBodyMuscles } from '@/hooks/use-body-muscle'
+import { useTightMuscles } from '@/hooks/use-tight-muscles'
+import { TIGHT_MUSCLE_SECTIONS, type TightMuscleSection } from '@/lib/sections'
+import type { TightMuscle } from '@/lib/types'
+
+interface TightMusclesTrackerProps {
+  // Selects the listed muscles in the muscle group selector
+  onSelectMuscles: (muscleIds: number[]) => void
+}
+
+const SECTION_LABELS: Record<TightMuscleSection, string> = {
+  'warm-up': 'Warm up',
+  strengthen: 'Strengthen',
+  recover: 'Recover',
+}
+
+const describeFlag = (muscle: TightMuscle) => {
+  const date = format(new Date(muscle.flagged_at), 'd MMM')
+  return muscle.section ? `${SECTION_LABELS[muscle.section]} · ${date}` : date
+}
+
+export const TightMusclesTracker = ({ onSelectMuscles }: TightMusclesTrackerProps) => {
+  const { tightMuscles, loading, error, flagMuscle, clearMuscle } = useTightMuscles()
+  const { bodyMuscles } = useBodyMuscles()
+  const [muscleId, setMuscleId] = useState('')
+  const [section, setSection] = useState<TightMuscleSection>('strengthen')
+  const [isSaving, setIsSaving] = useState(false)
+  const [saveError, setSaveError] = useState<string | null>(null)
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    const muscle = bodyMuscles.find(option => String(option.id) === muscleId)
+    if (!muscle) {
+      setSaveError('Choose the muscle that feels tight')
+      return
+    }
+
+    setIsSaving(true)
+    setSaveError(null)
+    try {
+      await flagMuscle(muscle, section)
+      setMuscleId('')
+    } catch (error) {
+      console.error('Error flagging tight muscle:', error)
+      setSaveError('An unexpected error occurred. Please try again.')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleClear = async (muscle: TightMuscle) => {
+    setSaveError(null)
+    try {
+      await clearMuscle(muscle)
+    } catch (error) {
+      console.error('Error clearing tight muscle:', error)
+      setSaveError('An unexpected error occurred. Please try again.')
+    }
+  }
+
+  if (loading) {
+    return (
+      <Card className="border-0 shadow-sm">
+        <CardContent className="p-6">
+          <div className="flex justify-center items-center" aria-busy="true" aria-live="polite">
+            <Loader2 className="h-5 w-5 animate-spin text-primary mr-2" />
+            <span>Loading your mobility data...</span>
+          </div>
+        </CardContent>
+      </Card>
+    )
+  }
+
+  return (
+    <Card className="border-0 shadow-sm">
+      <CardContent className="py-4 px-2 space-y-4">
+        {error && tightMuscles.length === 0 && (
+          <p className="text-sm text-destructive" role="alert">
+            {error}
+          </p>
+        )}
+
+        {tightMuscles.length > 0 ? (
+          <>
+            <ul className="space-y-2" aria-label="Recently tight muscles">
+              {tightMuscles.map(muscle => (
+                <li
+                  key={muscle.body_muscle_id}
+                  className="flex items-center justify-between gap-2 rounded-md border px-3 py-2"
+                >
+                  <div>
+                    <p className="font-medium">
+                      {muscle.body_muscle_id}. {muscle.muscle_name}
+                    </p>
+                    <p className="text-xs text-muted-foreground">{describeFlag(muscle)}</p>
+                  </div>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8 text-muted-foreground hover:text-destructive"
+                    onClick={() => handleClear(muscle)}
+                    aria-label={`${muscle.muscle_name} no longer feels tight`}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </li>
+              ))}
+            </ul>
+            <Button
+              type="button"
+              variant="outline"
+              className="w-full"
+              onClick={() => onSelectMuscles(tightMuscles.map(muscle => muscle.body_muscle_id))}
+            >
+              <Target className="h-4 w-4 mr-2" />
+              Stretch these muscles
+            </Button>
+          </>
+        ) : (
+          !error && (
+            <p className="text-sm text-muted-foreground text-center">
+              No tight muscles recorded yet.
+            </p>
+          )
+        )}
+
+        <form onSubmit={handleAdd} className="space-y-2" aria-busy={isSaving}>
+          <div className="grid grid-cols-[2fr_1fr] gap-2">
+            <div className="space-y-1">
+              <Label htmlFor="tight-muscle">Tight muscle</Label>
+              <Select value={muscleId} onValueChange={setMuscleId} disabled={isSaving}>
+                <SelectTrigger id="tight-muscle">
+                  <SelectValue placeholder="Choose a muscle" />
+                </SelectTrigger>
+                <SelectContent>
+                  {bodyMuscles.map(muscle => (
+                    <SelectItem key={muscle.id} value={String(muscle.id)}>
+                      {muscle.id}. {muscle.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="tight-muscle-section">Noticed in</Label>
+              <Select
+                value={section}
+                onValueChange={value => setSection(value as TightMuscleSection)}
+                disabled={isSaving}
+              >
+                <SelectTrigger id="tight-muscle-section">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {TIGHT_MUSCLE_SECTIONS.map(option => (
+                    <SelectItem key={option} value={option}>
+                      {SECTION_LABELS[option]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {saveError && (
+            <div className="text-sm text-destructive" role="alert">
+              {saveError}
+            </div>
+          )}
+
+          <Button
+            type="submit"
+            className="w-full bg-orange-500 hover:bg-orange-600 text-white"
+            disabled={isSaving}
+          >
+            {isSaving ? (
+              <Loader2 className="h-4 w-4 animate-spin mr-2" />
+            ) : (
+              <Plus className="h-4 w-4 mr-2" />
+            )}
+            Add to list
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,30 @@
+'use client'
+
+import { useState } from 'react'
+import { Timer } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { GuidedPlayer } from './guided-player'
+import type { GuidedExercise, GuidedSection } from '@/lib/guided-player'
+
+interface GuidedPlayerButtonProps {
+  exercises: GuidedExercise[]
+  section: GuidedSection
+}
+
+export const GuidedPlayerButton = ({ exercises, section }: GuidedPlayerButtonProps) => {
+  const [open, setOpen] = useState(false)
+
+  return (
+    <>
+      <Button
+        onClick={() => setOpen(true)}
+        disabled={exercises.length === 0}
+        className="w-full bg-orange-500 hover:bg-orange-600 text-white"
+      >
+        <Timer className="h-4 w-4 mr-2" />
+        Start guided session
+      </Button>
+      <GuidedPlayer exercises={exercises} section={section} open={open} onOpenChange={setOpen} />
+    </>
+  )
+}
@@ -0,0 +1,333 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import Image from 'next/image'
+import { CheckCircle, Pause, Play, RotateCcw, SkipBack, SkipForward, X } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Dialog, DialogContent, DialogDescription, DialogTitle } from '@/components/ui/dialog'
+import { Label } from '@/components/ui/label'
+import { Progress } from '@/components/ui/progress'
+import { Switch } from '@/components/ui/switch'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { useToast } from '@/hooks/use-toast'
+import { useAuth } from '@/components/auth/auth-provider'
+import { useWorkoutSession } from '@/contexts/workout-session-context'
+import { useGuidedPlayer } from '@/hooks/use-guided-player'
+import { queueChange } from '@/lib/offline-sync'
+import { getLocalStorage, setLocalStorage } from '@/lib/storage-utils'
+import { CACHE_KEYS } from '@/lib/cache-constants'
+import { capitalizeFirstLetter } from '@/lib/text-utils'
+import { playCue, unlockCueAudio, vibrateCue, type Cue } from '@/lib/cues'
+import {
+  buildGuidedSteps,
+  DEFAULT_GUIDED_SETTINGS,
+  getStepLabel,
+  HOLD_SECONDS_OPTIONS,
+  normaliseGuidedSettings,
+  type GuidedExercise,
+  type GuidedPlayerSettings,
+  type GuidedSection,
+  type GuidedStep,
+} from '@/lib/guided-player'
+
+interface GuidedPlayerProps {
+  exercises: GuidedExercise[]
+  section: GuidedSection
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+const settingsKey = (section: GuidedSection) => `${CACHE_KEYS.GUIDED_PLAYER_SETTINGS}-${section}`
+
+// Full-screen player that times each stretch in turn and logs the ones completed
+export const GuidedPlayer = ({ exercises, section, open, onOpenChange }: GuidedPlayerProps) => {
+  const [settings, setSettings] = useState<GuidedPlayerSettings>(DEFAULT_GUIDED_SETTINGS[section])
+  const [steps, setSteps] = useState<GuidedStep[] | null>(null)
+
+  // Restore the last settings used for this section
+  useEffect(() => {
+    const saved = getLocalStorage(settingsKey(section), DEFAULT_GUIDED_SETTINGS[section])
+    setSettings(normaliseGuidedSettings(saved, section))
+  }, [section])
+
+  // Always open on the setup screen
+  useEffect(() => {
+    if (!open) setSteps(null)
+  }, [open])
+
+  const updateSettings = (changes: Partial<GuidedPlayerSettings>) => {
+    const updated = { ...settings, ...changes }
+    setSettings(updated)
+    setLocalStorage(settingsKey(section), updated)
+  }
+
+  const handleStart = () => {
+    // Audio has to be started from the tap itself
+    if (settings.sound) unlockCueAudio()
+    setSteps(buildGuidedSteps(exercises, settings))
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="left-0 top-0 flex h-[100dvh] w-screen max-w-none translate-x-0 translate-y-0 flex-col gap-0 overflow-y-auto border-0 p-0 data-[state=closed]:slide-out-to-left-0 data-[state=closed]:slide-out-to-top-0 data-[state=open]:slide-in-from-left-0 data-[state=open]:slide-in-from-top-0 sm:rounded-none">
+        <DialogTitle className="sr-only">Guided {section}</DialogTitle>
+        <DialogDescription className="sr-only">
+          Timed holds for each exercise, with cues when to switch side and move on.
+        </DialogDescription>
+
+        {steps ? (
+          <GuidedRun
+            steps={steps}
+            section={section}
+            settings={settings}
+            exerciseCount={exercises.length}
+            onClose={() => onOpenChange(false)}
+            onRestart={() => setSteps(null)}
+          />
+        ) : (
+          <div className="container mx-auto max-w-md flex-1 space-y-6 px-4 py-10">
+            <div>
+              <h2 className="text-2xl font-bold">Guided {capitalizeFirstLetter(section)}</h2>
+              <p className="text-sm text-muted-foreground">
+                {exercises.length} {exercises.length === 1 ? 'exercise' : 'exercises'}. Each
+                completed exercise is logged automatically.
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="guided-hold">Hold each stretch for</Label>
+              <Select
+                value={settings.holdSeconds.toString()}
+                onValueChange={value => updateSettings({ holdSeconds: Number(value) })}
+              >
+                <SelectTrigger id="guided-hold">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {HOLD_SECONDS_OPTIONS[section].map(seconds => (
+                    <SelectItem key={seconds} value={seconds.toString()}>
+                      {seconds} seconds
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <SettingSwitch
+              id="guided-sides"
+              label="Time left and right sides separately"
+              checked={settings.bothSides}
+              onCheckedChange={bothSides => updateSettings({ bothSides })}
+            />
+            <SettingSwitch
+              id="guided-sound"
+              label="Sound cues"
+              checked={settings.sound}
+              onCheckedChange={sound => updateSettings({ sound })}
+            />
+            <SettingSwitch
+              id="guided-vibration"
+              label="Vibration cues"
+              checked={settings.vibration}
+              onCheckedChange={vibration => updateSettings({ vibration })}
+            />
+
+            <div className="flex gap-2">
+              <Button variant="outline" className="flex-1" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button
+                className="flex-1 bg-orange-500 hover:bg-orange-600 text-white"
+                onClick={handleStart}
+                disabled={exercises.length === 0}
+              >
+                <Play className="h-4 w-4 mr-2" />
+                Start
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+interface SettingSwitchProps {
+  id: string
+  label: string
+  checked: boolean
+  onCheckedChange: (checked: boolean) => void
+}
+
+const SettingSwitch = ({ id, label, checked, onCheckedChange }: SettingSwitchProps) => (
+  <div className="flex items-center justify-between gap-4">
+    <Label htmlFor={id}>{label}</Label>
+    <Switch id={id} checked={checked} onCheckedChange={onCheckedChange} />
+  </div>
+)
+
+interface GuidedRunProps {
+  steps: GuidedStep[]
+  section: GuidedSection
+  settings: GuidedPlayerSettings
+  exerciseCount: number
+  onClose: () => void
+  onRestart: () => void
+}
+
+const GuidedRun = ({
+  steps,
+  section,
+  settings,
+  exerciseCount,
+  onClose,
+  onRestart,
+}: GuidedRunProps) => {
+  const { user } = useAuth()
+  const { startSession } = useWorkoutSession()
+  const { toast } = useToast()
+  const [loggedIds, setLoggedIds] = useState<number[]>([])
+
+  const handleCue = (cue: Cue) => {
+    if (settings.sound) playCue(cue)
+    if (settings.vibration) vibrateCue(cue)
+  }
+
+  // Log each exercise the moment its last hold finishes
+  const handleExerciseComplete = async (exercise: GuidedExercise) => {
+    if (!user) return
+
+    try {
+      const session = await startSession()
+      await queueChange(user.id, {
+        kind: 'workout_log',
+        data: {
+          exercise_id: exercise.id,
+          exercise_name: exercise.name,
+          exercise_type: section,
+          completed_at: new Date().toISOString(),
+          session_id: session?.id ?? null,
+        },
+      })
+
+      setLoggedIds(prev => [...prev, exercise.id])
+    } catch (error) {
+      console.error('Error logging guided exercise:', error)
+      toast({
+        title: 'Failed to log exercise',
+        description: `${capitalizeFirstLetter(exercise.name)} wasn't saved to your history.`,
+        variant: 'destructive',
+      })
+    }
+  }
+
+  const player = useGuidedPlayer(steps, {
+    onCue: handleCue,
+    onExerciseComplete: handleExerciseComplete,
+  })
+  const { step } = player
+
+  const progress = (player.index / steps.length) * 100
+
+  if (player.isFinished || !step) {
+    return (
+      <div className="container mx-auto flex max-w-md flex-1 flex-col items-center justify-center gap-4 px-4 py-10 text-center">
+        <CheckCircle className="h-12 w-12 text-green-500" />
+        <h2 className="text-2xl font-bold">Session complete</h2>
+        <p className="text-muted-foreground" aria-live="polite">
+          {loggedIds.length} of {exerciseCount} exercises logged.
+        </p>
+        <div className="flex w-full gap-2">
+          <Button variant="outline" className="flex-1" onClick={onRestart}>
+            <RotateCcw className="h-4 w-4 mr-2" />
+            Start again
+          </Button>
+          <Button className="flex-1 bg-orange-500 hover:bg-orange-600 text-white" onClick={onClose}>
+            Done
+          </Button>
+        </div>
+      </div>
+    )
+  }
+
+  const name = capitalizeFirstLetter(step.exercise.name)
+
+  return (
+    <div className="flex flex-1 flex-col">
+      <Progress value={progress} className="h-1 rounded-none" aria-label="Session progress" />
+
+      <div className="relative aspect-video w-full bg-muted/30 md:mx-auto md:max-w-2xl">
+        <Image
+          src={step.exercise.image || '/placeholder.svg?height=400&width=600'}
+          alt={`Image showing ${name}`}
+          fill
+          className="object-cover"
+          sizes="(max-width: 768px) 100vw, 672px"
+          unoptimized={step.exercise.image ? !step.exercise.image.startsWith('/') : false}
+        />
+      </div>
+
+      <div className="container mx-auto flex max-w-md flex-1 flex-col items-center gap-2 px-4 py-6 text-center">
+        <p className="text-sm text-muted-foreground">
+          Exercise {step.exerciseIndex + 1} of {exerciseCount}
+        </p>
+        <h2 className="font-heading text-2xl font-medium">{name}</h2>
+        <p
+          className={
+            step.kind === 'hold'
+              ? 'font-medium text-orange-500'
+              : 'font-medium text-muted-foreground'
+          }
+          aria-live="polite"
+        >
+          {getStepLabel(step, section)}
+        </p>
+        <p className="text-7xl font-bold tabular-nums" aria-live="off">
+          {player.remainingSeconds}
+        </p>
+        {player.isPaused && <p className="text-sm text-muted-foreground">Paused</p>}
+
+        <div className="mt-auto flex w-full items-center justify-between gap-2 pt-6">
+          <Button
+            variant="outline"
+            size="icon"
+            className="h-12 w-12 rounded-full"
+            onClick={player.previous}
+            disabled={player.index === 0}
+            aria-label="Previous step"
+          >
+            <SkipBack className="h-5 w-5" />
+          </Button>
+          <Button
+            size="icon"
+            className="h-16 w-16 rounded-full bg-orange-500 hover:bg-orange-600 text-white"
+            onClick={player.isPaused ? player.play : player.pause}
+            aria-label={player.isPaused ? 'Resume' : 'Pause'}
+          >
+            {player.isPaused ? <Play className="h-6 w-6" /> : <Pause className="h-6 w-6" />}
+          </Button>
+          <Button
+            variant="outline"
+            size="icon"
+            className="h-12 w-12 rounded-full"
+            onClick={player.skip}
+            aria-label="Skip step"
+          >
+            <SkipForward className="h-5 w-5" />
+          </Button>
+        </div>
+
+        <Button variant="ghost" className="mt-2" onClick={onClose}>
+          <X className="h-4 w-4 mr-2" />
+          End session
+        </Button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,2 @@
+export * from './guided-player'
+export * from './guided-player-button'
@@ -0,0 +1,2 @@
+export * from './service-worker-registration'
+export * from './offline-day-button'
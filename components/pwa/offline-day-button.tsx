@@ -0,0 +1,136 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { CheckCircle2, Download, Loader2, RefreshCw } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { useToast } from '@/hooks/use-toast'
+import { getUserDayExercisesUrl, type UserDayExercise } from '@/hooks/use-user-day-exercises'
+import { getOfflineDay, saveOfflineDay, type OfflineDay } from '@/lib/offline-days'
+import { cacheForOffline } from '@/lib/pwa'
+import { getAccessToken } from '@/lib/supabase'
+import type { TrainingSection } from '@/lib/sections'
+
+interface OfflineDayButtonProps {
+  userId: string | undefined
+  dayId: number
+  category: TrainingSection
+  exercises: UserDayExercise[]
+  imageUrl: string | null
+}
+
+// Every image shown on the day page, so it looks the same with no signal
+const getDayMedia = (exercises: UserDayExercise[], imageUrl: string | null) => [
+  ...(imageUrl ? [imageUrl] : []),
+  ...exercises.flatMap(({ exercise }) =>
+    exercise
+      ? [exercise.image_url, exercise.group?.image_url, exercise.muscle_info?.image_url].filter(
+          (url): url is string => !!url
+        )
+      : []
+  ),
+]
+
+/**
+ * Downloads a training day (page, exercises and media) so it can be followed offline
+ */
+export const OfflineDayButton = ({
+  userId,
+  dayId,
+  category,
+  exercises,
+  imageUrl,
+}: OfflineDayButtonProps) => {
+  const { toast } = useToast()
+  const [savedDay, setSavedDay] = useState<OfflineDay | null>(null)
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    setSavedDay(userId ? getOfflineDay(userId, dayId, category) : null)
+  }, [userId, dayId, category])
+
+  const handleSave = async () => {
+    if (!userId) return
+
+    setSaving(true)
+    try {
+      const accessToken = await getAccessToken()
+      if (!accessToken) throw new Error('Please sign in again to save this day.')
+
+      const { failed } = await cacheForOffline({
+        pages: [`/${category}/day/${dayId}`, `/${category}`],
+        data: [getUserDayExercisesUrl(userId, dayId, category)],
+        media: getDayMedia(exercises, imageUrl),
+        accessToken,
+      })
+
+      const day: OfflineDay = {
+        userId,
+        category,
+        dayId,
+        imageUrl,
+        savedAt: new Date().toISOString(),
+      }
+      saveOfflineDay(day)
+      setSavedDay(day)
+
+      toast({
+        title: `Day ${dayId} saved for offline`,
+        description:
+          failed > 0
+            ? `${failed} ${failed === 1 ? 'file' : 'files'} couldn't be downloaded. Try updating later.`
+            : 'You can follow this day without a connection.',
+      })
+    } catch (error) {
+      console.error('Error saving day for offline use:', error)
+      toast({
+        title: 'Could not save for offline',
+        description: error instanceof Error ? error.message : 'Please try again.',
+        variant: 'destructive',
+      })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  if (!userId) return null
+
+  return (
+    <div className="flex items-center gap-2">
+      {savedDay ? (
+        <>
+          <span className="flex items-center text-sm text-muted-foreground">
+            <CheckCircle2 className="h-4 w-4 mr-1 text-primary" />
+            Available offline
+          </span>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={handleSave}
+            disabled={saving || exercises.length === 0}
+          >
+            {saving ? (
+              <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+            ) : (
+              <RefreshCw className="h-4 w-4 mr-1" />
+            )}
+            Update
+          </Button>
+        </>
+      ) : (
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={handleSave}
+          disabled={saving || exercises.length === 0}
+        >
+          {saving ? (
+            <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+          ) : (
+            <Download className="h-4 w-4 mr-1" />
+          )}
+          Save for offline
+        </Button>
+      )}
+    </div>
+  )
+}
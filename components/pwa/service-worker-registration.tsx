@@ -0,0 +1,18 @@
+'use client'
+
+import { useEffect } from 'react'
+import { isServiceWorkerSupported, SERVICE_WORKER_URL } from '@/lib/pwa'
+
+// Registers the offline service worker. Skipped in development so cached pages don't hide
+// code changes.
+export const ServiceWorkerRegistration = () => {
+  useEffect(() => {
+    if (process.env.NODE_ENV !== 'production' || !isServiceWorkerSupported()) return
+
+    navigator.serviceWorker.register(SERVICE_WORKER_URL).catch(error => {
+      console.error('Error registering service worker:', error)
+    })
+  }, [])
+
+  return null
+}
@@ -0,0 +1,121 @@
+'use client'
+
+import type React from 'react'
+import { useRef, useState } from 'react'
+import { Camera, Loader2, Trash2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { UserAvatar } from '@/components/record/user-avatar'
+import { removeAvatar, uploadAvatar } from '@/app/record/actions'
+import { MAX_AVATAR_BYTES } from '@/lib/profile'
+import { getAccessToken } from '@/lib/supabase'
+import type { Profile } from '@/lib/types'
+
+interface AvatarUploadProps {
+  profile: Profile
+  email: string
+  name: string
+  onSaved: (profile: Profile) => void
+}
+
+export const AvatarUpload = ({ profile, email, name, onSaved }: AvatarUploadProps) => {
+  const inputRef = useRef<HTMLInputElement>(null)
+  const [busy, setBusy] = useState<'upload' | 'remove' | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const run = async (
+    action: 'upload' | 'remove',
+    save: (accessToken: string) => Promise<{ profile?: Profile; error?: string }>
+  ) => {
+    setBusy(action)
+    setError(null)
+
+    try {
+      const accessToken = await getAccessToken()
+      if (!accessToken) {
+        setError('Your session has expired. Please sign in again.')
+        return
+      }
+
+      const result = await save(accessToken)
+      if (!result.profile) {
+        setError(result.error || 'Failed to update your photo. Please try again.')
+        return
+      }
+      onSaved(result.profile)
+    } catch (error) {
+      console.error(`Error during avatar ${action}:`, error)
+      setError('An unexpected error occurred. Please try again.')
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file) return
+
+    // Checked again on the server; this saves uploading a file that would be refused
+    if (file.size > MAX_AVATAR_BYTES) {
+      setError('Images must be 2 MB or smaller')
+      return
+    }
+
+    const formData = new FormData()
+    formData.append('file', file)
+    run('upload', accessToken => uploadAvatar(accessToken, formData))
+  }
+
+  return (
+    <div className="flex items-center gap-4">
+      <UserAvatar email={email} name={name} avatarUrl={profile.avatar_url} size="md" />
+      <div className="space-y-2">
+        <input
+          ref={inputRef}
+          type="file"
+          accept="image/*"
+          className="sr-only"
+          onChange={handleFileChange}
+          aria-label="Choose a profile photo"
+        />
+        <div className="flex gap-2">
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => inputRef.current?.click()}
+            disabled={!!busy}
+          >
+            {busy === 'upload' ? (
+              <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+            ) : (
+              <Camera className="h-4 w-4 mr-1" />
+            )}
+            {profile.avatar_url ? 'Change photo' : 'Add photo'}
+          </Button>
+          {profile.avatar_url && (
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() => run('remove', removeAvatar)}
+              disabled={!!busy}
+            >
+              {busy === 'remove' ? (
+                <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+              ) : (
+                <Trash2 className="h-4 w-4 mr-1" />
+              )}
+              Remove
+            </Button>
+          )}
+        </div>
+        {error && (
+          <p className="text-sm text-destructive" role="alert">
+            {error}
+          </p>
+        )}
+      </div>
+    </div>
+  )
+}
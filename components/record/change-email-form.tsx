@@ -0,0 +1,118 @@
+'use client'
+
+import type React from 'react'
+import { useState } from 'react'
+import { Loader2, Mail } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { getAuthCallbackUrl } from '@/lib/routes'
+import { getSupabaseBrowser } from '@/lib/supabase'
+
+interface ChangeEmailFormProps {
+  currentEmail: string | undefined
+}
+
+/**
+ * Changes the sign-in email. Supabase only switches address once the change is confirmed
+ * from the emails it sends, which bring the user back to /record.
+ */
+export const ChangeEmailForm = ({ currentEmail }: ChangeEmailFormProps) => {
+  const [open, setOpen] = useState(false)
+  const [email, setEmail] = useState('')
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [sentTo, setSentTo] = useState<string | null>(null)
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError(null)
+
+    const newEmail = email.trim()
+    if (!newEmail) {
+      setError('Enter your new email address.')
+      return
+    }
+    if (newEmail.toLowerCase() === currentEmail?.toLowerCase()) {
+      setError("That's already your email address.")
+      return
+    }
+
+    setSaving(true)
+    try {
+      const { error } = await getSupabaseBrowser().auth.updateUser(
+        { email: newEmail },
+        { emailRedirectTo: getAuthCallbackUrl(window.location.origin, '/record') }
+      )
+      if (error) throw error
+
+      setSentTo(newEmail)
+      setEmail('')
+      setOpen(false)
+    } catch (error: any) {
+      console.error('Error changing email:', error)
+      setError(error?.message || 'Failed to change your email. Please try again.')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  if (!open) {
+    return (
+      <div className="space-y-2">
+        {sentTo && (
+          <p className="bg-primary/10 p-3 rounded-md text-sm" role="status" aria-live="polite">
+            Check {sentTo} and {currentEmail} for links to confirm the change. You'll keep signing
+            in with {currentEmail} until then.
+          </p>
+        )}
+        <Button variant="outline" className="w-full justify-start" onClick={() => setOpen(true)}>
+          <Mail className="h-4 w-4 mr-2" aria-hidden="true" />
+          <span>Change email</span>
+        </Button>
+      </div>
+    )
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3 rounded-md border p-4" noValidate>
+      <div className="space-y-2">
+        <Label htmlFor="new-email">New email</Label>
+        <Input
+          id="new-email"
+          type="email"
+          value={email}
+          onChange={e => setEmail(e.target.value)}
+          placeholder="your.new.email@example.com"
+          autoComplete="email"
+          required
+          disabled={saving}
+          aria-invalid={!!error}
+          aria-describedby={error ? 'new-email-error' : undefined}
+        />
+      </div>
+      {error && (
+        <p id="new-email-error" className="text-sm text-destructive" role="alert">
+          {error}
+        </p>
+      )}
+      <div className="flex gap-2">
+        <Button type="submit" disabled={saving} aria-busy={saving}>
+          {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+          Send confirmation
+        </Button>
+        <Button
+          type="button"
+          variant="ghost"
+          onClick={() => {
+            setOpen(false)
+            setError(null)
+          }}
+          disabled={saving}
+        >
+          Cancel
+        </Button>
+      </div>
+    </form>
+  )
+}
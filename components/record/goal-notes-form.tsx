@@ -5,7 +5,9 @@ import { Input } from '@/components/ui/input'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent } from '@/components/ui/card'
 import { Loader2, CheckCircle2, Save } from 'lucide-react'
-import { saveGoalNote, type GoalNotes } from '@/app/record/actions'
+import type { GoalNotes } from '@/app/record/actions'
+import { queueChange } from '@/lib/offline-sync'
+import type { GoalCategory } from '@/lib/types'
 import { cn } from '@/lib/utils'
 
 interface GoalNotesFormProps {
@@ -14,8 +16,6 @@ interface GoalNotesFormProps {
   isLoading: boolean
 }
 
-type GoalCategory = 'pain' | 'posture' | 'performance' | 'physique'
-
 interface GoalField {
   key: GoalCategory
   label: string
@@ -127,18 +127,12 @@ export const GoalNotesForm = ({ userId, initialGoalNotes, isLoading }: GoalNotes
     setSaveErrors(prev => ({ ...prev, [category]: null }))
 
     try {
-      const result = await saveGoalNote(userId, category, noteValue)
-      if (!result.success) {
-        setSaveErrors(prev => ({
-          ...prev,
-          [category]: 'Failed to save your goal. Please try again.',
-        }))
-      } else {
-        // Update saved value and clear input
-        setSavedGoalNotes(prev => ({ ...prev, [category]: noteValue }))
-        setGoalNotes(prev => ({ ...prev, [category]: '' }))
-        setSuccessMessages(prev => ({ ...prev, [category]: true }))
-      }
+      await queueChange(userId, { kind: 'goal_note', data: { category, notes: noteValue } })
+
+      // Update saved value and clear input
+      setSavedGoalNotes(prev => ({ ...prev, [category]: noteValue }))
+      setGoalNotes(prev => ({ ...prev, [category]: '' }))
+      setSuccessMessages(prev => ({ ...prev, [category]: true }))
     } catch (error) {
       console.error(`Error saving ${category} goal:`, error)
       setSaveErrors(prev => ({
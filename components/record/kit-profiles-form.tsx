@@ -0,0 +1,259 @@
+'use client'
+
+import type React from 'react'
+import { useState } from 'react'
+import { Loader2, Pencil, Plus, Save, Trash2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { useToast } from '@/hooks/use-toast'
+import { useKitProfiles } from '@/hooks/use-kit-profiles'
+import { useProfile } from '@/hooks/use-profile'
+import { deleteKitProfile, saveKitProfile } from '@/app/record/actions'
+import { MAX_KIT_PROFILE_NAME_LENGTH } from '@/lib/kit'
+import { getAccessToken } from '@/lib/supabase'
+import type { KitProfile } from '@/lib/types'
+
+// Profile being edited; id is null for a new one
+type Draft = { id: number | null; name: string; kit_ids: number[] }
+
+const NEW_PROFILE: Draft = { id: null, name: '', kit_ids: [] }
+
+// Lets the user save the kit they have in each place they train
+export const KitProfilesForm = () => {
+  const { toast } = useToast()
+  const { profile, setProfile } = useProfile()
+  const { kit, kitProfiles, activeProfile, loading, error, setKitProfiles } = useKitProfiles()
+  const [draft, setDraft] = useState<Draft | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+  const [saveError, setSaveError] = useState<string | null>(null)
+
+  const toggleKit = (kitId: number, checked: boolean) => {
+    setDraft(current =>
+      current
+        ? {
+            ...current,
+            kit_ids: checked
+              ? [...current.kit_ids.filter(id => id !== kitId), kitId]
+              : current.kit_ids.filter(id => id !== kitId),
+          }
+        : current
+    )
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!draft) return
+
+    setIsSaving(true)
+    setSaveError(null)
+    try {
+      const accessToken = await getAccessToken()
+      if (!accessToken) {
+        setSaveError('Your session has expired. Please sign in again.')
+        return
+      }
+
+      const result = await saveKitProfile(
+        accessToken,
+        { name: draft.name, kit_ids: draft.kit_ids },
+        draft.id ?? undefined
+      )
+      if (!result.success || !result.kitProfile) {
+        setSaveError(result.error || 'Failed to save your kit. Please try again.')
+        return
+      }
+
+      const saved = result.kitProfile
+      setKitProfiles(
+        [...kitProfiles.filter(kitProfile => kitProfile.id !== saved.id), saved].sort((a, b) =>
+          a.name.localeCompare(b.name)
+        )
+      )
+      setDraft(null)
+      toast({ title: 'Kit saved' })
+    } catch (error) {
+      console.error('Error saving kit profile:', error)
+      setSaveError('An unexpected error occurred. Please try again.')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleDelete = async (kitProfile: KitProfile) => {
+    setIsSaving(true)
+    setSaveError(null)
+    try {
+      const accessToken = await getAccessToken()
+      if (!accessToken) {
+        setSaveError('Your session has expired. Please sign in again.')
+        return
+      }
+
+      const result = await deleteKitProfile(accessToken, kitProfile.id)
+      if (!result.success) {
+        setSaveError(result.error || 'Failed to delete. Please try again.')
+        return
+      }
+
+      setKitProfiles(kitProfiles.filter(other => other.id !== kitProfile.id))
+      // The database clears the active profile when it's deleted
+      if (profile && activeProfile?.id === kitProfile.id) {
+        setProfile({ ...profile, active_kit_profile_id: null })
+      }
+    } catch (error) {
+      console.error('Error deleting kit profile:', error)
+      setSaveError('An unexpected error occurred. Please try again.')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center text-sm" aria-busy="true">
+        <Loader2 className="h-4 w-4 animate-spin text-primary mr-2" />
+        Loading your kit...
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      {error && kitProfiles.length === 0 && (
+        <p className="text-sm text-destructive" role="alert">
+          {error}
+        </p>
+      )}
+
+      {kitProfiles.length > 0 && (
+        <ul className="space-y-2" aria-label="Kit profiles">
+          {kitProfiles.map(kitProfile => (
+            <li
+              key={kitProfile.id}
+              className="flex items-center justify-between gap-2 rounded-md border px-3 py-2"
+            >
+              <div className="min-w-0">
+                <p className="font-medium truncate">
+                  {kitProfile.name}
+                  {activeProfile?.id === kitProfile.id && (
+                    <span className="ml-2 text-xs text-primary">In use</span>
+                  )}
+                </p>
+                <p className="text-xs text-muted-foreground truncate">
+                  {kitProfile.kit_ids.length === 0
+                    ? 'No kit'
+                    : kit
+                        .filter(item => kitProfile.kit_ids.includes(item.id))
+                        .map(item => item.name)
+                        .join(', ')}
+                </p>
+              </div>
+              <div className="flex shrink-0">
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8"
+                  onClick={() => setDraft({ ...kitProfile })}
+                  disabled={isSaving}
+                  aria-label={`Edit ${kitProfile.name}`}
+                >
+                  <Pencil className="h-4 w-4" />
+                </Button>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8 hover:text-destructive"
+                  onClick={() => handleDelete(kitProfile)}
+                  disabled={isSaving}
+                  aria-label={`Delete ${kitProfile.name}`}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {draft ? (
+        <form onSubmit={handleSubmit} className="space-y-4 rounded-md border p-3">
+          <div className="space-y-2">
+            <Label htmlFor="kit-profile-name">Name</Label>
+            <Input
+              id="kit-profile-name"
+              value={draft.name}
+              onChange={e => setDraft({ ...draft, name: e.target.value })}
+              placeholder="e.g. Home - dumbbells only"
+              maxLength={MAX_KIT_PROFILE_NAME_LENGTH}
+              disabled={isSaving}
+              required
+            />
+          </div>
+
+          <fieldset className="space-y-3">
+            <legend className="text-sm font-medium mb-2">Kit you have</legend>
+            {kit.map(item => (
+              <div key={item.id} className="flex items-center gap-2">
+                <Checkbox
+                  id={`kit-${item.id}`}
+                  checked={draft.kit_ids.includes(item.id)}
+                  onCheckedChange={checked => toggleKit(item.id, checked === true)}
+                  disabled={isSaving}
+                />
+                <Label htmlFor={`kit-${item.id}`} className="font-normal">
+                  {item.name}
+                </Label>
+              </div>
+            ))}
+          </fieldset>
+
+          {saveError && (
+            <p className="text-sm text-destructive" role="alert">
+              {saveError}
+            </p>
+          )}
+
+          <div className="flex gap-2">
+            <Button type="submit" className="flex-1" disabled={isSaving} aria-busy={isSaving}>
+              {isSaving ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <Save className="h-4 w-4 mr-2" />
+              )}
+              Save kit
+            </Button>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => setDraft(null)}
+              disabled={isSaving}
+            >
+              Cancel
+            </Button>
+          </div>
+        </form>
+      ) : (
+        <>
+          {saveError && (
+            <p className="text-sm text-destructive" role="alert">
+              {saveError}
+            </p>
+          )}
+          <Button
+            type="button"
+            variant="outline"
+            className="w-full"
+            onClick={() => setDraft(NEW_PROFILE)}
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Add kit profile
+          </Button>
+        </>
+      )}
+    </div>
+  )
+}
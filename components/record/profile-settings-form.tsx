@@ -0,0 +1,213 @@
+'use client'
+
+import type React from 'react'
+import { useEffect, useState } from 'react'
+import { Loader2, Save } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { useToast } from '@/hooks/use-toast'
+import { updateProfile } from '@/app/record/actions'
+import {
+  FITNESS_LEVELS,
+  MAX_DEFAULT_REST_SECONDS,
+  MAX_DISPLAY_NAME_LENGTH,
+  TRAINING_GOALS,
+} from '@/lib/profile'
+import { DEFAULT_REST_SECONDS } from '@/lib/rest-timer'
+import { getAccessToken } from '@/lib/supabase'
+import type { FitnessLevel, GoalCategory, Profile, WeightUnit } from '@/lib/types'
+
+interface ProfileSettingsFormProps {
+  profile: Profile
+  onSaved: (profile: Profile) => void
+}
+
+export const ProfileSettingsForm = ({ profile, onSaved }: ProfileSettingsFormProps) => {
+  const { toast } = useToast()
+  const [displayName, setDisplayName] = useState('')
+  const [weightUnit, setWeightUnit] = useState<WeightUnit>('kg')
+  const [restSeconds, setRestSeconds] = useState('')
+  const [fitnessLevel, setFitnessLevel] = useState<FitnessLevel>('beginner')
+  const [trainingGoals, setTrainingGoals] = useState<GoalCategory[]>([])
+  const [isSaving, setIsSaving] = useState(false)
+  const [saveError, setSaveError] = useState<string | null>(null)
+
+  // Fill the form from the profile, including after a background refresh
+  useEffect(() => {
+    setDisplayName(profile.display_name ?? '')
+    setWeightUnit(profile.weight_unit)
+    setRestSeconds(
+      profile.default_rest_seconds !== null ? String(profile.default_rest_seconds) : ''
+    )
+    setFitnessLevel(profile.fitness_level)
+    setTrainingGoals(profile.training_goals)
+  }, [profile])
+
+  const toggleGoal = (goal: GoalCategory, checked: boolean) => {
+    setTrainingGoals(current =>
+      checked ? [...current.filter(g => g !== goal), goal] : current.filter(g => g !== goal)
+    )
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setSaveError(null)
+
+    const restValue = restSeconds.trim() === '' ? null : Number(restSeconds)
+    if (
+      restValue !== null &&
+      (!Number.isInteger(restValue) || restValue < 0 || restValue > MAX_DEFAULT_REST_SECONDS)
+    ) {
+      setSaveError(`Rest must be a whole number of seconds up to ${MAX_DEFAULT_REST_SECONDS}`)
+      return
+    }
+
+    setIsSaving(true)
+    try {
+      const accessToken = await getAccessToken()
+      if (!accessToken) {
+        setSaveError('Your session has expired. Please sign in again.')
+        return
+      }
+
+      const result = await updateProfile(accessToken, {
+        display_name: displayName,
+        weight_unit: weightUnit,
+        default_rest_seconds: restValue,
+        fitness_level: fitnessLevel,
+        // Keep goals in the order they're listed
+        training_goals: TRAINING_GOALS.map(goal => goal.value).filter(goal =>
+          trainingGoals.includes(goal)
+        ),
+      })
+
+      if (!result.success || !result.profile) {
+        setSaveError(result.error || 'Failed to save your settings. Please try again.')
+        return
+      }
+
+      onSaved(result.profile)
+      toast({ title: 'Settings saved' })
+    } catch (error) {
+      console.error('Error saving profile settings:', error)
+      setSaveError('An unexpected error occurred. Please try again.')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6" aria-labelledby="settings-heading">
+      <div className="space-y-2">
+        <Label htmlFor="display-name">Display name</Label>
+        <Input
+          id="display-name"
+          value={displayName}
+          onChange={e => setDisplayName(e.target.value)}
+          maxLength={MAX_DISPLAY_NAME_LENGTH}
+          autoComplete="nickname"
+          disabled={isSaving}
+        />
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="weight-unit">Weight unit</Label>
+          <Select
+            value={weightUnit}
+            onValueChange={value => setWeightUnit(value as WeightUnit)}
+            disabled={isSaving}
+          >
+            <SelectTrigger id="weight-unit">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="kg">kg</SelectItem>
+              <SelectItem value="lb">lb</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="default-rest">Default rest (s)</Label>
+          <Input
+            id="default-rest"
+            type="number"
+            inputMode="numeric"
+            min={0}
+            max={MAX_DEFAULT_REST_SECONDS}
+            step={15}
+            placeholder={String(DEFAULT_REST_SECONDS)}
+            value={restSeconds}
+            onChange={e => setRestSeconds(e.target.value)}
+            aria-describedby="default-rest-hint"
+            disabled={isSaving}
+          />
+        </div>
+      </div>
+      <p id="default-rest-hint" className="text-xs text-muted-foreground -mt-4">
+        Used after a set when the exercise has no rest of its own. 0 turns the rest timer off.
+      </p>
+
+      <div className="space-y-2">
+        <Label htmlFor="fitness-level">Fitness level</Label>
+        <Select
+          value={fitnessLevel}
+          onValueChange={value => setFitnessLevel(value as FitnessLevel)}
+          disabled={isSaving}
+        >
+          <SelectTrigger id="fitness-level">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {FITNESS_LEVELS.map(level => (
+              <SelectItem key={level.value} value={level.value}>
+                {level.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <fieldset className="space-y-3">
+        <legend className="text-sm font-medium mb-2">Training goals</legend>
+        {TRAINING_GOALS.map(goal => (
+          <div key={goal.value} className="flex items-center gap-2">
+            <Checkbox
+              id={`goal-${goal.value}`}
+              checked={trainingGoals.includes(goal.value)}
+              onCheckedChange={checked => toggleGoal(goal.value, checked === true)}
+              disabled={isSaving}
+            />
+            <Label htmlFor={`goal-${goal.value}`} className="font-normal">
+              {goal.label}
+            </Label>
+          </div>
+        ))}
+      </fieldset>
+
+      {saveError && (
+        <p className="text-sm text-destructive" role="alert">
+          {saveError}
+        </p>
+      )}
+
+      <Button type="submit" className="w-full" disabled={isSaving} aria-busy={isSaving}>
+        {isSaving ? (
+          <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+        ) : (
+          <Save className="h-4 w-4 mr-2" />
+        )}
+        Save settings
+      </Button>
+    </form>
+  )
+}
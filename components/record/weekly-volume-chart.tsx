@@ -0,0 +1,161 @@
+'use client'
+
+import { useState, useEffect, useMemo } from 'react'
+import { format, parseISO } from 'date-fns'
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from 'recharts'
+import { Loader2 } from 'lucide-react'
+import { Card, CardContent } from '@/components/ui/card'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from '@/components/ui/chart'
+import { RangeSelect } from '@/components/common/range-select'
+import { getGroupedSets } from '@/app/record/actions'
+import { getAccessToken } from '@/lib/supabase'
+import { useProfile } from '@/hooks/use-profile'
+import {
+  getRangeStart,
+  getWeeklyVolume,
+  type GroupedSet,
+  type ProgressRange,
+} from '@/lib/strength-progress'
+
+interface WeeklyVolumeChartProps {
+  userId: string | undefined
+}
+
+type VolumeGrouping = 'group' | 'bodySection'
+
+const CHART_COLORS = 5
+
+export const WeeklyVolumeChart = ({ userId }: WeeklyVolumeChartProps) => {
+  const [range, setRange] = useState<ProgressRange>('3m')
+  const [groupBy, setGroupBy] = useState<VolumeGrouping>('bodySection')
+  const [sets, setSets] = useState<GroupedSet[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const { profile } = useProfile()
+  const unit = profile?.weight_unit ?? 'kg'
+
+  useEffect(() => {
+    if (!userId) {
+      setIsLoading(false)
+      return
+    }
+
+    let mounted = true
+
+    async function loadSets() {
+      try {
+        setIsLoading(true)
+        const accessToken = await getAccessToken()
+        if (!accessToken) return
+        const groupedSets = await getGroupedSets(accessToken, getRangeStart(range))
+        if (mounted) setSets(groupedSets)
+      } catch (error) {
+        console.error('Error loading weekly volume:', error)
+      } finally {
+        if (mounted) setIsLoading(false)
+      }
+    }
+
+    loadSets()
+
+    return () => {
+      mounted = false
+    }
+  }, [userId, range])
+
+  // Series names can contain spaces, so key them by position for the chart's CSS variables
+  const { data, config, keys } = useMemo(() => {
+    const { points, series } = getWeeklyVolume(sets, groupBy, unit)
+    const keys = series.map((_, index) => `series${index}`)
+
+    const config: ChartConfig = {}
+    series.forEach((name, index) => {
+      config[keys[index]] = {
+        label: name,
+        color: `hsl(var(--chart-${(index % CHART_COLORS) + 1}))`,
+      }
+    })
+
+    const data = points.map(point => {
+      const row: Record<string, number | string> = { week: point.week }
+      series.forEach((name, index) => {
+        row[keys[index]] = point[name]
+      })
+      return row
+    })
+
+    return { data, config, keys }
+  }, [sets, groupBy, unit])
+
+  return (
+    <Card className="border-0 shadow-sm">
+      <CardContent className="p-4">
+        <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+          <Select value={groupBy} onValueChange={value => setGroupBy(value as VolumeGrouping)}>
+            <SelectTrigger className="w-[160px]" aria-label="Group volume by">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="bodySection">By body section</SelectItem>
+              <SelectItem value="group">By exercise group</SelectItem>
+            </SelectContent>
+          </Select>
+          <RangeSelect value={range} onChange={setRange} />
+        </div>
+
+        {isLoading ? (
+          <div
+            className="flex justify-center items-center py-8"
+            aria-busy="true"
+            aria-live="polite"
+          >
+            <Loader2 className="h-5 w-5 animate-spin text-primary mr-2" />
+            <span>Loading your training volume...</span>
+          </div>
+        ) : data.length === 0 ? (
+          <p className="text-center text-sm text-muted-foreground py-8">
+            No loaded sets in this range yet. Log sets in Strengthen to see your weekly volume.
+          </p>
+        ) : (
+          <ChartContainer config={config} className="aspect-auto h-[260px] w-full">
+            <BarChart data={data} margin={{ left: 0, right: 12, top: 8 }}>
+              <CartesianGrid vertical={false} />
+              <XAxis
+                dataKey="week"
+                tickLine={false}
+                axisLine={false}
+                tickMargin={8}
+                tickFormatter={week => format(parseISO(week), 'd MMM')}
+              />
+              <YAxis tickLine={false} axisLine={false} width={48} />
+              <ChartTooltip
+                content={
+                  <ChartTooltipContent
+                    labelFormatter={week => `Week of ${format(parseISO(String(week)), 'd MMM')}`}
+                  />
+                }
+              />
+              <ChartLegend content={<ChartLegendContent />} />
+              {keys.map(key => (
+                <Bar key={key} dataKey={key} stackId="volume" fill={`var(--color-${key})`} />
+              ))}
+            </BarChart>
+          </ChartContainer>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
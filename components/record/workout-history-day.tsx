@@ -0,0 +1,96 @@
+import Link from 'next/link'
+import { format } from 'date-fns'
+import { Card, CardContent } from '@/components/ui/card'
+import { capitalizeFirstLetter } from '@/lib/text-utils'
+import type { WorkoutHistoryEntry } from '@/lib/types'
+
+interface WorkoutHistoryDayProps {
+  date: Date
+  entries: WorkoutHistoryEntry[]
+}
+
+// Sections in workout order, with the route prefix of their exercise pages
+const SECTIONS = [
+  { key: 'warm-up', label: 'Warm up', linkPrefix: '/warm-up' },
+  { key: 'mobilise', label: 'Mobilise', linkPrefix: '/mobilise' },
+  { key: 'strengthen', label: 'Strengthen', linkPrefix: '/strengthen' },
+  { key: 'recover', label: 'Recover', linkPrefix: '/recover' },
+] as const
+
+// Collapses each exercise's sets into one entry, timed at the last set
+function collapseSets(entries: WorkoutHistoryEntry[]): WorkoutHistoryEntry[] {
+  const collapsed = new Map<string, WorkoutHistoryEntry>()
+
+  entries.forEach(entry => {
+    const key = entry.set_count === null ? entry.id : `sets-${entry.exercise_id}`
+    const existing = collapsed.get(key)
+
+    collapsed.set(
+      key,
+      existing
+        ? {
+            ...existing,
+            set_count: (existing.set_count ?? 0) + (entry.set_count ?? 0),
+            completed_at:
+              entry.completed_at > existing.completed_at
+                ? entry.completed_at
+                : existing.completed_at,
+          }
+        : entry
+    )
+  })
+
+  return Array.from(collapsed.values())
+}
+
+export function WorkoutHistoryDay({ date, entries }: WorkoutHistoryDayProps) {
+  const dayEntries = collapseSets(entries)
+  const headingId = `history-${format(date, 'yyyy-MM-dd')}-heading`
+
+  return (
+    <section aria-labelledby={headingId}>
+      <h2 id={headingId} className="text-xl font-semibold mb-4">
+        {format(date, 'EEEE d MMMM')}
+      </h2>
+
+      {entries.length === 0 ? (
+        <p className="text-muted-foreground">No exercises logged on this day.</p>
+      ) : (
+        <div className="space-y-4">
+          {SECTIONS.map(section => {
+            const sectionEntries = dayEntries
+              .filter(entry => entry.section === section.key)
+              .sort((a, b) => a.completed_at.localeCompare(b.completed_at))
+
+            if (sectionEntries.length === 0) return null
+
+            return (
+              <Card key={section.key} className="border-0 shadow-sm">
+                <CardContent className="p-4">
+                  <h3 className="text-lg font-medium mb-2">{section.label}</h3>
+                  <ul className="space-y-1">
+                    {sectionEntries.map(entry => (
+                      <li key={entry.id} className="flex justify-between gap-2 text-sm">
+                        <Link
+                          href={`${section.linkPrefix}/${entry.exercise_id}`}
+                          className="hover:text-primary transition-colors"
+                        >
+                          {capitalizeFirstLetter(entry.exercise_name)}
+                        </Link>
+                        <span className="text-muted-foreground shrink-0">
+                          {entry.set_count !== null &&
+                            `${entry.set_count} ${entry.set_count === 1 ? 'set' : 'sets'} · `}
+                          {format(new Date(entry.completed_at), 'HH:mm')}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                </CardContent>
+              </Card>
+            )
+          })}
+        </div>
+      )}
+    </section>
+  )
+}
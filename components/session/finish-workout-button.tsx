@@ -0,0 +1,59 @@
+'use client'
+
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { CheckCircle2, Loader2 } from 'lucide-react'
+import { useWorkoutSession } from '@/contexts/workout-session-context'
+
+// Closes the current workout session at the end of Recover
+export function FinishWorkoutButton() {
+  const { session, endSession } = useWorkoutSession()
+  const [isFinishing, setIsFinishing] = useState(false)
+  const [isFinished, setIsFinished] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleFinish = async () => {
+    setIsFinishing(true)
+    setError(null)
+
+    const success = await endSession()
+    if (success) {
+      setIsFinished(true)
+    } else {
+      setError('Failed to finish your workout. Please try again.')
+    }
+
+    setIsFinishing(false)
+  }
+
+  if (isFinished) {
+    return (
+      <div className="flex items-center justify-center p-4 bg-green-50 dark:bg-green-900/20 rounded-md">
+        <CheckCircle2 className="h-5 w-5 text-green-500 mr-2" />
+        <span>Workout complete! Great job!</span>
+      </div>
+    )
+  }
+
+  if (!session) return null
+
+  return (
+    <div className="space-y-2">
+      <Button onClick={handleFinish} disabled={isFinishing} className="w-full" size="lg">
+        {isFinishing ? (
+          <>
+            <Loader2 className="h-4 w-4 animate-spin mr-2" />
+            Finishing...
+          </>
+        ) : (
+          'Finish workout'
+        )}
+      </Button>
+      {error && (
+        <div className="text-sm text-destructive" role="alert">
+          {error}
+        </div>
+      )}
+    </div>
+  )
+}
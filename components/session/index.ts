@@ -0,0 +1,3 @@
+export * from './finish-workout-button'
+export * from './session-day-match'
+export * from './rest-timer-bar'
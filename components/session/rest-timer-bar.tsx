@@ -0,0 +1,85 @@
+'use client'
+
+import Link from 'next/link'
+import { usePathname } from 'next/navigation'
+import { Minus, Plus, Timer, X } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Progress } from '@/components/ui/progress'
+import { useRestTimer } from '@/contexts/rest-timer-context'
+import { formatRestTime, REST_ADJUST_SECONDS } from '@/lib/rest-timer'
+
+// Floating countdown for the rest between sets, shown on every page while a rest runs
+export const RestTimerBar = () => {
+  const pathname = usePathname()
+  const { timer, remainingSeconds, isOver, adjustRest, stopRest } = useRestTimer()
+
+  if (!timer) return null
+
+  const progress =
+    timer.durationSeconds > 0
+      ? ((timer.durationSeconds - remainingSeconds) / timer.durationSeconds) * 100
+      : 100
+
+  return (
+    <div
+      className="fixed bottom-16 left-0 right-0 z-40 px-4 pb-2"
+      role="timer"
+      aria-label="Rest between sets"
+    >
+      <div className="mx-auto max-w-md overflow-hidden rounded-lg border bg-card shadow-lg">
+        <Progress value={progress} className="h-1 rounded-none" />
+        <div className="flex items-center gap-2 p-2">
+          <Timer
+            className={isOver ? 'h-5 w-5 text-orange-500' : 'h-5 w-5 text-muted-foreground'}
+            aria-hidden="true"
+          />
+          <div className="flex-1" aria-live={isOver ? 'assertive' : 'off'}>
+            {isOver ? (
+              <span className="font-medium">Rest over, time for your next set</span>
+            ) : (
+              <span className="text-lg font-bold tabular-nums">
+                {formatRestTime(remainingSeconds)}
+              </span>
+            )}
+            {timer.href !== pathname && (
+              <Link href={timer.href} className="block text-xs text-primary hover:underline">
+                Back to exercise
+              </Link>
+            )}
+          </div>
+          {!isOver && (
+            <>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8"
+                onClick={() => adjustRest(-REST_ADJUST_SECONDS)}
+                aria-label={`Remove ${REST_ADJUST_SECONDS} seconds`}
+              >
+                <Minus className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8"
+                onClick={() => adjustRest(REST_ADJUST_SECONDS)}
+                aria-label={`Add ${REST_ADJUST_SECONDS} seconds`}
+              >
+                <Plus className="h-4 w-4" />
+              </Button>
+            </>
+          )}
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8"
+            onClick={stopRest}
+            aria-label={isOver ? 'Dismiss' : 'Skip rest'}
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,40 @@
+'use client'
+
+import Link from 'next/link'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { AlertCircle, CheckCircle2 } from 'lucide-react'
+import { useWorkoutSession } from '@/contexts/workout-session-context'
+
+interface SessionDayMatchProps {
+  recoverDayId: number
+}
+
+// Compares the Recover day being followed with the Strengthen day done in this session
+export function SessionDayMatch({ recoverDayId }: SessionDayMatchProps) {
+  const { session } = useWorkoutSession()
+  const strengthenDayId = session?.strengthen_day_id
+
+  if (!strengthenDayId) return null
+
+  if (strengthenDayId === recoverDayId) {
+    return (
+      <div className="flex items-center text-sm font-medium text-green-600 mb-4" role="status">
+        <CheckCircle2 className="h-4 w-4 text-green-500 mr-1 shrink-0" />
+        Matches the Strengthen Day {strengthenDayId} you did today
+      </div>
+    )
+  }
+
+  return (
+    <Alert className="mb-4">
+      <AlertCircle className="h-4 w-4" />
+      <AlertDescription>
+        You did Strengthen Day {strengthenDayId} today. Follow{' '}
+        <Link href={`/recover/day/${strengthenDayId}`} className="font-bold underline">
+          Recover Day {strengthenDayId}
+        </Link>{' '}
+        to stretch the muscles you have just worked.
+      </AlertDescription>
+    </Alert>
+  )
+}
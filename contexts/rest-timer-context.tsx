@@ -0,0 +1,169 @@
+'use client'
+
+import {
+  createContext,
+  useContext,
+  useState,
+  useEffect,
+  useCallback,
+  useRef,
+  type ReactNode,
+} from 'react'
+import { usePathname } from 'next/navigation'
+import { useToast } from '@/hooks/use-toast'
+import { useProfile } from '@/hooks/use-profile'
+import { CACHE_KEYS } from '@/lib/cache-constants'
+import { playCue, unlockCueAudio, vibrateCue } from '@/lib/cues'
+import { getLocalStorage, setLocalStorage } from '@/lib/storage-utils'
+import { DEFAULT_REST_SECONDS, getRestRemainingSeconds, type RestTimer } from '@/lib/rest-timer'
+
+interface RestTimerContextType {
+  timer: RestTimer | null
+  remainingSeconds: number
+  isOver: boolean
+  startRest: (exerciseId: number, seconds?: number | null) => void
+  adjustRest: (seconds: number) => void
+  stopRest: () => void
+}
+
+// How long the "rest is over" prompt stays up before clearing itself
+const REST_OVER_DISPLAY_MS = 30 * 1000
+
+const RestTimerContext = createContext<RestTimerContextType | undefined>(undefined)
+
+// Tell the user rest is over, with a system notification if they're in another app or tab
+const notifyRestOver = () => {
+  playCue('finish')
+  vibrateCue('finish')
+
+  if (
+    document.visibilityState === 'hidden' &&
+    'Notification' in window &&
+    Notification.permission === 'granted'
+  ) {
+    new Notification('Rest is over', { body: 'Time for your next set.', tag: 'rest-timer' })
+  }
+}
+
+export function RestTimerProvider({ children }: { children: ReactNode }) {
+  const pathname = usePathname()
+  const { toast } = useToast()
+  const { profile } = useProfile()
+  const [timer, setTimer] = useState<RestTimer | null>(null)
+  const [now, setNow] = useState(() => Date.now())
+  const notifiedRef = useRef<number | null>(null)
+
+  // Pick up a rest still running from before a reload
+  useEffect(() => {
+    const saved = getLocalStorage<RestTimer | null>(CACHE_KEYS.REST_TIMER, null)
+    if (saved && saved.endsAt > Date.now()) setTimer(saved)
+  }, [])
+
+  const updateTimer = useCallback((next: RestTimer | null) => {
+    setTimer(next)
+    setNow(Date.now())
+    setLocalStorage(CACHE_KEYS.REST_TIMER, next)
+  }, [])
+
+  // Tick once a second while resting; the remaining time always comes from endsAt
+  useEffect(() => {
+    if (!timer) return
+
+    const interval = setInterval(() => setNow(Date.now()), 1000)
+    return () => clearInterval(interval)
+  }, [timer])
+
+  // Fire once at the end of each rest, even if the page was changed meanwhile
+  useEffect(() => {
+    if (!timer) return
+
+    const timeout = setTimeout(
+      () => {
+        if (notifiedRef.current === timer.endsAt) return
+        notifiedRef.current = timer.endsAt
+        setNow(Date.now())
+        notifyRestOver()
+        toast({ title: 'Rest is over', description: 'Time for your next set.' })
+      },
+      Math.max(0, timer.endsAt - Date.now())
+    )
+
+    return () => clearTimeout(timeout)
+  }, [timer, toast])
+
+  // Clear the finished rest after a while
+  useEffect(() => {
+    if (!timer) return
+
+    const timeout = setTimeout(
+      () => updateTimer(null),
+      Math.max(0, timer.endsAt + REST_OVER_DISPLAY_MS - Date.now())
+    )
+    return () => clearTimeout(timeout)
+  }, [timer, updateTimer])
+
+  const startRest = useCallback(
+    (exerciseId: number, seconds?: number | null) => {
+      // The exercise's rest, then the user's default from their profile
+      const durationSeconds = seconds ?? profile?.default_rest_seconds ?? DEFAULT_REST_SECONDS
+      if (durationSeconds <= 0) return
+
+      // Called straight after the user logs a set, so audio and notifications can be enabled
+      unlockCueAudio()
+      if ('Notification' in window && Notification.permission === 'default') {
+        Notification.requestPermission().catch(error =>
+          console.error('Error requesting notification permission:', error)
+        )
+      }
+
+      updateTimer({
+        exerciseId,
+        href: pathname,
+        durationSeconds,
+        endsAt: Date.now() + durationSeconds * 1000,
+      })
+    },
+    [pathname, updateTimer, profile?.default_rest_seconds]
+  )
+
+  const adjustRest = useCallback(
+    (seconds: number) => {
+      if (!timer) return
+
+      const endsAt = Math.max(Date.now(), timer.endsAt + seconds * 1000)
+      updateTimer({
+        ...timer,
+        durationSeconds: Math.max(0, timer.durationSeconds + seconds),
+        endsAt,
+      })
+    },
+    [timer, updateTimer]
+  )
+
+  const stopRest = useCallback(() => updateTimer(null), [updateTimer])
+
+  const remainingSeconds = timer ? getRestRemainingSeconds(timer, now) : 0
+
+  return (
+    <RestTimerContext.Provider
+      value={{
+        timer,
+        remainingSeconds,
+        isOver: timer !== null && remainingSeconds === 0,
+        startRest,
+        adjustRest,
+        stopRest,
+      }}
+    >
+      {children}
+    </RestTimerContext.Provider>
+  )
+}
+
+export function useRestTimer() {
+  const context = useContext(RestTimerContext)
+  if (context === undefined) {
+    throw new Error('useRestTimer must be used within a RestTimerProvider')
+  }
+  return context
+}
@@ -0,0 +1,145 @@
+'use client'
+
+import {
+  createContext,
+  useContext,
+  useState,
+  useEffect,
+  useCallback,
+  useRef,
+  type ReactNode,
+} from 'react'
+import { useAuth } from '@/components/auth/auth-provider'
+import {
+  getActiveWorkoutSession,
+  startWorkoutSession,
+  setSessionTrainingDay,
+  endWorkoutSession,
+} from '@/app/actions'
+import type { WorkoutSession } from '@/lib/types'
+import type { TrainingSection } from '@/lib/sections'
+
+interface WorkoutSessionContextType {
+  session: WorkoutSession | null
+  isLoading: boolean
+  startSession: () => Promise<WorkoutSession | null>
+  setTrainingDay: (category: TrainingSection, dayId: number) => Promise<void>
+  endSession: () => Promise<boolean>
+}
+
+const WorkoutSessionContext = createContext<WorkoutSessionContextType | undefined>(undefined)
+
+export function WorkoutSessionProvider({ children }: { children: ReactNode }) {
+  const { user, session: authSession } = useAuth()
+  const accessToken = authSession?.access_token
+  const [session, setSession] = useState<WorkoutSession | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  // Shared promise so pages mounting together don't start two sessions
+  const startingRef = useRef<Promise<WorkoutSession | null> | null>(null)
+
+  // Restore the open session when the user changes
+  useEffect(() => {
+    let mounted = true
+
+    const loadSession = async () => {
+      if (!user || !accessToken) {
+        setSession(null)
+        setIsLoading(false)
+        return
+      }
+
+      try {
+        const activeSession = await getActiveWorkoutSession(accessToken)
+        if (mounted) setSession(activeSession)
+      } catch (error) {
+        console.error('Error loading workout session:', error)
+      } finally {
+        if (mounted) setIsLoading(false)
+      }
+    }
+
+    loadSession()
+
+    return () => {
+      mounted = false
+    }
+  }, [user, accessToken])
+
+  const startSession = useCallback(async (): Promise<WorkoutSession | null> => {
+    if (!user || !accessToken) return null
+    if (session && !session.ended_at) return session
+
+    if (!startingRef.current) {
+      startingRef.current = startWorkoutSession(accessToken)
+        .then(startedSession => {
+          setSession(startedSession)
+          return startedSession
+        })
+        .catch(error => {
+          console.error('Error starting workout session:', error)
+          return null
+        })
+        .finally(() => {
+          startingRef.current = null
+        })
+    }
+
+    return startingRef.current
+  }, [user, accessToken, session])
+
+  const setTrainingDay = useCallback(
+    async (category: TrainingSection, dayId: number) => {
+      if (!user || !accessToken) return
+
+      // Users can jump straight into Strengthen or Recover without warming up
+      const activeSession = await startSession()
+      if (!activeSession) return
+
+      const currentDay =
+        category === 'recover' ? activeSession.recover_day_id : activeSession.strengthen_day_id
+      if (currentDay === dayId) return
+
+      try {
+        const updatedSession = await setSessionTrainingDay(
+          accessToken,
+          activeSession.id,
+          category,
+          dayId
+        )
+        if (updatedSession) setSession(updatedSession)
+      } catch (error) {
+        console.error('Error setting session training day:', error)
+      }
+    },
+    [user, accessToken, startSession]
+  )
+
+  const endSession = useCallback(async (): Promise<boolean> => {
+    if (!user || !accessToken || !session) return false
+
+    try {
+      const result = await endWorkoutSession(accessToken, session.id)
+      if (result.success) setSession(null)
+      return result.success
+    } catch (error) {
+      console.error('Error ending workout session:', error)
+      return false
+    }
+  }, [user, accessToken, session])
+
+  return (
+    <WorkoutSessionContext.Provider
+      value={{ session, isLoading, startSession, setTrainingDay, endSession }}
+    >
+      {children}
+    </WorkoutSessionContext.Provider>
+  )
+}
+
+export function useWorkoutSession() {
+  const context = useContext(WorkoutSessionContext)
+  if (context === undefined) {
+    throw new Error('useWorkoutSession must be used within a WorkoutSessionProvider')
+  }
+  return context
+}
@@ -0,0 +1,50 @@
+import { useQuery } from './use-query'
+import { CONTENT_STALE_TIME, queryKeys } from '@/lib/query-keys'
+
+export interface BodyMuscle {
+  id: number
+  name: string
+  body_section: number
+  image_url: string
+  // Region of the body map the muscle is drawn in
+  map_region: string | null
+}
+
+async function fetchBodyMuscle(id: number): Promise<BodyMuscle> {
+  const response = await fetch(`/api/body-muscles/${id}`)
+  if (!response.ok) {
+    throw new Error(`Failed to fetch muscle ${id}: ${response.status}`)
+  }
+  return response.json()
+}
+
+// A body muscle, shared by every card showing it
+export const useBodyMuscle = (id: number | null | undefined) => {
+  const { data, loading, error } = useQuery(
+    id ? queryKeys.bodyMuscle(id) : null,
+    () => fetchBodyMuscle(id!),
+    { staleTime: CONTENT_STALE_TIME, persist: true }
+  )
+
+  return { bodyMuscle: data ?? null, loading, error }
+}
+
+const NO_MUSCLES: BodyMuscle[] = []
+
+async function fetchBodyMuscles(): Promise<BodyMuscle[]> {
+  const response = await fetch('/api/body-muscles')
+  if (!response.ok) {
+    throw new Error(`Failed to fetch body muscles: ${response.status}`)
+  }
+  return response.json()
+}
+
+// Every body muscle, in chart number order
+export const useBodyMuscles = () => {
+  const { data, loading, error } = useQuery(queryKeys.bodyMuscles(), fetchBodyMuscles, {
+    staleTime: CONTENT_STALE_TIME,
+    persist: true,
+  })
+
+  return { bodyMuscles: data ?? NO_MUSCLES, loading, error }
+}
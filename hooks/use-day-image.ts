@@ -1,116 +1,35 @@
-import { useState, useEffect } from 'react'
+import { useAuth } from '@/components/auth/auth-provider'
 import { getDayImage } from '@/app/strengthen/actions'
+import { useQuery } from './use-query'
+import { queryKeys, USER_STALE_TIME } from '@/lib/query-keys'
+import { getOfflineDay } from '@/lib/offline-days'
+import type { TrainingSection } from '@/lib/sections'
+
+export const useDayImage = (
+  userId: string | undefined,
+  dayId: number | undefined,
+  category: TrainingSection = 'strengthen'
+) => {
+  const { session } = useAuth()
+  const { data, loading, error } = useQuery(
+    session && userId && dayId ? queryKeys.dayImage(userId, dayId, category) : null,
+    () => getDayImage(session!.access_token, dayId!, category),
+    { staleTime: USER_STALE_TIME, persist: true }
+  )
 
-const CACHE_KEY = 'day-image-cache'
-const CACHE_DURATION = 5 * 60 * 1000 // 5 minutes in milliseconds
-const MAX_RETRIES = 3
-const RETRY_DELAY = 1000 // 1 second
-
-interface CacheEntry {
-  url: string | null
-  timestamp: number
-  userId: string
-  dayId: number
-  category?: 'strengthen' | 'recover'
-}
-
-const getCachedDayImage = (userId: string, dayId: number, category: 'strengthen' | 'recover' = 'strengthen'): string | null => {
-  try {
-    const cached = localStorage.getItem(CACHE_KEY)
-    if (!cached) return null
-
-    const entry: CacheEntry = JSON.parse(cached)
-    const now = Date.now()
-
-    if (
-      entry.userId === userId &&
-      entry.dayId === dayId &&
-      (entry.category || 'strengthen') === category &&
-      now - entry.timestamp < CACHE_DURATION
-    ) {
-      return entry.url
-    }
-    return null
-  } catch {
-    return null
+  if (!userId || !dayId) {
+    return { imageUrl: null, loading: false, error: 'Invalid user or day' }
   }
-}
 
-const setCachedDayImage = (userId: string, dayId: number, url: string | null, category: 'strengthen' | 'recover' = 'strengthen') => {
-  try {
-    const entry: CacheEntry = {
-      url,
-      timestamp: Date.now(),
-      userId,
-      dayId,
-      category,
-    }
-    localStorage.setItem(CACHE_KEY, JSON.stringify(entry))
-  } catch {
-    // Ignore cache errors
+  // Use the image saved with the day when there's no connection
+  if (data === undefined && error) {
+    const offlineDay = getOfflineDay(userId, dayId, category)
+    if (offlineDay) return { imageUrl: offlineDay.imageUrl, loading: false, error: null }
   }
-}
-
-export const useDayImage = (userId: string | undefined, dayId: number | undefined, category: 'strengthen' | 'recover' = 'strengthen') => {
-  const [imageUrl, setImageUrl] = useState<string | null>(() =>
-    userId && dayId ? getCachedDayImage(userId, dayId, category) : null
-  )
-  const [loading, setLoading] = useState(!imageUrl)
-  const [error, setError] = useState<string | null>(null)
-
-  useEffect(() => {
-    let retryCount = 0
-    let mounted = true
 
-    const fetchDayImage = async () => {
-      if (!userId || !dayId) {
-        setError('Invalid user or day')
-        setLoading(false)
-        return
-      }
-
-      // Check cache first
-      const cached = getCachedDayImage(userId, dayId, category)
-      if (cached) {
-        setImageUrl(cached)
-        setLoading(false)
-        return
-      }
-
-      try {
-        setLoading(true)
-        setError(null)
-
-        const dayImageUrl = await getDayImage(dayId, userId, category)
-
-        if (!mounted) return
-
-        setCachedDayImage(userId, dayId, dayImageUrl, category)
-        setImageUrl(dayImageUrl)
-      } catch (err) {
-        console.error('Error fetching day image:', err)
-
-        if (!mounted) return
-
-        if (retryCount < MAX_RETRIES) {
-          retryCount++
-          setTimeout(fetchDayImage, RETRY_DELAY * retryCount)
-        } else {
-          setError('Failed to load day image')
-        }
-      } finally {
-        if (mounted) {
-          setLoading(false)
-        }
-      }
-    }
-
-    fetchDayImage()
-
-    return () => {
-      mounted = false
-    }
-  }, [userId, dayId, category])
-
-  return { imageUrl, loading, error }
+  return {
+    imageUrl: data ?? null,
+    loading,
+    error: error ? 'Failed to load day image' : null,
+  }
 }
@@ -0,0 +1,55 @@
+import { useState, useEffect } from 'react'
+import { useAuth } from '@/components/auth/auth-provider'
+import { sortByFir } from '@/lib/fir'
+import type { MuscleFir } from '@/lib/types'
+
+// The user's latest FIR level per muscle, most at risk first
+export const useFir = () => {
+  const { user, session } = useAuth()
+  const accessToken = session?.access_token
+  const [muscles, setMuscles] = useState<MuscleFir[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    let mounted = true
+
+    const fetchFir = async () => {
+      if (!user || !accessToken) {
+        setLoading(false)
+        return
+      }
+
+      try {
+        setLoading(true)
+        setError(null)
+
+        const response = await fetch(`/api/fir?userId=${user.id}`, {
+          cache: 'no-store',
+          headers: { Authorization: `Bearer ${accessToken}` },
+        })
+
+        if (!response.ok) {
+          const errorData = await response.json().catch(() => ({}))
+          throw new Error(errorData.error || `Failed to fetch FIR levels: ${response.status}`)
+        }
+
+        const data: { muscles: MuscleFir[] } = await response.json()
+        if (mounted) setMuscles(sortByFir(data.muscles))
+      } catch (err) {
+        console.error('Error fetching FIR levels:', err)
+        if (mounted) setError('Failed to load your imbalance data')
+      } finally {
+        if (mounted) setLoading(false)
+      }
+    }
+
+    fetchFir()
+
+    return () => {
+      mounted = false
+    }
+  }, [user, accessToken])
+
+  return { muscles, loading, error }
+}
@@ -0,0 +1,28 @@
+import { useQuery } from './use-query'
+import { CONTENT_STALE_TIME, queryKeys } from '@/lib/query-keys'
+import type { Section } from '@/lib/sections'
+import type { ExerciseWithLabels } from '@/lib/types'
+
+const NO_EXERCISES: ExerciseWithLabels[] = []
+
+async function fetchGroupExercises(
+  groupId: number,
+  section: Section
+): Promise<ExerciseWithLabels[]> {
+  const response = await fetch(`/api/exercises?group=${groupId}&category=${section}`)
+  if (!response.ok) {
+    throw new Error(`Failed to fetch exercises for group ${groupId}: ${response.status}`)
+  }
+  return response.json()
+}
+
+// A section's exercises in one exercise group, e.g. to offer an alternative to one of them
+export const useGroupExercises = (groupId: number | null | undefined, section: Section) => {
+  const { data, loading, error } = useQuery(
+    groupId ? queryKeys.groupExercises(groupId, section) : null,
+    () => fetchGroupExercises(groupId!, section),
+    { staleTime: CONTENT_STALE_TIME, persist: true }
+  )
+
+  return { exercises: data ?? NO_EXERCISES, loading, error }
+}
@@ -0,0 +1,144 @@
+import { useState, useEffect, useRef, useCallback } from 'react'
+import type { Cue } from '@/lib/cues'
+import type { GuidedExercise, GuidedStep } from '@/lib/guided-player'
+
+interface GuidedPlayerCallbacks {
+  onCue?: (cue: Cue) => void
+  onExerciseComplete?: (exercise: GuidedExercise) => void
+}
+
+// How often the countdown is refreshed; remaining time is measured against a deadline
+const TICK_MS = 200
+
+/**
+ * Runs a countdown through each step in turn. Exercises are reported complete once, when
+ * none of their holds are left skipped; going back and finishing a skipped hold counts.
+ */
+export const useGuidedPlayer = (
+  steps: GuidedStep[],
+  { onCue, onExerciseComplete }: GuidedPlayerCallbacks = {}
+) => {
+  const [index, setIndex] = useState(0)
+  const [remainingMs, setRemainingMs] = useState((steps[0]?.seconds || 0) * 1000)
+  const [isPaused, setIsPaused] = useState(false)
+  const [isFinished, setIsFinished] = useState(steps.length === 0)
+  const remainingRef = useRef(remainingMs)
+  // Indexes of hold steps skipped and not since finished
+  const skippedRef = useRef(new Set<number>())
+  // Exercises already reported complete, so stepping back and on doesn't log them again
+  const completedRef = useRef(new Set<number>())
+  const callbacksRef = useRef({ onCue, onExerciseComplete })
+  callbacksRef.current = { onCue, onExerciseComplete }
+
+  const step: GuidedStep | undefined = steps[index]
+
+  const goTo = useCallback(
+    (nextIndex: number) => {
+      if (nextIndex >= steps.length) {
+        setIsFinished(true)
+        callbacksRef.current.onCue?.('finish')
+        return
+      }
+
+      const nextMs = steps[nextIndex].seconds * 1000
+      remainingRef.current = nextMs
+      setRemainingMs(nextMs)
+      setIndex(nextIndex)
+    },
+    [steps]
+  )
+
+  const completeStep = useCallback(
+    (skipped: boolean) => {
+      const current = steps[index]
+      if (!current) return
+
+      if (current.kind === 'hold') {
+        if (skipped) skippedRef.current.add(index)
+        else skippedRef.current.delete(index)
+
+        const hasSkippedHold = Array.from(skippedRef.current).some(
+          skippedIndex => steps[skippedIndex]?.exerciseIndex === current.exerciseIndex
+        )
+        if (
+          current.completesExercise &&
+          !hasSkippedHold &&
+          !completedRef.current.has(current.exerciseIndex)
+        ) {
+          completedRef.current.add(current.exerciseIndex)
+          callbacksRef.current.onExerciseComplete?.(current.exercise)
+        }
+      }
+
+      const isLast = index === steps.length - 1
+      if (!skipped && !isLast) {
+        callbacksRef.current.onCue?.(current.kind === 'prepare' ? 'start' : 'end')
+      }
+
+      goTo(index + 1)
+    },
+    [steps, index, goTo]
+  )
+
+  // Count down the current step against a fixed deadline so a throttled tab stays accurate
+  useEffect(() => {
+    if (isPaused || isFinished || !step) return
+
+    const deadline = Date.now() + remainingRef.current
+    let lastSecond = Math.ceil(remainingRef.current / 1000)
+
+    const interval = setInterval(() => {
+      const left = Math.max(0, deadline - Date.now())
+      const second = Math.ceil(left / 1000)
+      remainingRef.current = left
+      setRemainingMs(left)
+
+      if (second !== lastSecond && second > 0 && second <= 3) {
+        callbacksRef.current.onCue?.('countdown')
+      }
+      lastSecond = second
+
+      if (left === 0) {
+        clearInterval(interval)
+        completeStep(false)
+      }
+    }, TICK_MS)
+
+    return () => clearInterval(interval)
+  }, [isPaused, isFinished, step, completeStep])
+
+  // Keep the screen on while the timer runs
+  useEffect(() => {
+    if (isPaused || isFinished || typeof navigator === 'undefined' || !('wakeLock' in navigator)) {
+      return
+    }
+
+    let wakeLock: WakeLockSentinel | null = null
+    let released = false
+
+    navigator.wakeLock
+      .request('screen')
+      .then(sentinel => {
+        if (released) sentinel.release()
+        else wakeLock = sentinel
+      })
+      .catch(error => console.error('Error keeping the screen awake:', error))
+
+    return () => {
+      released = true
+      wakeLock?.release()
+    }
+  }, [isPaused, isFinished])
+
+  return {
+    step,
+    index,
+    remainingSeconds: Math.ceil(remainingMs / 1000),
+    isPaused,
+    isFinished,
+    play: () => setIsPaused(false),
+    pause: () => setIsPaused(true),
+    skip: () => completeStep(true),
+    previous: () => goTo(Math.max(0, index - 1)),
+  }
+}
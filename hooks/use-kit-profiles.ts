@@ -0,0 +1,72 @@
+import { useCallback, useMemo } from 'react'
+import { useAuth } from '@/components/auth/auth-provider'
+import { getKit } from '@/app/actions'
+import { getKitProfiles } from '@/app/record/actions'
+import { useProfile } from './use-profile'
+import { useQuery } from './use-query'
+import { isKitAvailable } from '@/lib/kit'
+import { setQueryData } from '@/lib/query-client'
+import { CONTENT_STALE_TIME, queryKeys, USER_STALE_TIME } from '@/lib/query-keys'
+import type { Kit, KitProfile } from '@/lib/types'
+
+const NO_KIT: Kit[] = []
+const NO_KIT_PROFILES: KitProfile[] = []
+
+async function fetchKit(): Promise<Kit[]> {
+  const kit = await getKit()
+  if (!kit) throw new Error('Failed to load kit')
+  return kit
+}
+
+/**
+ * The user's equipment profiles and the one exercises are checked against. Without an active
+ * profile every exercise counts as available.
+ */
+export const useKitProfiles = () => {
+  const { user, session } = useAuth()
+  const { profile, setProfile } = useProfile()
+
+  const { data: kit } = useQuery(queryKeys.kit(), fetchKit, {
+    staleTime: CONTENT_STALE_TIME,
+    persist: true,
+  })
+  const { data, loading, error } = useQuery(
+    user && session ? queryKeys.kitProfiles(user.id) : null,
+    async () => {
+      const kitProfiles = await getKitProfiles(session!.access_token)
+      if (!kitProfiles) throw new Error('Failed to load your kit profiles')
+      return kitProfiles
+    },
+    { staleTime: USER_STALE_TIME, persist: true }
+  )
+
+  const kitProfiles = data ?? NO_KIT_PROFILES
+  const activeProfile = useMemo(
+    () => kitProfiles.find(kitProfile => kitProfile.id === profile?.active_kit_profile_id) ?? null,
+    [kitProfiles, profile?.active_kit_profile_id]
+  )
+
+  const isAvailable = useCallback(
+    (kitId: number | null | undefined) => isKitAvailable(kitId, activeProfile),
+    [activeProfile]
+  )
+
+  // Shows saved changes straight away, everywhere kit profiles are used
+  const setKitProfiles = useCallback(
+    (kitProfiles: KitProfile[]) => {
+      if (user) setQueryData(queryKeys.kitProfiles(user.id), kitProfiles)
+    },
+    [user]
+  )
+
+  return {
+    kit: kit ?? NO_KIT,
+    kitProfiles,
+    activeProfile,
+    loading,
+    error: error ? 'Failed to load your kit profiles' : null,
+    isAvailable,
+    setKitProfiles,
+    setProfile,
+  }
+}
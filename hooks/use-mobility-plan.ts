@@ -0,0 +1,93 @@
+import { useCallback } from 'react'
+import { format } from 'date-fns'
+import { useAuth } from '@/components/auth/auth-provider'
+import { getMobilityPlan } from '@/app/mobilise/actions'
+import { useQuery } from './use-query'
+import { queueChange } from '@/lib/offline-sync'
+import { getOutboxEntries } from '@/lib/outbox'
+import { getQueryState, setQueryData } from '@/lib/query-client'
+import { queryKeys, USER_STALE_TIME } from '@/lib/query-keys'
+import type { MobilityPlan } from '@/lib/types'
+
+const emptyPlan = (planDate: string): MobilityPlan => ({
+  plan_date: planDate,
+  body_muscle_ids: [],
+  exercise_ids: [],
+  completed_exercise_ids: [],
+})
+
+/**
+ * Today's Mobilise routine. Changes show straight away and go through the offline outbox, so
+ * the routine survives navigating away and carries over to the user's other devices.
+ */
+export const useMobilityPlan = () => {
+  const { user, session } = useAuth()
+  // Plans follow the user's own calendar day, so a new one starts at local midnight
+  const planDate = format(new Date(), 'yyyy-MM-dd')
+
+  const { data, loading, error } = useQuery(
+    user && session ? queryKeys.mobilityPlan(user.id, planDate) : null,
+    async () => {
+      const plan = await getMobilityPlan(session!.access_token, planDate)
+      if (!plan) throw new Error("Failed to load today's mobility plan")
+
+      // A change still waiting in the outbox is newer than the server's copy
+      const pending = await getOutboxEntries(user!.id).catch(() => [])
+      for (const entry of pending) {
+        if (entry.kind === 'mobility_plan' && entry.data.plan_date === planDate) return entry.data
+      }
+      return plan
+    },
+    { staleTime: USER_STALE_TIME, persist: true }
+  )
+
+  const updatePlan = useCallback(
+    async (update: (current: MobilityPlan) => MobilityPlan) => {
+      if (!user) return
+
+      const key = queryKeys.mobilityPlan(user.id, planDate)
+      const plan = update(getQueryState<MobilityPlan>(key).data ?? emptyPlan(planDate))
+      setQueryData(key, plan)
+
+      try {
+        await queueChange(user.id, { kind: 'mobility_plan', data: plan })
+      } catch (error) {
+        console.error('Error saving mobility plan:', error)
+      }
+    },
+    [user, planDate]
+  )
+
+  // Replaces the chosen muscles and their stretches, keeping ticks on stretches still listed
+  const selectMuscles = useCallback(
+    (bodyMuscleIds: number[], exerciseIds: number[]) =>
+      updatePlan(current => ({
+        ...current,
+        body_muscle_ids: bodyMuscleIds,
+        exercise_ids: exerciseIds,
+        completed_exercise_ids: current.completed_exercise_ids.filter(id =>
+          exerciseIds.includes(id)
+        ),
+      })),
+    [updatePlan]
+  )
+
+  const toggleDone = useCallback(
+    (exerciseId: number) =>
+      updatePlan(current => ({
+        ...current,
+        completed_exercise_ids: current.completed_exercise_ids.includes(exerciseId)
+          ? current.completed_exercise_ids.filter(id => id !== exerciseId)
+          : [...current.completed_exercise_ids, exerciseId],
+      })),
+    [updatePlan]
+  )
+
+  return {
+    plan: data ?? emptyPlan(planDate),
+    loading,
+    error: error ? "Failed to load today's mobility plan" : null,
+    selectMuscles,
+    toggleDone,
+  }
+}
@@ -0,0 +1,41 @@
+import { useCallback } from 'react'
+import { useAuth } from '@/components/auth/auth-provider'
+import { getProfile } from '@/app/record/actions'
+import { useQuery } from './use-query'
+import { setQueryData } from '@/lib/query-client'
+import { queryKeys, USER_STALE_TIME } from '@/lib/query-keys'
+import type { Profile } from '@/lib/types'
+
+/**
+ * The signed-in user's profile. Null until it has loaded; callers fall back to
+ * DEFAULT_PROFILE_SETTINGS for preferences.
+ */
+export const useProfile = () => {
+  const { user, session } = useAuth()
+  const { data, loading, error, refetch } = useQuery(
+    user && session ? queryKeys.profile(user.id) : null,
+    async () => {
+      const profile = await getProfile(session!.access_token)
+      // Keep showing the cached profile rather than caching the failure
+      if (!profile) throw new Error('Failed to load your profile')
+      return profile
+    },
+    { staleTime: USER_STALE_TIME, persist: true }
+  )
+
+  // Shows a saved profile straight away, everywhere it's used
+  const setProfile = useCallback(
+    (profile: Profile) => {
+      if (user) setQueryData(queryKeys.profile(user.id), profile)
+    },
+    [user]
+  )
+
+  return {
+    profile: data ?? null,
+    loading,
+    error: error ? 'Failed to load your profile' : null,
+    refetch,
+    setProfile,
+  }
+}
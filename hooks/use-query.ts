@@ -0,0 +1,69 @@
+import { useCallback, useEffect, useRef, useSyncExternalStore } from 'react'
+import {
+  ensureQueryData,
+  fetchQuery,
+  getQueryState,
+  subscribeQuery,
+  type QueryKey,
+  type QueryOptions,
+  type QueryState,
+} from '@/lib/query-client'
+
+const SERVER_STATE: QueryState<never> = {
+  data: undefined,
+  error: null,
+  updatedAt: 0,
+  isFetching: false,
+}
+
+const noopSubscribe = () => () => {}
+
+/**
+ * Reads a cached query and keeps it fresh. Pass a null key to wait, e.g. until the user has
+ * signed in.
+ */
+export const useQuery = <T>(
+  key: QueryKey | null,
+  fetcher: () => Promise<T>,
+  options: QueryOptions = {}
+) => {
+  // The same key from render to render while its contents are unchanged
+  const hash = key ? JSON.stringify(key) : null
+  const keyRef = useRef(key)
+  if ((keyRef.current ? JSON.stringify(keyRef.current) : null) !== hash) keyRef.current = key
+  const stableKey = keyRef.current
+
+  const fetcherRef = useRef(fetcher)
+  fetcherRef.current = fetcher
+  const optionsRef = useRef(options)
+  optionsRef.current = options
+
+  const subscribe = useCallback(
+    (listener: () => void) => (stableKey ? subscribeQuery(stableKey, listener) : noopSubscribe()),
+    [stableKey]
+  )
+  const state = useSyncExternalStore<QueryState<T>>(
+    subscribe,
+    () => (stableKey ? getQueryState<T>(stableKey, optionsRef.current) : SERVER_STATE),
+    () => SERVER_STATE
+  )
+
+  useEffect(() => {
+    if (!stableKey) return
+    ensureQueryData(stableKey, () => fetcherRef.current(), optionsRef.current)
+  }, [stableKey])
+
+  const refetch = useCallback(() => {
+    if (!stableKey) return Promise.resolve()
+    return fetchQuery(stableKey, () => fetcherRef.current(), optionsRef.current)
+  }, [stableKey])
+
+  return {
+    data: state.data,
+    // Errors from a background refresh are hidden while cached data can still be shown
+    error: state.data === undefined ? state.error : null,
+    loading: !!key && state.data === undefined && !state.error,
+    isFetching: state.isFetching,
+    refetch,
+  }
+}
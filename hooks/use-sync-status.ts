@@ -0,0 +1,9 @@
+import { useSyncExternalStore } from 'react'
+import { getSyncStatus, subscribeSyncStatus } from '@/lib/offline-sync'
+import type { SyncStatus } from '@/lib/types'
+
+const SERVER_STATUS: SyncStatus = { state: 'idle', pending: 0, lastSyncedAt: null }
+
+// Live status of the offline outbox
+export const useSyncStatus = () =>
+  useSyncExternalStore(subscribeSyncStatus, getSyncStatus, () => SERVER_STATUS)
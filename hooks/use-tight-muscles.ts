@@ -0,0 +1,124 @@
+import { useCallback } from 'react'
+import { useAuth } from '@/components/auth/auth-provider'
+import { getTightMuscles } from '@/app/mobilise/actions'
+import { useQuery } from './use-query'
+import { queueChange } from '@/lib/offline-sync'
+import { getOutboxEntries } from '@/lib/outbox'
+import { getQueryState, setQueryData } from '@/lib/query-client'
+import { queryKeys, USER_STALE_TIME } from '@/lib/query-keys'
+import type { TightMuscleSection } from '@/lib/sections'
+import type { OutboxEntry, TightMuscle } from '@/lib/types'
+
+const NO_TIGHT_MUSCLES: TightMuscle[] = []
+
+// Replays queued flags and clears over a list, oldest first. The outbox doesn't hold muscle
+// names, so a flag is only shown if the muscle is on the list or was in the cached one.
+function applyPendingChanges(
+  list: TightMuscle[],
+  pending: OutboxEntry[],
+  cached: TightMuscle[]
+): TightMuscle[] {
+  const changes = pending
+    .filter(
+      (entry): entry is Extract<OutboxEntry, { kind: 'tight_muscle' }> =>
+        entry.kind === 'tight_muscle'
+    )
+    .sort((a, b) => a.updated_at.localeCompare(b.updated_at))
+
+  return changes.reduce((current, entry) => {
+    const { body_muscle_id, section, flagged_at, cleared_at } = entry.data
+    const others = current.filter(tight => tight.body_muscle_id !== body_muscle_id)
+    if (cleared_at) return others
+
+    const muscleName = [...current, ...cached].find(
+      tight => tight.body_muscle_id === body_muscle_id
+    )?.muscle_name
+    if (!muscleName) return current
+
+    return [{ body_muscle_id, muscle_name: muscleName, section, flagged_at, cleared_at }, ...others]
+  }, list)
+}
+
+/**
+ * The user's "Recently tight" list. Changes go through the offline outbox and show straight
+ * away, with or without a connection.
+ */
+export const useTightMuscles = () => {
+  const { user, session } = useAuth()
+  const { data, loading, error } = useQuery(
+    user && session ? queryKeys.tightMuscles(user.id) : null,
+    async () => {
+      const tightMuscles = await getTightMuscles(session!.access_token)
+      if (!tightMuscles) throw new Error('Failed to load your tight muscles')
+
+      // Changes still waiting in the outbox are newer than the server's list
+      const pending = await getOutboxEntries(user!.id).catch(() => [])
+      const cached = getQueryState<TightMuscle[]>(queryKeys.tightMuscles(user!.id)).data
+      return applyPendingChanges(tightMuscles, pending, cached ?? NO_TIGHT_MUSCLES)
+    },
+    { staleTime: USER_STALE_TIME, persist: true }
+  )
+
+  // Applies a change to the cached list so it's shown before the outbox has synced
+  const updateList = useCallback(
+    (update: (current: TightMuscle[]) => TightMuscle[]) => {
+      if (!user) return
+      const key = queryKeys.tightMuscles(user.id)
+      setQueryData(key, update(getQueryState<TightMuscle[]>(key).data ?? NO_TIGHT_MUSCLES))
+    },
+    [user]
+  )
+
+  // Adds a muscle to the list, or moves it to the top if it's already there
+  const flagMuscle = useCallback(
+    async (muscle: { id: number; name: string }, section: TightMuscleSection) => {
+      if (!user) throw new Error('Not signed in')
+
+      const flaggedAt = new Date().toISOString()
+      await queueChange(user.id, {
+        kind: 'tight_muscle',
+        data: { body_muscle_id: muscle.id, section, flagged_at: flaggedAt, cleared_at: null },
+      })
+
+      updateList(current => [
+        {
+          body_muscle_id: muscle.id,
+          muscle_name: muscle.name,
+          section,
+          flagged_at: flaggedAt,
+          cleared_at: null,
+        },
+        ...current.filter(tight => tight.body_muscle_id !== muscle.id),
+      ])
+    },
+    [user, updateList]
+  )
+
+  // Takes a muscle off the list once it no longer feels tight
+  const clearMuscle = useCallback(
+    async (muscle: TightMuscle) => {
+      if (!user) throw new Error('Not signed in')
+
+      await queueChange(user.id, {
+        kind: 'tight_muscle',
+        data: {
+          body_muscle_id: muscle.body_muscle_id,
+          section: muscle.section,
+          flagged_at: muscle.flagged_at,
+          cleared_at: new Date().toISOString(),
+        },
+      })
+
+      updateList(current => current.filter(tight => tight.body_muscle_id !== muscle.body_muscle_id))
+    },
+    [user, updateList]
+  )
+
+  return {
+    tightMuscles: data ?? NO_TIGHT_MUSCLES,
+    loading,
+    error: error ? 'Failed to load your tight muscles' : null,
+    flagMuscle,
+    clearMuscle,
+  }
+}
@@ -1,70 +1,43 @@
-import { useState, useEffect } from 'react'
+import { useMemo } from 'react'
 import { useAuth } from '@/components/auth/auth-provider'
 import { getUserTrainingDays } from '@/app/strengthen/actions'
-import { useCache } from './use-cache'
-import { CACHE_KEYS } from '@/lib/cache-constants'
-
-export const useTrainingDays = (category: 'strengthen' | 'recover' = 'strengthen') => {
-  const { user } = useAuth()
-  const cacheKey = category === 'recover' ? CACHE_KEYS.RECOVER_DAYS : CACHE_KEYS.TRAINING_DAYS
-  const { getCachedData, setCachedData } = useCache<number[]>(cacheKey)
-  const [days, setDays] = useState<number[]>(() => (user ? getCachedData(user.id) || [] : []))
-  const [loading, setLoading] = useState(!days.length)
-  const [error, setError] = useState<string | null>(null)
-
-  useEffect(() => {
-    let retryCount = 0
-    let mounted = true
-
-    const fetchTrainingDays = async () => {
-      if (!user) {
-        setError('Please sign in to view your training days')
-        setLoading(false)
-        return
-      }
-
-      // Check cache first
-      const cached = getCachedData(user.id)
-      if (cached) {
-        setDays(cached)
-        setLoading(false)
-        return
-      }
-
-      try {
-        setLoading(true)
-        setError(null)
-
-        const trainingDays = await getUserTrainingDays(user.id, category)
-
-        if (!mounted) return
-
-        setCachedData(trainingDays, user.id)
-        setDays(trainingDays)
-      } catch (err) {
-        console.error('Error fetching training days:', err)
-
-        if (!mounted) return
-
-        if (retryCount < 3) {
-          retryCount++
-          setTimeout(fetchTrainingDays, 1000 * retryCount)
-        } else {
-          setError('Failed to load training days')
-        }
-      } finally {
-        if (mounted) {
-          setLoading(false)
-        }
-      }
-    }
-
-    fetchTrainingDays()
-
-    return () => {
-      mounted = false
-    }
-  }, [user, category])
-
-  return { days, loading, error }
+import { useQuery } from './use-query'
+import { queryKeys, USER_STALE_TIME } from '@/lib/query-keys'
+import { getOfflineDays } from '@/lib/offline-days'
+import type { TrainingSection } from '@/lib/sections'
+
+const NO_DAYS: number[] = []
+
+export const useTrainingDays = (category: TrainingSection = 'strengthen') => {
+  const { user, session } = useAuth()
+  const { data, loading, error } = useQuery(
+    user && session ? queryKeys.trainingDays(user.id, category) : null,
+    () => getUserTrainingDays(session!.access_token, category),
+    { staleTime: USER_STALE_TIME, persist: true }
+  )
+
+  // Without a connection, the days saved for offline use are all that can be opened
+  const offlineDays = useMemo(
+    () =>
+      user && error
+        ? getOfflineDays(user.id, category)
+            .map(day => day.dayId)
+            .sort((a, b) => a - b)
+        : NO_DAYS,
+    [user, category, error]
+  )
+
+  if (!user) {
+    return { days: NO_DAYS, loading: false, error: 'Please sign in to view your training days' }
+  }
+
+  if (data === undefined && offlineDays.length > 0) {
+    return { days: offlineDays, loading: false, error: null }
+  }
+
+  return {
+    days: data ?? NO_DAYS,
+    loading,
+    error: error ? 'Failed to load training days' : null,
+  }
 }
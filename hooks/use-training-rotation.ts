@@ -0,0 +1,56 @@
+import { useState, useEffect, useMemo } from 'react'
+import { useAuth } from '@/components/auth/auth-provider'
+import { getTrainingDayHistory } from '@/app/strengthen/actions'
+import { useWorkoutSession } from '@/contexts/workout-session-context'
+import { getRotationStatus } from '@/lib/training-rotation'
+import type { TrainingSection } from '@/lib/sections'
+import { useTrainingDays } from './use-training-days'
+
+export const useTrainingRotation = (category: TrainingSection = 'strengthen') => {
+  const { user, session: authSession } = useAuth()
+  const accessToken = authSession?.access_token
+  const { session, isLoading: sessionLoading } = useWorkoutSession()
+  const { days, loading: daysLoading, error } = useTrainingDays(category)
+  const [history, setHistory] = useState<number[]>([])
+  const [historyLoading, setHistoryLoading] = useState(true)
+
+  // The session in progress is today's choice, not part of the completed rotation
+  const activeSessionId = session?.id
+
+  useEffect(() => {
+    let mounted = true
+
+    const fetchHistory = async () => {
+      if (!user || !accessToken) {
+        setHistoryLoading(false)
+        return
+      }
+      if (sessionLoading) return
+
+      try {
+        setHistoryLoading(true)
+        const dayHistory = await getTrainingDayHistory(accessToken, category, activeSessionId)
+        if (mounted) setHistory(dayHistory)
+      } catch (err) {
+        console.error('Error fetching training day history:', err)
+      } finally {
+        if (mounted) setHistoryLoading(false)
+      }
+    }
+
+    fetchHistory()
+
+    return () => {
+      mounted = false
+    }
+  }, [user, accessToken, category, activeSessionId, sessionLoading])
+
+  const status = useMemo(() => getRotationStatus(days, history), [days, history])
+
+  return {
+    days,
+    ...status,
+    loading: daysLoading || historyLoading,
+    error,
+  }
+}
@@ -1,192 +1,224 @@
-import { useState, useEffect } from 'react'
-import { useCache } from './use-cache'
-import { CACHE_KEYS } from '@/lib/cache-constants'
+import { useMemo } from 'react'
+import { format } from 'date-fns'
+import { useAuth } from '@/components/auth/auth-provider'
+import { useQuery } from './use-query'
+import { queryKeys, USER_STALE_TIME } from '@/lib/query-keys'
+import { getSwapInForce } from '@/lib/exercise-swaps'
+import type { TrainingSection } from '@/lib/sections'
+import type { SwapScope } from '@/lib/types'
+
+// An exercise as shown on a training day
+export interface DayExercise {
+  id: number
+  name: string
+  image_url: string | null
+  description: string | null
+  exercise_group: number | null
+  kit?: number | null
+  body_muscle?: number | null
+  kit_info?: {
+    id: number
+    name: string
+  } | null
+  muscle_info?: {
+    id: number
+    name: string
+    body_section: number
+    image_url: string | null
+  } | null
+  group: {
+    id: number
+    name: string
+    image_url: string
+    body_section: number
+    body_section_name: string | null
+  } | null
+}
+
+// The user's swap of a day exercise for another from its group
+export interface DayExerciseSwap {
+  id: number
+  scope: SwapScope
+  swap_date: string
+  reason: string
+  created_at: string
+  exercise: DayExercise | null
+}
 
 export interface UserDayExercise {
   id: number
   day_id: number
   exercise_id: number
   user_id: string
-  exercise: {
+  // The exercise to do: the swapped-in one while a swap is in force, else the coach's
+  exercise: DayExercise | null
+  // The exercise the coach assigned
+  assigned_exercise: DayExercise | null
+  // The swap in force today, if any
+  swap: DayExerciseSwap | null
+  // Swaps not yet restored, newest first
+  swaps?: DayExerciseSwap[]
+}
+
+// Type for the raw API response
+interface ApiDayExercise {
+  id: number
+  name: string
+  image_url: string | null
+  ex_description: string | null
+  exercise_group: number | null
+  kit?: number | null
+  body_muscle?: number | null
+  exercise_kit?: {
+    id: number
+    name: string
+  } | null
+  body_muscles?: {
     id: number
     name: string
+    body_section: number
     image_url: string | null
-    description: string | null
-    exercise_group: number | null
-    kit?: number | null
-    body_muscle?: number | null
-    kit_info?: {
-      id: number
-      name: string
-    } | null
-    muscle_info?: {
-      id: number
-      name: string
-      body_section: number
-      image_url: string | null
-    } | null
-    group: {
-      id: number
+  } | null
+  exercise_groups?: {
+    id: number
+    name: string
+    image_url: string
+    body_sec: number
+    exercise_body_section?: {
       name: string
-      image_url: string
-      body_section: number
-      body_section_name: string | null
     } | null
   } | null
 }
 
-// Type for the raw API response
 interface ApiUserDayExercise {
   id: number
   day_id: number
   exercise_id: number
   user_id: string
-  exercises: {
+  exercises: ApiDayExercise | null
+  exercise_swaps?: {
     id: number
-    name: string
-    image_url: string | null
-    ex_description: string | null
-    exercise_group: number | null
-    kit?: number | null
-    body_muscle?: number | null
-    exercise_kit?: {
-      id: number
-      name: string
-    } | null
-    body_muscles?: {
-      id: number
-      name: string
-      body_section: number
-      image_url: string | null
-    } | null
-    exercise_groups?: {
-      id: number
-      name: string
-      image_url: string
-      body_sec: number
-      exercise_body_section?: {
-        name: string
-      } | null
-    } | null
-  } | null
+    scope: SwapScope
+    swap_date: string
+    reason: string
+    created_at: string
+    replacement: ApiDayExercise | null
+  }[]
 }
 
-export const useUserDayExercises = (userId: string | undefined, dayId: number, category: 'strengthen' | 'recover' = 'strengthen') => {
-  const [exercises, setExercises] = useState<UserDayExercise[]>([])
-  const [loading, setLoading] = useState(true)
-  const [error, setError] = useState<string | null>(null)
-
-  // Create a unique cache key for this user, day, and category combination
-  const cacheKey = `${CACHE_KEYS.USER_DAY_EXERCISES}-${userId}-${dayId}-${category}`
-  const { getCachedData, setCachedData, clearCache } = useCache<UserDayExercise[]>(cacheKey)
-
-  useEffect(() => {
-    let mounted = true
-
-    const loadUserDayExercises = async () => {
-      if (!userId || !dayId) {
-        setLoading(false)
-        return
+const toDayExercise = (exercise: ApiDayExercise | null): DayExercise | null =>
+  exercise
+    ? {
+        id: exercise.id,
+        name: exercise.name,
+        image_url: exercise.image_url,
+        description: exercise.ex_description,
+        exercise_group: exercise.exercise_group,
+        kit: exercise.kit,
+        body_muscle: exercise.body_muscle,
+        kit_info: exercise.exercise_kit,
+        muscle_info: exercise.body_muscles,
+        group: exercise.exercise_groups
+          ? {
+              id: exercise.exercise_groups.id,
+              name: exercise.exercise_groups.name,
+              image_url: exercise.exercise_groups.image_url,
+              body_section: exercise.exercise_groups.body_sec,
+              body_section_name: exercise.exercise_groups.exercise_body_section?.name || null,
+            }
+          : null,
       }
+    : null
+
+/**
+ * The API URL for a user's day, shared with offline saving so the service worker caches the
+ * exact request this hook makes
+ */
+export const getUserDayExercisesUrl = (
+  userId: string,
+  dayId: number,
+  category: TrainingSection = 'strengthen'
+) => `/api/user-day-exercises?userId=${userId}&dayId=${dayId}&category=${category}`
+
+const NO_EXERCISES: UserDayExercise[] = []
+
+async function fetchUserDayExercises(
+  accessToken: string,
+  userId: string,
+  dayId: number,
+  category: TrainingSection
+): Promise<UserDayExercise[]> {
+  const response = await fetch(getUserDayExercisesUrl(userId, dayId, category), {
+    headers: { Authorization: `Bearer ${accessToken}` },
+  })
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}))
+    console.error('API error:', errorData)
+    throw new Error(errorData.error || `Failed to fetch user day exercises: ${response.status}`)
+  }
 
-      try {
-        // Check cache first
-        const cached = getCachedData()
-        if (cached) {
-          setExercises(cached)
-          setLoading(false)
-          return
-        }
-
-        // If no cache or expired, fetch from API
-        const response = await fetch(`/api/user-day-exercises?userId=${userId}&dayId=${dayId}&category=${category}`)
+  const apiData: ApiUserDayExercise[] = await response.json()
 
-        if (!response.ok) {
-          const errorData = await response.json().catch(() => ({}))
-          console.error('API error:', errorData)
-          throw new Error(
-            errorData.error || `Failed to fetch user day exercises: ${response.status}`
-          )
-        }
-
-        const apiData: ApiUserDayExercise[] = await response.json()
+  // Validate the data
+  if (!Array.isArray(apiData)) {
+    console.error('Invalid API response format:', apiData)
+    throw new Error('Invalid response format from API')
+  }
 
-        // Validate the data
-        if (!Array.isArray(apiData)) {
-          console.error('Invalid API response format:', apiData)
-          throw new Error('Invalid response format from API')
-        }
+  // Transform API response to match expected interface; swaps are applied when shown
+  return apiData.map(item => ({
+    id: item.id,
+    day_id: item.day_id,
+    exercise_id: item.exercise_id,
+    user_id: item.user_id,
+    exercise: toDayExercise(item.exercises),
+    assigned_exercise: toDayExercise(item.exercises),
+    swap: null,
+    swaps: (item.exercise_swaps || []).map(swap => ({
+      id: swap.id,
+      scope: swap.scope,
+      swap_date: swap.swap_date,
+      reason: swap.reason,
+      created_at: swap.created_at,
+      exercise: toDayExercise(swap.replacement),
+    })),
+  }))
+}
 
-        // Transform API response to match expected interface
-        const transformedData: UserDayExercise[] = apiData.map(item => ({
-          id: item.id,
-          day_id: item.day_id,
-          exercise_id: item.exercise_id,
-          user_id: item.user_id,
-          exercise: item.exercises
-            ? {
-                id: item.exercises.id,
-                name: item.exercises.name,
-                image_url: item.exercises.image_url,
-                description: item.exercises.ex_description,
-                exercise_group: item.exercises.exercise_group,
-                kit: item.exercises.kit,
-                body_muscle: item.exercises.body_muscle,
-                kit_info: item.exercises.exercise_kit,
-                muscle_info: item.exercises.body_muscles,
-                group: item.exercises.exercise_groups
-                  ? {
-                      id: item.exercises.exercise_groups.id,
-                      name: item.exercises.exercise_groups.name,
-                      image_url: item.exercises.exercise_groups.image_url,
-                      body_section: item.exercises.exercise_groups.body_sec,
-                      body_section_name:
-                        item.exercises.exercise_groups.exercise_body_section?.name || null,
-                    }
-                  : null,
-              }
-            : null,
-        }))
-
-        if (!mounted) return
-
-        setExercises(transformedData)
-        setCachedData(transformedData)
-      } catch (error) {
-        console.error('Error loading user day exercises:', error)
-
-        if (!mounted) return
-
-        setError(error instanceof Error ? error.message : 'Failed to load user day exercises')
-
-        // If API fails, try to use cached data even if expired
-        const cached = getCachedData()
-        if (cached) {
-          setExercises(cached)
-        }
-      } finally {
-        if (mounted) {
-          setLoading(false)
+export const useUserDayExercises = (
+  userId: string | undefined,
+  dayId: number,
+  category: TrainingSection = 'strengthen'
+) => {
+  const { session } = useAuth()
+  const { data, loading, error, refetch } = useQuery(
+    session && userId && dayId ? queryKeys.userDayExercises(userId, dayId, category) : null,
+    () => fetchUserDayExercises(session!.access_token, userId!, dayId, category),
+    { staleTime: USER_STALE_TIME, persist: true }
+  )
+
+  // A 'today' swap ends at midnight where the user is, so swaps are applied at render
+  const today = format(new Date(), 'yyyy-MM-dd')
+  const exercises = useMemo(
+    () =>
+      (data ?? NO_EXERCISES).map(entry => {
+        const swap = getSwapInForce(entry.swaps ?? [], today)
+        // Entries cached before swaps were added only have exercise
+        return {
+          ...entry,
+          exercise: swap?.exercise ?? entry.assigned_exercise ?? entry.exercise,
+          assigned_exercise: entry.assigned_exercise ?? entry.exercise,
+          swap,
         }
-      }
-    }
-
-    loadUserDayExercises()
-
-    return () => {
-      mounted = false
-    }
-  }, [userId, dayId, category]) // Only depend on userId, dayId, and category
-
-  const clearCacheAndReload = () => {
-    clearCache()
-    window.location.reload()
-  }
+      }),
+    [data, today]
+  )
 
   return {
     exercises,
     loading,
     error,
-    clearCacheAndReload,
+    refetch,
   }
 }
@@ -1,5 +1,36 @@
 import { supabaseServer } from '@/lib/supabase'
-import type { ExerciseWithLabels } from '@/lib/types'
+import type { Database, ExerciseMuscle, ExerciseWithLabels } from '@/lib/types'
+
+// Exercise columns plus the muscles each one works
+const EXERCISE_WITH_MUSCLES = '*, exercise_muscles(body_muscle_id, role)'
+
+// An exercises row with its muscles, as selected with EXERCISE_WITH_MUSCLES
+type ExerciseWithMusclesRow = Database['public']['tables']['exercises']['Row'] & {
+  exercise_muscles: ExerciseMuscle[]
+}
+
+// Default image formatter
+const defaultImageFormatter = (url: string | null): string =>
+  url && (url.startsWith('http') || url.startsWith('/'))
+    ? url
+    : '/placeholder.svg?height=200&width=300'
+
+// Transform to the expected format
+const formatExercise =
+  (imageFormatter: (url: string | null) => string) =>
+  (exercise: ExerciseWithMusclesRow): ExerciseWithLabels => ({
+    id: exercise.id,
+    name: exercise.name,
+    image: imageFormatter(exercise.image_url),
+    description: exercise.ex_description || 'No description available',
+    video_url: exercise.video_url || null,
+    video_url_2: exercise.video_url_2 || null,
+    video_url_3: exercise.video_url_3 || null,
+    body_muscle: exercise.body_muscle || null,
+    kit: exercise.kit ?? null,
+    muscles: exercise.exercise_muscles || [],
+    labels: [],
+  })
 
 /**
  * Fetches exercises from Supabase by category ID and formats them consistently
@@ -15,9 +46,10 @@ export async function fetchExercisesByCategory(
     // Query the database
     const { data: exercises, error } = await supabaseServer
       .from('exercises')
-      .select('*')
+      .select(EXERCISE_WITH_MUSCLES)
       .eq('category_id', categoryId)
       .order('sort_order')
+      .overrideTypes<ExerciseWithMusclesRow[], { merge: false }>()
 
     if (error) {
       console.error(`API error fetching exercises for category ${categoryId}:`, error)
@@ -28,29 +60,54 @@ export async function fetchExercisesByCategory(
       return []
     }
 
-    // Default image formatter
-    const defaultImageFormatter = (url: string | null): string =>
-      url && (url.startsWith('http') || url.startsWith('/'))
-        ? url
-        : '/placeholder.svg?height=200&width=300'
-
-    // Use the provided image formatter or the default one
-    const imageFormatter = formatImageFn || defaultImageFormatter
-
-    // Transform to the expected format
-    return exercises.map(exercise => ({
-      id: exercise.id,
-      name: exercise.name,
-      image: imageFormatter(exercise.image_url),
-      description: exercise.ex_description || 'No description available',
-      video_url: exercise.video_url || null,
-      video_url_2: exercise.video_url_2 || null,
-      video_url_3: exercise.video_url_3 || null,
-      body_muscle: exercise.body_muscle || null,
-      labels: [],
-    }))
+    return exercises.map(formatExercise(formatImageFn || defaultImageFormatter))
   } catch (error) {
     console.error(`Unexpected error fetching exercises for category ${categoryId}:`, error)
     return []
   }
 }
+
+/**
+ * Fetches the exercises that work any of the given muscles, as a primary or secondary muscle
+ * @param muscleIds IDs of the body muscles to match
+ * @param categoryId Optional UUID of the category to limit results to
+ * @returns Formatted exercises in category order, or null on error
+ */
+export async function fetchExercisesByMuscles(
+  muscleIds: number[],
+  categoryId?: string
+): Promise<ExerciseWithLabels[] | null> {
+  try {
+    if (muscleIds.length === 0) return []
+
+    const { data: links, error: linksError } = await supabaseServer
+      .from('exercise_muscles')
+      .select('exercise_id')
+      .in('body_muscle_id', muscleIds)
+
+    if (linksError) {
+      console.error(`API error fetching exercises for muscles ${muscleIds.join(', ')}:`, linksError)
+      return null
+    }
+
+    const exerciseIds = [...new Set((links || []).map(link => link.exercise_id))]
+    if (exerciseIds.length === 0) return []
+
+    let query = supabaseServer.from('exercises').select(EXERCISE_WITH_MUSCLES).in('id', exerciseIds)
+    if (categoryId) query = query.eq('category_id', categoryId)
+
+    const { data: exercises, error } = await query
+      .order('sort_order')
+      .overrideTypes<ExerciseWithMusclesRow[], { merge: false }>()
+
+    if (error) {
+      console.error(`API error fetching exercises for muscles ${muscleIds.join(', ')}:`, error)
+      return null
+    }
+
+    return (exercises || []).map(formatExercise(defaultImageFormatter))
+  } catch (error) {
+    console.error(`Unexpected error fetching exercises for muscles ${muscleIds.join(', ')}:`, error)
+    return null
+  }
+}
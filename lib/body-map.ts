@@ -0,0 +1,151 @@
+// Geometry for the front and back body map. Each body_muscles row names the region it is
+// drawn in with its map_region column, so new muscles only need a row, not new shapes.
+
+export type BodyMapView = 'front' | 'back'
+
+export interface BodyMapEllipse {
+  cx: number
+  cy: number
+  rx: number
+  ry: number
+  rotate?: number
+}
+
+export interface BodyMapRegion {
+  id: string
+  label: string
+  view: BodyMapView
+  shapes: BodyMapEllipse[]
+}
+
+// Both figures are drawn in a 100 × 200 box, centred on x = 50
+export const BODY_MAP_VIEWBOX = '0 0 100 200'
+
+// Mirror a shape onto the other side of the body
+const bilateral = (shape: BodyMapEllipse): BodyMapEllipse[] => [
+  shape,
+  { ...shape, cx: 100 - shape.cx, rotate: shape.rotate ? -shape.rotate : undefined },
+]
+
+// Head, torso, arms and legs drawn behind the muscle regions
+export const BODY_MAP_SILHOUETTE: BodyMapEllipse[] = [
+  { cx: 50, cy: 14, rx: 9, ry: 11 },
+  { cx: 50, cy: 30, rx: 6, ry: 5 },
+  { cx: 50, cy: 60, rx: 18, ry: 30 },
+  ...bilateral({ cx: 27, cy: 62, rx: 5, ry: 28, rotate: 8 }),
+  ...bilateral({ cx: 42, cy: 132, rx: 8, ry: 50 }),
+]
+
+export const BODY_MAP_REGIONS: BodyMapRegion[] = [
+  // Front
+  { id: 'neck', label: 'Neck', view: 'front', shapes: [{ cx: 50, cy: 29, rx: 5, ry: 4 }] },
+  {
+    id: 'front-delts',
+    label: 'Front shoulders',
+    view: 'front',
+    shapes: bilateral({ cx: 33, cy: 37, rx: 6, ry: 5 }),
+  },
+  {
+    id: 'chest',
+    label: 'Chest',
+    view: 'front',
+    shapes: bilateral({ cx: 42, cy: 45, rx: 8, ry: 6 }),
+  },
+  {
+    id: 'biceps',
+    label: 'Biceps',
+    view: 'front',
+    shapes: bilateral({ cx: 27, cy: 53, rx: 4, ry: 9, rotate: 8 }),
+  },
+  {
+    id: 'forearms',
+    label: 'Forearms',
+    view: 'front',
+    shapes: bilateral({ cx: 24, cy: 76, rx: 3.5, ry: 10, rotate: 8 }),
+  },
+  { id: 'abs', label: 'Abs', view: 'front', shapes: [{ cx: 50, cy: 65, rx: 6, ry: 12 }] },
+  {
+    id: 'obliques',
+    label: 'Obliques',
+    view: 'front',
+    shapes: bilateral({ cx: 39, cy: 67, rx: 3, ry: 8 }),
+  },
+  {
+    id: 'hip-flexors',
+    label: 'Hip flexors',
+    view: 'front',
+    shapes: bilateral({ cx: 42, cy: 85, rx: 5, ry: 3, rotate: 30 }),
+  },
+  {
+    id: 'adductors',
+    label: 'Adductors',
+    view: 'front',
+    shapes: bilateral({ cx: 46, cy: 102, rx: 2.5, ry: 10 }),
+  },
+  {
+    id: 'quads',
+    label: 'Quads',
+    view: 'front',
+    shapes: bilateral({ cx: 40, cy: 108, rx: 5.5, ry: 17 }),
+  },
+  {
+    id: 'tibialis',
+    label: 'Shins',
+    view: 'front',
+    shapes: bilateral({ cx: 41, cy: 150, rx: 3.5, ry: 13 }),
+  },
+
+  // Back
+  { id: 'traps', label: 'Traps', view: 'back', shapes: [{ cx: 50, cy: 35, rx: 10, ry: 6 }] },
+  {
+    id: 'rear-delts',
+    label: 'Rear shoulders',
+    view: 'back',
+    shapes: bilateral({ cx: 33, cy: 38, rx: 6, ry: 5 }),
+  },
+  {
+    id: 'triceps',
+    label: 'Triceps',
+    view: 'back',
+    shapes: bilateral({ cx: 27, cy: 53, rx: 4, ry: 9, rotate: 8 }),
+  },
+  { id: 'lats', label: 'Lats', view: 'back', shapes: bilateral({ cx: 41, cy: 54, rx: 6, ry: 11 }) },
+  {
+    id: 'lower-back',
+    label: 'Lower back',
+    view: 'back',
+    shapes: [{ cx: 50, cy: 74, rx: 7, ry: 7 }],
+  },
+  {
+    id: 'glutes',
+    label: 'Glutes',
+    view: 'back',
+    shapes: bilateral({ cx: 43, cy: 90, rx: 7, ry: 7 }),
+  },
+  {
+    id: 'hamstrings',
+    label: 'Hamstrings',
+    view: 'back',
+    shapes: bilateral({ cx: 41, cy: 112, rx: 5.5, ry: 16 }),
+  },
+  {
+    id: 'calves',
+    label: 'Calves',
+    view: 'back',
+    shapes: bilateral({ cx: 41, cy: 148, rx: 4.5, ry: 12 }),
+  },
+]
+
+const REGION_IDS = new Set(BODY_MAP_REGIONS.map(region => region.id))
+
+// The muscle drawn in each region. A region shows the first muscle that names it, so any others
+// (and muscles with no region) need to be offered some other way
+export const getRegionMuscles = <T extends { map_region: string | null }>(muscles: T[]) => {
+  const map = new Map<string, T>()
+  muscles.forEach(muscle => {
+    if (muscle.map_region && REGION_IDS.has(muscle.map_region) && !map.has(muscle.map_region)) {
+      map.set(muscle.map_region, muscle)
+    }
+  })
+  return map
+}
@@ -1,11 +1,22 @@
-export const CACHE_DURATION = 24 * 60 * 60 * 1000 // 24 hours
-
 export const CACHE_KEYS = {
-  TRAINING_DAYS: 'training-days-cache',
-  RECOVER_DAYS: 'recover-days-cache',
-  MOBILISE_EXERCISES: 'mobilise-exercises',
-  USER_LIMITATIONS: 'user-limitations',
-  STRETCH_EXERCISES: 'stretch-exercises',
-  BODY_MUSCLES: 'body-muscles',
-  USER_DAY_EXERCISES: 'user-day-exercises',
+  GUIDED_PLAYER_SETTINGS: 'guided-player-settings',
+  REST_TIMER: 'rest-timer',
+  OFFLINE_DAYS: 'offline-days',
 } as const
+
+// Caches written before data moved to lib/query-client, removed on sign-out
+export const LEGACY_CACHE_KEYS = [
+  'training-days-cache',
+  'recover-days-cache',
+  'mobilise-exercises',
+  'body-muscles',
+  'day-image-cache',
+  'imbalance-image-cache',
+  'warm-up-exercises',
+  'warm-up-exercises-timestamp',
+  'workout-groups',
+  'workout-groups-timestamp',
+  // The auth session, before it moved to cookies
+  'fit-app-auth',
+] as const
+export const LEGACY_CACHE_PREFIXES = ['user-day-exercises-'] as const
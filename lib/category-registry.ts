@@ -0,0 +1,75 @@
+import { supabaseServer } from '@/lib/supabase'
+import { SECTIONS, SECTION_ALIASES, type Section } from '@/lib/sections'
+
+// How long the section -> category mapping is trusted before the table is read again
+const REGISTRY_TTL_MS = 5 * 60 * 1000 // 5 minutes
+
+export type CategoryRegistry = Partial<Record<Section, string>>
+
+let cached: { registry: CategoryRegistry; expiresAt: number } | null = null
+let pending: Promise<CategoryRegistry> | null = null
+
+// "Warm up", "warm-up" and "warmup" all refer to the same section
+const normalise = (name: string) => name.toLowerCase().replace(/[^a-z0-9]/g, '')
+
+/**
+ * Matches category rows to sections by name. A row named after the section wins over
+ * one named after a legacy alias, so renaming "workout" to "strengthen" needs no code change.
+ */
+function buildRegistry(categories: { id: string; name: string }[]): CategoryRegistry {
+  const byName = new Map(categories.map(category => [normalise(category.name), category.id]))
+  const registry: CategoryRegistry = {}
+
+  SECTIONS.forEach(section => {
+    const aliases = Object.keys(SECTION_ALIASES).filter(alias => SECTION_ALIASES[alias] === section)
+    const match = [section, ...aliases].map(normalise).find(name => byName.has(name))
+    if (match) registry[section] = byName.get(match)
+  })
+
+  return registry
+}
+
+/**
+ * Returns the section -> category id mapping, reading the categories table at most once
+ * per TTL and sharing one request between concurrent callers
+ */
+export async function getCategoryRegistry(): Promise<CategoryRegistry> {
+  if (cached && cached.expiresAt > Date.now()) return cached.registry
+
+  if (!pending) {
+    pending = (async () => {
+      try {
+        const { data, error } = await supabaseServer.from('categories').select('id, name')
+
+        if (error) {
+          console.error('Error loading categories:', error)
+          // Keep serving the last good mapping rather than failing every lookup
+          return cached?.registry || {}
+        }
+
+        const registry = buildRegistry(data || [])
+        cached = { registry, expiresAt: Date.now() + REGISTRY_TTL_MS }
+        return registry
+      } finally {
+        pending = null
+      }
+    })()
+  }
+
+  return pending
+}
+
+/**
+ * Resolves the categories row id for a section
+ * @returns The category id, or null if no row matches the section
+ */
+export async function getCategoryId(section: Section): Promise<string | null> {
+  const registry = await getCategoryRegistry()
+  const categoryId = registry[section] || null
+
+  if (!categoryId) {
+    console.error('Category not found for section:', section)
+  }
+
+  return categoryId
+}
@@ -0,0 +1,56 @@
+// Short beeps and buzzes marking timer events, for use while the screen isn't being watched
+export type Cue = 'countdown' | 'start' | 'end' | 'finish'
+
+const CUE_TONES: Record<Cue, { frequency: number; durationMs: number; repeat: number }> = {
+  countdown: { frequency: 660, durationMs: 120, repeat: 1 },
+  start: { frequency: 880, durationMs: 300, repeat: 1 },
+  end: { frequency: 520, durationMs: 200, repeat: 2 },
+  finish: { frequency: 880, durationMs: 200, repeat: 3 },
+}
+
+const CUE_VIBRATIONS: Record<Cue, number[]> = {
+  countdown: [50],
+  start: [200],
+  end: [150, 100, 150],
+  finish: [200, 100, 200, 100, 200],
+}
+
+let audioContext: AudioContext | null = null
+
+// Browsers only allow audio after a user gesture, so call this from a click handler first
+export function unlockCueAudio() {
+  if (typeof window === 'undefined' || !window.AudioContext) return
+
+  try {
+    audioContext = audioContext || new AudioContext()
+    if (audioContext.state === 'suspended') audioContext.resume()
+  } catch (error) {
+    console.error('Error starting cue audio:', error)
+  }
+}
+
+export function playCue(cue: Cue) {
+  if (!audioContext) return
+
+  const { frequency, durationMs, repeat } = CUE_TONES[cue]
+  const duration = durationMs / 1000
+
+  for (let i = 0; i < repeat; i++) {
+    const start = audioContext.currentTime + i * duration * 1.5
+    const oscillator = audioContext.createOscillator()
+    const gain = audioContext.createGain()
+
+    oscillator.frequency.value = frequency
+    gain.gain.setValueAtTime(0.2, start)
+    gain.gain.exponentialRampToValueAtTime(0.001, start + duration)
+    oscillator.connect(gain).connect(audioContext.destination)
+    oscillator.start(start)
+    oscillator.stop(start + duration)
+  }
+}
+
+export function vibrateCue(cue: Cue) {
+  if (typeof navigator !== 'undefined' && 'vibrate' in navigator) {
+    navigator.vibrate(CUE_VIBRATIONS[cue])
+  }
+}
@@ -0,0 +1,59 @@
+import { z } from 'zod'
+import type { ExerciseFormData } from '@/lib/types'
+
+// Form inputs send empty strings for cleared fields; store them as null
+const optionalText = (schema: z.ZodString) =>
+  z.preprocess(
+    value => (typeof value === 'string' && value.trim() === '' ? null : value),
+    schema.nullable()
+  )
+
+const optionalUrl = optionalText(z.string().trim().url('Must be a valid URL'))
+
+const optionalId = z.preprocess(
+  value => (value === '' || value === undefined ? null : value),
+  z.coerce.number().int().positive().nullable()
+)
+
+const optionalSeconds = z.preprocess(
+  value => (value === '' || value === undefined ? null : value),
+  z.coerce
+    .number()
+    .int('Use whole seconds')
+    .min(0, 'Must be 0 or more')
+    .max(600, 'Must be 10 minutes or less')
+    .nullable()
+)
+
+export const exerciseFormSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(200, 'Name is too long'),
+  description: optionalText(z.string().trim().max(5000, 'Description is too long')),
+  image_url: optionalUrl,
+  video_url: optionalUrl,
+  video_url_2: optionalUrl,
+  video_url_3: optionalUrl,
+  category_id: z.string().uuid('Choose a section'),
+  exercise_group: optionalId,
+  body_muscle: optionalId,
+  kit: optionalId,
+  rest_seconds: optionalSeconds,
+}) satisfies z.ZodType<ExerciseFormData, z.ZodTypeDef, unknown>
+
+// A group's default rest, edited on the coach group rest page
+export const groupRestSchema = z.object({ rest_seconds: optionalSeconds })
+
+// PATCH bodies may change any subset of fields
+export const exerciseUpdateSchema = exerciseFormSchema.partial()
+
+// New order for every exercise in a section, by id
+export const exerciseOrderSchema = z.object({
+  order: z.array(z.number().int().positive()).min(1),
+})
+
+/**
+ * Maps validated form data onto exercises table columns
+ */
+export function toExerciseColumns(data: Partial<ExerciseFormData>) {
+  const { description, ...columns } = data
+  return description === undefined ? columns : { ...columns, ex_description: description }
+}
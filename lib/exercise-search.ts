@@ -0,0 +1,54 @@
+import { z } from 'zod'
+import type { ExerciseSearchFilters } from '@/lib/types'
+
+export const DEFAULT_SEARCH_PAGE_SIZE = 20
+export const MAX_SEARCH_PAGE_SIZE = 50
+
+export const EXERCISE_SEARCH_SORTS = ['name', 'newest', 'section'] as const
+
+// Query strings send empty values for cleared filters; treat them as unset
+const optional = <T extends z.ZodTypeAny>(schema: T) =>
+  z.preprocess(value => (value === '' ? undefined : value), schema.optional())
+
+const id = z.coerce.number().int().positive()
+
+// Query string of GET /api/exercises/search
+export const exerciseSearchSchema = z.object({
+  q: optional(z.string().trim().max(100)),
+  section: optional(z.string()),
+  bodySection: optional(id),
+  group: optional(id),
+  muscles: optional(
+    z
+      .string()
+      .transform(value => value.split(',').map(Number))
+      .pipe(z.array(id).max(20))
+  ),
+  kit: optional(id),
+  sort: optional(z.enum(EXERCISE_SEARCH_SORTS)),
+  page: optional(z.coerce.number().int().min(1)),
+  pageSize: optional(z.coerce.number().int().min(1).max(MAX_SEARCH_PAGE_SIZE)),
+}) satisfies z.ZodType<ExerciseSearchFilters, z.ZodTypeDef, unknown>
+
+/**
+ * Turns search text into a prefix-matching tsquery, so results show up while a word is still
+ * being typed, e.g. "hip fle" -> "hip:* & fle:*"
+ * @returns The query, or null if the text has no searchable words
+ */
+export function toPrefixQuery(text: string): string | null {
+  const words = text
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean)
+  return words.length > 0 ? words.map(word => `${word}:*`).join(' & ') : null
+}
+
+// URL of a search, leaving out unset filters
+export function getExerciseSearchUrl(filters: ExerciseSearchFilters): string {
+  const params = new URLSearchParams()
+  Object.entries(filters).forEach(([key, value]) => {
+    if (value === undefined || value === '') return
+    params.set(key, Array.isArray(value) ? value.join(',') : String(value))
+  })
+  return `/api/exercises/search?${params}`
+}
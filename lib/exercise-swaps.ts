@@ -0,0 +1,26 @@
+import { z } from 'zod'
+import type { ExerciseSwapInput, SwapScope } from '@/lib/types'
+
+export const SWAP_SCOPES = ['today', 'permanent'] as const satisfies readonly SwapScope[]
+
+// Matches the reason check on the exercise_swaps table
+export const MAX_SWAP_REASON_LENGTH = 200
+
+export const exerciseSwapSchema = z.object({
+  user_day_exercise_id: z.number().int().positive(),
+  replacement_exercise_id: z.number().int().positive(),
+  scope: z.enum(SWAP_SCOPES),
+  swap_date: z.string().date(),
+  reason: z.string().trim().min(1, 'Please say why').max(MAX_SWAP_REASON_LENGTH),
+}) satisfies z.ZodType<ExerciseSwapInput, z.ZodTypeDef, unknown>
+
+/**
+ * The swap in force on a date, from a day exercise's unrestored swaps newest first. A 'today'
+ * swap only counts on its own date, so an older permanent swap shows through again after it.
+ */
+export function getSwapInForce<T extends { scope: SwapScope; swap_date: string }>(
+  swaps: T[],
+  date: string
+): T | null {
+  return swaps.find(swap => swap.scope === 'permanent' || swap.swap_date === date) ?? null
+}
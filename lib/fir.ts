@@ -0,0 +1,29 @@
+import { capitalizeFirstLetter } from '@/lib/text-utils'
+import type { FirLevel, MuscleFir } from '@/lib/types'
+
+// Ordered from least to most at risk
+export const FIR_LEVELS: FirLevel[] = ['low', 'moderate', 'high']
+
+export function isFirLevel(value: unknown): value is FirLevel {
+  return typeof value === 'string' && (FIR_LEVELS as string[]).includes(value)
+}
+
+/**
+ * Formats a FIR level for display, e.g. "FIR: High"
+ */
+export function formatFirLevel(level: FirLevel | null): string {
+  if (!level) return 'Unknown'
+  return `FIR: ${capitalizeFirstLetter(level)}`
+}
+
+/**
+ * Sorts muscles from most to least at risk, then by score and name
+ */
+export function sortByFir(muscles: MuscleFir[]): MuscleFir[] {
+  return [...muscles].sort(
+    (a, b) =>
+      FIR_LEVELS.indexOf(b.level) - FIR_LEVELS.indexOf(a.level) ||
+      (b.score ?? 0) - (a.score ?? 0) ||
+      a.muscle_name.localeCompare(b.muscle_name)
+  )
+}
@@ -0,0 +1,9 @@
+import type { GoalCategory } from '@/lib/types'
+
+// goal_category_id of each goal in the user_goal_notes table
+export const GOAL_CATEGORY_IDS: Record<GoalCategory, number> = {
+  pain: 1,
+  posture: 2,
+  performance: 3,
+  physique: 4,
+}
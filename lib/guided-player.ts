@@ -0,0 +1,96 @@
+export type GuidedSection = 'mobilise' | 'recover'
+
+export interface GuidedExercise {
+  id: number
+  name: string
+  image: string | null
+  description?: string | null
+}
+
+export interface GuidedPlayerSettings {
+  holdSeconds: number
+  bothSides: boolean
+  sound: boolean
+  vibration: boolean
+}
+
+export type GuidedSide = 'left' | 'right'
+
+export interface GuidedStep {
+  kind: 'prepare' | 'hold'
+  exercise: GuidedExercise
+  exerciseIndex: number
+  side: GuidedSide | null
+  seconds: number
+  // Set on the final hold of an exercise; finishing it completes the exercise
+  completesExercise: boolean
+}
+
+// Time to get into position before each exercise, and to swap sides mid-exercise
+export const PREPARE_SECONDS = 5
+
+// Mobilise asks for 15-30sec on each stretch, Recover for 20sec+
+export const HOLD_SECONDS_OPTIONS: Record<GuidedSection, number[]> = {
+  mobilise: [15, 20, 30, 45, 60],
+  recover: [20, 30, 45, 60],
+}
+
+export const DEFAULT_GUIDED_SETTINGS: Record<GuidedSection, GuidedPlayerSettings> = {
+  mobilise: { holdSeconds: 30, bothSides: true, sound: true, vibration: true },
+  recover: { holdSeconds: 30, bothSides: true, sound: true, vibration: true },
+}
+
+/**
+ * Checks settings saved on the device against a section's hold options, falling back to the
+ * section's default hold when the saved one isn't offered
+ */
+export function normaliseGuidedSettings(
+  settings: GuidedPlayerSettings,
+  section: GuidedSection
+): GuidedPlayerSettings {
+  return HOLD_SECONDS_OPTIONS[section].includes(settings.holdSeconds)
+    ? settings
+    : { ...settings, holdSeconds: DEFAULT_GUIDED_SETTINGS[section].holdSeconds }
+}
+
+/**
+ * Expands exercises into the timed steps the player runs through: a short prepare
+ * countdown, then a hold on each side (or a single hold when sides are off)
+ */
+export function buildGuidedSteps(
+  exercises: GuidedExercise[],
+  settings: Pick<GuidedPlayerSettings, 'holdSeconds' | 'bothSides'>
+): GuidedStep[] {
+  const sides: (GuidedSide | null)[] = settings.bothSides ? ['left', 'right'] : [null]
+
+  return exercises.flatMap((exercise, exerciseIndex) =>
+    sides.flatMap((side, sideIndex) => {
+      const isLastSide = sideIndex === sides.length - 1
+      const step = { exercise, exerciseIndex, side }
+
+      return [
+        { ...step, kind: 'prepare' as const, seconds: PREPARE_SECONDS, completesExercise: false },
+        {
+          ...step,
+          kind: 'hold' as const,
+          seconds: settings.holdSeconds,
+          completesExercise: isLastSide,
+        },
+      ]
+    })
+  )
+}
+
+// Label shown above the countdown, e.g. "Get ready · Left side". Mobilise stretches are
+// active (moving in and out of the stretch), so they aren't called holds.
+export function getStepLabel(step: GuidedStep, section: GuidedSection): string {
+  const action =
+    step.kind === 'prepare'
+      ? step.side === 'right'
+        ? 'Switch sides'
+        : 'Get ready'
+      : section === 'mobilise'
+        ? 'Stretch'
+        : 'Hold'
+  return step.side ? `${action} · ${step.side === 'left' ? 'Left' : 'Right'} side` : action
+}
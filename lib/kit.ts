@@ -0,0 +1,26 @@
+import { z } from 'zod'
+import type { Kit, KitProfile } from '@/lib/types'
+
+// Matches the name check on the kit_profiles table
+export const MAX_KIT_PROFILE_NAME_LENGTH = 50
+
+export const kitProfileSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(MAX_KIT_PROFILE_NAME_LENGTH),
+  kit_ids: z.array(z.number().int().positive()).max(100),
+}) satisfies z.ZodType<Omit<KitProfile, 'id'>, z.ZodTypeDef, unknown>
+
+/**
+ * Whether an exercise can be done with the kit in a profile. Exercises needing no kit always
+ * can, and without an active profile everything counts as available.
+ */
+export function isKitAvailable(
+  kitId: number | null | undefined,
+  profile: KitProfile | null | undefined
+): boolean {
+  return !kitId || !profile || profile.kit_ids.includes(kitId)
+}
+
+export function getKitName(kit: Kit[], kitId: number | null | undefined): string | null {
+  if (!kitId) return null
+  return kit.find(item => item.id === kitId)?.name ?? null
+}
@@ -0,0 +1,61 @@
+import { CACHE_KEYS } from '@/lib/cache-constants'
+import { getLocalStorage, setLocalStorage } from '@/lib/storage-utils'
+import type { TrainingSection } from '@/lib/sections'
+
+/**
+ * A training day the user has downloaded; its page, exercises and media are in the
+ * service worker's caches
+ */
+export interface OfflineDay {
+  userId: string
+  category: TrainingSection
+  dayId: number
+  imageUrl: string | null
+  savedAt: string
+}
+
+const isSameDay = (day: OfflineDay, userId: string, dayId: number, category: TrainingSection) =>
+  day.userId === userId && day.dayId === dayId && day.category === category
+
+/**
+ * Lists the days saved for offline use by a user, optionally for one section
+ */
+export function getOfflineDays(userId: string, category?: TrainingSection): OfflineDay[] {
+  return getLocalStorage<OfflineDay[]>(CACHE_KEYS.OFFLINE_DAYS, []).filter(
+    day => day.userId === userId && (!category || day.category === category)
+  )
+}
+
+export function getOfflineDay(
+  userId: string,
+  dayId: number,
+  category: TrainingSection
+): OfflineDay | null {
+  return getOfflineDays(userId).find(day => isSameDay(day, userId, dayId, category)) || null
+}
+
+export function saveOfflineDay(day: OfflineDay): void {
+  const others = getLocalStorage<OfflineDay[]>(CACHE_KEYS.OFFLINE_DAYS, []).filter(
+    saved => !isSameDay(saved, day.userId, day.dayId, day.category)
+  )
+  setLocalStorage(CACHE_KEYS.OFFLINE_DAYS, [...others, day])
+}
+
+/**
+ * Forgets a saved day. Its cached responses are left for the service worker to expire.
+ */
+export function removeOfflineDay(userId: string, dayId: number, category: TrainingSection): void {
+  setLocalStorage(
+    CACHE_KEYS.OFFLINE_DAYS,
+    getLocalStorage<OfflineDay[]>(CACHE_KEYS.OFFLINE_DAYS, []).filter(
+      day => !isSameDay(day, userId, dayId, category)
+    )
+  )
+}
+
+/**
+ * Forgets every saved day, e.g. on sign-out once their cached pages and data are deleted
+ */
+export function clearOfflineDays(): void {
+  setLocalStorage(CACHE_KEYS.OFFLINE_DAYS, [])
+}
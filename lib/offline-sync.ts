@@ -1,101 +1,177 @@
-import { getSupabaseBrowser } from "@/lib/supabase"
-import { getLocalStorage, setLocalStorage } from "@/lib/storage-utils"
-import type { OfflineWorkoutLog } from "@/lib/types"
-
-// Constants
-const OFFLINE_LOGS_KEY = "offline-workout-logs"
-
-// Save workout log (works online or offline)
-export async function saveWorkoutLog(log: Omit<OfflineWorkoutLog, "synced">) {
-  try {
-    // Check if online
-    if (navigator.onLine) {
-      const supabase = getSupabaseBrowser()
-      const { data: session } = await supabase.auth.getSession()
-
-      if (session.session) {
-        // We're online and authenticated, save directly to Supabase
-        const { error } = await supabase.from("workout_logs").insert({
-          user_id: session.session.user.id,
-          ...log,
-        })
-
-        if (error) throw error
-        return { success: true }
-      }
-    }
-
-    // If we're offline or not authenticated, save locally
-    const offlineLogs = getLocalStorage<OfflineWorkoutLog[]>(OFFLINE_LOGS_KEY, [])
-    offlineLogs.push({ ...log, synced: false })
-    setLocalStorage(OFFLINE_LOGS_KEY, offlineLogs)
+import { getSupabaseBrowser } from '@/lib/supabase'
+import {
+  countOutboxEntries,
+  getOutboxEntries,
+  markOutboxAttempts,
+  putOutboxEntry,
+  removeOutboxEntries,
+} from '@/lib/outbox'
+import type { OutboxEntry, OutboxOperation, SyncResult, SyncStatus } from '@/lib/types'
+
+// Changes sent per request to /api/sync
+const SYNC_BATCH_SIZE = 50
+
+// How often queued changes are retried while the app is open
+const SYNC_INTERVAL_MS = 30 * 1000
+
+let status: SyncStatus = { state: 'idle', pending: 0, lastSyncedAt: null }
+const listeners = new Set<() => void>()
+let flushing: Promise<void> | null = null
+
+const setStatus = (changes: Partial<SyncStatus>) => {
+  status = { ...status, ...changes }
+  listeners.forEach(listener => listener())
+}
 
-    return { success: true, offline: true }
-  } catch (error) {
-    console.error("Error saving workout log:", error)
+export const getSyncStatus = () => status
 
-    // Save locally as fallback
-    const offlineLogs = getLocalStorage<OfflineWorkoutLog[]>(OFFLINE_LOGS_KEY, [])
-    offlineLogs.push({ ...log, synced: false })
-    setLocalStorage(OFFLINE_LOGS_KEY, offlineLogs)
+export function subscribeSyncStatus(listener: () => void): () => void {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
 
-    return { success: true, offline: true, error }
+// Workout logs are each new rows; notes, tight muscles and mobility plans are one row per user
+// (and exercise, goal, muscle or day)
+function getOutboxKey(userId: string, operation: OutboxOperation, clientId: string): string {
+  switch (operation.kind) {
+    case 'workout_log':
+      return `workout_log:${clientId}`
+    case 'exercise_note':
+      return `exercise_note:${userId}:${operation.data.exercise_id}`
+    case 'goal_note':
+      return `goal_note:${userId}:${operation.data.category}`
+    case 'tight_muscle':
+      return `tight_muscle:${userId}:${operation.data.body_muscle_id}`
+    case 'mobility_plan':
+      return `mobility_plan:${userId}:${operation.data.plan_date}`
   }
 }
 
-// Sync offline logs when back online
-export async function syncOfflineLogs() {
+async function refreshPending(userId: string) {
   try {
-    if (!navigator.onLine) return { synced: 0 }
+    setStatus({ pending: await countOutboxEntries(userId) })
+  } catch (error) {
+    console.error('Error counting queued changes:', error)
+  }
+}
 
-    const supabase = getSupabaseBrowser()
-    const { data: session } = await supabase.auth.getSession()
+/**
+ * Saves a change to the outbox and tries to send it straight away. Resolves once the change
+ * is stored on the device, whether or not the app is online.
+ */
+export async function queueChange(userId: string, operation: OutboxOperation): Promise<void> {
+  const clientId = crypto.randomUUID()
+
+  await putOutboxEntry({
+    ...operation,
+    key: getOutboxKey(userId, operation, clientId),
+    client_id: clientId,
+    user_id: userId,
+    updated_at: new Date().toISOString(),
+    attempts: 0,
+  } as OutboxEntry)
+
+  await refreshPending(userId)
+  flushOutbox()
+}
 
-    if (!session.session) return { synced: 0 }
+/**
+ * Sends the signed-in user's queued changes to the server in batches. Concurrent calls share
+ * one run.
+ */
+export function flushOutbox(): Promise<void> {
+  if (!flushing) {
+    flushing = sendQueuedChanges()
+      .catch(error => console.error('Error in flushOutbox:', error))
+      .finally(() => {
+        flushing = null
+      })
+  }
+  return flushing
+}
 
-    const offlineLogs = getLocalStorage<OfflineWorkoutLog[]>(OFFLINE_LOGS_KEY, [])
-    const unsynced = offlineLogs.filter((log) => !log.synced)
+async function sendQueuedChanges() {
+  if (!navigator.onLine) {
+    setStatus({ state: 'offline' })
+    return
+  }
 
-    if (unsynced.length === 0) return { synced: 0 }
+  const {
+    data: { session },
+  } = await getSupabaseBrowser().auth.getSession()
+  if (!session) return
 
-    let syncedCount = 0
+  const userId = session.user.id
 
-    // Process each unsynced log
-    for (const log of unsynced) {
-      const { error } = await supabase.from("workout_logs").insert({
-        user_id: session.session.user.id,
-        exercise_id: log.exercise_id,
-        exercise_name: log.exercise_name,
-        exercise_type: log.exercise_type,
-        completed_at: log.completed_at,
+  try {
+    setStatus({ state: 'syncing' })
+
+    let batch = await getOutboxEntries(userId, SYNC_BATCH_SIZE)
+    while (batch.length > 0) {
+      const response = await fetch('/api/sync', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${session.access_token}`,
+        },
+        body: JSON.stringify({ entries: batch }),
       })
 
-      if (!error) {
-        // Mark as synced
-        log.synced = true
-        syncedCount++
+      if (!response.ok) {
+        await markOutboxAttempts(batch)
+        throw new Error(`Sync request failed with status ${response.status}`)
       }
-    }
 
-    // Update local storage with synced status
-    setLocalStorage(OFFLINE_LOGS_KEY, offlineLogs)
+      const result: SyncResult = await response.json()
+      // Older and invalid changes will never be saved, so stop retrying them
+      const done = new Set([...result.applied, ...result.stale, ...result.rejected])
+      await removeOutboxEntries(batch.filter(entry => done.has(entry.client_id)))
 
-    // Remove fully synced logs
-    const remainingLogs = offlineLogs.filter((log) => !log.synced)
-    setLocalStorage(OFFLINE_LOGS_KEY, remainingLogs)
+      const failed = batch.filter(entry => !done.has(entry.client_id))
+      if (failed.length > 0) {
+        await markOutboxAttempts(failed)
+        throw new Error(`${failed.length} queued changes could not be saved`)
+      }
 
-    return { synced: syncedCount }
+      batch = await getOutboxEntries(userId, SYNC_BATCH_SIZE)
+    }
+
+    setStatus({ state: 'idle', lastSyncedAt: new Date().toISOString() })
   } catch (error) {
-    console.error("Error syncing offline logs:", error)
-    return { synced: 0, error }
+    console.error('Error syncing queued changes:', error)
+    setStatus({ state: navigator.onLine ? 'error' : 'offline' })
+  } finally {
+    await refreshPending(userId)
   }
 }
 
-// Listen for online status changes to trigger sync
-export function setupOfflineSync() {
-  if (typeof window !== "undefined") {
-    window.addEventListener("online", () => {
-      syncOfflineLogs()
-    })
+/**
+ * Sends queued changes on start, when the connection returns, when the app comes back to
+ * the foreground and periodically while anything is waiting
+ * @returns A function that stops syncing
+ */
+export function startOfflineSync(): () => void {
+  const handleOnline = () => flushOutbox()
+  const handleOffline = () => setStatus({ state: 'offline' })
+  const handleVisibilityChange = () => {
+    if (document.visibilityState === 'visible') flushOutbox()
+  }
+
+  window.addEventListener('online', handleOnline)
+  window.addEventListener('offline', handleOffline)
+  document.addEventListener('visibilitychange', handleVisibilityChange)
+  const interval = setInterval(() => {
+    if (status.pending > 0) flushOutbox()
+  }, SYNC_INTERVAL_MS)
+
+  flushOutbox()
+
+  return () => {
+    window.removeEventListener('online', handleOnline)
+    window.removeEventListener('offline', handleOffline)
+    document.removeEventListener('visibilitychange', handleVisibilityChange)
+    clearInterval(interval)
   }
 }
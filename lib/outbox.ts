@@ -0,0 +1,110 @@
+import type { OutboxEntry } from '@/lib/types'
+
+// IndexedDB store for changes made while offline (or before they've reached the server)
+const DB_NAME = 'fir-outbox'
+const DB_VERSION = 1
+const STORE = 'entries'
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+const toPromise = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+
+const transactionDone = (transaction: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(transaction.error)
+    transaction.onabort = () => reject(transaction.error)
+  })
+
+function openOutbox(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION)
+
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE, { keyPath: 'key' })
+        store.createIndex('user_id', 'user_id')
+      }
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => reject(request.error)
+    }).catch(error => {
+      // Let the next call try again, e.g. after the user leaves private browsing
+      dbPromise = null
+      throw error
+    })
+  }
+
+  return dbPromise
+}
+
+/**
+ * Adds a change to the outbox, replacing any queued change with the same key
+ */
+export async function putOutboxEntry(entry: OutboxEntry): Promise<void> {
+  const db = await openOutbox()
+  const transaction = db.transaction(STORE, 'readwrite')
+  transaction.objectStore(STORE).put(entry)
+  await transactionDone(transaction)
+}
+
+/**
+ * Lists a user's queued changes, least-retried and oldest first
+ */
+export async function getOutboxEntries(userId: string, limit?: number): Promise<OutboxEntry[]> {
+  const db = await openOutbox()
+  const index = db.transaction(STORE).objectStore(STORE).index('user_id')
+  const entries: OutboxEntry[] = await toPromise(index.getAll(userId))
+
+  entries.sort((a, b) => a.attempts - b.attempts || a.updated_at.localeCompare(b.updated_at))
+  return limit === undefined ? entries : entries.slice(0, limit)
+}
+
+export async function countOutboxEntries(userId: string): Promise<number> {
+  const db = await openOutbox()
+  const index = db.transaction(STORE).objectStore(STORE).index('user_id')
+  return toPromise(index.count(userId))
+}
+
+/**
+ * Removes sent changes from the outbox. A change edited again while it was being sent has
+ * a new client_id and is kept for the next sync.
+ */
+export async function removeOutboxEntries(entries: OutboxEntry[]): Promise<void> {
+  await updateOutboxEntries(entries, () => null)
+}
+
+/**
+ * Counts a failed attempt against each change, so it's retried after the others
+ */
+export async function markOutboxAttempts(entries: OutboxEntry[]): Promise<void> {
+  await updateOutboxEntries(entries, stored => ({ ...stored, attempts: stored.attempts + 1 }))
+}
+
+async function updateOutboxEntries(
+  entries: OutboxEntry[],
+  update: (stored: OutboxEntry) => OutboxEntry | null
+): Promise<void> {
+  if (entries.length === 0) return
+
+  const db = await openOutbox()
+  const transaction = db.transaction(STORE, 'readwrite')
+  const store = transaction.objectStore(STORE)
+
+  entries.forEach(entry => {
+    const request = store.get(entry.key)
+    request.onsuccess = () => {
+      const stored: OutboxEntry | undefined = request.result
+      if (!stored || stored.client_id !== entry.client_id) return
+
+      const updated = update(stored)
+      if (updated) store.put(updated)
+      else store.delete(entry.key)
+    }
+  })
+
+  await transactionDone(transaction)
+}
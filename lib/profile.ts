@@ -0,0 +1,60 @@
+import { z } from 'zod'
+import type { FitnessLevel, GoalCategory, Profile, ProfileSettings } from '@/lib/types'
+
+export const AVATAR_BUCKET = 'avatars'
+export const MAX_AVATAR_BYTES = 2 * 1024 * 1024
+
+export const MAX_DISPLAY_NAME_LENGTH = 50
+
+// Matches the default_rest_seconds check on the profiles table
+export const MAX_DEFAULT_REST_SECONDS = 600
+
+export const FITNESS_LEVELS: { value: FitnessLevel; label: string }[] = [
+  { value: 'beginner', label: 'Beginner' },
+  { value: 'intermediate', label: 'Intermediate' },
+  { value: 'advanced', label: 'Advanced' },
+]
+
+export const TRAINING_GOALS: { value: GoalCategory; label: string }[] = [
+  { value: 'pain', label: 'Pain' },
+  { value: 'posture', label: 'Posture' },
+  { value: 'performance', label: 'Performance' },
+  { value: 'physique', label: 'Physique' },
+]
+
+// What a user without a profile row gets, matching the column defaults
+export const DEFAULT_PROFILE_SETTINGS: ProfileSettings = {
+  display_name: null,
+  weight_unit: 'kg',
+  default_rest_seconds: null,
+  fitness_level: 'beginner',
+  training_goals: [],
+}
+
+export const profileSettingsSchema = z.object({
+  display_name: z
+    .string()
+    .trim()
+    .max(MAX_DISPLAY_NAME_LENGTH)
+    .nullable()
+    .transform(name => name || null),
+  weight_unit: z.enum(['kg', 'lb']),
+  default_rest_seconds: z.number().int().min(0).max(MAX_DEFAULT_REST_SECONDS).nullable(),
+  fitness_level: z.enum(['beginner', 'intermediate', 'advanced']),
+  training_goals: z.array(z.enum(['pain', 'posture', 'performance', 'physique'])).max(4),
+}) satisfies z.ZodType<ProfileSettings, z.ZodTypeDef, unknown>
+
+/**
+ * The name shown for the user: their display name, or the start of their email until
+ * they've set one
+ */
+export function getDisplayName(
+  profile: Pick<Profile, 'display_name'> | null | undefined,
+  email: string | null | undefined
+): string {
+  return profile?.display_name || email?.split('@')[0] || 'Fitness User'
+}
+
+export function getFitnessLevelLabel(level: FitnessLevel): string {
+  return FITNESS_LEVELS.find(option => option.value === level)?.label ?? 'Beginner'
+}
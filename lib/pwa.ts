@@ -0,0 +1,72 @@
+// Talks to the service worker in public/sw.js
+
+export const SERVICE_WORKER_URL = '/sw.js'
+
+// Caches in public/sw.js holding pages and API data for whoever is signed in
+const USER_CACHE_PREFIXES = ['fir-pages-', 'fir-data-']
+
+export interface CacheUrlsRequest {
+  pages?: string[]
+  data?: string[]
+  media?: string[]
+  // Sent with the data requests, which need the signed-in user
+  accessToken?: string
+}
+
+export interface CacheUrlsResult {
+  cached: number
+  failed: number
+}
+
+export const isServiceWorkerSupported = () =>
+  typeof navigator !== 'undefined' && 'serviceWorker' in navigator
+
+/**
+ * Asks the service worker to download URLs for offline use
+ * @returns How many URLs were cached and how many failed
+ */
+export function cacheForOffline(urls: CacheUrlsRequest): Promise<CacheUrlsResult> {
+  const controller = isServiceWorkerSupported() ? navigator.serviceWorker.controller : null
+  if (!controller) {
+    return Promise.reject(
+      new Error('Offline saving is not available yet. Reload the app and try again.')
+    )
+  }
+
+  const unique = (list: string[] = []) => Array.from(new Set(list.filter(Boolean)))
+
+  return new Promise((resolve, reject) => {
+    const channel = new MessageChannel()
+    channel.port1.onmessage = event => {
+      const result = event.data as CacheUrlsResult & { error?: string }
+      if (result.error) reject(new Error(result.error))
+      else resolve(result)
+    }
+
+    controller.postMessage(
+      {
+        type: 'CACHE_URLS',
+        pages: unique(urls.pages),
+        data: unique(urls.data),
+        media: unique(urls.media),
+        accessToken: urls.accessToken,
+      },
+      [channel.port2]
+    )
+  })
+}
+
+/**
+ * Deletes the pages and data the service worker cached for the signed-in user, so the next
+ * person on the device can't read them offline. The app shell, build files and media stay.
+ */
+export async function clearUserCaches(): Promise<void> {
+  if (typeof caches === 'undefined') return
+
+  const keys = await caches.keys()
+  await Promise.all(
+    keys
+      .filter(key => USER_CACHE_PREFIXES.some(prefix => key.startsWith(prefix)))
+      .map(key => caches.delete(key))
+  )
+}
@@ -0,0 +1,296 @@
+/**
+ * Shared cache for data loaded from the API and server actions. Cached data is shown
+ * straight away and refreshed in the background once stale, when the app regains focus and
+ * when the connection returns. Concurrent requests for the same key share one fetch.
+ */
+
+export type QueryKey = readonly (string | number | null | undefined)[]
+
+export interface QueryOptions {
+  // How long data is fresh before it's refetched in the background
+  staleTime?: number
+  // Keep the data in localStorage so it's shown straight away on the next visit
+  persist?: boolean
+}
+
+export interface QueryState<T> {
+  data: T | undefined
+  error: string | null
+  updatedAt: number
+  isFetching: boolean
+}
+
+interface QueryEntry<T> {
+  key: QueryKey
+  state: QueryState<T>
+  options: QueryOptions
+  listeners: Set<() => void>
+  fetcher: (() => Promise<T>) | null
+  promise: Promise<void> | null
+  invalidated: boolean
+}
+
+interface PersistedQuery<T> {
+  data: T
+  updatedAt: number
+  // Set when invalidated before it was loaded this visit, so it's refetched when next used
+  invalidated?: boolean
+}
+
+export const DEFAULT_STALE_TIME = 5 * 60 * 1000 // 5 minutes
+
+// Persisted data older than this is dropped rather than shown
+const PERSIST_MAX_AGE = 7 * 24 * 60 * 60 * 1000 // 7 days
+const STORAGE_PREFIX = 'fir-query:'
+const MAX_RETRIES = 3
+const RETRY_DELAY = 1000 // 1 second
+
+const EMPTY_STATE: QueryState<never> = {
+  data: undefined,
+  error: null,
+  updatedAt: 0,
+  isFetching: false,
+}
+
+const entries = new Map<string, QueryEntry<any>>()
+let refreshStarted = false
+
+const hashQueryKey = (key: QueryKey) => JSON.stringify(key)
+
+const matchesPrefix = (key: QueryKey, prefix: QueryKey) =>
+  prefix.every((part, index) => key[index] === part)
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+function readPersisted<T>(key: QueryKey): PersistedQuery<T> | null {
+  try {
+    const stored = localStorage.getItem(STORAGE_PREFIX + hashQueryKey(key))
+    if (!stored) return null
+
+    const persisted: PersistedQuery<T> = JSON.parse(stored)
+    return Date.now() - persisted.updatedAt < PERSIST_MAX_AGE ? persisted : null
+  } catch {
+    return null
+  }
+}
+
+function writePersisted<T>(key: QueryKey, persisted: PersistedQuery<T>) {
+  try {
+    localStorage.setItem(STORAGE_PREFIX + hashQueryKey(key), JSON.stringify(persisted))
+  } catch {
+    // Ignore storage errors, e.g. when the quota is full
+  }
+}
+
+// Keys of every query in localStorage, including ones not loaded this visit
+function getPersistedKeys(): QueryKey[] {
+  try {
+    return Object.keys(localStorage)
+      .filter(storageKey => storageKey.startsWith(STORAGE_PREFIX))
+      .map(storageKey => JSON.parse(storageKey.slice(STORAGE_PREFIX.length)) as QueryKey)
+  } catch {
+    return []
+  }
+}
+
+function getEntry<T>(key: QueryKey, options: QueryOptions = {}): QueryEntry<T> {
+  const hash = hashQueryKey(key)
+  let entry: QueryEntry<T> | undefined = entries.get(hash)
+
+  if (!entry) {
+    const persisted =
+      options.persist && typeof window !== 'undefined' ? readPersisted<T>(key) : null
+    entry = {
+      key,
+      state: persisted
+        ? { ...EMPTY_STATE, data: persisted.data, updatedAt: persisted.updatedAt }
+        : EMPTY_STATE,
+      options,
+      listeners: new Set(),
+      fetcher: null,
+      promise: null,
+      invalidated: persisted?.invalidated ?? false,
+    }
+    entries.set(hash, entry)
+  } else {
+    entry.options = { ...entry.options, ...options }
+  }
+
+  return entry
+}
+
+function setState<T>(entry: QueryEntry<T>, changes: Partial<QueryState<T>>) {
+  entry.state = { ...entry.state, ...changes }
+  entry.listeners.forEach(listener => listener())
+}
+
+function isStale(entry: QueryEntry<unknown>) {
+  const staleTime = entry.options.staleTime ?? DEFAULT_STALE_TIME
+  return entry.invalidated || Date.now() - entry.state.updatedAt > staleTime
+}
+
+export function getQueryState<T>(key: QueryKey, options?: QueryOptions): QueryState<T> {
+  return getEntry<T>(key, options).state
+}
+
+export function subscribeQuery(key: QueryKey, listener: () => void): () => void {
+  const entry = getEntry(key)
+  entry.listeners.add(listener)
+  startQueryRefresh()
+
+  return () => {
+    entry.listeners.delete(listener)
+  }
+}
+
+/**
+ * Fetches a query, retrying failed requests. Calls made while a fetch for the same key is
+ * running wait for that fetch instead of starting another.
+ */
+export function fetchQuery<T>(
+  key: QueryKey,
+  fetcher: () => Promise<T>,
+  options?: QueryOptions
+): Promise<void> {
+  const entry = getEntry<T>(key, options)
+  entry.fetcher = fetcher
+
+  if (!entry.promise) {
+    entry.promise = runFetch(entry, fetcher).finally(() => {
+      entry.promise = null
+    })
+  }
+
+  return entry.promise
+}
+
+async function runFetch<T>(entry: QueryEntry<T>, fetcher: () => Promise<T>) {
+  const startedAt = Date.now()
+  setState(entry, { isFetching: true })
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      const data = await fetcher()
+      const updatedAt = Date.now()
+
+      // A local change made while this was loading is newer than what the server sent
+      if (entry.state.updatedAt >= startedAt) {
+        setState(entry, { isFetching: false })
+        return
+      }
+
+      entry.invalidated = false
+      setState(entry, { data, error: null, updatedAt, isFetching: false })
+      if (entry.options.persist) writePersisted(entry.key, { data, updatedAt })
+      return
+    } catch (error) {
+      // Offline requests won't succeed on retry; refreshing resumes when the connection returns
+      if (attempt < MAX_RETRIES && navigator.onLine) {
+        await wait(RETRY_DELAY * (attempt + 1))
+        continue
+      }
+
+      console.error(`Error fetching ${hashQueryKey(entry.key)}:`, error)
+      setState(entry, {
+        error: error instanceof Error ? error.message : 'Failed to load data',
+        isFetching: false,
+      })
+      return
+    }
+  }
+}
+
+/**
+ * Fetches a query if it has no data yet or its data is stale
+ */
+export function ensureQueryData<T>(
+  key: QueryKey,
+  fetcher: () => Promise<T>,
+  options?: QueryOptions
+): Promise<void> {
+  const entry = getEntry<T>(key, options)
+  entry.fetcher = fetcher
+
+  if (entry.promise) return entry.promise
+  return isStale(entry) ? fetchQuery(key, fetcher, options) : Promise.resolve()
+}
+
+/**
+ * Replaces a query's data, e.g. with the row a save returned, so it's shown without a refetch
+ */
+export function setQueryData<T>(key: QueryKey, data: T): void {
+  const entry = getEntry<T>(key)
+  const updatedAt = Date.now()
+
+  entry.invalidated = false
+  setState(entry, { data, error: null, updatedAt })
+  if (entry.options.persist) writePersisted(entry.key, { data, updatedAt })
+}
+
+/**
+ * Marks queries starting with the key prefix as stale, e.g. after a change is saved.
+ * Queries on screen are refetched now; the rest when they're next used.
+ */
+export function invalidateQueries(prefix: QueryKey): void {
+  entries.forEach(entry => {
+    if (!matchesPrefix(entry.key, prefix)) return
+
+    entry.invalidated = true
+    if (entry.listeners.size > 0 && entry.fetcher) {
+      fetchQuery(entry.key, entry.fetcher)
+    }
+  })
+
+  getPersistedKeys()
+    .filter(key => matchesPrefix(key, prefix) && !entries.has(hashQueryKey(key)))
+    .forEach(key => {
+      const persisted = readPersisted(key)
+      if (persisted) writePersisted(key, { ...persisted, invalidated: true })
+    })
+}
+
+/**
+ * Removes queries starting with the key prefix from memory and localStorage, e.g. a user's
+ * data when they sign out
+ */
+export function clearQueries(prefix: QueryKey = []): void {
+  entries.forEach((entry, hash) => {
+    if (!matchesPrefix(entry.key, prefix)) return
+
+    entry.invalidated = false
+    if (entry.listeners.size > 0) setState(entry, EMPTY_STATE)
+    else entries.delete(hash)
+  })
+
+  getPersistedKeys()
+    .filter(key => matchesPrefix(key, prefix))
+    .forEach(key => {
+      try {
+        localStorage.removeItem(STORAGE_PREFIX + hashQueryKey(key))
+      } catch {
+        // Ignore storage errors
+      }
+    })
+}
+
+// Refetch stale queries that are on screen
+function refreshActiveQueries() {
+  if (!navigator.onLine) return
+
+  entries.forEach(entry => {
+    if (entry.listeners.size > 0 && entry.fetcher && !entry.promise && isStale(entry)) {
+      fetchQuery(entry.key, entry.fetcher)
+    }
+  })
+}
+
+// Started by the first subscriber and left running for the life of the page
+function startQueryRefresh() {
+  if (refreshStarted || typeof window === 'undefined') return
+  refreshStarted = true
+
+  window.addEventListener('online', refreshActiveQueries)
+  document.addEventListener('visibilitychange', () => {
+    if (document.visibilityState === 'visible') refreshActiveQueries()
+  })
+}
@@ -0,0 +1,62 @@
+import type { QueryKey } from '@/lib/query-client'
+import type { Section, TrainingSection } from '@/lib/sections'
+
+// Exercise content changes rarely, so it's refreshed less often than a user's own data
+export const CONTENT_STALE_TIME = 60 * 60 * 1000 // 1 hour
+export const USER_STALE_TIME = 5 * 60 * 1000 // 5 minutes
+
+/**
+ * Keys for cached queries. Per-user data lives under ['user', userId] so it can be
+ * invalidated per client and cleared on sign-out.
+ */
+export const queryKeys = {
+  exercises: (): QueryKey => ['exercises'],
+  exercisesOfType: (type: string): QueryKey => ['exercises', type],
+  exerciseGroups: (): QueryKey => ['exercise-groups'],
+  groupExercises: (groupId: number, section: Section): QueryKey => [
+    'exercise-groups',
+    groupId,
+    'exercises',
+    section,
+  ],
+  kit: (): QueryKey => ['kit'],
+  bodyMuscles: (): QueryKey => ['body-muscles'],
+  bodyMuscle: (id: number): QueryKey => ['body-muscles', id],
+  exerciseSearch: (q: string, section: Section | null, page: number): QueryKey => [
+    'exercise-search',
+    q,
+    section,
+    page,
+  ],
+  user: (userId: string): QueryKey => ['user', userId],
+  trainingDays: (userId: string, category: TrainingSection): QueryKey => [
+    'user',
+    userId,
+    'training-days',
+    category,
+  ],
+  userDayExercises: (userId: string, dayId: number, category: TrainingSection): QueryKey => [
+    'user',
+    userId,
+    'day-exercises',
+    category,
+    dayId,
+  ],
+  dayImage: (userId: string, dayId: number, category: TrainingSection): QueryKey => [
+    'user',
+    userId,
+    'day-image',
+    category,
+    dayId,
+  ],
+  imbalanceImage: (userId: string): QueryKey => ['user', userId, 'imbalance-image'],
+  profile: (userId: string): QueryKey => ['user', userId, 'profile'],
+  kitProfiles: (userId: string): QueryKey => ['user', userId, 'kit-profiles'],
+  tightMuscles: (userId: string): QueryKey => ['user', userId, 'tight-muscles'],
+  mobilityPlan: (userId: string, planDate: string): QueryKey => [
+    'user',
+    userId,
+    'mobility-plan',
+    planDate,
+  ],
+}
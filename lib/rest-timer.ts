@@ -0,0 +1,23 @@
+// Rest used when neither the exercise, its group nor the user's profile has a default
+export const DEFAULT_REST_SECONDS = 90
+
+// How much the +/- buttons change a running rest by
+export const REST_ADJUST_SECONDS = 15
+
+export type RestTimer = {
+  exerciseId: number
+  // Page the rest was started from, so the user can get back to the exercise
+  href: string
+  durationSeconds: number
+  endsAt: number
+}
+
+export function getRestRemainingSeconds(timer: RestTimer, now = Date.now()): number {
+  return Math.max(0, Math.ceil((timer.endsAt - now) / 1000))
+}
+
+// e.g. 95 -> "1:35"
+export function formatRestTime(seconds: number): string {
+  const minutes = Math.floor(seconds / 60)
+  return `${minutes}:${String(seconds % 60).padStart(2, '0')}`
+}
@@ -0,0 +1,19 @@
+import type { User } from '@supabase/supabase-js'
+
+export type UserRole = 'client' | 'coach' | 'admin'
+
+// Roles allowed into the /admin area
+export const STAFF_ROLES: UserRole[] = ['coach', 'admin']
+
+/**
+ * Reads the user's role from app_metadata, which only the service role can change.
+ * Users without a role are clients.
+ */
+export function getUserRole(user: Pick<User, 'app_metadata'> | null | undefined): UserRole {
+  const role = user?.app_metadata?.role
+  return role === 'coach' || role === 'admin' ? role : 'client'
+}
+
+export function isStaff(user: Pick<User, 'app_metadata'> | null | undefined): boolean {
+  return STAFF_ROLES.includes(getUserRole(user))
+}
@@ -0,0 +1,72 @@
+// Which pages need a signed-in user, and which roles they need. Used by middleware.ts before
+// a page renders and by AuthProvider once it has.
+import { STAFF_ROLES, type UserRole } from '@/lib/roles'
+
+export const LOGIN_PATH = '/login'
+
+// Query parameter on the login page holding where to go after signing in
+export const RETURN_TO_PARAM = 'returnTo'
+
+// Query parameter on the login page holding why an email link didn't sign the user in
+export const AUTH_ERROR_PARAM = 'error'
+
+// Where links in sign-up, magic link, password reset and email change emails land
+export const AUTH_CALLBACK_PATH = '/auth/callback'
+
+export const RESET_PASSWORD_PATH = '/auth/reset-password'
+
+// Pages anyone can open. The offline page is served by the service worker with no session.
+export const PUBLIC_PATHS = [LOGIN_PATH, '/auth', '/offline']
+
+// Areas limited to certain roles; everything else is open to any signed-in user
+export const ROLE_ROUTES: { prefix: string; roles: UserRole[] }[] = [
+  { prefix: '/admin', roles: STAFF_ROLES },
+]
+
+const matchesPath = (pathname: string, prefix: string) =>
+  pathname === prefix || pathname.startsWith(`${prefix}/`)
+
+export function isPublicPath(pathname: string): boolean {
+  return PUBLIC_PATHS.some(path => matchesPath(pathname, path))
+}
+
+/**
+ * Gets the roles allowed to open a page
+ * @returns The roles, or null if any signed-in user can open it
+ */
+export function getAllowedRoles(pathname: string): UserRole[] | null {
+  return ROLE_ROUTES.find(route => matchesPath(pathname, route.prefix))?.roles ?? null
+}
+
+/**
+ * Checks a return-to value points back into the app, so the login page can't be used to
+ * send users to another site
+ * @returns The path, or null if it's missing or not a local path
+ */
+export function getSafeReturnTo(returnTo: string | null | undefined): string | null {
+  if (!returnTo || !returnTo.startsWith('/') || returnTo.startsWith('//')) return null
+  if (returnTo.startsWith('/\\') || matchesPath(returnTo.split(/[?#]/)[0], LOGIN_PATH)) {
+    return null
+  }
+  return returnTo
+}
+
+// The login page, coming back to returnTo once signed in
+export function getLoginUrl(returnTo?: string): string {
+  const safeReturnTo = getSafeReturnTo(returnTo)
+  return safeReturnTo && safeReturnTo !== '/'
+    ? `${LOGIN_PATH}?${RETURN_TO_PARAM}=${encodeURIComponent(safeReturnTo)}`
+    : LOGIN_PATH
+}
+
+/**
+ * Builds the link Supabase puts in auth emails. The callback route exchanges the code for a
+ * session, then goes on to returnTo.
+ * @param origin - The app's origin, e.g. window.location.origin
+ */
+export function getAuthCallbackUrl(origin: string, returnTo?: string | null): string {
+  const url = new URL(AUTH_CALLBACK_PATH, origin)
+  const safeReturnTo = getSafeReturnTo(returnTo)
+  if (safeReturnTo) url.searchParams.set(RETURN_TO_PARAM, safeReturnTo)
+  return url.toString()
+}
@@ -0,0 +1,42 @@
+// The app's sections, in workout order. Each is backed by a row in the categories table,
+// resolved at runtime by lib/category-registry.ts.
+export const SECTIONS = ['warm-up', 'mobilise', 'strengthen', 'recover'] as const
+
+export type Section = (typeof SECTIONS)[number]
+
+// Sections whose exercises are assigned to the user as Day 1, Day 2...
+export type TrainingSection = Extract<Section, 'strengthen' | 'recover'>
+
+export const TRAINING_SECTIONS: TrainingSection[] = ['strengthen', 'recover']
+
+// Sections a tight muscle can be noticed in and flagged for the next Mobilise
+export type TightMuscleSection = Extract<Section, 'warm-up' | 'strengthen' | 'recover'>
+
+export const TIGHT_MUSCLE_SECTIONS: TightMuscleSection[] = ['warm-up', 'strengthen', 'recover']
+
+// Older names still accepted by /api/exercises and used by some category rows
+export const SECTION_ALIASES: Record<string, Section> = {
+  warmup: 'warm-up',
+  stretch: 'mobilise',
+  mobilize: 'mobilise',
+  workout: 'strengthen',
+  cooldown: 'recover',
+}
+
+export function isSection(value: unknown): value is Section {
+  return typeof value === 'string' && (SECTIONS as readonly string[]).includes(value)
+}
+
+export function isTrainingSection(value: unknown): value is TrainingSection {
+  return typeof value === 'string' && (TRAINING_SECTIONS as string[]).includes(value)
+}
+
+/**
+ * Resolves a section name or legacy alias, e.g. "stretch" -> "mobilise"
+ * @returns The section, or null if the name isn't recognised
+ */
+export function resolveSection(value: string | null | undefined): Section | null {
+  if (!value) return null
+  if (isSection(value)) return value
+  return SECTION_ALIASES[value.toLowerCase()] || null
+}
@@ -0,0 +1,28 @@
+import type { User } from '@supabase/supabase-js'
+import { supabaseServer } from '@/lib/supabase'
+import { isStaff } from '@/lib/roles'
+
+/**
+ * Resolves a Supabase access token to a coach or admin user.
+ * Staff-only actions and routes take the caller's token rather than a user id so roles
+ * can't be spoofed.
+ * @returns The user if the token is valid and belongs to staff, null otherwise
+ */
+export async function getStaffUser(accessToken: string | null | undefined): Promise<User | null> {
+  if (!accessToken) return null
+
+  try {
+    const { data, error } = await supabaseServer.auth.getUser(accessToken)
+    if (error || !data.user || !isStaff(data.user)) return null
+    return data.user
+  } catch (error) {
+    console.error('Error verifying staff role:', error)
+    return null
+  }
+}
+
+// Reads the bearer token from a request's Authorization header
+export function getBearerToken(request: Request): string | null {
+  const header = request.headers.get('Authorization')
+  return header?.startsWith('Bearer ') ? header.slice('Bearer '.length) : null
+}
@@ -1,3 +1,5 @@
+import { LEGACY_CACHE_KEYS, LEGACY_CACHE_PREFIXES } from '@/lib/cache-constants'
+
 /**
  * Safely store data in localStorage with error handling
  */
@@ -59,3 +61,17 @@ export function getCachedData<T>(key: string, expirationMs: number = 24 * 60 * 6
   }
   return null
 }
+
+/**
+ * Remove caches left by older versions of the app
+ */
+export function removeLegacyCaches(): void {
+  try {
+    LEGACY_CACHE_KEYS.forEach(key => localStorage.removeItem(key))
+    Object.keys(localStorage)
+      .filter(key => LEGACY_CACHE_PREFIXES.some(prefix => key.startsWith(prefix)))
+      .forEach(key => localStorage.removeItem(key))
+  } catch (error) {
+    console.error('Error removing legacy caches:', error)
+  }
+}
@@ -0,0 +1,146 @@
+import { format, startOfDay, startOfWeek, subMonths, subWeeks } from 'date-fns'
+import type { WeightUnit, WorkoutSet } from '@/lib/types'
+
+const KG_PER_LB = 0.45359237
+
+export type ProgressRange = '4w' | '3m' | '6m' | '1y' | 'all'
+
+export const PROGRESS_RANGES: { value: ProgressRange; label: string }[] = [
+  { value: '4w', label: 'Last 4 weeks' },
+  { value: '3m', label: 'Last 3 months' },
+  { value: '6m', label: 'Last 6 months' },
+  { value: '1y', label: 'Last year' },
+  { value: 'all', label: 'All time' },
+]
+
+export interface ExerciseProgressPoint {
+  date: string
+  estimatedOneRepMax: number | null
+  topSet: number | null
+  volume: number
+}
+
+// A set with the exercise group and body section it trained
+export interface GroupedSet {
+  reps: number
+  load: number | null
+  unit: WeightUnit
+  completed_at: string
+  group: string | null
+  bodySection: string | null
+}
+
+// Most sets a chart loads, keeping the newest. Stays within the API's row cap, which would
+// otherwise cut rows without saying so
+export const MAX_PROGRESS_SETS = 1000
+
+export type WeeklyVolumePoint = { week: string } & Record<string, number | string>
+
+/**
+ * Returns the ISO start date of a range, or null for all time
+ */
+export function getRangeStart(range: ProgressRange, now = new Date()): string | null {
+  switch (range) {
+    case '4w':
+      return startOfDay(subWeeks(now, 4)).toISOString()
+    case '3m':
+      return startOfDay(subMonths(now, 3)).toISOString()
+    case '6m':
+      return startOfDay(subMonths(now, 6)).toISOString()
+    case '1y':
+      return startOfDay(subMonths(now, 12)).toISOString()
+    default:
+      return null
+  }
+}
+
+// Converts a load between kg and lb
+export function convertLoad(load: number, from: WeightUnit, to: WeightUnit): number {
+  if (from === to) return load
+  return from === 'lb' ? load * KG_PER_LB : load / KG_PER_LB
+}
+
+const round = (value: number) => Math.round(value * 10) / 10
+
+/**
+ * Estimates a one rep max using the Epley formula
+ * @returns The estimate in the same unit as load, or null for bodyweight or zero-rep sets
+ */
+export function estimateOneRepMax(load: number | null, reps: number): number | null {
+  if (load === null || load <= 0 || reps < 1) return null
+  if (reps === 1) return load
+  return load * (1 + reps / 30)
+}
+
+/**
+ * Summarises an exercise's sets per training day, oldest first
+ * @param sets - Logged sets in any order
+ * @param unit - The unit to give loads in, whatever they were logged in
+ */
+export function getExerciseProgress(
+  sets: WorkoutSet[],
+  unit: WeightUnit = 'kg'
+): ExerciseProgressPoint[] {
+  const days = new Map<string, ExerciseProgressPoint>()
+
+  sets.forEach(set => {
+    const date = format(new Date(set.completed_at), 'yyyy-MM-dd')
+    const point = days.get(date) || { date, estimatedOneRepMax: null, topSet: null, volume: 0 }
+    const load = set.load !== null ? convertLoad(set.load, set.unit, unit) : null
+    const estimate = estimateOneRepMax(load, set.reps)
+
+    if (estimate !== null) {
+      point.estimatedOneRepMax = round(Math.max(point.estimatedOneRepMax ?? 0, estimate))
+    }
+    if (load !== null && load > 0) {
+      point.topSet = round(Math.max(point.topSet ?? 0, load))
+      point.volume = round(point.volume + load * set.reps)
+    }
+
+    days.set(date, point)
+  })
+
+  return Array.from(days.values()).sort((a, b) => a.date.localeCompare(b.date))
+}
+
+/**
+ * Totals load × reps per week for each exercise group or body section
+ * @param sets - Logged sets with their group and body section
+ * @param groupBy - Whether to split volume by exercise group or by body section
+ * @param unit - The unit to total loads in
+ * @returns Weekly points, oldest first, and the series names found
+ */
+export function getWeeklyVolume(
+  sets: GroupedSet[],
+  groupBy: 'group' | 'bodySection',
+  unit: WeightUnit = 'kg'
+): { points: WeeklyVolumePoint[]; series: string[] } {
+  const weeks = new Map<string, WeeklyVolumePoint>()
+  const series = new Set<string>()
+
+  sets.forEach(set => {
+    if (set.load === null || set.load <= 0) return
+
+    const week = format(startOfWeek(new Date(set.completed_at), { weekStartsOn: 1 }), 'yyyy-MM-dd')
+    const name = (groupBy === 'group' ? set.group : set.bodySection) || 'Other'
+    const point = weeks.get(week) || { week }
+    const current = typeof point[name] === 'number' ? (point[name] as number) : 0
+
+    point[name] = round(current + convertLoad(set.load, set.unit, unit) * set.reps)
+    series.add(name)
+    weeks.set(week, point)
+  })
+
+  const names = Array.from(series).sort()
+  // Fill missing series with zero so stacked bars line up
+  const points = Array.from(weeks.values())
+    .map(point => {
+      names.forEach(name => {
+        if (point[name] === undefined) point[name] = 0
+      })
+      return point
+    })
+    .sort((a, b) => a.week.localeCompare(b.week))
+
+  return { points, series: names }
+}
@@ -1,4 +1,5 @@
 import { createClient } from '@supabase/supabase-js'
+import { createClientComponentClient } from '@supabase/auth-helpers-nextjs'
 import type { Database } from '@/lib/types'
 
 // Create a single supabase client for server-side
@@ -35,13 +36,10 @@ export const getSupabaseBrowser = () => {
   }
 
   try {
-    clientSingleton = createClient<Database>(supabaseUrl, supabaseAnonKey, {
-      auth: {
-        persistSession: true,
-        storageKey: 'fit-app-auth',
-        autoRefreshToken: true,
-        detectSessionInUrl: true,
-      },
+    // Same cookie session as the auth provider, which middleware.ts reads
+    clientSingleton = createClientComponentClient<Database>({
+      supabaseUrl,
+      supabaseKey: supabaseAnonKey,
     })
 
     return clientSingleton
@@ -51,6 +49,17 @@ export const getSupabaseBrowser = () => {
   }
 }
 
+/**
+ * Gets the signed-in user's current access token, refreshing it if it has expired.
+ * User actions and routes take this token instead of a user id.
+ */
+export const getAccessToken = async (): Promise<string | null> => {
+  const {
+    data: { session },
+  } = await getSupabaseBrowser().auth.getSession()
+  return session?.access_token ?? null
+}
+
 // Create a mock client for testing or when real client can't be initialized
 export const createMockSupabaseClient = () => {
   console.warn('Using mock Supabase client')
@@ -0,0 +1,63 @@
+import { z } from 'zod'
+import type { OutboxEntry } from '@/lib/types'
+
+const entryFields = {
+  key: z.string().min(1),
+  client_id: z.string().uuid(),
+  user_id: z.string().uuid(),
+  updated_at: z.string().datetime({ offset: true }),
+  attempts: z.number().int().min(0),
+}
+
+const notes = z.string().max(5000)
+
+const ids = z.array(z.number().int().positive()).max(500)
+
+export const outboxEntrySchema = z.discriminatedUnion('kind', [
+  z.object({
+    ...entryFields,
+    kind: z.literal('workout_log'),
+    data: z.object({
+      exercise_id: z.number().int().positive(),
+      exercise_name: z.string().min(1),
+      exercise_type: z.string().min(1),
+      completed_at: z.string().datetime({ offset: true }),
+      session_id: z.string().uuid().nullable(),
+    }),
+  }),
+  z.object({
+    ...entryFields,
+    kind: z.literal('exercise_note'),
+    data: z.object({ exercise_id: z.number().int().positive(), notes }),
+  }),
+  z.object({
+    ...entryFields,
+    kind: z.literal('goal_note'),
+    data: z.object({ category: z.enum(['pain', 'posture', 'performance', 'physique']), notes }),
+  }),
+  z.object({
+    ...entryFields,
+    kind: z.literal('tight_muscle'),
+    data: z.object({
+      body_muscle_id: z.number().int().positive(),
+      section: z.enum(['warm-up', 'strengthen', 'recover']).nullable(),
+      flagged_at: z.string().datetime({ offset: true }),
+      cleared_at: z.string().datetime({ offset: true }).nullable(),
+    }),
+  }),
+  z.object({
+    ...entryFields,
+    kind: z.literal('mobility_plan'),
+    data: z.object({
+      plan_date: z.string().date(),
+      body_muscle_ids: ids,
+      exercise_ids: ids,
+      completed_exercise_ids: ids,
+    }),
+  }),
+]) satisfies z.ZodType<OutboxEntry>
+
+// Body of POST /api/sync; entries are validated one by one so a bad one can't hold up the rest
+export const syncRequestSchema = z.object({
+  entries: z.array(z.unknown()).min(1).max(100),
+})
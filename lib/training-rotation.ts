@@ -0,0 +1,100 @@
+export type RotationWarning =
+  | { type: 'skipped'; day: number; skippedDays: number[] }
+  | { type: 'repeated'; day: number }
+
+export interface RotationStatus {
+  nextDay: number | null
+  lastDay: number | null
+  warning: RotationWarning | null
+}
+
+/**
+ * Returns the day that follows lastDay in the rotation, wrapping back to the first day
+ * @param days - The assigned training days in rotation order
+ * @param lastDay - The most recently completed day, if any
+ */
+export function getNextDay(days: number[], lastDay: number | null): number | null {
+  if (days.length === 0) return null
+  if (lastDay === null) return days[0]
+
+  const index = days.indexOf(lastDay)
+  // Day no longer assigned - start the rotation again
+  if (index === -1) return days[0]
+
+  return days[(index + 1) % days.length]
+}
+
+/**
+ * Checks whether choosing a day keeps the rotation in order
+ * @param days - The assigned training days in rotation order
+ * @param lastDay - The most recently completed day, if any
+ * @param chosenDay - The day the user is about to do
+ * @returns A warning if the choice repeats or skips days, null otherwise
+ */
+export function getDayChoiceWarning(
+  days: number[],
+  lastDay: number | null,
+  chosenDay: number
+): RotationWarning | null {
+  const expectedDay = getNextDay(days, lastDay)
+  if (expectedDay === null || expectedDay === chosenDay || !days.includes(chosenDay)) return null
+
+  if (chosenDay === lastDay) {
+    return { type: 'repeated', day: chosenDay }
+  }
+
+  // Collect the days between the expected day and the chosen one
+  const skippedDays: number[] = []
+  let day: number | null = expectedDay
+  while (day !== null && day !== chosenDay && skippedDays.length < days.length) {
+    skippedDays.push(day)
+    day = getNextDay(days, day)
+  }
+
+  return { type: 'skipped', day: chosenDay, skippedDays }
+}
+
+/**
+ * Works out the next due day and whether the last session broke the rotation
+ * @param days - The assigned training days in rotation order
+ * @param history - Days completed in past sessions, newest first
+ */
+export function getRotationStatus(days: number[], history: number[]): RotationStatus {
+  const lastDay = history.length > 0 ? history[0] : null
+  const previousDay = history.length > 1 ? history[1] : null
+
+  return {
+    nextDay: getNextDay(days, lastDay),
+    lastDay,
+    warning:
+      lastDay !== null && previousDay !== null
+        ? getDayChoiceWarning(days, previousDay, lastDay)
+        : null,
+  }
+}
+
+/**
+ * Formats a rotation warning for display
+ */
+export function describeRotationWarning(warning: RotationWarning): string {
+  if (warning.type === 'repeated') {
+    return `Day ${warning.day} was done twice in a row.`
+  }
+
+  const skipped = warning.skippedDays.map(day => `Day ${day}`).join(', ')
+  return `${skipped} was skipped before Day ${warning.day}.`
+}
+
+/**
+ * Formats a warning about a day the user is about to do
+ * @param warning - The result of getDayChoiceWarning
+ * @param nextDay - The day due next in the rotation
+ */
+export function describeDayChoiceWarning(warning: RotationWarning, nextDay: number | null): string {
+  if (warning.type === 'repeated') {
+    return `You did Day ${warning.day} last time. Day ${nextDay} is due next.`
+  }
+
+  const skipped = warning.skippedDays.map(day => `Day ${day}`).join(', ')
+  return `Day ${nextDay} is due next. Doing Day ${warning.day} now skips ${skipped}.`
+}
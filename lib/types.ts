@@ -1,5 +1,6 @@
 import type React from 'react'
 import type { User, Session } from '@supabase/supabase-js'
+import type { Section, TightMuscleSection } from '@/lib/sections'
 
 export type Json = string | number | boolean | null | { [key: string]: Json | undefined } | Json[]
 
@@ -35,10 +36,11 @@ export type Database = {
           video_url: string | null
           video_url_2: string | null
           video_url_3: string | null
-          kit: string | null
-          exercise_group: string | null
+          kit: number | null
+          exercise_group: number | null
           body_muscle: number | null
           sort_order: number
+          rest_seconds: number | null
         }
         Insert: {
           id?: number
@@ -50,10 +52,11 @@ export type Database = {
           video_url?: string | null
           video_url_2?: string | null
           video_url_3?: string | null
-          kit?: string | null
-          exercise_group?: string | null
+          kit?: number | null
+          exercise_group?: number | null
           body_muscle?: number | null
           sort_order?: number
+          rest_seconds?: number | null
         }
         Update: {
           id?: number
@@ -65,10 +68,28 @@ export type Database = {
           video_url?: string | null
           video_url_2?: string | null
           video_url_3?: string | null
-          kit?: string | null
-          exercise_group?: string | null
+          kit?: number | null
+          exercise_group?: number | null
           body_muscle?: number | null
           sort_order?: number
+          rest_seconds?: number | null
+        }
+      }
+      exercise_muscles: {
+        Row: {
+          exercise_id: number
+          body_muscle_id: number
+          role: MuscleRole
+        }
+        Insert: {
+          exercise_id: number
+          body_muscle_id: number
+          role?: MuscleRole
+        }
+        Update: {
+          exercise_id?: number
+          body_muscle_id?: number
+          role?: MuscleRole
         }
       }
       categories: {
@@ -110,6 +131,8 @@ export type Database = {
           exercise_name: string
           exercise_type: string
           completed_at: string
+          session_id: string | null
+          client_id: string | null
         }
         Insert: {
           id?: number
@@ -118,6 +141,8 @@ export type Database = {
           exercise_name: string
           exercise_type: string
           completed_at: string
+          session_id?: string | null
+          client_id?: string | null
         }
         Update: {
           id?: number
@@ -126,6 +151,113 @@ export type Database = {
           exercise_name?: string
           exercise_type?: string
           completed_at?: string
+          session_id?: string | null
+          client_id?: string | null
+        }
+      }
+      workout_sets: {
+        Row: {
+          id: number
+          user_id: string
+          exercise_id: number
+          set_number: number
+          reps: number
+          load: number | null
+          unit: WeightUnit
+          rpe: number | null
+          rest_seconds: number | null
+          session_id: string | null
+          completed_at: string
+          created_at: string
+        }
+        Insert: {
+          id?: number
+          user_id: string
+          exercise_id: number
+          set_number: number
+          reps: number
+          load?: number | null
+          unit?: WeightUnit
+          rpe?: number | null
+          rest_seconds?: number | null
+          session_id?: string | null
+          completed_at?: string
+          created_at?: string
+        }
+        Update: {
+          id?: number
+          user_id?: string
+          exercise_id?: number
+          set_number?: number
+          reps?: number
+          load?: number | null
+          unit?: WeightUnit
+          rpe?: number | null
+          rest_seconds?: number | null
+          session_id?: string | null
+          completed_at?: string
+          created_at?: string
+        }
+      }
+      workout_sessions: {
+        Row: {
+          id: string
+          user_id: string
+          started_at: string
+          ended_at: string | null
+          strengthen_day_id: number | null
+          recover_day_id: number | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          started_at?: string
+          ended_at?: string | null
+          strengthen_day_id?: number | null
+          recover_day_id?: number | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          started_at?: string
+          ended_at?: string | null
+          strengthen_day_id?: number | null
+          recover_day_id?: number | null
+          created_at?: string
+        }
+      }
+      muscle_fir_assessments: {
+        Row: {
+          id: number
+          user_id: string
+          body_muscle_id: number
+          level: FirLevel
+          score: number | null
+          notes: string | null
+          assessed_at: string
+          created_at: string
+        }
+        Insert: {
+          id?: number
+          user_id: string
+          body_muscle_id: number
+          level: FirLevel
+          score?: number | null
+          notes?: string | null
+          assessed_at?: string
+          created_at?: string
+        }
+        Update: {
+          id?: number
+          user_id?: string
+          body_muscle_id?: number
+          level?: FirLevel
+          score?: number | null
+          notes?: string | null
+          assessed_at?: string
+          created_at?: string
         }
       }
       user_exercise_notes: {
@@ -154,6 +286,192 @@ export type Database = {
           updated_at?: string
         }
       }
+      tight_muscles: {
+        Row: {
+          id: number
+          user_id: string
+          body_muscle_id: number
+          section: TightMuscleSection | null
+          flagged_at: string
+          cleared_at: string | null
+          updated_at: string
+        }
+        Insert: {
+          id?: number
+          user_id: string
+          body_muscle_id: number
+          section?: TightMuscleSection | null
+          flagged_at?: string
+          cleared_at?: string | null
+          updated_at?: string
+        }
+        Update: {
+          id?: number
+          user_id?: string
+          body_muscle_id?: number
+          section?: TightMuscleSection | null
+          flagged_at?: string
+          cleared_at?: string | null
+          updated_at?: string
+        }
+      }
+      mobility_plans: {
+        Row: {
+          id: number
+          user_id: string
+          plan_date: string
+          body_muscle_ids: number[]
+          exercise_ids: number[]
+          completed_exercise_ids: number[]
+          updated_at: string
+        }
+        Insert: {
+          id?: number
+          user_id: string
+          plan_date: string
+          body_muscle_ids?: number[]
+          exercise_ids?: number[]
+          completed_exercise_ids?: number[]
+          updated_at?: string
+        }
+        Update: {
+          id?: number
+          user_id?: string
+          plan_date?: string
+          body_muscle_ids?: number[]
+          exercise_ids?: number[]
+          completed_exercise_ids?: number[]
+          updated_at?: string
+        }
+      }
+      kit_profiles: {
+        Row: {
+          id: number
+          user_id: string
+          name: string
+          kit_ids: number[]
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: number
+          user_id: string
+          name: string
+          kit_ids?: number[]
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: number
+          user_id?: string
+          name?: string
+          kit_ids?: number[]
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      exercise_swaps: {
+        Row: {
+          id: number
+          user_id: string
+          user_day_exercise_id: number
+          original_exercise_id: number
+          replacement_exercise_id: number
+          scope: SwapScope
+          swap_date: string
+          reason: string
+          restored_at: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: number
+          user_id: string
+          user_day_exercise_id: number
+          original_exercise_id: number
+          replacement_exercise_id: number
+          scope: SwapScope
+          swap_date: string
+          reason: string
+          restored_at?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: number
+          user_id?: string
+          user_day_exercise_id?: number
+          original_exercise_id?: number
+          replacement_exercise_id?: number
+          scope?: SwapScope
+          swap_date?: string
+          reason?: string
+          restored_at?: string | null
+          created_at?: string
+        }
+      }
+      profiles: {
+        Row: {
+          id: string
+          display_name: string | null
+          avatar_url: string | null
+          weight_unit: WeightUnit
+          default_rest_seconds: number | null
+          fitness_level: FitnessLevel
+          training_goals: GoalCategory[]
+          active_kit_profile_id: number | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id: string
+          display_name?: string | null
+          avatar_url?: string | null
+          weight_unit?: WeightUnit
+          default_rest_seconds?: number | null
+          fitness_level?: FitnessLevel
+          training_goals?: GoalCategory[]
+          active_kit_profile_id?: number | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          display_name?: string | null
+          avatar_url?: string | null
+          weight_unit?: WeightUnit
+          default_rest_seconds?: number | null
+          fitness_level?: FitnessLevel
+          training_goals?: GoalCategory[]
+          active_kit_profile_id?: number | null
+          created_at?: string
+          updated_at?: string
+        }
+      }
+    }
+    views: {
+      workout_history: {
+        Row: {
+          id: string
+          user_id: string
+          exercise_id: number
+          exercise_name: string
+          section: string
+          completed_at: string
+          session_id: string | null
+          set_count: number | null
+        }
+      }
+      current_muscle_fir: {
+        Row: {
+          user_id: string
+          body_muscle_id: number
+          muscle_name: string
+          body_section: number
+          map_region: string | null
+          level: FirLevel
+          score: number | null
+          assessed_at: string
+        }
+      }
     }
   }
 }
@@ -163,11 +481,19 @@ export type Exercise = {
   id: number
   name: string
   image: string
-  type: 'warm-up' | 'mobilise' | 'strengthen' | 'recover'
+  type: Section
   instructions?: string
 }
 
 // Extended exercise type with labels
+// How much an exercise works a muscle: its main target, or one it also reaches
+export type MuscleRole = 'primary' | 'secondary'
+
+export type ExerciseMuscle = {
+  body_muscle_id: number
+  role: MuscleRole
+}
+
 export type ExerciseWithLabels = {
   id: number
   name: string
@@ -177,6 +503,10 @@ export type ExerciseWithLabels = {
   video_url_2?: string | null
   video_url_3?: string | null
   body_muscle?: number | null
+  // exercise_kit needed, if any
+  kit?: number | null
+  // Every muscle the exercise works, from exercise_muscles
+  muscles?: ExerciseMuscle[]
   labels: {
     label_name: string
     label_type: string
@@ -193,7 +523,10 @@ export type ExerciseFormData = {
   video_url_2: string | null
   video_url_3: string | null
   category_id: string
-  labels: string[]
+  exercise_group: number | null
+  body_muscle: number | null
+  kit: number | null
+  rest_seconds: number | null
 }
 
 // Auth context type
@@ -227,21 +560,36 @@ export interface CategoryLabelProps {
   className?: string
 }
 
-export interface ExerciseFiltersProps {
-  categories: string[]
-  onFilterChange: (selectedCategories: string[]) => void
+// Filters for GET /api/exercises/search; ids refer to exercise_body_section, exercise_groups,
+// body_muscles and exercise_kit
+export type ExerciseSearchFilters = {
+  q?: string
+  section?: string
+  bodySection?: number
+  group?: number
+  muscles?: number[]
+  kit?: number
+  sort?: 'name' | 'newest' | 'section'
+  page?: number
+  pageSize?: number
 }
 
-export interface BodySectionFilterProps {
-  categories: string[]
-  selectedCategories: string[]
-  onFilterChange: (selected: string[]) => void
+// An exercise found by search, with what's needed to link to it
+export type ExerciseSearchResult = {
+  id: number
+  name: string
+  image: string
+  description: string | null
+  section: Section | null
+  group_name: string | null
+  kit: number | null
 }
 
-export interface FIRFilterProps {
-  categories: string[]
-  selectedCategories: string[]
-  onFilterChange: (selected: string[]) => void
+export type ExerciseSearchPage = {
+  results: ExerciseSearchResult[]
+  total: number
+  page: number
+  pageSize: number
 }
 
 export interface CollapsibleBoxProps {
@@ -254,7 +602,7 @@ export interface CollapsibleBoxProps {
 export interface WorkoutLoggerProps {
   exerciseId: number
   exerciseName: string
-  exerciseType: 'warm-up' | 'mobilise' | 'strengthen' | 'recover'
+  exerciseType: Section
 }
 
 export interface ShareWorkoutProps {
@@ -287,12 +635,213 @@ export type ExerciseGroup = {
   image_url: string | null
   body_sec: number
   category_id?: string
+  rest_seconds?: number | null
+}
+
+export type WeightUnit = 'kg' | 'lb'
+
+// A single logged set of a strength exercise
+export type WorkoutSet = Database['public']['tables']['workout_sets']['Row']
+
+// Values entered by the user for a new set
+export type WorkoutSetInput = {
+  reps: number
+  load: number | null
+  unit: WeightUnit
+  rpe: number | null
+  rest_seconds: number | null
+}
+
+// One Warm up -> Mobilise -> Strengthen -> Recover visit
+export type WorkoutSession = Database['public']['tables']['workout_sessions']['Row']
+
+// A completed exercise or one logged set, as shown in workout history
+export type WorkoutHistoryEntry = Database['public']['views']['workout_history']['Row']
+
+export type GoalCategory = 'pain' | 'posture' | 'performance' | 'physique'
+
+export type FitnessLevel = 'beginner' | 'intermediate' | 'advanced'
+
+// The user's display name, avatar and training preferences
+export type Profile = Database['public']['tables']['profiles']['Row']
+
+// Settings the user edits on /record/settings; the avatar is changed by uploading a file
+export type ProfileSettings = Pick<
+  Profile,
+  'display_name' | 'weight_unit' | 'default_rest_seconds' | 'fitness_level' | 'training_goals'
+>
+
+// A piece of equipment an exercise can need
+export type Kit = {
+  id: number
+  name: string
+}
+
+// Equipment the user has in one place, e.g. "Home - dumbbells only"
+export type KitProfile = Pick<
+  Database['public']['tables']['kit_profiles']['Row'],
+  'id' | 'name' | 'kit_ids'
+>
+
+// 'today' swaps an exercise for one day only; 'permanent' until the user restores the original
+export type SwapScope = 'today' | 'permanent'
+
+// What the user sends to swap an exercise on one of their training days
+export type ExerciseSwapInput = {
+  user_day_exercise_id: number
+  replacement_exercise_id: number
+  scope: SwapScope
+  swap_date: string
+  reason: string
+}
+
+// A change made on this device, waiting in the outbox until it reaches the database
+export type OutboxOperation =
+  | {
+      kind: 'workout_log'
+      data: {
+        exercise_id: number
+        exercise_name: string
+        exercise_type: string
+        completed_at: string
+        session_id: string | null
+      }
+    }
+  | { kind: 'exercise_note'; data: { exercise_id: number; notes: string } }
+  | { kind: 'goal_note'; data: { category: GoalCategory; notes: string } }
+  | {
+      kind: 'tight_muscle'
+      data: {
+        body_muscle_id: number
+        section: TightMuscleSection | null
+        flagged_at: string
+        cleared_at: string | null
+      }
+    }
+  | { kind: 'mobility_plan'; data: MobilityPlan }
+
+export type OutboxEntry = OutboxOperation & {
+  // Identifies what the change is to, so a newer edit of the same note replaces a queued one
+  key: string
+  // Generated on the device; stored on workout_logs so a retried insert can't duplicate the row
+  client_id: string
+  user_id: string
+  // When the change was made, used to keep the newest edit when devices disagree
+  updated_at: string
+  attempts: number
+}
+
+// client_ids of the queued changes the server saved, skipped as older than the stored row,
+// turned down as invalid, or failed to save and wants retried
+export type SyncResult = {
+  applied: string[]
+  stale: string[]
+  rejected: string[]
+  failed: string[]
+}
+
+export type SyncStatus = {
+  state: 'idle' | 'syncing' | 'offline' | 'error'
+  pending: number
+  lastSyncedAt: string | null
+}
+
+// A muscle the user flagged as tight, kept on Mobilise's "Recently tight" list until cleared
+export type TightMuscle = {
+  body_muscle_id: number
+  muscle_name: string
+  // Where it was noticed; null for muscles carried over from the old free-text field
+  section: TightMuscleSection | null
+  flagged_at: string
+  cleared_at: string | null
+}
+
+// The user's Mobilise routine for one day, kept so they can leave and pick it up again
+export type MobilityPlan = {
+  // Local date the plan is for, as yyyy-MM-dd
+  plan_date: string
+  body_muscle_ids: number[]
+  // Stretches for the selected muscles, in the order they're shown
+  exercise_ids: number[]
+  completed_exercise_ids: number[]
+}
+
+// Functional Imbalance Risk of a muscle, from least to most at risk
+export type FirLevel = 'low' | 'moderate' | 'high'
+
+// One FIR assessment of a muscle, kept as history
+export type FirAssessment = Database['public']['tables']['muscle_fir_assessments']['Row']
+
+// A muscle's latest FIR level, with what's needed to draw it on the body map
+export type MuscleFir = Database['public']['views']['current_muscle_fir']['Row']
+
+// A client as listed in the coach portal
+export type AdminClient = {
+  id: string
+  email: string
+  created_at: string
+  last_sign_in_at: string | null
 }
 
-export type OfflineWorkoutLog = {
+// An exercise assigned to a client's training day
+export type AdminDayExercise = {
+  id: number
   exercise_id: number
-  exercise_name: string
-  exercise_type: string
-  completed_at: string
-  synced: boolean
+  name: string
+  image_url: string | null
+  group_name: string | null
+  sort_order: number
+}
+
+// A client's Day N for one section, with its image and exercises in order
+export type AdminTrainingDay = {
+  day_id: number
+  image_url: string | null
+  exercises: AdminDayExercise[]
+}
+
+// A swap a client made on one of their training days, for the coach to review
+export type AdminExerciseSwap = {
+  id: number
+  day_id: number
+  original_name: string
+  replacement_name: string
+  scope: SwapScope
+  swap_date: string
+  reason: string
+  restored_at: string | null
+  created_at: string
+}
+
+// An exercise the coach can add to a training day
+export type AdminExerciseOption = {
+  id: number
+  name: string
+  image_url: string | null
+  group_id: number | null
+  group_name: string | null
+}
+
+// An exercise as listed in the exercise library, in section order
+export type AdminExercise = {
+  id: number
+  name: string
+  image_url: string | null
+  sort_order: number
+  group_name: string | null
+}
+
+// An exercise group with the rest its exercises use when they don't set their own
+export type AdminExerciseGroup = {
+  id: number
+  name: string
+  rest_seconds: number | null
+}
+
+// Choices offered by the exercise form
+export type ExerciseFormOptions = {
+  categories: { id: string; name: string }[]
+  groups: { id: number; name: string }[]
+  muscles: { id: number; name: string }[]
+  kits: { id: number; name: string }[]
 }
@@ -0,0 +1,87 @@
+import { createClient, type User } from '@supabase/supabase-js'
+import { NextResponse } from 'next/server'
+import { supabaseServer } from '@/lib/supabase'
+import { getBearerToken } from '@/lib/staff-auth'
+import type { Database } from '@/lib/types'
+
+// Queries run as the user, so row level security limits them to the user's own rows
+export type UserClient = ReturnType<typeof createClient<Database>>
+
+export interface AuthenticatedUser {
+  user: User
+  supabase: UserClient
+}
+
+// Thrown when a request has no valid session or asks for another user's data
+export class AuthError extends Error {
+  constructor(
+    message: string,
+    readonly status: 401 | 403
+  ) {
+    super(message)
+    this.name = 'AuthError'
+  }
+}
+
+/**
+ * Creates a Supabase client that acts as the user the access token belongs to
+ */
+export function createUserClient(accessToken: string): UserClient {
+  return createClient<Database>(
+    process.env.SUPABASE_URL || '',
+    process.env.SUPABASE_ANON_KEY || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY || '',
+    {
+      auth: {
+        persistSession: false,
+        autoRefreshToken: false,
+      },
+      global: {
+        headers: { Authorization: `Bearer ${accessToken}` },
+      },
+    }
+  )
+}
+
+/**
+ * Resolves a Supabase access token to the signed-in user and a client bound to them.
+ * User actions and routes take the caller's token rather than trusting a user id.
+ * @param userId - A user id sent by the caller, which must be the token's user
+ * @throws AuthError if the token is missing or invalid, or belongs to a different user
+ */
+export async function requireUser(
+  accessToken: string | null | undefined,
+  userId?: string | null
+): Promise<AuthenticatedUser> {
+  if (!accessToken) {
+    throw new AuthError('Unauthorized', 401)
+  }
+
+  const { data, error } = await supabaseServer.auth.getUser(accessToken)
+  if (error || !data.user) {
+    throw new AuthError('Unauthorized', 401)
+  }
+
+  if (userId && userId !== data.user.id) {
+    throw new AuthError('Forbidden', 403)
+  }
+
+  return { user: data.user, supabase: createUserClient(accessToken) }
+}
+
+// Authenticates a route request from its Authorization header
+export function requireRequestUser(
+  request: Request,
+  userId?: string | null
+): Promise<AuthenticatedUser> {
+  return requireUser(getBearerToken(request), userId)
+}
+
+/**
+ * Turns an AuthError into the matching 401 or 403 response
+ * @returns The response, or null if the error isn't an auth failure
+ */
+export function authErrorResponse(error: unknown): NextResponse | null {
+  return error instanceof AuthError
+    ? NextResponse.json({ error: error.message }, { status: error.status })
+    : null
+}
@@ -0,0 +1,73 @@
+import { NextResponse, type NextRequest } from 'next/server'
+import { createMiddlewareClient } from '@supabase/auth-helpers-nextjs'
+import { getUserRole } from '@/lib/roles'
+import {
+  getAllowedRoles,
+  getLoginUrl,
+  getSafeReturnTo,
+  isPublicPath,
+  LOGIN_PATH,
+  RETURN_TO_PARAM,
+} from '@/lib/routes'
+import type { Database } from '@/lib/types'
+
+// Redirects keep any cookies the session refresh wrote to the original response
+function redirect(request: NextRequest, response: NextResponse, path: string) {
+  const redirectResponse = NextResponse.redirect(new URL(path, request.url))
+  response.cookies.getAll().forEach(cookie => redirectResponse.cookies.set(cookie))
+  return redirectResponse
+}
+
+/**
+ * Checks the Supabase session cookie before a page renders. Signed-out users are sent to
+ * the login page with a return-to parameter, and pages in ROLE_ROUTES are limited to the
+ * roles listed there.
+ */
+export async function middleware(request: NextRequest) {
+  const response = NextResponse.next()
+  const supabase = createMiddlewareClient<Database>({ req: request, res: response })
+
+  // Refreshes an expired access token and writes the new session cookies to the response
+  const {
+    data: { session },
+  } = await supabase.auth.getSession()
+
+  const { pathname, search, searchParams } = request.nextUrl
+
+  if (isPublicPath(pathname)) {
+    if (session && pathname === LOGIN_PATH) {
+      return redirect(request, response, getSafeReturnTo(searchParams.get(RETURN_TO_PARAM)) ?? '/')
+    }
+    return response
+  }
+
+  if (!session) {
+    return redirect(request, response, getLoginUrl(`${pathname}${search}`))
+  }
+
+  const allowedRoles = getAllowedRoles(pathname)
+  if (allowedRoles) {
+    // The session cookie isn't verified, so ask Supabase Auth for the user before trusting
+    // its role
+    const {
+      data: { user },
+    } = await supabase.auth.getUser()
+
+    if (!user) {
+      return redirect(request, response, getLoginUrl(`${pathname}${search}`))
+    }
+    if (!allowedRoles.includes(getUserRole(user))) {
+      return redirect(request, response, '/')
+    }
+  }
+
+  return response
+}
+
+export const config = {
+  // API routes check the bearer token themselves; static files, the service worker and
+  // the manifest must load without a session
+  matcher: [
+    '/((?!api/|_next/static|_next/image|sw.js|manifest.webmanifest|icons/|favicon.ico|.*\\.(?:svg|png|jpg|jpeg|gif|webp)$).*)',
+  ],
+}
@@ -26,6 +26,10 @@ const nextConfig = {
     webpackBuildWorker: true,
     parallelServerBuildTraces: true,
     parallelServerCompiles: true,
+    // Day images are uploaded through a server action
+    serverActions: {
+      bodySizeLimit: '6mb',
+    },
   },
 }
 
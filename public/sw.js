@@ -0,0 +1,196 @@
+// Service worker for training with no signal: keeps the app shell, visited pages, exercise
+// media and training day data available offline. Registered by components/pwa.
+// Bump CACHE_VERSION to drop every cache on the next visit.
+const CACHE_VERSION = 'v1'
+const SHELL_CACHE = `fir-shell-${CACHE_VERSION}`
+// Pages and data belong to the signed-in user; clearUserCaches in lib/pwa.ts deletes them on
+// sign-out, so keep their prefixes in step
+const PAGES_CACHE = `fir-pages-${CACHE_VERSION}`
+const STATIC_CACHE = `fir-static-${CACHE_VERSION}`
+const MEDIA_CACHE = `fir-media-${CACHE_VERSION}`
+const DATA_CACHE = `fir-data-${CACHE_VERSION}`
+const CURRENT_CACHES = [SHELL_CACHE, PAGES_CACHE, STATIC_CACHE, MEDIA_CACHE, DATA_CACHE]
+
+const OFFLINE_URL = '/offline'
+
+const SHELL_URLS = [
+  '/',
+  '/mobilise',
+  '/strengthen',
+  '/recover',
+  '/record',
+  OFFLINE_URL,
+  '/manifest.webmanifest',
+  '/icons/icon.svg',
+  '/placeholder.svg',
+]
+
+// API responses kept for offline use; always fetched fresh when there's a connection
+const DATA_PATHS = ['/api/user-day-exercises', '/api/exercises', '/api/body-muscles']
+
+// Oldest media is dropped past this many entries
+const MAX_MEDIA_ENTRIES = 400
+
+async function addToCache(cache, url) {
+  const response = await fetch(url)
+  if (!isCacheable(response)) throw new Error(`Could not cache ${url}`)
+  await cache.put(url, response)
+}
+
+self.addEventListener('install', event => {
+  event.waitUntil(
+    caches
+      .open(SHELL_CACHE)
+      // One missing page shouldn't stop the worker installing
+      .then(cache => Promise.allSettled(SHELL_URLS.map(url => addToCache(cache, url))))
+      .then(() => self.skipWaiting())
+  )
+})
+
+self.addEventListener('activate', event => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then(keys =>
+        Promise.all(
+          keys
+            .filter(key => key.startsWith('fir-') && !CURRENT_CACHES.includes(key))
+            .map(key => caches.delete(key))
+        )
+      )
+      .then(() => self.clients.claim())
+  )
+})
+
+const isMedia = (request, url) =>
+  request.destination === 'image' ||
+  request.destination === 'video' ||
+  url.pathname.includes('/storage/v1/object/public/')
+
+async function trimCache(cacheName, maxEntries) {
+  const cache = await caches.open(cacheName)
+  const keys = await cache.keys()
+  await Promise.all(
+    keys.slice(0, Math.max(0, keys.length - maxEntries)).map(key => cache.delete(key))
+  )
+}
+
+// Signed-out page loads are redirected to the login page by middleware.ts; caching that
+// under the page's URL would show the login page offline
+const isCacheable = response => response.ok && !response.redirected
+
+// Fresh when online; the last good copy otherwise
+async function networkFirst(request, cacheName, fallbackUrl) {
+  try {
+    const response = await fetch(request)
+    if (isCacheable(response)) {
+      const cache = await caches.open(cacheName)
+      cache.put(request, response.clone())
+    }
+    return response
+  } catch (error) {
+    const cached = await caches.match(request, { ignoreVary: true })
+    if (cached) return cached
+    if (fallbackUrl) {
+      const fallback = await caches.match(fallbackUrl, { ignoreVary: true })
+      if (fallback) return fallback
+    }
+    throw error
+  }
+}
+
+// Hashed build files never change, so a cached copy is always right
+async function cacheFirst(request, cacheName) {
+  const cached = await caches.match(request)
+  if (cached) return cached
+
+  const response = await fetch(request)
+  if (response.ok) {
+    const cache = await caches.open(cacheName)
+    cache.put(request, response.clone())
+  }
+  return response
+}
+
+// Serve media from the cache straight away and refresh it in the background
+async function staleWhileRevalidate(request, cacheName) {
+  const cache = await caches.open(cacheName)
+  const cached = await cache.match(request)
+
+  const refresh = fetch(request)
+    .then(response => {
+      // Images from Supabase storage load without CORS, so their responses are opaque
+      if (response.ok || response.type === 'opaque') {
+        cache.put(request, response.clone()).then(() => trimCache(cacheName, MAX_MEDIA_ENTRIES))
+      }
+      return response
+    })
+    .catch(error => {
+      if (cached) return cached
+      throw error
+    })
+
+  return cached || refresh
+}
+
+self.addEventListener('fetch', event => {
+  const { request } = event
+  if (request.method !== 'GET') return
+
+  const url = new URL(request.url)
+  const sameOrigin = url.origin === self.location.origin
+
+  if (request.mode === 'navigate') {
+    event.respondWith(networkFirst(request, PAGES_CACHE, OFFLINE_URL))
+  } else if (sameOrigin && url.pathname.startsWith('/_next/static/')) {
+    event.respondWith(cacheFirst(request, STATIC_CACHE))
+  } else if (sameOrigin && DATA_PATHS.some(path => url.pathname.startsWith(path))) {
+    event.respondWith(networkFirst(request, DATA_CACHE))
+  } else if (isMedia(request, url)) {
+    event.respondWith(staleWhileRevalidate(request, MEDIA_CACHE))
+  }
+})
+
+// Pre-download for offline use, e.g. a training day:
+// { type: 'CACHE_URLS', pages, data, media, accessToken }. The token signs the data requests.
+async function cacheUrls({ pages = [], data = [], media = [], accessToken }) {
+  const dataHeaders = accessToken ? { Authorization: `Bearer ${accessToken}` } : {}
+  const groups = [
+    [PAGES_CACHE, pages, url => new Request(url)],
+    [DATA_CACHE, data, url => new Request(url, { headers: dataHeaders })],
+    [MEDIA_CACHE, media, url => new Request(url, { mode: 'no-cors' })],
+  ]
+
+  const results = await Promise.all(
+    groups.map(async ([cacheName, urls, toRequest]) => {
+      const cache = await caches.open(cacheName)
+      return Promise.allSettled(
+        urls.map(async url => {
+          const request = toRequest(url)
+          const response = await fetch(request)
+          if (!isCacheable(response) && response.type !== 'opaque') {
+            throw new Error(`Failed to fetch ${url}: ${response.status}`)
+          }
+          await cache.put(request, response)
+        })
+      )
+    })
+  )
+
+  const settled = results.flat()
+  return {
+    cached: settled.filter(result => result.status === 'fulfilled').length,
+    failed: settled.filter(result => result.status === 'rejected').length,
+  }
+}
+
+self.addEventListener('message', event => {
+  if (event.data?.type !== 'CACHE_URLS') return
+
+  const port = event.ports[0]
+  event.waitUntil(
+    cacheUrls(event.data)
+      .then(result => port?.postMessage(result))
+      .catch(error => port?.postMessage({ cached: 0, failed: -1, error: String(error) }))
+  )
+})
@@ -0,0 +1,11 @@
+-- Default rest between strength sets, used by the rest timer after a set is logged.
+-- An exercise's own value wins over its group's; with neither the user's default rest applies.
+
+ALTER TABLE exercises
+ADD COLUMN IF NOT EXISTS rest_seconds INTEGER CHECK (rest_seconds BETWEEN 0 AND 600);
+
+ALTER TABLE exercise_groups
+ADD COLUMN IF NOT EXISTS rest_seconds INTEGER CHECK (rest_seconds BETWEEN 0 AND 600);
+
+-- Both are edited in the coach exercise library: exercises on their edit form, groups on
+-- /admin/exercises/groups
@@ -0,0 +1,22 @@
+-- Support for the coach/admin portal at /admin
+
+-- Coaches and admins are marked in app_metadata, which users cannot edit themselves, e.g.
+-- UPDATE auth.users
+-- SET raw_app_meta_data = raw_app_meta_data || '{"role": "coach"}'
+-- WHERE email = 'coach@example.com';
+
+-- Order of the exercises within a client's training day
+ALTER TABLE user_day_exercise
+ADD COLUMN IF NOT EXISTS sort_order INTEGER NOT NULL DEFAULT 0;
+
+CREATE INDEX IF NOT EXISTS idx_user_day_exercise_user_day_order
+ON user_day_exercise (user_id, day_id, sort_order);
+
+-- One assignment per client, day and section
+CREATE UNIQUE INDEX IF NOT EXISTS idx_user_day_assignments_unique
+ON user_day_assignments (user_id, day_id, category_id);
+
+-- Public bucket for the day images uploaded from the portal (read by getDayImage)
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('day-images', 'day-images', true)
+ON CONFLICT (id) DO NOTHING;
@@ -0,0 +1,59 @@
+-- Which muscles each exercise works. An exercise can work several muscles, one or more of
+-- them as its main target, so a stretch shows up under every muscle it reaches.
+-- Replaces working out an exercise's muscle from a number at the end of its name.
+
+CREATE TABLE IF NOT EXISTS exercise_muscles (
+    exercise_id BIGINT NOT NULL REFERENCES exercises(id) ON DELETE CASCADE,
+    body_muscle_id BIGINT NOT NULL REFERENCES body_muscles(id) ON DELETE CASCADE,
+    role TEXT NOT NULL DEFAULT 'primary' CHECK (role IN ('primary', 'secondary')),
+    PRIMARY KEY (exercise_id, body_muscle_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_exercise_muscles_body_muscle
+ON exercise_muscles (body_muscle_id);
+
+-- Content like exercises: read by signed-in users, written by coaches with the service role
+ALTER TABLE exercise_muscles ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Signed-in users can view exercise muscles"
+ON exercise_muscles FOR SELECT TO authenticated
+USING (true);
+
+-- The exercise form still sets one muscle (exercises.body_muscle); keep it as a primary muscle
+CREATE OR REPLACE FUNCTION sync_exercise_primary_muscle()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP = 'UPDATE' AND OLD.body_muscle IS DISTINCT FROM NEW.body_muscle THEN
+        DELETE FROM exercise_muscles
+        WHERE exercise_id = NEW.id AND body_muscle_id = OLD.body_muscle AND role = 'primary';
+    END IF;
+
+    IF NEW.body_muscle IS NOT NULL THEN
+        INSERT INTO exercise_muscles (exercise_id, body_muscle_id, role)
+        VALUES (NEW.id, NEW.body_muscle, 'primary')
+        ON CONFLICT (exercise_id, body_muscle_id) DO UPDATE SET role = 'primary';
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER exercises_primary_muscle
+AFTER INSERT OR UPDATE OF body_muscle ON exercises
+FOR EACH ROW EXECUTE FUNCTION sync_exercise_primary_muscle();
+
+-- Existing exercises: their body_muscle...
+INSERT INTO exercise_muscles (exercise_id, body_muscle_id, role)
+SELECT e.id, e.body_muscle, 'primary'
+FROM exercises e
+JOIN body_muscles m ON m.id = e.body_muscle
+ON CONFLICT (exercise_id, body_muscle_id) DO NOTHING;
+
+-- ...and any muscle numbers in their names, written as "- 5", "(5)" or " 5" at the end
+INSERT INTO exercise_muscles (exercise_id, body_muscle_id, role)
+SELECT DISTINCT e.id, m.id, 'primary'
+FROM exercises e
+CROSS JOIN LATERAL regexp_matches(e.name, '- (\d+)(?:\s|$)|\((\d+)\)|\s(\d+)$', 'g') AS found(numbers)
+JOIN body_muscles m
+    ON m.id = COALESCE(found.numbers[1], found.numbers[2], found.numbers[3])::BIGINT
+ON CONFLICT (exercise_id, body_muscle_id) DO NOTHING;
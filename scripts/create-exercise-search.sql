@@ -0,0 +1,15 @@
+-- Full-text search over exercise names and descriptions (GET /api/exercises/search).
+-- Matches are filtered here and ordered by the route's sort, not by relevance.
+
+ALTER TABLE exercises
+ADD COLUMN IF NOT EXISTS search_vector TSVECTOR
+GENERATED ALWAYS AS (
+    to_tsvector('english', COALESCE(name, '') || ' ' || COALESCE(ex_description, ''))
+) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_exercises_search_vector
+ON exercises USING GIN (search_vector);
+
+-- Filters used alongside the search
+CREATE INDEX IF NOT EXISTS idx_exercises_exercise_group ON exercises (exercise_group);
+CREATE INDEX IF NOT EXISTS idx_exercises_kit ON exercises (kit);
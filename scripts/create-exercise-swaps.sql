@@ -0,0 +1,62 @@
+-- Exercises a user has swapped on one of their training days, for an alternative from the
+-- same exercise group. The coach's user_day_exercise entry is left as assigned: a swap covers
+-- it either for swap_date only ('today') or until restored ('permanent'), and the latest
+-- swap in force wins. Restoring sets restored_at, so the coach keeps the full history.
+
+CREATE TABLE IF NOT EXISTS exercise_swaps (
+    id BIGSERIAL PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    user_day_exercise_id BIGINT NOT NULL REFERENCES user_day_exercise(id) ON DELETE CASCADE,
+    original_exercise_id BIGINT NOT NULL REFERENCES exercises(id) ON DELETE CASCADE,
+    replacement_exercise_id BIGINT NOT NULL REFERENCES exercises(id) ON DELETE CASCADE,
+    scope TEXT NOT NULL CHECK (scope IN ('today', 'permanent')),
+    swap_date DATE NOT NULL,
+    reason TEXT NOT NULL CHECK (char_length(reason) BETWEEN 1 AND 200),
+    restored_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    CHECK (replacement_exercise_id <> original_exercise_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_exercise_swaps_entry
+ON exercise_swaps (user_day_exercise_id, created_at DESC)
+WHERE restored_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_exercise_swaps_user_created
+ON exercise_swaps (user_id, created_at DESC);
+
+ALTER TABLE exercise_swaps ENABLE ROW LEVEL SECURITY;
+
+-- Users record and restore their own swaps; coaches read them with the service role
+CREATE POLICY "Users can view their own exercise swaps"
+ON exercise_swaps FOR SELECT
+USING (auth.uid() = user_id);
+
+-- Only from the user's own day entry, keeping its exercise as the original, and only to
+-- another exercise in the same group and section
+CREATE POLICY "Users can swap their own day exercises"
+ON exercise_swaps FOR INSERT
+WITH CHECK (
+    auth.uid() = user_id
+    AND restored_at IS NULL
+    AND EXISTS (
+        SELECT 1
+        FROM user_day_exercise
+        JOIN exercises original ON original.id = user_day_exercise.exercise_id
+        JOIN exercises replacement ON replacement.id = exercise_swaps.replacement_exercise_id
+        WHERE user_day_exercise.id = exercise_swaps.user_day_exercise_id
+        AND user_day_exercise.user_id = auth.uid()
+        AND user_day_exercise.exercise_id = exercise_swaps.original_exercise_id
+        AND original.exercise_group IS NOT NULL
+        AND replacement.exercise_group = original.exercise_group
+        AND replacement.category_id = original.category_id
+    )
+);
+
+-- Restoring is the only change a user can make, once, so the coach's history stays as made
+CREATE POLICY "Users can restore their own exercise swaps"
+ON exercise_swaps FOR UPDATE
+USING (auth.uid() = user_id AND restored_at IS NULL)
+WITH CHECK (auth.uid() = user_id AND restored_at IS NOT NULL);
+
+REVOKE UPDATE ON exercise_swaps FROM anon, authenticated;
+GRANT UPDATE (restored_at) ON exercise_swaps TO authenticated;
@@ -0,0 +1,37 @@
+-- Equipment profiles, e.g. "Home - dumbbells only" or "Full gym": the exercise_kit the user
+-- has to hand. Exercises needing kit outside the active profile are flagged, and day pages
+-- suggest an alternative from the same group. Exercises with no kit need nothing.
+
+CREATE TABLE IF NOT EXISTS kit_profiles (
+    id BIGSERIAL PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    name TEXT NOT NULL CHECK (char_length(name) BETWEEN 1 AND 50),
+    kit_ids BIGINT[] NOT NULL DEFAULT '{}',
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_kit_profiles_user ON kit_profiles (user_id);
+
+ALTER TABLE kit_profiles ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own kit profiles"
+ON kit_profiles FOR ALL
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
+
+CREATE OR REPLACE FUNCTION set_kit_profiles_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.updated_at = NOW();
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER kit_profiles_updated_at
+BEFORE UPDATE ON kit_profiles
+FOR EACH ROW EXECUTE FUNCTION set_kit_profiles_updated_at();
+
+-- The profile exercises are checked against; null shows everything as available
+ALTER TABLE profiles
+ADD COLUMN IF NOT EXISTS active_kit_profile_id BIGINT REFERENCES kit_profiles(id) ON DELETE SET NULL;
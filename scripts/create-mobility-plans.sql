@@ -0,0 +1,23 @@
+-- Each user's Mobilise routine for a day: the muscles they picked, the stretches shown for
+-- them in order, and which of those they've done. Lets the user leave Mobilise mid-routine
+-- and carry on later, on any device.
+-- One row per user and local date, synced from the device's outbox (POST /api/sync), which
+-- keeps the most recent edit by comparing updated_at.
+
+CREATE TABLE IF NOT EXISTS mobility_plans (
+    id BIGSERIAL PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    plan_date DATE NOT NULL,
+    body_muscle_ids BIGINT[] NOT NULL DEFAULT '{}',
+    exercise_ids BIGINT[] NOT NULL DEFAULT '{}',
+    completed_exercise_ids BIGINT[] NOT NULL DEFAULT '{}',
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    UNIQUE (user_id, plan_date)
+);
+
+ALTER TABLE mobility_plans ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own mobility plans"
+ON mobility_plans FOR ALL
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
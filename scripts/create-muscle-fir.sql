@@ -0,0 +1,44 @@
+-- Functional Imbalance Risk (FIR) per user and body muscle, replacing the hand-made
+-- user_imbalance_images picture with data. Each assessment is kept so levels have a history.
+
+CREATE TABLE IF NOT EXISTS muscle_fir_assessments (
+    id BIGSERIAL PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    body_muscle_id BIGINT NOT NULL REFERENCES body_muscles(id) ON DELETE CASCADE,
+    level TEXT NOT NULL CHECK (level IN ('low', 'moderate', 'high')),
+    -- Optional raw score behind the level, 0 (balanced) to 100 (most at risk)
+    score NUMERIC(5, 2) CHECK (score BETWEEN 0 AND 100),
+    notes TEXT,
+    assessed_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_muscle_fir_user_muscle_assessed
+ON muscle_fir_assessments (user_id, body_muscle_id, assessed_at DESC);
+
+ALTER TABLE muscle_fir_assessments ENABLE ROW LEVEL SECURITY;
+
+-- Assessments are written by coaches with the service role; users can only read theirs
+CREATE POLICY "Users can view their own FIR assessments"
+ON muscle_fir_assessments FOR SELECT
+USING (auth.uid() = user_id);
+
+-- Region of the body map each muscle is drawn in (see lib/body-map.ts)
+ALTER TABLE body_muscles
+ADD COLUMN IF NOT EXISTS map_region TEXT;
+
+-- Latest assessment for each of a user's muscles
+CREATE OR REPLACE VIEW current_muscle_fir
+WITH (security_invoker = true) AS
+SELECT DISTINCT ON (a.user_id, a.body_muscle_id)
+    a.user_id,
+    a.body_muscle_id,
+    m.name AS muscle_name,
+    m.body_section,
+    m.map_region,
+    a.level,
+    a.score,
+    a.assessed_at
+FROM muscle_fir_assessments a
+JOIN body_muscles m ON m.id = a.body_muscle_id
+ORDER BY a.user_id, a.body_muscle_id, a.assessed_at DESC;
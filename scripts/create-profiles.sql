@@ -0,0 +1,93 @@
+-- One profile per user: display name, avatar and training preferences, edited on
+-- /record/settings. Read through the user's own session (lib/user-auth.ts), so RLS limits
+-- each user to their own row.
+
+CREATE TABLE IF NOT EXISTS profiles (
+    id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+    display_name TEXT CHECK (char_length(display_name) <= 50),
+    avatar_url TEXT,
+    weight_unit TEXT NOT NULL DEFAULT 'kg' CHECK (weight_unit IN ('kg', 'lb')),
+    -- Rest after a set when neither the exercise nor its group has a default
+    default_rest_seconds INTEGER CHECK (default_rest_seconds BETWEEN 0 AND 600),
+    fitness_level TEXT NOT NULL DEFAULT 'beginner'
+        CHECK (fitness_level IN ('beginner', 'intermediate', 'advanced')),
+    -- Goal categories the user is training for, as on user_goal_notes
+    training_goals TEXT[] NOT NULL DEFAULT '{}'
+        CHECK (training_goals <@ ARRAY['pain', 'posture', 'performance', 'physique']),
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE profiles ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own profile"
+ON profiles FOR SELECT
+USING (auth.uid() = id);
+
+CREATE POLICY "Users can create their own profile"
+ON profiles FOR INSERT
+WITH CHECK (auth.uid() = id);
+
+CREATE POLICY "Users can update their own profile"
+ON profiles FOR UPDATE
+USING (auth.uid() = id)
+WITH CHECK (auth.uid() = id);
+
+CREATE OR REPLACE FUNCTION set_profiles_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.updated_at = NOW();
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER profiles_updated_at
+BEFORE UPDATE ON profiles
+FOR EACH ROW EXECUTE FUNCTION set_profiles_updated_at();
+
+-- Every new account gets a profile with the defaults
+CREATE OR REPLACE FUNCTION create_profile_for_new_user()
+RETURNS TRIGGER AS $$
+BEGIN
+    INSERT INTO public.profiles (id) VALUES (NEW.id) ON CONFLICT (id) DO NOTHING;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER on_auth_user_created_profile
+AFTER INSERT ON auth.users
+FOR EACH ROW EXECUTE FUNCTION create_profile_for_new_user();
+
+-- Existing accounts, carrying over the fitness level some have in user_metadata
+INSERT INTO profiles (id, fitness_level)
+SELECT
+    id,
+    CASE lower(raw_user_meta_data ->> 'fitness_level')
+        WHEN 'intermediate' THEN 'intermediate'
+        WHEN 'advanced' THEN 'advanced'
+        ELSE 'beginner'
+    END
+FROM auth.users
+ON CONFLICT (id) DO NOTHING;
+
+-- Avatars live in a public bucket, one folder per user: avatars/<user id>/<file>
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('avatars', 'avatars', true)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Users can upload their own avatar"
+ON storage.objects FOR INSERT TO authenticated
+WITH CHECK (bucket_id = 'avatars' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+CREATE POLICY "Users can replace their own avatar"
+ON storage.objects FOR UPDATE TO authenticated
+USING (bucket_id = 'avatars' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+CREATE POLICY "Users can delete their own avatar"
+ON storage.objects FOR DELETE TO authenticated
+USING (bucket_id = 'avatars' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+-- Listing a folder needs SELECT; public URLs work without it
+CREATE POLICY "Users can list their own avatars"
+ON storage.objects FOR SELECT TO authenticated
+USING (bucket_id = 'avatars' AND (storage.foldername(name))[1] = auth.uid()::text);
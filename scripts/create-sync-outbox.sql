@@ -0,0 +1,20 @@
+-- Server side of the offline outbox (lib/offline-sync.ts, POST /api/sync)
+
+-- Id generated on the device for each completed exercise, so a retried sync can't add it twice
+ALTER TABLE workout_logs
+ADD COLUMN IF NOT EXISTS client_id UUID;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_workout_logs_client_id
+ON workout_logs (client_id);
+
+-- Mobility limitations are one row per user, upserted on user_id.
+-- Remove any duplicate rows per user before running this.
+CREATE UNIQUE INDEX IF NOT EXISTS idx_mobility_limitations_user
+ON mobility_limitations (user_id);
+
+ALTER TABLE mobility_limitations
+ALTER COLUMN created_at SET DEFAULT NOW();
+
+-- user_exercise_notes (user_id, exercise_id) and user_goal_notes (user_id, goal_category_id)
+-- are already unique, and all three tables keep updated_at, which sync compares to keep the
+-- most recent edit.
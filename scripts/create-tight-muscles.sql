@@ -0,0 +1,44 @@
+-- Mobilise's "Recently tight" list: muscles the user flagged as tight, where they noticed it
+-- and when they cleared it. Replaces the free-text mobility_limitations field.
+-- One row per user and muscle, synced from the device's outbox (POST /api/sync), which keeps
+-- the most recent edit by comparing updated_at. Flagging a cleared muscle again reuses its row.
+
+CREATE TABLE IF NOT EXISTS tight_muscles (
+    id BIGSERIAL PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    body_muscle_id BIGINT NOT NULL REFERENCES body_muscles(id) ON DELETE CASCADE,
+    -- Null for muscles carried over from mobility_limitations below
+    section TEXT CHECK (section IN ('warm-up', 'strengthen', 'recover')),
+    flagged_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    cleared_at TIMESTAMPTZ,
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    UNIQUE (user_id, body_muscle_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_tight_muscles_user_active
+ON tight_muscles (user_id)
+WHERE cleared_at IS NULL;
+
+ALTER TABLE tight_muscles ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own tight muscles"
+ON tight_muscles FOR ALL
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
+
+-- Users were asked to write muscle numbers in the old field ("write 11 for lower back"), so
+-- carry over every number that matches a muscle
+INSERT INTO tight_muscles (user_id, body_muscle_id, flagged_at, updated_at)
+SELECT DISTINCT ON (limitations.user_id, muscles.id)
+    limitations.user_id,
+    muscles.id,
+    COALESCE(limitations.updated_at, NOW()),
+    COALESCE(limitations.updated_at, NOW())
+FROM mobility_limitations AS limitations
+CROSS JOIN LATERAL regexp_matches(limitations.limitations, '\d+', 'g') AS found(numbers)
+JOIN body_muscles AS muscles ON muscles.id = found.numbers[1]::BIGINT
+ON CONFLICT (user_id, body_muscle_id) DO NOTHING;
+
+-- mobility_limitations is no longer read or written by the app. Drop it once the carried-over
+-- lists have been checked:
+-- DROP TABLE mobility_limitations;
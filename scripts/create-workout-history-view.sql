@@ -0,0 +1,48 @@
+-- Read model for the workout history calendar on /record/history
+-- Combines completed exercises (workout_logs) with logged strength sets (workout_sets).
+-- Each set is its own row: the app collapses an exercise's sets by the user's local day,
+-- which the database doesn't know
+
+CREATE OR REPLACE VIEW workout_history
+WITH (security_invoker = true) AS
+SELECT
+    'log-' || l.id AS id,
+    l.user_id,
+    l.exercise_id,
+    l.exercise_name,
+    l.exercise_type AS section,
+    l.completed_at,
+    l.session_id,
+    NULL::INTEGER AS set_count
+FROM workout_logs l
+UNION ALL
+SELECT
+    'set-' || s.id AS id,
+    s.user_id,
+    s.exercise_id,
+    e.name AS exercise_name,
+    'strengthen' AS section,
+    s.completed_at,
+    s.session_id,
+    1 AS set_count
+FROM workout_sets s
+JOIN exercises e ON e.id = s.exercise_id;
+
+-- Days with at least one logged exercise, by the caller's local calendar, for highlighting
+-- the history calendar without loading every set in the range
+CREATE OR REPLACE FUNCTION workout_history_days(
+    range_start TIMESTAMPTZ,
+    range_end TIMESTAMPTZ,
+    time_zone TEXT
+)
+RETURNS TABLE (day DATE)
+LANGUAGE sql STABLE SECURITY INVOKER AS $$
+    SELECT DISTINCT (h.completed_at AT TIME ZONE time_zone)::DATE AS day
+    FROM workout_history h
+    WHERE h.user_id = auth.uid()
+      AND h.completed_at >= range_start
+      AND h.completed_at < range_end
+    ORDER BY day;
+$$;
+
+GRANT EXECUTE ON FUNCTION workout_history_days(TIMESTAMPTZ, TIMESTAMPTZ, TEXT) TO authenticated;
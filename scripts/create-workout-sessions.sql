@@ -0,0 +1,32 @@
+-- Workout sessions group the logs of one Warm up -> Mobilise -> Strengthen -> Recover visit
+
+CREATE TABLE IF NOT EXISTS workout_sessions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    started_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    ended_at TIMESTAMPTZ,
+    -- Training days followed during the session (user_day_assignments.day_id)
+    strengthen_day_id INTEGER,
+    recover_day_id INTEGER,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_workout_sessions_user_started
+ON workout_sessions (user_id, started_at DESC);
+
+ALTER TABLE workout_sessions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own sessions"
+ON workout_sessions FOR ALL
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
+
+-- Link logs and sets to the session they were recorded in
+ALTER TABLE workout_logs
+ADD COLUMN IF NOT EXISTS session_id UUID REFERENCES workout_sessions(id) ON DELETE SET NULL;
+
+ALTER TABLE workout_sets
+ADD COLUMN IF NOT EXISTS session_id UUID REFERENCES workout_sessions(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_workout_logs_session ON workout_logs (session_id);
+CREATE INDEX IF NOT EXISTS idx_workout_sets_session ON workout_sets (session_id);
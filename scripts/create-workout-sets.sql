@@ -0,0 +1,29 @@
+-- Per-set strength logging (reps, load, RPE and rest) for Strengthen exercises
+
+CREATE TABLE IF NOT EXISTS workout_sets (
+    id BIGSERIAL PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    exercise_id BIGINT NOT NULL,
+    set_number INTEGER NOT NULL CHECK (set_number > 0),
+    reps INTEGER NOT NULL CHECK (reps >= 0),
+    load NUMERIC(6, 2),
+    unit TEXT NOT NULL DEFAULT 'kg' CHECK (unit IN ('kg', 'lb')),
+    rpe NUMERIC(3, 1) CHECK (rpe BETWEEN 1 AND 10),
+    rest_seconds INTEGER CHECK (rest_seconds >= 0),
+    completed_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE workout_sets
+ADD CONSTRAINT fk_workout_sets_exercise_id
+FOREIGN KEY (exercise_id) REFERENCES exercises(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS idx_workout_sets_user_exercise
+ON workout_sets (user_id, exercise_id, completed_at DESC);
+
+ALTER TABLE workout_sets ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own sets"
+ON workout_sets FOR ALL
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
@@ -0,0 +1,74 @@
+-- Row level security for per-user data read and written through lib/user-auth.ts.
+-- User actions and routes query as the signed-in user, so these policies are what stop one
+-- user reading or overwriting another's rows. Coach and admin tools keep the service role.
+
+-- Training days and their exercises are assigned by coaches; users can only read theirs
+ALTER TABLE user_day_assignments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own training days"
+ON user_day_assignments FOR SELECT
+USING (auth.uid() = user_id);
+
+ALTER TABLE user_day_exercise ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own day exercises"
+ON user_day_exercise FOR SELECT
+USING (auth.uid() = user_id);
+
+ALTER TABLE user_imbalance_images ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own imbalance image"
+ON user_imbalance_images FOR SELECT
+USING (auth.uid() = user_id);
+
+-- Notes, limitations and completed exercises are written by the user (POST /api/sync)
+ALTER TABLE user_exercise_notes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own exercise notes"
+ON user_exercise_notes FOR ALL
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
+
+ALTER TABLE user_goal_notes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own goal notes"
+ON user_goal_notes FOR ALL
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
+
+ALTER TABLE mobility_limitations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own mobility limitations"
+ON mobility_limitations FOR ALL
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
+
+ALTER TABLE workout_logs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own workout logs"
+ON workout_logs FOR ALL
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
+
+-- Exercise content is embedded in per-user queries (day exercises, grouped sets and the
+-- workout_history view), so signed-in users need to read it. Policies have no effect on
+-- tables without row level security enabled.
+CREATE POLICY "Signed-in users can view exercises"
+ON exercises FOR SELECT TO authenticated
+USING (true);
+
+CREATE POLICY "Signed-in users can view exercise groups"
+ON exercise_groups FOR SELECT TO authenticated
+USING (true);
+
+CREATE POLICY "Signed-in users can view body sections"
+ON exercise_body_section FOR SELECT TO authenticated
+USING (true);
+
+CREATE POLICY "Signed-in users can view kit"
+ON exercise_kit FOR SELECT TO authenticated
+USING (true);
+
+CREATE POLICY "Signed-in users can view body muscles"
+ON body_muscles FOR SELECT TO authenticated
+USING (true);